@@ -2,10 +2,13 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { QuiloxColors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useWallet } from '@/hooks/useWallet';
+import { amountOutstanding, BillSession, billSessionManager } from '@/lib/bill-sessions';
 import { supabase } from '@/lib/supabase';
+import { walletManager } from '@/lib/wallet-manager';
 import { logger } from '@/utils/logger';
+import { useFocusEffect } from '@react-navigation/native';
 import { router } from 'expo-router';
-import React, { useState } from 'react';
+import React, { useCallback, useState } from 'react';
 import { ActivityIndicator, Alert, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
 export default function PayBillScreen() {
@@ -19,6 +22,14 @@ export default function PayBillScreen() {
   const [customAmount, setCustomAmount] = useState('');
   const [billDescription, setBillDescription] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [openBills, setOpenBills] = useState<BillSession[]>([]);
+
+  // Split bills the member has been added to
+  useFocusEffect(
+    useCallback(() => {
+      billSessionManager.getOpenSessions().then(setOpenBills);
+    }, [])
+  );
 
   const quickAmounts = [1000, 2500, 5000, 10000, 25000, 50000];
 
@@ -58,33 +69,18 @@ export default function PayBillScreen() {
       // Generate unique transaction reference
       const txRef = `QLXBILL-${Date.now()}-${user.id.substring(0, 8)}`;
 
-      // Create transaction record (debit)
-      const { error: txError } = await supabase
-        .from('wallet_transactions')
-        .insert({
-          user_id: user.id,
-          wallet_id: wallet.id,
-          type: 'debit',
-          amount: amount,
-          status: 'completed',
-          reference: txRef,
-          description: billDescription,
-          payment_method: 'wallet',
-        });
+      // Debit the wallet and record the transaction atomically
+      const result = await walletManager.debit({
+        walletId: wallet.id,
+        amount,
+        reference: txRef,
+        description: billDescription,
+        paymentMethod: 'wallet',
+      });
 
-      if (txError) throw txError;
+      if (!result.success) throw new Error(result.error || 'Unable to debit wallet');
 
-      // Update wallet balance
-      const newBalance = walletBalance - amount;
-      const { error: balanceError } = await supabase
-        .from('user_wallets')
-        .update({ 
-          balance: newBalance,
-          updated_at: new Date().toISOString() 
-        })
-        .eq('id', wallet.id);
-
-      if (balanceError) throw balanceError;
+      const newBalance = result.newBalance ?? walletBalance - amount;
 
       logger.info('Bill payment successful:', { txRef, amount, description: billDescription });
 
@@ -141,6 +137,42 @@ export default function PayBillScreen() {
           </Text>
         </View>
 
+        {/* Scan the bill QR staff show at the table */}
+        <TouchableOpacity
+          style={[styles.billRow, styles.scanRow, { backgroundColor: QuiloxColors.darkGray }]}
+          onPress={() => router.push('/scan-bill')}
+        >
+          <IconSymbol name="qrcode" size={24} color={QuiloxColors.gold} />
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.billTitle, { color: '#fff' }]}>Scan Bill QR</Text>
+            <Text style={[styles.billMeta, { color: '#999' }]}>Amount and details filled in from your server&apos;s code</Text>
+          </View>
+          <IconSymbol name="chevron.right" size={18} color="#666" />
+        </TouchableOpacity>
+
+        {/* Open split bills */}
+        {openBills.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: '#fff' }]}>Table Bills</Text>
+            {openBills.map((bill) => (
+              <TouchableOpacity
+                key={bill.id}
+                style={[styles.billRow, { backgroundColor: QuiloxColors.darkGray }]}
+                onPress={() => router.push({ pathname: '/bill-session', params: { id: bill.id } })}
+              >
+                <IconSymbol name="person.2" size={20} color={QuiloxColors.gold} />
+                <View style={{ flex: 1 }}>
+                  <Text style={[styles.billTitle, { color: '#fff' }]}>{bill.description || 'Split table bill'}</Text>
+                  <Text style={[styles.billMeta, { color: '#999' }]}>
+                    ₦{amountOutstanding(bill).toLocaleString()} of ₦{bill.total.toLocaleString()} left • {bill.members.length} guests
+                  </Text>
+                </View>
+                <IconSymbol name="chevron.right" size={18} color="#666" />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Bill Description */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: '#fff' }]}>Bill Description</Text>
@@ -307,6 +339,10 @@ const styles = StyleSheet.create({
   },
   section: { marginBottom: 32 },
   sectionTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 16 },
+  billRow: { flexDirection: 'row', alignItems: 'center', gap: 12, padding: 16, borderRadius: 12, marginBottom: 8 },
+  scanRow: { marginBottom: 32, borderWidth: 1, borderColor: QuiloxColors.gold },
+  billTitle: { fontSize: 15, fontWeight: 'bold' },
+  billMeta: { fontSize: 12, marginTop: 4 },
   descriptionInput: {
     padding: 16,
     borderRadius: 12,
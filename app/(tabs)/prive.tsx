@@ -12,7 +12,7 @@ export default function PriveScreen() {
   const isDark = true; // Force dark mode
 
   // Use wallet hook for real data
-  const { wallet, qualification, priveOnboarded, loading, refreshing, refreshBalance, loadWallet, isPriveMember } = useWallet();
+  const { wallet, qualification, membership, priveOnboarded, loading, refreshing, refreshBalance, loadWallet, isPriveMember } = useWallet();
   const pathname = usePathname();
 
   // Refresh data when screen comes into focus (native)
@@ -32,19 +32,15 @@ export default function PriveScreen() {
   }, [pathname, loadWallet]);
 
   const walletBalance = wallet?.balance || 0;
-  const loyaltyPoints = wallet?.loyalty_points || 0; // Points only added on top-up, not deducted on spend
-  const membershipTier = walletBalance >= 100000 ? 'Gold' : walletBalance >= 50000 ? 'Silver' : 'Bronze';
+  const loyaltyPoints = wallet?.loyalty_points || 0; // Cached balance of the points ledger (see lib/loyalty.ts)
+  // Tier and benefits come from rolling 12-month spend (see lib/membership.ts)
+  const tier = membership?.tier;
+  const tierColor = tier?.color || QuiloxColors.secondary;
   const bookingCount = qualification?.bookingCount || 0;
+  const benefits = tier?.benefits || [];
 
-  const benefits = [
-    { title: '15% booking discount', description: 'Save on every reservation', icon: 'percent' },
-    { title: 'Exclusive events', description: 'Access to members-only nights', icon: 'star' },
-    { title: 'Loyalty rewards', description: 'Earn points on every top-up', icon: 'gift' },
-    { title: 'VIP table access', description: 'Best tables in the house', icon: 'checkmark.seal' },
-  ];
-
-  const priveServices = [
-    { title: 'Rewards', description: 'Redeem exclusive perks', icon: 'gift', comingSoon: true },
+  const priveServices: { title: string; description: string; icon: string; route?: string; comingSoon?: boolean }[] = [
+    { title: 'Rewards', description: 'Redeem exclusive perks', icon: 'gift', route: '/rewards' },
     { title: 'Emergency', description: 'EMT services', icon: 'cross.case.fill', route: '/emergency' },
   ];
 
@@ -218,13 +214,33 @@ export default function PriveScreen() {
             <Text style={[styles.memberText, { color: QuiloxColors.gold }]}>Privé Member</Text>
           </View>
         </View>
-        <View style={[styles.tierBadge, { backgroundColor: QuiloxColors.secondary + '30' }]}>
-          <IconSymbol name="shield.fill" size={16} color={QuiloxColors.secondary} />
-          <Text style={[styles.tierText, { color: QuiloxColors.secondary }]}>{membershipTier}</Text>
-          <Text style={[styles.bookingBadge, { color: '#999' }]}>{bookingCount} bookings</Text>
-        </View>
+        {tier && (
+          <View style={[styles.tierBadge, { backgroundColor: tierColor + '30' }]}>
+            <IconSymbol name="shield.fill" size={16} color={tierColor} />
+            <Text style={[styles.tierText, { color: tierColor }]}>{tier.name}</Text>
+            <Text style={[styles.bookingBadge, { color: '#999' }]}>{bookingCount} bookings</Text>
+          </View>
+        )}
       </View>
 
+      {/* Tier progress */}
+      {membership && (
+        <View style={[styles.tierProgressCard, { backgroundColor: QuiloxColors.darkGray }]}>
+          <View style={styles.tierProgressHeader}>
+            <Text style={[styles.tierProgressLabel, { color: '#999' }]}>12-month spend</Text>
+            <Text style={[styles.tierProgressAmount, { color: '#fff' }]}>₦{membership.rollingSpend.toLocaleString()}</Text>
+          </View>
+          <View style={styles.tierProgressTrack}>
+            <View style={[styles.tierProgressFill, { width: `${membership.progress * 100}%`, backgroundColor: tierColor }]} />
+          </View>
+          <Text style={[styles.tierProgressHint, { color: '#999' }]}>
+            {membership.nextTier
+              ? `Spend ₦${membership.spendToNextTier.toLocaleString()} more to reach ${membership.nextTier.name}`
+              : `You're at our highest tier`}
+          </Text>
+        </View>
+      )}
+
       {/* Wallet & Points Cards */}
       <View style={styles.cardsContainer}>
         {/* Wallet Card */}
@@ -252,6 +268,7 @@ export default function PriveScreen() {
         {/* Points Card */}
         <TouchableOpacity 
           style={[styles.horizontalCard, { backgroundColor: '#1a1a3e', borderColor: QuiloxColors.gold, borderWidth: 1 }]}
+          onPress={() => router.push('/rewards')}
         >
           <View style={styles.horizontalCardContent}>
             <View style={[styles.horizontalCardIcon, { backgroundColor: QuiloxColors.gold + '20' }]}>
@@ -260,7 +277,7 @@ export default function PriveScreen() {
             <View style={styles.horizontalCardText}>
               <Text style={[styles.horizontalCardLabel, { color: QuiloxColors.gold, opacity: 0.8 }]}>LOYALTY POINTS</Text>
               <Text style={[styles.horizontalCardAmount, { color: '#fff' }]}>{loyaltyPoints.toLocaleString()}</Text>
-              <Text style={[styles.horizontalCardSubtext, { color: '#fff', opacity: 0.7 }]}>1 point per ₦100 top-up</Text>
+              <Text style={[styles.horizontalCardSubtext, { color: '#fff', opacity: 0.7 }]}>Redeem for bottles, upgrades & merch</Text>
             </View>
           </View>
           <IconSymbol name="chevron.right" size={20} color={QuiloxColors.gold} />
@@ -278,7 +295,7 @@ export default function PriveScreen() {
           </View>
           <View style={styles.scanText}>
             <Text style={[styles.scanTitle, { color: '#fff' }]}>Pay Bill</Text>
-            <Text style={[styles.scanSubtitle, { color: '#999' }]}>Enter amount to pay from wallet</Text>
+            <Text style={[styles.scanSubtitle, { color: '#999' }]}>Scan the table QR or enter an amount</Text>
           </View>
         </View>
         <View style={[styles.fastPayBadge, { backgroundColor: QuiloxColors.gold }]}>
@@ -313,10 +330,10 @@ export default function PriveScreen() {
         </View>
       </View>
 
-      {/* Your Silver Benefits */}
+      {/* Your Tier Benefits */}
       <View style={styles.section}>
         <View style={styles.benefitsHeader}>
-          <Text style={[styles.sectionTitle, { color: '#fff' }]}>Your Silver Benefits</Text>
+          <Text style={[styles.sectionTitle, { color: '#fff' }]}>{tier ? `Your ${tier.name} Benefits` : 'Your Benefits'}</Text>
           <IconSymbol name="trophy.fill" size={24} color={QuiloxColors.gold} />
         </View>
         <View style={styles.benefitsList}>
@@ -748,6 +765,28 @@ const styles = StyleSheet.create({
   serviceDescription: {
     fontSize: 12,
   },
+  tierProgressCard: {
+    marginHorizontal: 20,
+    marginBottom: 20,
+    padding: 16,
+    borderRadius: 16,
+    gap: 10,
+  },
+  tierProgressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  tierProgressLabel: { fontSize: 13 },
+  tierProgressAmount: { fontSize: 16, fontWeight: 'bold' },
+  tierProgressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#333',
+    overflow: 'hidden',
+  },
+  tierProgressFill: { height: '100%', borderRadius: 3 },
+  tierProgressHint: { fontSize: 12 },
   benefitsHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -12,6 +12,7 @@ export default function ProfileScreen() {
   const [userEmail, setUserEmail] = useState<string | null>(null);
   const [userName, setUserName] = useState<string>('Quilox Member');
   const [initials, setInitials] = useState<string>('QX');
+  const [isStaff, setIsStaff] = useState(false);
 
   useEffect(() => {
     loadUser();
@@ -20,6 +21,7 @@ export default function ProfileScreen() {
   const loadUser = async () => {
     const { data: { user } } = await supabase.auth.getUser();
     setUserEmail(user?.email || null);
+    setIsStaff(user?.app_metadata?.role === 'admin');
 
     if (user) {
       const { data: profile } = await supabase
@@ -91,6 +93,28 @@ export default function ProfileScreen() {
           <IconSymbol name="chevron.right" size={20} color="#666" />
         </TouchableOpacity>
 
+        {isStaff && (
+          <TouchableOpacity 
+            style={[styles.menuItem, { backgroundColor: QuiloxColors.darkGray }]}
+            onPress={() => router.push('/staff-bills')}
+          >
+            <IconSymbol name="qrcode" size={24} color={QuiloxColors.gold} />
+            <Text style={[styles.menuText, { color: '#fff' }]}>Table Bills (Staff)</Text>
+            <IconSymbol name="chevron.right" size={20} color="#666" />
+          </TouchableOpacity>
+        )}
+
+        {isStaff && (
+          <TouchableOpacity 
+            style={[styles.menuItem, { backgroundColor: QuiloxColors.darkGray }]}
+            onPress={() => router.push('/staff-checkin')}
+          >
+            <IconSymbol name="checkmark.seal" size={24} color={QuiloxColors.gold} />
+            <Text style={[styles.menuText, { color: '#fff' }]}>Door Check-in (Staff)</Text>
+            <IconSymbol name="chevron.right" size={20} color="#666" />
+          </TouchableOpacity>
+        )}
+
         <TouchableOpacity style={[styles.menuItem, { backgroundColor: QuiloxColors.darkGray }]}>
           <IconSymbol name="gear" size={24} color={QuiloxColors.gold} />
           <Text style={[styles.menuText, { color: '#fff' }]}>Settings</Text>
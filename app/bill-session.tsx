@@ -0,0 +1,530 @@
+import PaystackModal from '@/components/PaystackModal';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { QuiloxColors } from '@/constants/theme';
+import { useWallet } from '@/hooks/useWallet';
+import {
+  amountOutstanding,
+  BillSession,
+  billSessionManager,
+  shareOutstanding,
+} from '@/lib/bill-sessions';
+import { paystackClient } from '@/lib/paystack';
+import { supabase } from '@/lib/supabase';
+import { walletManager } from '@/lib/wallet-manager';
+import { logger } from '@/utils/logger';
+import { useFocusEffect } from '@react-navigation/native';
+import Constants from 'expo-constants';
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+const naira = (amount: number) => `₦${amount.toLocaleString('en-NG', { maximumFractionDigits: 2 })}`;
+
+// Paystack sends the member back here on web; native payments finish inside PaystackModal
+const cardCallbackUrl = (sessionId: string) => {
+  if (Platform.OS === 'web') {
+    return typeof window !== 'undefined'
+      ? `${window.location.origin}/bill-session?id=${sessionId}`
+      : 'https://quilox.com/payment-callback';
+  }
+  const debuggerHost = Constants.appOwnership === 'expo' ? Constants.expoConfig?.hostUri : null;
+  return debuggerHost ? `exp://${debuggerHost}/--/payment-callback` : 'quiloxluxury://payment-callback';
+};
+
+export default function BillSessionScreen() {
+  const params = useLocalSearchParams<{ id?: string; bookingId?: string; reference?: string }>();
+  const { wallet, loadWallet } = useWallet();
+  const walletBalance = wallet?.balance || 0;
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [session, setSession] = useState<BillSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  // Opening a bill
+  const [total, setTotal] = useState('');
+  const [description, setDescription] = useState('');
+
+  // Inviting guests
+  const [inviteQuery, setInviteQuery] = useState('');
+
+  // Card payments
+  const [paymentUrl, setPaymentUrl] = useState('');
+  const [pendingReference, setPendingReference] = useState<string | null>(null);
+
+  const loadSession = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    setUserId(user?.id ?? null);
+    setEmail(user?.email ?? '');
+
+    const loaded = params.id
+      ? await billSessionManager.getSession(params.id)
+      : params.bookingId
+        ? await billSessionManager.getOpenSessionForBooking(params.bookingId)
+        : null;
+
+    setSession(loaded);
+    setLoading(false);
+  }, [params.id, params.bookingId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadSession();
+    }, [loadSession])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadSession();
+    setRefreshing(false);
+  };
+
+  const confirmCardPayment = useCallback(async (sessionId: string, reference: string) => {
+    setBusy(true);
+    const result = await billSessionManager.confirmCardPayment(sessionId, reference);
+    setBusy(false);
+
+    if (!result.success) {
+      Alert.alert('Payment Not Recorded', `${result.error}\n\nReference: ${reference}`);
+      return;
+    }
+
+    logger.info('Bill card payment recorded:', { sessionId, reference });
+    Alert.alert(
+      'Payment Received',
+      result.status === 'closed' ? 'The bill is now fully paid.' : `${naira(result.outstanding ?? 0)} left on the bill.`
+    );
+    await loadSession();
+  }, [loadSession]);
+
+  // Returning from Paystack on web
+  useEffect(() => {
+    if (params.id && params.reference) {
+      confirmCardPayment(params.id, params.reference);
+    }
+  }, [params.id, params.reference, confirmCardPayment]);
+
+  const isHost = !!session && session.host_id === userId;
+  const me = session?.members.find((m) => m.user_id === userId);
+  const outstanding = session ? amountOutstanding(session) : 0;
+  const myOutstanding = session && me ? shareOutstanding(session, me) : 0;
+
+  const handleOpen = async () => {
+    const value = parseFloat(total);
+    if (!params.bookingId) return;
+
+    if (!value || value <= 0) {
+      Alert.alert('Bill Total', 'Enter the total on the bill');
+      return;
+    }
+
+    setBusy(true);
+    const result = await billSessionManager.openSession({ bookingId: params.bookingId, total: value, description });
+    setBusy(false);
+
+    if (!result.success || !result.sessionId) {
+      Alert.alert('Could Not Open Bill', result.error || 'Please try again');
+      return;
+    }
+
+    router.setParams({ id: result.sessionId });
+  };
+
+  const handleInvite = async () => {
+    if (!session || inviteQuery.trim().length < 3) {
+      Alert.alert('Add Guest', 'Enter their phone number or Quilox handle');
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const lookup = await walletManager.findTransferRecipient(inviteQuery);
+      if (!lookup.success || !lookup.recipient) {
+        Alert.alert('Member Not Found', lookup.error || 'Please check the number or handle');
+        return;
+      }
+
+      const result = await billSessionManager.inviteMember(session.id, lookup.recipient.wallet_id);
+      if (!result.success) {
+        Alert.alert('Could Not Add Guest', result.error || 'Please try again');
+        return;
+      }
+
+      setInviteQuery('');
+      await loadSession();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const payFromWallet = async (amount: number) => {
+    if (!session) return;
+
+    if (amount > walletBalance) {
+      Alert.alert('Insufficient Balance', `Your available balance is ${naira(walletBalance)}. Top up or pay by card.`);
+      return;
+    }
+
+    setBusy(true);
+    const result = await billSessionManager.payFromWallet(session.id, amount);
+    setBusy(false);
+
+    if (!result.success) {
+      Alert.alert('Payment Failed', result.error || 'Please try again');
+      return;
+    }
+
+    Alert.alert(
+      'Payment Successful',
+      result.status === 'closed' ? 'The bill is now fully paid.' : `${naira(result.outstanding ?? 0)} left on the bill.`
+    );
+    await loadWallet();
+    await loadSession();
+  };
+
+  const payByCard = async (amount: number) => {
+    if (!session || !userId) return;
+
+    setBusy(true);
+    try {
+      const reference = `QLXSPLIT-${Date.now()}-${userId.substring(0, 8)}`;
+      const response = await paystackClient.initializeTransaction({
+        reference,
+        amount,
+        currency: 'NGN',
+        email,
+        callback_url: cardCallbackUrl(session.id),
+        channels: ['card', 'bank_transfer', 'ussd'],
+        metadata: { purpose: 'bill_session', session_id: session.id, user_id: userId },
+      });
+
+      if (!response.success || !response.paymentLink) {
+        throw new Error(response.error || 'Failed to initiate payment');
+      }
+
+      if (Platform.OS === 'web') {
+        window.location.href = response.paymentLink;
+      } else {
+        setPendingReference(reference);
+        setPaymentUrl(response.paymentLink);
+      }
+    } catch (error: any) {
+      console.error('Bill card payment error:', error);
+      Alert.alert('Payment Error', error.message || 'Failed to initiate payment. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const choosePaymentMethod = (amount: number, title: string) => {
+    const message = `${title}: ${naira(amount)}`;
+    if (Platform.OS === 'web') {
+      if (confirm(`${message}\n\nOK to pay from your Privé wallet, Cancel to pay by card.`)) {
+        payFromWallet(amount);
+      } else {
+        payByCard(amount);
+      }
+      return;
+    }
+
+    Alert.alert(title, `${naira(amount)}\nWallet balance: ${naira(walletBalance)}`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Card', onPress: () => payByCard(amount) },
+      { text: 'Wallet', onPress: () => payFromWallet(amount) },
+    ]);
+  };
+
+  const handleCancelSession = () => {
+    if (!session) return;
+
+    const cancel = async () => {
+      const result = await billSessionManager.cancelSession(session.id);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to cancel this bill');
+        return;
+      }
+      router.back();
+    };
+
+    const message = 'Cancel this bill? You can open a new one with the right total.';
+    if (Platform.OS === 'web') {
+      if (confirm(message)) cancel();
+    } else {
+      Alert.alert('Cancel Bill', message, [
+        { text: 'No', style: 'cancel' },
+        { text: 'Cancel Bill', style: 'destructive', onPress: cancel },
+      ]);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" color={QuiloxColors.gold} />
+      </View>
+    );
+  }
+
+  const progress = session ? Math.min(session.amount_paid / session.total, 1) : 0;
+  const tableName = session?.booking?.table?.name;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Split the Bill</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {!session ? (
+        params.bookingId ? (
+          <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+            <Text style={styles.intro}>
+              Enter the total on your table&apos;s bill. Each guest pays their share from their Privé wallet or by card.
+            </Text>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Bill Total</Text>
+              <TextInput
+                style={[styles.input, { fontSize: 18, paddingVertical: 16 }]}
+                placeholder="Total amount"
+                placeholderTextColor="#666"
+                value={total}
+                onChangeText={setTotal}
+                keyboardType="numeric"
+              />
+              <TextInput
+                style={[styles.input, { marginTop: 10 }]}
+                placeholder="Description (optional)"
+                placeholderTextColor="#666"
+                value={description}
+                onChangeText={setDescription}
+                maxLength={80}
+              />
+            </View>
+            <TouchableOpacity style={styles.primaryButton} onPress={handleOpen} disabled={busy}>
+              {busy ? (
+                <ActivityIndicator color={QuiloxColors.black} />
+              ) : (
+                <Text style={styles.primaryButtonText}>Open Bill</Text>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        ) : (
+          <View style={styles.centerContent}>
+            <Text style={styles.emptyText}>Bill not found</Text>
+          </View>
+        )
+      ) : (
+        <ScrollView
+          style={styles.content}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={QuiloxColors.gold} />}
+        >
+          {/* Summary */}
+          <View style={styles.summaryCard}>
+            <Text style={styles.summaryLabel}>
+              {session.description || (tableName ? `${tableName} bill` : 'Table bill')}
+            </Text>
+            <Text style={styles.summaryTotal}>{naira(session.total)}</Text>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+            </View>
+            <Text style={styles.summaryMeta}>
+              {session.status === 'closed'
+                ? 'Paid in full'
+                : session.status === 'cancelled'
+                  ? 'Cancelled'
+                  : `${naira(session.amount_paid)} paid • ${naira(outstanding)} to go`}
+            </Text>
+          </View>
+
+          {/* Members */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Who&apos;s Paid</Text>
+            {session.members.map((member) => {
+              const paid = member.amount_paid >= member.share;
+              return (
+                <View key={member.id} style={styles.memberRow}>
+                  <View style={styles.avatar}>
+                    <Text style={styles.avatarText}>{member.display_name.charAt(0).toUpperCase()}</Text>
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.memberName}>
+                      {member.display_name}
+                      {member.is_host ? ' (host)' : ''}
+                      {member.user_id === userId ? ' • you' : ''}
+                    </Text>
+                    <Text style={styles.memberMeta}>
+                      Share {naira(member.share)}
+                      {member.amount_paid > 0 ? ` • paid ${naira(member.amount_paid)}` : ''}
+                    </Text>
+                  </View>
+                  <Text style={[styles.memberStatus, { color: paid ? '#10B981' : QuiloxColors.gold }]}>
+                    {paid ? 'Paid' : 'Pending'}
+                  </Text>
+                </View>
+              );
+            })}
+
+            {isHost && session.status === 'open' && (
+              <View style={styles.inviteRow}>
+                <TextInput
+                  style={[styles.input, { flex: 1 }]}
+                  placeholder="Add guest by phone or @handle"
+                  placeholderTextColor="#666"
+                  value={inviteQuery}
+                  onChangeText={setInviteQuery}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  onSubmitEditing={handleInvite}
+                />
+                <TouchableOpacity style={styles.inviteButton} onPress={handleInvite} disabled={busy}>
+                  <IconSymbol name="plus" size={20} color={QuiloxColors.black} />
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+
+          {isHost && session.status === 'open' && session.amount_paid === 0 && (
+            <TouchableOpacity onPress={handleCancelSession}>
+              <Text style={styles.cancelText}>Cancel this bill</Text>
+            </TouchableOpacity>
+          )}
+        </ScrollView>
+      )}
+
+      {session?.status === 'open' && (
+        <View style={styles.footer}>
+          {myOutstanding > 0 && (
+            <TouchableOpacity
+              style={styles.primaryButton}
+              onPress={() => choosePaymentMethod(myOutstanding, 'Pay your share')}
+              disabled={busy}
+            >
+              {busy ? (
+                <ActivityIndicator color={QuiloxColors.black} />
+              ) : (
+                <Text style={styles.primaryButtonText}>Pay My Share • {naira(myOutstanding)}</Text>
+              )}
+            </TouchableOpacity>
+          )}
+          {isHost && outstanding > myOutstanding && (
+            <TouchableOpacity
+              style={styles.secondaryButton}
+              onPress={() => choosePaymentMethod(outstanding, 'Cover the remainder')}
+              disabled={busy}
+            >
+              <Text style={styles.secondaryButtonText}>Cover Remainder • {naira(outstanding)}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <PaystackModal
+        visible={!!paymentUrl}
+        paymentUrl={paymentUrl}
+        reference={pendingReference || ''}
+        onSuccess={(reference) => {
+          setPaymentUrl('');
+          setPendingReference(null);
+          if (session) confirmCardPayment(session.id, reference);
+        }}
+        onCancel={() => {
+          setPaymentUrl('');
+          setPendingReference(null);
+        }}
+        onError={(error) => {
+          setPaymentUrl('');
+          setPendingReference(null);
+          Alert.alert('Payment Error', error || 'An error occurred during payment. Please try again.');
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: QuiloxColors.black },
+  centerContent: { flex: 1, justifyContent: 'center', alignItems: 'center' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { fontSize: 18, fontWeight: 'bold', color: '#fff' },
+  content: { flex: 1, paddingHorizontal: 20 },
+  intro: { fontSize: 14, lineHeight: 20, color: '#999', marginBottom: 24 },
+  emptyText: { fontSize: 14, color: '#999' },
+  section: { marginBottom: 28 },
+  sectionTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 12, color: '#fff' },
+  input: { padding: 16, borderRadius: 12, fontSize: 16, color: '#fff', backgroundColor: QuiloxColors.darkGray },
+  summaryCard: { padding: 20, borderRadius: 16, marginBottom: 24, backgroundColor: QuiloxColors.gold },
+  summaryLabel: { fontSize: 14, fontWeight: '600', color: QuiloxColors.black },
+  summaryTotal: { fontSize: 32, fontWeight: 'bold', marginTop: 8, color: QuiloxColors.black },
+  progressTrack: { height: 6, borderRadius: 3, marginTop: 16, backgroundColor: 'rgba(0,0,0,0.15)' },
+  progressFill: { height: 6, borderRadius: 3, backgroundColor: QuiloxColors.black },
+  summaryMeta: { fontSize: 13, marginTop: 8, color: QuiloxColors.black, opacity: 0.7 },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  avatar: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: QuiloxColors.gold,
+  },
+  avatarText: { fontSize: 16, fontWeight: 'bold', color: QuiloxColors.black },
+  memberName: { fontSize: 15, fontWeight: 'bold', color: '#fff' },
+  memberMeta: { fontSize: 12, color: '#999', marginTop: 4 },
+  memberStatus: { fontSize: 12, fontWeight: 'bold', textTransform: 'uppercase' },
+  inviteRow: { flexDirection: 'row', gap: 10, marginTop: 4 },
+  inviteButton: {
+    width: 52,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: QuiloxColors.gold,
+  },
+  cancelText: { fontSize: 14, fontWeight: '600', color: '#EF4444', textAlign: 'center', marginBottom: 24 },
+  footer: { padding: 20, paddingBottom: 40, gap: 10 },
+  primaryButton: { padding: 18, borderRadius: 12, alignItems: 'center', backgroundColor: QuiloxColors.gold },
+  primaryButtonText: { fontSize: 16, fontWeight: 'bold', color: QuiloxColors.black },
+  secondaryButton: {
+    padding: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: QuiloxColors.gold,
+  },
+  secondaryButtonText: { fontSize: 15, fontWeight: 'bold', color: QuiloxColors.gold },
+});
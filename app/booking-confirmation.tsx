@@ -3,16 +3,24 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { QuiloxColors } from '@/constants/theme';
 import { useBooking } from '@/context/BookingContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { formatSessionTime, formatSessionWindow } from '@/lib/booking-sessions';
 import { complianceManager, DataCategory, LegalBasis } from '@/lib/compliance';
-import { paystackClient } from '@/lib/paystack';
 import {
-  createBookingWithPayment,
+  BOOKING_HOLD_MINUTES,
+  cancelBookingCheckout,
+  confirmBookingCheckout,
+  getBookingQuote,
+  holdTable,
+  releaseBookingHold,
+  startBookingCheckout,
   supabase,
-  verifyPaystackTransaction
+  type BookingDetails,
+  type BookingQuote
 } from '@/lib/supabase';
+import { walletManager, type UserWallet } from '@/lib/wallet-manager';
 import Constants from 'expo-constants';
 import * as Linking from 'expo-linking';
-import { router } from 'expo-router';
+import { router, useLocalSearchParams } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import {
   ActivityIndicator,
@@ -22,6 +30,7 @@ import {
   Platform,
   ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
@@ -31,13 +40,40 @@ import {
 export default function BookingConfirmationScreen() {
   const colorScheme = useColorScheme();
   const isDark = true;
-  const { selectedDate, guestCount, selectedTable, guestInfo, setGuestInfo, resetBooking } = useBooking();
+  const {
+    selectedDate,
+    selectedSession,
+    arrivalTime,
+    guestCount,
+    selectedTable,
+    guestInfo,
+    setGuestInfo,
+    resetBooking,
+  } = useBooking();
+  // Set when claiming a waitlist offer: the table is already held for the member
+  const { holdId: offerHoldId } = useLocalSearchParams<{ holdId?: string }>();
   const [submitting, setSubmitting] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
   const [processingPayment, setProcessingPayment] = useState(false);
   const [pendingPaymentRef, setPendingPaymentRef] = useState<string | null>(null);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [paymentUrl, setPaymentUrl] = useState<string>('');
+  const [wallet, setWallet] = useState<UserWallet | null>(null);
+  const [payWithWallet, setPayWithWallet] = useState(false);
+  const [quote, setQuote] = useState<BookingQuote | null>(null);
+  const [promoCode, setPromoCode] = useState('');
+  const [pricing, setPricing] = useState(false);
+  const [holdId, setHoldId] = useState<string | null>(offerHoldId ?? null);
+  // Reference of the card checkout in progress on the backend
+  const [checkoutRef, setCheckoutRef] = useState<string | null>(null);
+
+  // What the member pays after discounts; the list price if pricing is unavailable
+  const bookingFee = quote?.total ?? selectedTable?.booking_fee ?? 0;
+
+  // Split tender: the wallet covers what it can, Paystack the rest
+  const walletAvailable = wallet?.status === 'active' && wallet.balance > 0;
+  const walletPortion = payWithWallet && walletAvailable ? Math.min(wallet!.balance, bookingFee) : 0;
+  const paystackPortion = bookingFee - walletPortion;
 
   useEffect(() => {
     loadUser();
@@ -50,6 +86,12 @@ export default function BookingConfirmationScreen() {
     };
   }, []);
 
+  // Price the booking when the table is known (re-priced when a promo code is applied)
+  useEffect(() => {
+    loadQuote();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedTable?.id]);
+
   // For Expo Go: verify payment when app returns to foreground
   useEffect(() => {
     const handleAppStateChange = async (nextAppState: AppStateStatus) => {
@@ -68,11 +110,36 @@ export default function BookingConfirmationScreen() {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       setUserId(user?.id || null);
+
+      if (user) {
+        const walletData = await walletManager.getWallet(user.id);
+        setWallet(walletData);
+        setPayWithWallet(walletData?.status === 'active' && walletData.balance > 0);
+      }
     } catch (error) {
       console.error('Error loading user:', error);
     }
   };
 
+  const loadQuote = async (code?: string) => {
+    if (!selectedTable) return;
+
+    setPricing(true);
+    const result = await getBookingQuote(selectedTable.id, code);
+    setPricing(false);
+
+    if (!result.success || !result.quote) {
+      console.error('Pricing failed, falling back to the list price:', result.error);
+      setQuote(null);
+      return;
+    }
+
+    setQuote(result.quote);
+    if (code && result.quote.promo_error) {
+      Alert.alert('Promo Code', result.quote.promo_error);
+    }
+  };
+
   const handleDeepLink = async (event: { url: string }) => {
     const url = event.url;
     console.log('Deep link received:', url);
@@ -92,95 +159,119 @@ export default function BookingConfirmationScreen() {
     }
   };
 
+  // The card charge is confirmed on the backend (also by the Paystack webhook), so
+  // this checks the checkout until it has become a booking
   const handlePaymentVerification = async (reference: string) => {
     setProcessingPayment(true);
     
     try {
-      console.log('Verifying payment:', reference);
+      console.log('Confirming booking checkout:', reference);
 
-      // Verify the transaction with Paystack
-      const verificationResult = await verifyPaystackTransaction(reference);
+      for (let attempt = 1; attempt <= 5; attempt++) {
+        const result = await confirmBookingCheckout(reference);
 
-      if (!verificationResult.success) {
-        throw new Error(verificationResult.error || 'Payment verification failed');
-      }
+        if (!result.success || !result.checkout) {
+          throw new Error(result.error || 'Payment verification failed');
+        }
 
-      const paymentData = verificationResult.data;
+        const { status, error } = result.checkout;
 
-      // Validate payment amount matches booking fee
-      const paidAmount = typeof paymentData.amount === 'number' ? paymentData.amount / 100 : 0;
-      if (paidAmount < selectedTable!.booking_fee) {
-        throw new Error('Payment amount does not match booking fee');
-      }
+        if (status === 'confirmed') {
+          setHoldId(null);
+          setCheckoutRef(null);
+          showBookingConfirmed(paystackPortion > 0 && walletPortion > 0
+            ? ` (₦${walletPortion.toLocaleString()} from your wallet, ₦${paystackPortion.toLocaleString()} by card)`
+            : '');
+          return;
+        }
 
-      // Create the booking with payment confirmation
-      await createBookingAfterPayment(reference, paymentData);
+        if (status === 'failed' || status === 'cancelled') {
+          setHoldId(null);
+          setCheckoutRef(null);
+          Alert.alert(
+            'Booking Failed',
+            `${error || 'We could not complete your booking.'}\n\nAny card payment will be refunded.`
+          );
+          await loadUser();
+          return;
+        }
 
+        if (attempt < 5) {
+          await new Promise((resolve) => setTimeout(resolve, 2000));
+        }
+      }
+
+      Alert.alert(
+        'Payment Processing',
+        `We are still confirming your payment. Your booking will appear in My Bookings once it is confirmed.\n\nPayment reference: ${reference}`
+      );
     } catch (error: any) {
       console.error('Payment verification error:', error);
       Alert.alert(
         'Verification Error',
-        'We could not verify your payment. Please contact support with your payment reference.'
+        `We could not verify your payment. Please contact support with your payment reference: ${reference}`
       );
     } finally {
       setProcessingPayment(false);
     }
   };
 
-  const createBookingAfterPayment = async (
-    paymentRef: string,
-    paymentData: any
-  ) => {
+  const buildBookingDetails = (): BookingDetails => ({
+    table_id: selectedTable!.id,
+    booking_date: selectedDate!.toISOString().split('T')[0],
+    session_id: selectedSession?.id ?? null,
+    arrival_time: arrivalTime,
+    guest_count: guestCount,
+    guest_name: guestInfo.name,
+    guest_email: guestInfo.email,
+    guest_phone: guestInfo.phone,
+    special_requests: guestInfo.specialRequests || null,
+  });
+
+  const showBookingConfirmed = (paidFrom: string) => {
+    Alert.alert(
+      'Booking Confirmed! 🎉',
+      `Your table has been reserved and payment of ₦${bookingFee.toLocaleString()} has been processed${paidFrom}.\n\nBooking Date: ${selectedDate!.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}${selectedSession ? `\nSession: ${selectedSession.name}, arriving ${formatSessionTime(arrivalTime ?? selectedSession.starts_at)}` : ''}\n\nWe'll send a confirmation email to ${guestInfo.email}.`,
+      [
+        {
+          text: 'View My Bookings',
+          onPress: () => {
+            resetBooking();
+            router.push('/booking-history');
+          },
+        },
+        {
+          text: 'Done',
+          onPress: () => {
+            resetBooking();
+            router.push('/(tabs)');
+          },
+        },
+      ]
+    );
+  };
+
+  // The wallet covers the whole fee: the backend debits it and confirms the booking in one call
+  const handleWalletPayment = async () => {
+    setProcessingPayment(true);
     try {
-      const bookingData = {
-        user_id: userId,
-        table_id: selectedTable!.id,
-        booking_date: selectedDate!.toISOString().split('T')[0],
-        guest_count: guestCount,
-        guest_name: guestInfo.name,
-        guest_email: guestInfo.email,
-        guest_phone: guestInfo.phone,
-        special_requests: guestInfo.specialRequests || null,
-        status: 'confirmed' as const,
-        booking_fee: selectedTable!.booking_fee,
-      };
-
-      const result = await createBookingWithPayment(
-        bookingData,
-        paymentRef,
-        paymentRef
-      );
+      const result = await startBookingCheckout({
+        booking: buildBookingDetails(),
+        holdId,
+        quoteId: quote!.id,
+        walletAmount: walletPortion,
+      });
 
-      if (result.success) {
-        Alert.alert(
-          'Booking Confirmed! 🎉',
-          `Your table has been reserved and payment of ₦${selectedTable!.booking_fee.toLocaleString()} has been processed.\n\nBooking Date: ${selectedDate!.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}\n\nWe'll send a confirmation email to ${guestInfo.email}.`,
-          [
-            {
-              text: 'View My Bookings',
-              onPress: () => {
-                resetBooking();
-                router.push('/booking-history');
-              },
-            },
-            {
-              text: 'Done',
-              onPress: () => {
-                resetBooking();
-                router.push('/(tabs)');
-              },
-            },
-          ]
-        );
+      if (result.success && result.checkout?.status === 'confirmed') {
+        setHoldId(null);
+        showBookingConfirmed(' from your wallet');
       } else {
-        throw new Error(result.error || 'Failed to create booking');
+        // Nothing was charged: the debit and booking roll back together
+        Alert.alert('Payment Failed', result.error || 'We could not take the booking fee from your wallet.');
+        await loadUser();
       }
-    } catch (error: any) {
-      console.error('Booking creation error:', error);
-      Alert.alert(
-        'Booking Error',
-        'Payment successful but booking creation failed. Please contact support with your payment reference.'
-      );
+    } finally {
+      setProcessingPayment(false);
     }
   };
 
@@ -190,6 +281,13 @@ export default function BookingConfirmationScreen() {
       return;
     }
 
+    // Checkout charges the quoted price, so it has to be one the backend still holds
+    if (!quote || new Date(quote.expires_at).getTime() <= Date.now()) {
+      await loadQuote(quote?.promo_code ?? undefined);
+      Alert.alert('Price Updated', 'Please review the booking price and try again.');
+      return;
+    }
+
     setSubmitting(true);
 
     // Request NDPR consent for booking
@@ -205,8 +303,33 @@ export default function BookingConfirmationScreen() {
       console.error('Consent error:', error);
     }
 
+    if (walletPortion >= bookingFee) {
+      setSubmitting(false);
+      await handleWalletPayment();
+      return;
+    }
+
+    // Hold the table before taking any money, so a card payment never ends up
+    // without a table because someone else booked it while the member paid
+    let tableHoldId = offerHoldId ?? null;
+    if (!tableHoldId) {
+      const hold = await holdTable({
+        ...buildBookingDetails(),
+        booking_fee: selectedTable.booking_fee,
+        amount_payable: bookingFee,
+        discount_total: quote?.discount_total ?? 0,
+        applied_discounts: quote?.discounts ?? [],
+      });
+      if (!hold.success || !hold.hold) {
+        setSubmitting(false);
+        Alert.alert('Table Unavailable', hold.error || 'This table is no longer available. Please choose another.');
+        return;
+      }
+      tableHoldId = hold.hold.id;
+    }
+    setHoldId(tableHoldId);
+
     try {
-      const txRef = `BOOKING-${Date.now()}-${userId?.substring(0, 8)}`;
       // Build redirect URL - use scheme for standalone, or Expo Go format for dev
       const isExpoGo = Constants.appOwnership === 'expo';
       let callbackUrl: string;
@@ -222,47 +345,60 @@ export default function BookingConfirmationScreen() {
 
       console.log('Callback URL:', callbackUrl);
 
-      console.log('Initiating payment:', {
-        amount: selectedTable.booking_fee,
-        txRef,
+      console.log('Starting booking checkout:', {
+        amount: paystackPortion,
+        walletAmount: walletPortion,
         email: guestInfo.email,
       });
 
-      const paymentResponse = await paystackClient.initializeTransaction({
-        reference: txRef,
-        amount: selectedTable.booking_fee,
-        currency: 'NGN',
-        email: guestInfo.email,
-        callback_url: callbackUrl,
-        channels: ['card', 'bank_transfer', 'ussd'],
-        metadata: {
-          purpose: 'table_booking',
-          table_id: selectedTable.id,
-          booking_date: selectedDate.toISOString().split('T')[0],
-        },
+      // The backend prices the booking and opens the Paystack checkout for the
+      // part the wallet does not cover
+      const result = await startBookingCheckout({
+        booking: buildBookingDetails(),
+        holdId: tableHoldId,
+        quoteId: quote!.id,
+        walletAmount: walletPortion,
+        callbackUrl,
       });
 
-      if (!paymentResponse.success || !paymentResponse.paymentLink) {
-        throw new Error(paymentResponse.error || 'Failed to initiate payment');
+      if (!result.success || !result.checkout) {
+        throw new Error(result.error || 'Failed to initiate payment');
       }
 
-      console.log('Payment link generated:', paymentResponse.paymentLink);
+      const { checkout } = result;
+      if (checkout.status === 'confirmed') {
+        setHoldId(null);
+        showBookingConfirmed('');
+        return;
+      }
+
+      if (!checkout.reference || !checkout.authorization_url) {
+        throw new Error('Failed to initiate payment');
+      }
+
+      console.log('Payment link generated:', checkout.authorization_url);
+      console.log(`Table held for ${BOOKING_HOLD_MINUTES} minutes while the member pays`);
+      setCheckoutRef(checkout.reference);
 
       // Open payment modal (keeps user in app)
       if (Platform.OS === 'web') {
         if (typeof window !== 'undefined') {
-          window.location.href = paymentResponse.paymentLink;
+          window.location.href = checkout.authorization_url;
         }
       } else {
         // Use in-app modal for payment
         console.log('Opening payment modal...');
-        setPendingPaymentRef(txRef);
-        setPaymentUrl(paymentResponse.paymentLink);
+        setPendingPaymentRef(checkout.reference);
+        setPaymentUrl(checkout.authorization_url);
         setShowPaymentModal(true);
       }
 
     } catch (error: any) {
       console.error('Payment initiation error:', error);
+      if (tableHoldId !== offerHoldId) {
+        await releaseBookingHold(tableHoldId);
+        setHoldId(null);
+      }
       Alert.alert(
         'Payment Error',
         error.message || 'Failed to initiate payment. Please try again.'
@@ -279,11 +415,27 @@ export default function BookingConfirmationScreen() {
     await handlePaymentVerification(reference);
   };
 
+  // Abandons the checkout on the backend, which lets the table go. A waitlist offer
+  // stays held until it expires, so the member can try again.
+  const releaseHold = async () => {
+    if (checkoutRef) {
+      await cancelBookingCheckout(checkoutRef);
+      setCheckoutRef(null);
+      setHoldId(offerHoldId ?? null);
+      return;
+    }
+
+    if (!holdId || holdId === offerHoldId) return;
+    await releaseBookingHold(holdId);
+    setHoldId(null);
+  };
+
   const handlePaymentCancel = () => {
     console.log('Payment cancelled');
     setShowPaymentModal(false);
     setPaymentUrl('');
     setPendingPaymentRef(null);
+    releaseHold();
     Alert.alert('Payment Cancelled', 'You cancelled the payment. Please try again when ready.');
   };
 
@@ -292,6 +444,7 @@ export default function BookingConfirmationScreen() {
     setShowPaymentModal(false);
     setPaymentUrl('');
     setPendingPaymentRef(null);
+    releaseHold();
     Alert.alert('Payment Error', error || 'An error occurred during payment. Please try again.');
   };
 
@@ -326,6 +479,15 @@ export default function BookingConfirmationScreen() {
               {selectedDate?.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric', year: 'numeric' }) || 'No date selected'}
             </Text>
           </View>
+          {selectedSession && (
+            <View style={styles.summaryRow}>
+              <IconSymbol name="clock" size={20} color="#999" />
+              <Text style={[styles.summaryText, { color: '#fff' }]}>
+                {selectedSession.name} ({formatSessionWindow(selectedSession)})
+                {arrivalTime ? ` · arriving ${formatSessionTime(arrivalTime)}` : ''}
+              </Text>
+            </View>
+          )}
           <View style={styles.summaryRow}>
             <IconSymbol name="person.2" size={20} color="#999" />
             <Text style={[styles.summaryText, { color: '#fff' }]}>{guestCount} Guests</Text>
@@ -342,6 +504,49 @@ export default function BookingConfirmationScreen() {
               ₦{selectedTable?.booking_fee.toLocaleString() || '0'} booking fee
             </Text>
           </View>
+
+          {/* Price breakdown */}
+          {quote && quote.discounts.length > 0 && (
+            <View style={styles.breakdown}>
+              {quote.discounts.map((discount) => (
+                <View key={discount.code} style={styles.breakdownRow}>
+                  <Text style={[styles.breakdownLabel, { color: '#999' }]}>{discount.label}</Text>
+                  <Text style={[styles.breakdownValue, { color: '#4ADE80' }]}>
+                    -₦{discount.amount.toLocaleString()}
+                  </Text>
+                </View>
+              ))}
+              <View style={[styles.breakdownRow, styles.breakdownTotal]}>
+                <Text style={[styles.breakdownLabel, { color: '#fff', fontWeight: 'bold' }]}>Total</Text>
+                <Text style={[styles.breakdownValue, { color: QuiloxColors.gold, fontWeight: 'bold' }]}>
+                  ₦{quote.total.toLocaleString()}
+                </Text>
+              </View>
+            </View>
+          )}
+
+          {/* Promo code */}
+          <View style={styles.promoRow}>
+            <TextInput
+              style={[styles.promoInput, { backgroundColor: QuiloxColors.black, color: '#fff' }]}
+              placeholder="Promo code"
+              placeholderTextColor="#666"
+              value={promoCode}
+              onChangeText={setPromoCode}
+              autoCapitalize="characters"
+            />
+            <TouchableOpacity
+              style={[styles.promoButton, { borderColor: QuiloxColors.gold }]}
+              onPress={() => loadQuote(promoCode)}
+              disabled={pricing || !promoCode.trim()}
+            >
+              {pricing ? (
+                <ActivityIndicator size="small" color={QuiloxColors.gold} />
+              ) : (
+                <Text style={[styles.promoButtonText, { color: QuiloxColors.gold }]}>Apply</Text>
+              )}
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Guest Information Form */}
@@ -399,18 +604,46 @@ export default function BookingConfirmationScreen() {
           </View>
         </View>
 
+        {/* Pay with wallet */}
+        {walletAvailable && (
+          <View style={[styles.walletCard, { backgroundColor: QuiloxColors.darkGray }]}>
+            <View style={styles.walletRow}>
+              <IconSymbol name="wallet.pass" size={24} color={QuiloxColors.gold} />
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.paymentInfoTitle, { color: '#fff' }]}>Pay with wallet</Text>
+                <Text style={[styles.paymentInfoText, { color: '#999' }]}>
+                  Balance ₦{wallet!.balance.toLocaleString()}
+                </Text>
+              </View>
+              <Switch
+                value={payWithWallet}
+                onValueChange={setPayWithWallet}
+                trackColor={{ false: '#333', true: QuiloxColors.gold }}
+                thumbColor="#fff"
+              />
+            </View>
+            {payWithWallet && paystackPortion > 0 && (
+              <Text style={[styles.paymentInfoText, { color: '#999' }]}>
+                ₦{walletPortion.toLocaleString()} from your wallet, ₦{paystackPortion.toLocaleString()} through Paystack
+              </Text>
+            )}
+          </View>
+        )}
+
         {/* Payment Info */}
-        <View style={[styles.paymentInfoCard, { backgroundColor: QuiloxColors.darkGray, borderColor: QuiloxColors.gold }]}>
-          <IconSymbol name="lock.shield" size={24} color={QuiloxColors.gold} />
-          <View style={{ flex: 1 }}>
-            <Text style={[styles.paymentInfoTitle, { color: QuiloxColors.gold }]}>
-              Secure Payment via Paystack
-            </Text>
-            <Text style={[styles.paymentInfoText, { color: '#999' }]}>
-              Your payment is processed securely through Paystack. We accept cards, bank transfers, and USSD.
-            </Text>
+        {paystackPortion > 0 && (
+          <View style={[styles.paymentInfoCard, { backgroundColor: QuiloxColors.darkGray, borderColor: QuiloxColors.gold }]}>
+            <IconSymbol name="lock.shield" size={24} color={QuiloxColors.gold} />
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.paymentInfoTitle, { color: QuiloxColors.gold }]}>
+                Secure Payment via Paystack
+              </Text>
+              <Text style={[styles.paymentInfoText, { color: '#999' }]}>
+                Your payment is processed securely through Paystack. We accept cards, bank transfers, and USSD.
+              </Text>
+            </View>
           </View>
-        </View>
+        )}
 
         {/* Terms & Conditions */}
         <View style={[styles.termsCard, { backgroundColor: QuiloxColors.darkGray }]}>
@@ -432,20 +665,22 @@ export default function BookingConfirmationScreen() {
             },
           ]}
           onPress={handleInitiatePayment}
-          disabled={!guestInfo.name || !guestInfo.email || !guestInfo.phone || submitting}
+          disabled={!guestInfo.name || !guestInfo.email || !guestInfo.phone || submitting || pricing}
         >
           {submitting ? (
             <ActivityIndicator size="small" color={QuiloxColors.black} />
           ) : (
             <>
-              <IconSymbol name="creditcard" size={20} color={QuiloxColors.black} />
+              <IconSymbol name={paystackPortion > 0 ? 'creditcard' : 'wallet.pass'} size={20} color={QuiloxColors.black} />
               <Text
                 style={[
                   styles.confirmText,
                   { color: guestInfo.name && guestInfo.email && guestInfo.phone ? QuiloxColors.black : '#666' },
                 ]}
               >
-                Proceed to Payment - ₦{selectedTable?.booking_fee.toLocaleString() || '0'}
+                {paystackPortion > 0
+                  ? `Proceed to Payment - ₦${paystackPortion.toLocaleString()}`
+                  : `Pay with Wallet - ₦${bookingFee.toLocaleString()}`}
               </Text>
             </>
           )}
@@ -495,6 +730,44 @@ const styles = StyleSheet.create({
   summaryText: {
     fontSize: 16,
   },
+  breakdown: {
+    gap: 8,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  breakdownLabel: { fontSize: 14, flex: 1 },
+  breakdownValue: { fontSize: 14 },
+  breakdownTotal: {
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#333',
+  },
+  promoRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  promoInput: {
+    flex: 1,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 10,
+    fontSize: 14,
+  },
+  promoButton: {
+    paddingHorizontal: 18,
+    borderRadius: 10,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  promoButtonText: { fontSize: 14, fontWeight: '600' },
   section: { marginBottom: 24 },
   sectionTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 16 },
   inputGroup: { marginBottom: 20 },
@@ -526,6 +799,17 @@ const styles = StyleSheet.create({
     fontSize: 12,
     lineHeight: 18,
   },
+  walletCard: {
+    padding: 16,
+    borderRadius: 12,
+    gap: 12,
+    marginBottom: 16,
+  },
+  walletRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
   paymentInfoCard: {
     flexDirection: 'row',
     padding: 16,
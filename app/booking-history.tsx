@@ -1,7 +1,10 @@
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { QuiloxColors } from '@/constants/theme';
+import { useBooking } from '@/context/BookingContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { BookingWithTable, cancelBooking, fetchUserBookings, supabase } from '@/lib/supabase';
+import { fetchBookingSessions, formatSessionTime, formatSessionWindow, getArrivalTimes } from '@/lib/booking-sessions';
+import { BookingRefund, BookingWithTable, cancelBooking, fetchUserBookings, getCancellationQuote, supabase } from '@/lib/supabase';
+import { describeWaitlistTarget, waitlistManager, type WaitlistEntry } from '@/lib/waitlist';
 import { router } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { ActivityIndicator, Alert, Platform, RefreshControl, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
@@ -10,9 +13,11 @@ export default function BookingHistoryScreen() {
   const colorScheme = useColorScheme();
   const isDark = true;
   const [bookings, setBookings] = useState<BookingWithTable[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [userId, setUserId] = useState<string | null>(null);
+  const { setSelectedDate, setSelectedSession, setArrivalTime, setGuestCount, setSelectedTable } = useBooking();
 
   useEffect(() => {
     loadUserAndBookings();
@@ -31,8 +36,9 @@ export default function BookingHistoryScreen() {
 
   const loadBookings = async () => {
     try {
-      const data = await fetchUserBookings();
+      const [data, entries] = await Promise.all([fetchUserBookings(), waitlistManager.getMyEntries()]);
       setBookings(data);
+      setWaitlist(entries);
     } catch (error) {
       console.error('Error loading bookings:', error);
     } finally {
@@ -46,15 +52,71 @@ export default function BookingHistoryScreen() {
     loadBookings();
   };
 
+  // An offered table is already held for the member: fill in the booking and go to checkout
+  const handleClaimOffer = async (entry: WaitlistEntry) => {
+    if (!entry.offered_table || !entry.offer_hold_id) return;
+
+    // Noon keeps the local date the same as booking_date in every timezone we serve
+    const date = new Date(`${entry.booking_date}T12:00:00`);
+    const sessions = await fetchBookingSessions(date);
+    const session = sessions.find((s) => s.id === entry.offered_session_id) ?? null;
+
+    setSelectedDate(date);
+    setSelectedSession(session);
+    setArrivalTime(session ? getArrivalTimes(session)[0] ?? null : null);
+    setGuestCount(entry.guest_count);
+    setSelectedTable(entry.offered_table);
+    router.push({ pathname: '/booking-confirmation', params: { holdId: entry.offer_hold_id } });
+  };
+
+  const handleLeaveWaitlist = (entry: WaitlistEntry) => {
+    const message = entry.status === 'offered'
+      ? 'Decline this table? It will be offered to the next guest in line.'
+      : 'Leave the waitlist for this night?';
+
+    const leave = async () => {
+      const result = await waitlistManager.leave(entry.id);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to leave the waitlist');
+        return;
+      }
+      await loadBookings();
+    };
+
+    if (Platform.OS === 'web') {
+      if (confirm(message)) {
+        leave();
+      }
+    } else {
+      Alert.alert(
+        entry.status === 'offered' ? 'Decline Table' : 'Leave Waitlist',
+        message,
+        [
+          { text: 'No', style: 'cancel' },
+          { text: 'Yes', style: 'destructive', onPress: leave },
+        ]
+      );
+    }
+  };
+
   const handleCancelBooking = async (bookingId: string) => {
+    // Tell the member what they'll get back before they confirm
+    const { quote } = await getCancellationQuote(bookingId);
+    const refundLine = quote
+      ? quote.refundable
+        ? `\n\n${quote.rule}: ₦${quote.amount.toLocaleString()} will be refunded.`
+        : `\n\n${quote.rule}.`
+      : '';
+    const message = `Are you sure you want to cancel this booking?${refundLine}`;
+
     if (Platform.OS === 'web') {
-      if (confirm('Are you sure you want to cancel this booking?')) {
+      if (confirm(message)) {
         await performCancel(bookingId);
       }
     } else {
       Alert.alert(
         'Cancel Booking',
-        'Are you sure you want to cancel this booking?',
+        message,
         [
           { text: 'No', style: 'cancel' },
           {
@@ -70,13 +132,39 @@ export default function BookingHistoryScreen() {
   const performCancel = async (bookingId: string) => {
     const result = await cancelBooking(bookingId);
     if (result.success) {
-      Alert.alert('Success', 'Booking cancelled successfully');
+      Alert.alert('Booking Cancelled', getRefundMessage(result.refund));
       loadBookings();
     } else {
       Alert.alert('Error', result.error || 'Failed to cancel booking');
     }
   };
 
+  const getRefundMessage = (refund?: BookingRefund | null) => {
+    if (!refund) return 'Your booking has been cancelled.';
+
+    const amount = `₦${refund.amount.toLocaleString()}`;
+    switch (refund.status) {
+      case 'completed':
+        return refund.method === 'wallet'
+          ? `${amount} has been refunded to your Privé wallet.`
+          : `${amount} has been refunded to your original payment method.`;
+      case 'pending':
+        return `A refund of ${amount} is on its way to your original payment method. It can take 5-10 business days to appear.`;
+      default:
+        return `We couldn't process your ${amount} refund automatically. Our team will follow up (ref: ${refund.reference}).`;
+    }
+  };
+
+  const getRefundStatusText = (refund: BookingRefund) => {
+    const amount = `₦${refund.amount.toLocaleString()}`;
+    const destination = refund.method === 'wallet' ? 'to wallet' : 'to card';
+    switch (refund.status) {
+      case 'completed': return `${amount} refunded ${destination}`;
+      case 'pending': return `${amount} refund processing`;
+      default: return `${amount} refund failed - support will follow up`;
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'confirmed': return '#10B981';
@@ -114,6 +202,77 @@ export default function BookingHistoryScreen() {
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} tintColor={QuiloxColors.gold} />
         }
       >
+        {waitlist.length > 0 && (
+          <View style={styles.waitlistSection}>
+            <Text style={[styles.sectionTitle, { color: '#fff' }]}>Waitlist</Text>
+            {waitlist.map((entry) => (
+              <View key={entry.id} style={[styles.bookingCard, { backgroundColor: QuiloxColors.darkGray }]}>
+                <View style={[styles.statusBadge, { backgroundColor: (entry.status === 'offered' ? '#10B981' : '#F59E0B') + '20' }]}>
+                  <Text style={[styles.statusText, { color: entry.status === 'offered' ? '#10B981' : '#F59E0B' }]}>
+                    {entry.status === 'offered'
+                      ? 'Table Available'
+                      : entry.queue_position ? `#${entry.queue_position} in line` : 'Waiting'}
+                  </Text>
+                </View>
+
+                <View style={styles.bookingHeader}>
+                  <Text style={[styles.tableName, { color: '#fff' }]}>
+                    {entry.status === 'offered' && entry.offered_table
+                      ? entry.offered_table.name
+                      : describeWaitlistTarget(entry)}
+                  </Text>
+                  {entry.status === 'offered' && entry.offered_table && (
+                    <Text style={[styles.tableNumber, { color: QuiloxColors.gold }]}>{entry.offered_table.table_number}</Text>
+                  )}
+                </View>
+
+                <View style={styles.bookingDetails}>
+                  <View style={styles.detailRow}>
+                    <IconSymbol name="calendar" size={16} color="#999" />
+                    <Text style={[styles.detailText, { color: '#fff' }]}>
+                      {new Date(`${entry.booking_date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                      {' · '}
+                      {entry.session_name || 'Any session'}
+                    </Text>
+                  </View>
+                  <View style={styles.detailRow}>
+                    <IconSymbol name="person.2" size={16} color="#999" />
+                    <Text style={[styles.detailText, { color: '#fff' }]}>{entry.guest_count} guests</Text>
+                  </View>
+                  {entry.status === 'offered' && entry.offer_expires_at && (
+                    <View style={styles.detailRow}>
+                      <IconSymbol name="clock" size={16} color="#999" />
+                      <Text style={[styles.detailText, { color: '#10B981' }]}>
+                        Held for you until {new Date(entry.offer_expires_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+
+                {entry.status === 'offered' && (
+                  <TouchableOpacity
+                    style={[styles.claimButton, { backgroundColor: QuiloxColors.gold }]}
+                    onPress={() => handleClaimOffer(entry)}
+                  >
+                    <Text style={[styles.claimButtonText, { color: QuiloxColors.black }]}>
+                      Claim Table · ₦{entry.offered_table?.booking_fee.toLocaleString()}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+
+                <TouchableOpacity
+                  style={[styles.cancelButton, { borderColor: '#EF4444' }]}
+                  onPress={() => handleLeaveWaitlist(entry)}
+                >
+                  <Text style={[styles.cancelButtonText, { color: '#EF4444' }]}>
+                    {entry.status === 'offered' ? 'Decline' : 'Leave Waitlist'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+
         {bookings.length === 0 ? (
           <View style={styles.emptyState}>
             <IconSymbol name="calendar" size={64} color="#333" />
@@ -153,6 +312,16 @@ export default function BookingHistoryScreen() {
                     </Text>
                   </View>
 
+                  {booking.session && (
+                    <View style={styles.detailRow}>
+                      <IconSymbol name="clock" size={16} color="#999" />
+                      <Text style={[styles.detailText, { color: '#fff' }]}>
+                        {booking.session.name} ({formatSessionWindow(booking.session)})
+                        {booking.arrival_time ? ` · arriving ${formatSessionTime(booking.arrival_time)}` : ''}
+                      </Text>
+                    </View>
+                  )}
+
                   <View style={styles.detailRow}>
                     <IconSymbol name="person.2" size={16} color="#999" />
                     <Text style={[styles.detailText, { color: '#fff' }]}>{booking.guest_count} Guests</Text>
@@ -166,10 +335,24 @@ export default function BookingHistoryScreen() {
                   <View style={styles.detailRow}>
                     <IconSymbol name="creditcard" size={16} color="#999" />
                     <Text style={[styles.detailText, { color: QuiloxColors.gold }]}>
-                      ₦{booking.booking_fee.toLocaleString()}
+                      ₦{(booking.amount_payable ?? booking.booking_fee).toLocaleString()}
                     </Text>
                   </View>
 
+                  {booking.metadata?.refund && (
+                    <View style={styles.detailRow}>
+                      <IconSymbol name="arrow.uturn.left" size={16} color="#999" />
+                      <Text
+                        style={[
+                          styles.detailText,
+                          { color: booking.metadata.refund.status === 'failed' ? '#EF4444' : '#10B981' },
+                        ]}
+                      >
+                        {getRefundStatusText(booking.metadata.refund)}
+                      </Text>
+                    </View>
+                  )}
+
                   {booking.special_requests && (
                     <View style={styles.specialRequests}>
                       <Text style={[styles.specialRequestsLabel, { color: '#999' }]}>Special Requests:</Text>
@@ -178,6 +361,26 @@ export default function BookingHistoryScreen() {
                   )}
                 </View>
 
+                {booking.status === 'confirmed' && (
+                  <TouchableOpacity
+                    style={[styles.claimButton, { backgroundColor: QuiloxColors.gold }]}
+                    onPress={() => router.push({ pathname: '/booking-pass', params: { bookingId: booking.id } })}
+                  >
+                    <Text style={[styles.claimButtonText, { color: QuiloxColors.black }]}>
+                      {booking.checked_in_at ? 'Checked In' : 'Show Check-in Pass'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+
+                {booking.status === 'confirmed' && (
+                  <TouchableOpacity
+                    style={[styles.cancelButton, { borderColor: QuiloxColors.gold }]}
+                    onPress={() => router.push({ pathname: '/bill-session', params: { bookingId: booking.id } })}
+                  >
+                    <Text style={[styles.cancelButtonText, { color: QuiloxColors.gold }]}>Split the Bill</Text>
+                  </TouchableOpacity>
+                )}
+
                 {booking.status === 'pending' || booking.status === 'confirmed' ? (
                   <TouchableOpacity
                     style={[styles.cancelButton, { borderColor: '#EF4444' }]}
@@ -224,6 +427,10 @@ const styles = StyleSheet.create({
   specialRequests: { marginTop: 8, padding: 12, backgroundColor: 'rgba(255,255,255,0.05)', borderRadius: 8, gap: 4 },
   specialRequestsLabel: { fontSize: 12, fontWeight: '600' },
   specialRequestsText: { fontSize: 14 },
+  waitlistSection: { gap: 16, paddingBottom: 20 },
+  sectionTitle: { fontSize: 16, fontWeight: 'bold' },
+  claimButton: { borderRadius: 8, padding: 12, alignItems: 'center', marginTop: 8 },
+  claimButtonText: { fontSize: 14, fontWeight: 'bold' },
   cancelButton: { borderWidth: 1, borderRadius: 8, padding: 12, alignItems: 'center', marginTop: 8 },
   cancelButtonText: { fontSize: 14, fontWeight: '600' },
   createdAt: { fontSize: 12, marginTop: 8 },
@@ -0,0 +1,196 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { QuiloxColors } from '@/constants/theme';
+import { formatSessionTime } from '@/lib/booking-sessions';
+import { buildPassToken, CheckInPass, checkInPassManager, secondsUntilRotation, WalletPlatform } from '@/lib/checkin-passes';
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import { openBrowserAsync } from 'expo-web-browser';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+
+const WALLET_LABELS: Record<WalletPlatform, string> = {
+  apple: 'Add to Apple Wallet',
+  google: 'Save to Google Wallet',
+};
+
+export default function BookingPassScreen() {
+  const { bookingId } = useLocalSearchParams<{ bookingId: string }>();
+  const [pass, setPass] = useState<CheckInPass | null>(null);
+  const [offline, setOffline] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [exporting, setExporting] = useState<WalletPlatform | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const result = await checkInPassManager.getPass(bookingId);
+      if (!result.success || !result.pass) {
+        setError(result.error || 'Could not load your pass');
+        return;
+      }
+      setPass(result.pass);
+      setOffline(!!result.offline);
+    };
+    load();
+  }, [bookingId]);
+
+  // The code changes every few seconds; tick so it and the countdown stay current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleAddToWallet = async (platform: WalletPlatform) => {
+    setExporting(platform);
+    try {
+      const result = await checkInPassManager.getWalletPassUrl(bookingId, platform);
+
+      if (!result.success || !result.url) {
+        Alert.alert('Wallet Pass Unavailable', result.error || 'Please try again');
+        return;
+      }
+
+      if (Platform.OS === 'web') {
+        window.open(result.url, '_blank');
+      } else {
+        await openBrowserAsync(result.url);
+      }
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  // Each phone gets its own wallet; the web can use either
+  const walletPlatforms = (['apple', 'google'] as WalletPlatform[]).filter((platform) =>
+    pass?.wallet[platform] && (Platform.OS === 'web' || (Platform.OS === 'ios') === (platform === 'apple'))
+  );
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Check-in Pass</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {!pass ? (
+        <View style={[styles.content, { justifyContent: 'center', alignItems: 'center' }]}>
+          {error ? (
+            <Text style={styles.emptyText}>{error}</Text>
+          ) : (
+            <ActivityIndicator size="large" color={QuiloxColors.gold} />
+          )}
+        </View>
+      ) : (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.passCard}>
+            <Text style={styles.passTable}>{pass.table_name}</Text>
+            <Text style={styles.passNumber}>{pass.table_number}</Text>
+
+            {pass.checked_in_at ? (
+              <View style={styles.checkedIn}>
+                <IconSymbol name="checkmark.circle.fill" size={48} color="#10B981" />
+                <Text style={styles.checkedInText}>
+                  Checked in at {new Date(pass.checked_in_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                </Text>
+              </View>
+            ) : (
+              <>
+                <View style={styles.qrWrapper}>
+                  <QRCode value={buildPassToken(pass, now)} size={240} backgroundColor="#fff" color={QuiloxColors.black} />
+                </View>
+                <Text style={styles.passMeta}>Code refreshes in {secondsUntilRotation(pass, now)}s</Text>
+                <Text style={styles.passMeta}>Show this at the door. Screenshots will not scan.</Text>
+              </>
+            )}
+
+            <View style={styles.divider} />
+
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Date</Text>
+              <Text style={styles.detailValue}>
+                {new Date(`${pass.booking_date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+              </Text>
+            </View>
+            {pass.session_name && (
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Session</Text>
+                <Text style={styles.detailValue}>
+                  {pass.session_name}{pass.arrival_time ? `, arriving ${formatSessionTime(pass.arrival_time)}` : ''}
+                </Text>
+              </View>
+            )}
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Guests</Text>
+              <Text style={styles.detailValue}>{pass.guest_count}</Text>
+            </View>
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Name</Text>
+              <Text style={styles.detailValue}>{pass.guest_name}</Text>
+            </View>
+          </View>
+
+          {offline && (
+            <Text style={styles.offlineText}>You are offline. This is the pass saved on your phone and it will still scan.</Text>
+          )}
+
+          {walletPlatforms.map((platform) => (
+            <TouchableOpacity
+              key={platform}
+              style={styles.walletButton}
+              onPress={() => handleAddToWallet(platform)}
+              disabled={exporting !== null}
+            >
+              {exporting === platform ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.walletText}>{WALLET_LABELS[platform]}</Text>
+              )}
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: QuiloxColors.black },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { fontSize: 18, fontWeight: 'bold', color: '#fff' },
+  content: { flex: 1, paddingHorizontal: 20 },
+  passCard: {
+    alignItems: 'center',
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: QuiloxColors.gold,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  passTable: { fontSize: 22, fontWeight: 'bold', color: '#fff' },
+  passNumber: { fontSize: 14, fontWeight: '600', marginTop: 4, color: QuiloxColors.gold },
+  qrWrapper: { padding: 12, borderRadius: 12, marginTop: 16, backgroundColor: '#fff' },
+  passMeta: { fontSize: 12, marginTop: 8, textAlign: 'center', color: '#999' },
+  checkedIn: { alignItems: 'center', paddingVertical: 24 },
+  checkedInText: { fontSize: 16, fontWeight: 'bold', marginTop: 12, color: '#10B981' },
+  divider: { alignSelf: 'stretch', height: 1, marginVertical: 16, backgroundColor: '#333' },
+  detailRow: { alignSelf: 'stretch', flexDirection: 'row', justifyContent: 'space-between', paddingVertical: 4 },
+  detailLabel: { fontSize: 14, color: '#999' },
+  detailValue: { fontSize: 14, fontWeight: '600', color: '#fff' },
+  offlineText: { fontSize: 12, marginTop: 12, textAlign: 'center', color: '#F59E0B' },
+  walletButton: { padding: 16, borderRadius: 12, alignItems: 'center', marginTop: 16, backgroundColor: '#1a1a1a', borderWidth: 1, borderColor: '#333' },
+  walletText: { fontSize: 15, fontWeight: 'bold', color: '#fff' },
+  emptyText: { fontSize: 14, textAlign: 'center', color: '#999' },
+});
@@ -2,6 +2,13 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { QuiloxColors } from '@/constants/theme';
 import { useBooking } from '@/context/BookingContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import {
+  BookingSession,
+  fetchBookingSessions,
+  formatSessionTime,
+  formatSessionWindow,
+  getArrivalTimes,
+} from '@/lib/booking-sessions';
 import { router } from 'expo-router';
 import React from 'react';
 import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
@@ -9,8 +16,43 @@ import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-nati
 export default function BookingScreen() {
   const colorScheme = useColorScheme();
   const isDark = true;
-  const { selectedDate, setSelectedDate, guestCount, setGuestCount } = useBooking();
+  const {
+    selectedDate,
+    setSelectedDate,
+    selectedSession,
+    setSelectedSession,
+    arrivalTime,
+    setArrivalTime,
+    guestCount,
+    setGuestCount,
+  } = useBooking();
   const [currentMonth, setCurrentMonth] = React.useState(new Date());
+  const [sessions, setSessions] = React.useState<BookingSession[]>([]);
+
+  // Sessions running on the chosen night; a session that doesn't run that night is cleared
+  React.useEffect(() => {
+    if (!selectedDate) {
+      setSessions([]);
+      return;
+    }
+
+    fetchBookingSessions(selectedDate).then((nightSessions) => {
+      setSessions(nightSessions);
+      if (selectedSession && !nightSessions.some((s) => s.id === selectedSession.id)) {
+        setSelectedSession(null);
+        setArrivalTime(null);
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedDate]);
+
+  const handleSelectSession = (session: BookingSession) => {
+    setSelectedSession(session);
+    setArrivalTime(getArrivalTimes(session)[0] ?? null);
+  };
+
+  // Without configured sessions the booking is for the whole night
+  const canContinue = !!selectedDate && guestCount > 0 && (sessions.length === 0 || (!!selectedSession && !!arrivalTime));
 
   // Generate calendar days for current month
   const getDaysInMonth = (date: Date) => {
@@ -58,7 +100,7 @@ export default function BookingScreen() {
   };
 
   const handleContinue = () => {
-    if (selectedDate && guestCount > 0) {
+    if (canContinue) {
       router.push('/table-selection');
     }
   };
@@ -161,6 +203,56 @@ export default function BookingScreen() {
             ))}
           </View>
         </View>
+
+        {/* Session & Arrival Time */}
+        {selectedDate && sessions.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: '#fff' }]}>Session</Text>
+            <View style={styles.sessionList}>
+              {sessions.map((session) => {
+                const isSelected = selectedSession?.id === session.id;
+                return (
+                  <TouchableOpacity
+                    key={session.id}
+                    style={[
+                      styles.sessionCard,
+                      { backgroundColor: QuiloxColors.darkGray },
+                      isSelected && { borderColor: QuiloxColors.gold },
+                    ]}
+                    onPress={() => handleSelectSession(session)}
+                  >
+                    <Text style={[styles.sessionName, { color: isSelected ? QuiloxColors.gold : '#fff' }]}>
+                      {session.name}
+                    </Text>
+                    <Text style={[styles.sessionTime, { color: '#999' }]}>{formatSessionWindow(session)}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {selectedSession && (
+              <>
+                <Text style={[styles.arrivalTitle, { color: '#fff' }]}>Arrival Time</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {getArrivalTimes(selectedSession).map((time) => (
+                    <TouchableOpacity
+                      key={time}
+                      style={[
+                        styles.timeChip,
+                        { backgroundColor: arrivalTime === time ? QuiloxColors.gold : QuiloxColors.darkGray },
+                      ]}
+                      onPress={() => setArrivalTime(time)}
+                    >
+                      <Text style={[styles.timeChipText, { color: arrivalTime === time ? QuiloxColors.black : '#fff' }]}>
+                        {formatSessionTime(time)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </>
+            )}
+          </View>
+        )}
       </ScrollView>
 
       {/* Continue Button */}
@@ -169,16 +261,16 @@ export default function BookingScreen() {
           style={[
             styles.continueButton,
             {
-              backgroundColor: selectedDate && guestCount > 0 ? QuiloxColors.gold : QuiloxColors.darkGray,
+              backgroundColor: canContinue ? QuiloxColors.gold : QuiloxColors.darkGray,
             },
           ]}
           onPress={handleContinue}
-          disabled={!selectedDate || guestCount <= 0}
+          disabled={!canContinue}
         >
           <Text
             style={[
               styles.continueText,
-              { color: selectedDate && guestCount > 0 ? QuiloxColors.black : '#666' },
+              { color: canContinue ? QuiloxColors.black : '#666' },
             ]}
           >
             Continue to Table Selection
@@ -277,4 +369,39 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  sessionList: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  sessionCard: {
+    flex: 1,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  sessionName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  sessionTime: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  arrivalTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  timeChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    marginRight: 8,
+  },
+  timeChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
 });
\ No newline at end of file
@@ -20,6 +20,7 @@ interface Profile {
   first_name: string;
   last_name: string;
   phone: string;
+  handle: string | null;
   bvn: string;
 }
 
@@ -29,6 +30,7 @@ export default function EditProfileScreen() {
   const [firstName, setFirstName] = useState('');
   const [lastName, setLastName] = useState('');
   const [phone, setPhone] = useState('');
+  const [handle, setHandle] = useState('');
   const [bvn, setBvn] = useState('');
   const [email, setEmail] = useState('');
 
@@ -48,7 +50,7 @@ export default function EditProfileScreen() {
 
       const { data: profile } = await supabase
         .from('profiles')
-        .select('first_name, last_name, phone, bvn')
+        .select('first_name, last_name, phone, handle, bvn')
         .eq('id', user.id)
         .single();
 
@@ -56,6 +58,7 @@ export default function EditProfileScreen() {
         setFirstName(profile.first_name || '');
         setLastName(profile.last_name || '');
         setPhone(profile.phone || '');
+        setHandle(profile.handle || '');
         setBvn(profile.bvn || '');
       }
     } catch (error) {
@@ -71,6 +74,11 @@ export default function EditProfileScreen() {
       return;
     }
 
+    if (handle && !/^[a-z0-9_.]{3,30}$/.test(handle)) {
+      Alert.alert('Error', 'Handles are 3-30 characters: letters, numbers, dots and underscores');
+      return;
+    }
+
     setSaving(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -89,6 +97,7 @@ export default function EditProfileScreen() {
         first_name: firstName.trim(),
         last_name: lastName.trim(),
         phone: phone.trim(),
+        handle: handle || null,
         bvn: bvn.trim(),
         prive_onboarded: hasBvn,
         prive_onboarded_at: hasBvn ? new Date().toISOString() : null,
@@ -114,6 +123,10 @@ export default function EditProfileScreen() {
         error = result.error;
       }
 
+      if (error?.code === '23505') {
+        Alert.alert('Error', `@${handle} is already taken`);
+        return;
+      }
       if (error) throw error;
 
       // On web, Alert.alert callback doesn't fire - navigate directly
@@ -203,6 +216,21 @@ export default function EditProfileScreen() {
             />
           </View>
 
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Quilox Handle</Text>
+            <TextInput
+              style={styles.input}
+              value={handle}
+              onChangeText={(text) => setHandle(text.replace(/^@/, '').toLowerCase())}
+              placeholder="e.g. tunde.q"
+              placeholderTextColor="#666"
+              autoCapitalize="none"
+              autoCorrect={false}
+              maxLength={30}
+            />
+            <Text style={styles.helperText}>Other members can send you money with your handle or phone number</Text>
+          </View>
+
           <View style={styles.inputGroup}>
             <Text style={styles.label}>BVN (Bank Verification Number)</Text>
             <TextInput
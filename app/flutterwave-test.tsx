@@ -5,6 +5,7 @@
 
 
 import { IconSymbol } from '@/components/ui/icon-symbol';
+import { config } from '@/config/environment';
 import { QuiloxColors } from '@/constants/theme';
 import { paystackClient } from '@/lib/paystack';
 import { logger } from '@/utils/logger';
@@ -29,7 +30,7 @@ export default function PaystackTestScreen() {
   ]);
   const [running, setRunning] = useState(false);
   const [envConfig, setEnvConfig] = useState<{
-    secretKey: string;
+    apiUrl: string;
   } | null>(null);
 
 
@@ -39,10 +40,9 @@ export default function PaystackTestScreen() {
   }, []);
 
   const checkEnvironmentVariables = () => {
-    const secretKey = process.env.EXPO_PUBLIC_PAYSTACK_SECRET_KEY || '';
-
+    // The Paystack secret key lives on the backend; the app only needs its URL
     setEnvConfig({
-      secretKey: secretKey ? `${secretKey.substring(0, 15)}...` : 'NOT SET',
+      apiUrl: process.env.EXPO_PUBLIC_API_URL ? config.api.baseUrl : 'NOT SET',
     });
   };
 
@@ -78,18 +78,18 @@ export default function PaystackTestScreen() {
     const startTime = Date.now();
 
     try {
-      const secretKey = process.env.EXPO_PUBLIC_PAYSTACK_SECRET_KEY || '';
+      const apiUrl = process.env.EXPO_PUBLIC_API_URL || '';
 
       const missing = [];
-      if (!secretKey) missing.push('EXPO_PUBLIC_PAYSTACK_SECRET_KEY');
+      if (!apiUrl) missing.push('EXPO_PUBLIC_API_URL');
 
 
       if (missing.length > 0) {
         throw new Error(`Missing keys: ${missing.join(', ')}`);
       }
 
-      if (typeof secretKey === 'string' && (!secretKey.startsWith('sk_test_') && !secretKey.startsWith('sk_live_'))) {
-        throw new Error('Secret key format appears invalid (should start with sk_test_ or sk_live_)');
+      if (!/^https?:\/\//.test(apiUrl)) {
+        throw new Error('Backend URL appears invalid (should start with http:// or https://)');
       }
 
 
@@ -98,7 +98,7 @@ export default function PaystackTestScreen() {
         status: 'success',
         message: 'All environment variables configured correctly',
         details: {
-          secretKey: typeof secretKey === 'string' ? `${secretKey.substring(0, 20)}...` : 'NOT SET',
+          apiUrl: config.api.baseUrl,
         },
         duration,
       });
@@ -212,9 +212,9 @@ export default function PaystackTestScreen() {
           {envConfig && (
             <View style={styles.envList}>
               <View style={styles.envItem}>
-                <Text style={styles.envLabel}>Secret Key:</Text>
-                <Text style={[styles.envValue, { color: envConfig.secretKey !== 'NOT SET' ? QuiloxColors.success : '#ef4444' }]}>
-                  {envConfig.secretKey}
+                <Text style={styles.envLabel}>Backend URL:</Text>
+                <Text style={[styles.envValue, { color: envConfig.apiUrl !== 'NOT SET' ? QuiloxColors.success : '#ef4444' }]}>
+                  {envConfig.apiUrl}
                 </Text>
               </View>
             </View>
@@ -1,5 +1,5 @@
 import { QuiloxColors } from '@/constants/theme';
-import { verifyPaystackTransaction } from '@/lib/supabase';
+import { verifyPaystackTransaction } from '@/lib/paystack';
 import { router, useLocalSearchParams } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { ActivityIndicator, StyleSheet, Text, View } from 'react-native';
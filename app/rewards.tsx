@@ -0,0 +1,297 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { QuiloxColors } from '@/constants/theme';
+import { useWallet } from '@/hooks/useWallet';
+import {
+  loyaltyManager,
+  PointsEntry,
+  PointsExpiry,
+  Reward,
+  RewardCategory,
+  RewardRedemption,
+} from '@/lib/loyalty';
+import { supabase } from '@/lib/supabase';
+import { logger } from '@/utils/logger';
+import { router, Stack } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, RefreshControl, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+const categoryIcons: Record<RewardCategory, string> = {
+  bottle: 'wineglass',
+  table_upgrade: 'crown.fill',
+  merch_voucher: 'bag',
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export default function RewardsScreen() {
+  const { wallet, loading, loadWallet } = useWallet();
+  const points = wallet?.loyalty_points || 0;
+
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [redemptions, setRedemptions] = useState<RewardRedemption[]>([]);
+  const [history, setHistory] = useState<PointsEntry[]>([]);
+  const [nextExpiry, setNextExpiry] = useState<PointsExpiry | null>(null);
+  const [redeemingId, setRedeemingId] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const loadRewards = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const [catalog, codes, entries, expiry] = await Promise.all([
+      loyaltyManager.getRewards(),
+      loyaltyManager.getRedemptions(user.id),
+      loyaltyManager.getPointsHistory(user.id),
+      loyaltyManager.getNextExpiry(user.id),
+    ]);
+
+    setRewards(catalog);
+    setRedemptions(codes);
+    setHistory(entries);
+    setNextExpiry(expiry);
+  }, []);
+
+  useEffect(() => {
+    loadRewards();
+  }, [loadRewards]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([loadWallet(), loadRewards()]);
+    setRefreshing(false);
+  };
+
+  const redeem = async (reward: Reward) => {
+    setRedeemingId(reward.id);
+    try {
+      const result = await loyaltyManager.redeemReward(reward.id);
+
+      if (!result.success || !result.redemption) {
+        Alert.alert('Could Not Redeem', result.error || 'Please try again');
+        return;
+      }
+
+      logger.info('Reward redeemed:', { reward: reward.name, code: result.redemption.code });
+      Alert.alert(
+        'Reward Redeemed',
+        `Show code ${result.redemption.code} to staff to claim your ${reward.name}. ` +
+          `It is valid until ${formatDate(result.redemption.expires_at)}.`
+      );
+      await Promise.all([loadWallet(), loadRewards()]);
+    } finally {
+      setRedeemingId(null);
+    }
+  };
+
+  const handleRedeem = (reward: Reward) => {
+    const message = `Spend ${reward.points_cost.toLocaleString()} points on ${reward.name}?`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) redeem(reward);
+    } else {
+      Alert.alert('Redeem Reward', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Redeem', onPress: () => redeem(reward) },
+      ]);
+    }
+  };
+
+  const getRedemptionStatus = (redemption: RewardRedemption) => {
+    if (redemption.status === 'issued' && new Date(redemption.expires_at) <= new Date()) {
+      return { label: 'Expired', color: '#EF4444' };
+    }
+    switch (redemption.status) {
+      case 'issued': return { label: 'Ready', color: '#10B981' };
+      case 'fulfilled': return { label: 'Claimed', color: '#999' };
+      default: return { label: redemption.status === 'expired' ? 'Expired' : 'Cancelled', color: '#EF4444' };
+    }
+  };
+
+  const getEntryLabel = (entry: PointsEntry) => {
+    switch (entry.type) {
+      case 'earn': return 'Earned';
+      case 'redeem': return 'Redeemed';
+      case 'expire': return 'Expired';
+      default: return 'Adjustment';
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { justifyContent: 'center', alignItems: 'center' }]}>
+        <ActivityIndicator size="large" color={QuiloxColors.gold} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Rewards</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={QuiloxColors.gold} />}
+      >
+        <View style={styles.pointsCard}>
+          <Text style={styles.pointsLabel}>LOYALTY POINTS</Text>
+          <Text style={styles.pointsAmount}>{points.toLocaleString()}</Text>
+          <Text style={styles.pointsHint}>
+            {nextExpiry
+              ? `${nextExpiry.points.toLocaleString()} points expire on ${formatDate(nextExpiry.expires_at)}`
+              : 'Points expire 12 months after you earn them'}
+          </Text>
+        </View>
+
+        {/* Catalog */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Redeem Points</Text>
+          {rewards.map((reward) => {
+            const outOfStock = reward.stock !== null && reward.stock <= 0;
+            const affordable = points >= reward.points_cost;
+            const canRedeem = affordable && !outOfStock && !redeemingId;
+
+            return (
+              <View key={reward.id} style={styles.rewardCard}>
+                <View style={styles.rewardIcon}>
+                  <IconSymbol name={categoryIcons[reward.category] as any} size={24} color={QuiloxColors.gold} />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.rewardName}>{reward.name}</Text>
+                  {reward.description && <Text style={styles.rewardMeta}>{reward.description}</Text>}
+                  <Text style={styles.rewardCost}>{reward.points_cost.toLocaleString()} points</Text>
+                </View>
+                <TouchableOpacity
+                  style={[styles.redeemButton, { backgroundColor: canRedeem ? QuiloxColors.gold : QuiloxColors.black }]}
+                  onPress={() => handleRedeem(reward)}
+                  disabled={!canRedeem}
+                >
+                  {redeemingId === reward.id ? (
+                    <ActivityIndicator size="small" color={QuiloxColors.black} />
+                  ) : (
+                    <Text style={[styles.redeemText, { color: canRedeem ? QuiloxColors.black : '#666' }]}>
+                      {outOfStock ? 'Sold out' : 'Redeem'}
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* Codes */}
+        {redemptions.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>My Codes</Text>
+            {redemptions.map((redemption) => {
+              const status = getRedemptionStatus(redemption);
+              return (
+                <View key={redemption.id} style={styles.row}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.code}>{redemption.code}</Text>
+                    <Text style={styles.rewardMeta}>
+                      {redemption.reward?.name} • valid until {formatDate(redemption.expires_at)}
+                    </Text>
+                  </View>
+                  <Text style={[styles.status, { color: status.color }]}>{status.label}</Text>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
+        {/* Points history */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Points History</Text>
+          {history.length === 0 ? (
+            <Text style={styles.emptyText}>Top up your wallet to start earning points</Text>
+          ) : (
+            history.map((entry) => (
+              <View key={entry.id} style={styles.row}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.rewardName}>{entry.description || getEntryLabel(entry)}</Text>
+                  <Text style={styles.rewardMeta}>
+                    {getEntryLabel(entry)} • {formatDate(entry.created_at)}
+                  </Text>
+                </View>
+                <Text style={[styles.entryPoints, { color: entry.points > 0 ? '#10B981' : '#EF4444' }]}>
+                  {entry.points > 0 ? '+' : ''}{entry.points.toLocaleString()}
+                </Text>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: QuiloxColors.black },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { fontSize: 18, fontWeight: 'bold', color: '#fff' },
+  content: { flex: 1, paddingHorizontal: 20 },
+  pointsCard: {
+    padding: 20,
+    borderRadius: 16,
+    marginBottom: 24,
+    backgroundColor: '#1a1a3e',
+    borderColor: QuiloxColors.gold,
+    borderWidth: 1,
+  },
+  pointsLabel: { fontSize: 12, fontWeight: '600', color: QuiloxColors.gold, opacity: 0.8 },
+  pointsAmount: { fontSize: 32, fontWeight: 'bold', marginTop: 8, color: '#fff' },
+  pointsHint: { fontSize: 12, marginTop: 6, color: '#fff', opacity: 0.7 },
+  section: { marginBottom: 28 },
+  sectionTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 12, color: '#fff' },
+  emptyText: { fontSize: 14, color: '#999' },
+  rewardCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 10,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  rewardIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: QuiloxColors.gold + '20',
+  },
+  rewardName: { fontSize: 15, fontWeight: 'bold', color: '#fff' },
+  rewardMeta: { fontSize: 12, color: '#999', marginTop: 4 },
+  rewardCost: { fontSize: 13, fontWeight: '600', color: QuiloxColors.gold, marginTop: 6 },
+  redeemButton: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 10, minWidth: 80, alignItems: 'center' },
+  redeemText: { fontSize: 13, fontWeight: 'bold' },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  code: { fontSize: 18, fontWeight: 'bold', letterSpacing: 2, color: '#fff', fontFamily: 'monospace' },
+  status: { fontSize: 12, fontWeight: 'bold', textTransform: 'uppercase' },
+  entryPoints: { fontSize: 15, fontWeight: 'bold' },
+});
@@ -0,0 +1,235 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { QuiloxColors } from '@/constants/theme';
+import { useWallet } from '@/hooks/useWallet';
+import { VenueBill, venueBillManager } from '@/lib/venue-bills';
+import { logger } from '@/utils/logger';
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from 'expo-camera';
+import { router, Stack } from 'expo-router';
+import React, { useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+export default function ScanBillScreen() {
+  const { wallet, loading, loadWallet } = useWallet();
+  const walletBalance = wallet?.balance || 0;
+  const [permission, requestPermission] = useCameraPermissions();
+
+  const [token, setToken] = useState<string | null>(null);
+  const [bill, setBill] = useState<VenueBill | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isPaying, setIsPaying] = useState(false);
+  // The camera keeps reporting the same code while it is in view; only act on the first
+  const scanLocked = useRef(false);
+
+  const resetScan = () => {
+    setToken(null);
+    setBill(null);
+    scanLocked.current = false;
+  };
+
+  const handleScanned = async ({ data }: BarcodeScanningResult) => {
+    if (scanLocked.current) return;
+    scanLocked.current = true;
+
+    setIsChecking(true);
+    const result = await venueBillManager.scan(data);
+    setIsChecking(false);
+
+    if (!result.success || !result.bill) {
+      Alert.alert('Cannot Pay This Bill', result.error || 'Please ask staff for a new code', [
+        { text: 'Scan Again', onPress: resetScan },
+      ]);
+      return;
+    }
+
+    setToken(data);
+    setBill(result.bill);
+  };
+
+  const payBill = async () => {
+    if (!token || !bill) return;
+
+    setIsPaying(true);
+    try {
+      const result = await venueBillManager.pay(token);
+
+      if (!result.success) {
+        Alert.alert('Payment Failed', result.error || 'Please try again');
+        return;
+      }
+
+      logger.info('Venue bill paid:', { billId: bill.id, transactionId: result.transactionId });
+      await loadWallet();
+      Alert.alert('Bill Paid', `₦${bill.amount.toLocaleString()} paid for ${bill.table_label}. Show this to your server.`, [
+        {
+          text: 'View Receipt',
+          onPress: () => result.transactionId
+            ? router.replace({ pathname: '/transaction-receipt', params: { id: result.transactionId } })
+            : router.back(),
+        },
+      ]);
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const handlePay = () => {
+    if (!bill) return;
+
+    if (bill.amount > walletBalance) {
+      Alert.alert('Insufficient Balance', `Your available balance is ₦${walletBalance.toLocaleString()}. Please top up your wallet.`);
+      return;
+    }
+
+    const message = `Pay ₦${bill.amount.toLocaleString()} to Quilox for ${bill.table_label}?`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) payBill();
+    } else {
+      Alert.alert('Confirm Payment', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Pay', onPress: payBill },
+      ]);
+    }
+  };
+
+  if (loading || !permission) {
+    return (
+      <View style={[styles.container, { justifyContent: 'center', alignItems: 'center' }]}>
+        <ActivityIndicator size="large" color={QuiloxColors.gold} />
+      </View>
+    );
+  }
+
+  const canPay = !!bill && !isPaying;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Scan Bill</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <View style={styles.content}>
+        {bill ? (
+          <View style={styles.billCard}>
+            <Text style={styles.billTable}>{bill.table_label}</Text>
+            <Text style={styles.billDescription}>{bill.description}</Text>
+            <Text style={styles.billAmount}>₦{bill.amount.toLocaleString()}</Text>
+            <Text style={styles.billMeta}>
+              Code valid until {new Date(bill.expires_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+            </Text>
+            <View style={styles.divider} />
+            <View style={styles.balanceRow}>
+              <Text style={styles.billMeta}>Privé wallet balance</Text>
+              <Text style={styles.balanceText}>₦{walletBalance.toLocaleString()}</Text>
+            </View>
+            <TouchableOpacity onPress={resetScan} style={{ marginTop: 16 }}>
+              <Text style={styles.linkText}>Scan a different code</Text>
+            </TouchableOpacity>
+          </View>
+        ) : !permission.granted ? (
+          <View style={styles.permissionCard}>
+            <IconSymbol name="qrcode" size={48} color={QuiloxColors.gold} />
+            <Text style={styles.permissionText}>
+              Allow camera access to scan the QR code your server shows at the table.
+            </Text>
+            <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+              <Text style={styles.permissionButtonText}>Allow Camera</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            <View style={styles.cameraFrame}>
+              <CameraView
+                style={StyleSheet.absoluteFill}
+                facing="back"
+                barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+                onBarcodeScanned={token ? undefined : handleScanned}
+              />
+              {isChecking && (
+                <View style={styles.cameraOverlay}>
+                  <ActivityIndicator size="large" color={QuiloxColors.gold} />
+                </View>
+              )}
+            </View>
+            <Text style={styles.hintText}>Point your camera at the bill QR code from your server</Text>
+          </>
+        )}
+      </View>
+
+      {bill && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.payButton, { backgroundColor: canPay ? QuiloxColors.gold : QuiloxColors.darkGray }]}
+            onPress={handlePay}
+            disabled={!canPay}
+          >
+            {isPaying ? (
+              <ActivityIndicator color={QuiloxColors.black} />
+            ) : (
+              <Text style={[styles.payText, { color: canPay ? QuiloxColors.black : '#666' }]}>
+                Pay ₦{bill.amount.toLocaleString()}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: QuiloxColors.black },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { fontSize: 18, fontWeight: 'bold', color: '#fff' },
+  content: { flex: 1, paddingHorizontal: 20 },
+  cameraFrame: {
+    aspectRatio: 1,
+    borderRadius: 20,
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: QuiloxColors.gold,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  cameraOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  hintText: { fontSize: 14, textAlign: 'center', marginTop: 16, color: '#999' },
+  permissionCard: { alignItems: 'center', padding: 24, borderRadius: 16, backgroundColor: QuiloxColors.darkGray },
+  permissionText: { fontSize: 14, textAlign: 'center', marginVertical: 16, color: '#ccc' },
+  permissionButton: { paddingHorizontal: 24, paddingVertical: 12, borderRadius: 12, backgroundColor: QuiloxColors.gold },
+  permissionButtonText: { fontSize: 14, fontWeight: 'bold', color: QuiloxColors.black },
+  billCard: {
+    padding: 20,
+    borderRadius: 16,
+    borderWidth: 2,
+    borderColor: QuiloxColors.gold,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  billTable: { fontSize: 14, fontWeight: '600', color: QuiloxColors.gold },
+  billDescription: { fontSize: 16, marginTop: 6, color: '#fff' },
+  billAmount: { fontSize: 32, fontWeight: 'bold', marginTop: 12, color: '#fff' },
+  billMeta: { fontSize: 12, marginTop: 6, color: '#999' },
+  divider: { height: 1, marginVertical: 16, backgroundColor: '#333' },
+  balanceRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  balanceText: { fontSize: 14, fontWeight: 'bold', color: '#fff' },
+  linkText: { fontSize: 14, fontWeight: '600', color: QuiloxColors.gold },
+  footer: { padding: 20, paddingBottom: 40 },
+  payButton: { padding: 18, borderRadius: 12, alignItems: 'center' },
+  payText: { fontSize: 16, fontWeight: 'bold' },
+});
@@ -0,0 +1,341 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { QuiloxColors } from '@/constants/theme';
+import { useWallet } from '@/hooks/useWallet';
+import { AppNotification, notificationManager } from '@/lib/notifications';
+import { supabase } from '@/lib/supabase';
+import {
+  DAILY_TRANSFER_LIMIT,
+  MIN_TRANSFER_AMOUNT,
+  TransferRecipient,
+  walletManager,
+} from '@/lib/wallet-manager';
+import { logger } from '@/utils/logger';
+import { router, Stack } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+export default function SendMoneyScreen() {
+  const { wallet, loading, loadWallet } = useWallet();
+  const walletBalance = wallet?.balance || 0;
+
+  const [query, setQuery] = useState('');
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [recipient, setRecipient] = useState<TransferRecipient | null>(null);
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentToday, setSentToday] = useState(0);
+  const [activity, setActivity] = useState<AppNotification[]>([]);
+
+  const remainingToday = Math.max(DAILY_TRANSFER_LIMIT - sentToday, 0);
+
+  const loadActivity = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const notifications = await notificationManager.getNotifications(user.id, 10);
+    setActivity(notifications.filter((n) => n.type.startsWith('wallet_transfer')));
+    await notificationManager.markAllRead(user.id);
+  }, []);
+
+  const loadLimit = useCallback(async () => {
+    if (!wallet) return;
+    setSentToday(await walletManager.getTransferredToday(wallet.id));
+  }, [wallet]);
+
+  useEffect(() => {
+    loadActivity();
+  }, [loadActivity]);
+
+  useEffect(() => {
+    loadLimit();
+  }, [loadLimit]);
+
+  const handleLookup = async () => {
+    if (query.trim().length < 3) {
+      Alert.alert('Find Member', 'Enter a phone number or Quilox handle');
+      return;
+    }
+
+    setIsLookingUp(true);
+    const result = await walletManager.findTransferRecipient(query);
+    setIsLookingUp(false);
+
+    if (!result.success || !result.recipient) {
+      Alert.alert('Member Not Found', result.error || 'Please check the number or handle');
+      return;
+    }
+
+    setRecipient(result.recipient);
+  };
+
+  const clearRecipient = () => {
+    setRecipient(null);
+    setAmount('');
+    setNote('');
+  };
+
+  const sendTransfer = async (value: number) => {
+    if (!recipient) return;
+
+    setIsSending(true);
+    try {
+      const result = await walletManager.transfer({ recipientWalletId: recipient.wallet_id, amount: value, note });
+
+      if (!result.success) {
+        Alert.alert('Transfer Failed', result.error || 'Please try again');
+        return;
+      }
+
+      logger.info('Transfer sent:', { reference: result.reference, amount: value });
+      Alert.alert('Transfer Sent', `₦${value.toLocaleString()} is now in ${recipient.display_name}'s Privé wallet.`);
+      clearRecipient();
+      setQuery('');
+      await loadWallet();
+      await loadLimit();
+      await loadActivity();
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSend = () => {
+    const value = parseFloat(amount);
+
+    if (!recipient) return;
+
+    if (!value || value < MIN_TRANSFER_AMOUNT) {
+      Alert.alert('Invalid Amount', `The minimum transfer is ₦${MIN_TRANSFER_AMOUNT.toLocaleString()}`);
+      return;
+    }
+
+    if (value > walletBalance) {
+      Alert.alert('Insufficient Balance', `Your available balance is ₦${walletBalance.toLocaleString()}`);
+      return;
+    }
+
+    if (value > remainingToday) {
+      Alert.alert('Daily Limit', `You can send ₦${remainingToday.toLocaleString()} more today`);
+      return;
+    }
+
+    // Transfers are instant and cannot be reversed, so the sender confirms the name first
+    const message = `Send ₦${value.toLocaleString()} to ${recipient.display_name}${recipient.handle ? ` (@${recipient.handle})` : ''}?`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) sendTransfer(value);
+    } else {
+      Alert.alert('Confirm Transfer', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Send', onPress: () => sendTransfer(value) },
+      ]);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { justifyContent: 'center', alignItems: 'center' }]}>
+        <ActivityIndicator size="large" color={QuiloxColors.gold} />
+      </View>
+    );
+  }
+
+  const canSend = !!recipient && !!amount && !isSending;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Send to Member</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <View style={styles.balanceCard}>
+          <Text style={styles.balanceLabel}>Available Balance</Text>
+          <Text style={styles.balanceAmount}>₦{walletBalance.toLocaleString()}</Text>
+          <Text style={styles.limitText}>₦{remainingToday.toLocaleString()} left of today&apos;s transfer limit</Text>
+        </View>
+
+        {/* Recipient */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Send To</Text>
+          {recipient ? (
+            <View style={[styles.recipientCard, styles.recipientCardConfirmed]}>
+              <View style={styles.avatar}>
+                <Text style={styles.avatarText}>{recipient.display_name.charAt(0).toUpperCase()}</Text>
+              </View>
+              <View style={{ flex: 1 }}>
+                <Text style={styles.recipientName}>{recipient.display_name}</Text>
+                <Text style={styles.recipientMeta}>
+                  {recipient.handle ? `@${recipient.handle}` : 'Privé member'}
+                </Text>
+              </View>
+              <TouchableOpacity onPress={clearRecipient}>
+                <Text style={styles.changeText}>Change</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.lookupRow}>
+              <TextInput
+                style={[styles.input, { flex: 1 }]}
+                placeholder="Phone number or @handle"
+                placeholderTextColor="#666"
+                value={query}
+                onChangeText={setQuery}
+                autoCapitalize="none"
+                autoCorrect={false}
+                onSubmitEditing={handleLookup}
+              />
+              <TouchableOpacity style={styles.lookupButton} onPress={handleLookup} disabled={isLookingUp}>
+                {isLookingUp ? (
+                  <ActivityIndicator color={QuiloxColors.black} />
+                ) : (
+                  <Text style={styles.lookupButtonText}>Find</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        {/* Amount */}
+        {recipient && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Amount</Text>
+            <TextInput
+              style={[styles.input, { fontSize: 18, paddingVertical: 16 }]}
+              placeholder={`Enter amount (min ₦${MIN_TRANSFER_AMOUNT.toLocaleString()})`}
+              placeholderTextColor="#666"
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="numeric"
+            />
+            <TextInput
+              style={[styles.input, { marginTop: 10 }]}
+              placeholder="Note (optional)"
+              placeholderTextColor="#666"
+              value={note}
+              onChangeText={setNote}
+              maxLength={80}
+            />
+          </View>
+        )}
+
+        {/* Transfer activity */}
+        {activity.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Recent Transfers</Text>
+            {activity.map((notification) => (
+              <TouchableOpacity
+                key={notification.id}
+                style={styles.activityRow}
+                onPress={() => notification.data?.transaction_id &&
+                  router.push({ pathname: '/transaction-receipt', params: { id: notification.data.transaction_id } })}
+              >
+                <IconSymbol
+                  name={notification.type === 'wallet_transfer_received' ? 'arrow.down.left' : 'arrow.up.right'}
+                  size={18}
+                  color={notification.type === 'wallet_transfer_received' ? '#10B981' : QuiloxColors.gold}
+                />
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.activityTitle}>{notification.title}</Text>
+                  <Text style={styles.recipientMeta}>{notification.body}</Text>
+                </View>
+                <Text style={styles.activityDate}>
+                  {new Date(notification.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+
+      {recipient && (
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.sendButton, { backgroundColor: canSend ? QuiloxColors.gold : QuiloxColors.darkGray }]}
+            onPress={handleSend}
+            disabled={!canSend}
+          >
+            {isSending ? (
+              <ActivityIndicator color={QuiloxColors.black} />
+            ) : (
+              <Text style={[styles.sendText, { color: canSend ? QuiloxColors.black : '#666' }]}>Send</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: QuiloxColors.black },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { fontSize: 18, fontWeight: 'bold', color: '#fff' },
+  content: { flex: 1, paddingHorizontal: 20 },
+  balanceCard: { padding: 20, borderRadius: 16, marginBottom: 24, backgroundColor: QuiloxColors.gold },
+  balanceLabel: { fontSize: 14, fontWeight: '600', color: QuiloxColors.black },
+  balanceAmount: { fontSize: 32, fontWeight: 'bold', marginTop: 8, color: QuiloxColors.black },
+  limitText: { fontSize: 12, marginTop: 6, color: QuiloxColors.black, opacity: 0.7 },
+  section: { marginBottom: 28 },
+  sectionTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 12, color: '#fff' },
+  lookupRow: { flexDirection: 'row', gap: 10 },
+  lookupButton: {
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: QuiloxColors.gold,
+  },
+  lookupButtonText: { fontSize: 14, fontWeight: 'bold', color: QuiloxColors.black },
+  input: { padding: 16, borderRadius: 12, fontSize: 16, color: '#fff', backgroundColor: QuiloxColors.darkGray },
+  recipientCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: QuiloxColors.darkGray,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  recipientCardConfirmed: { borderColor: QuiloxColors.gold },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: QuiloxColors.gold,
+  },
+  avatarText: { fontSize: 18, fontWeight: 'bold', color: QuiloxColors.black },
+  recipientName: { fontSize: 16, fontWeight: 'bold', color: '#fff' },
+  recipientMeta: { fontSize: 12, color: '#999', marginTop: 4 },
+  changeText: { fontSize: 14, fontWeight: '600', color: QuiloxColors.gold },
+  activityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  activityTitle: { fontSize: 14, fontWeight: 'bold', color: '#fff' },
+  activityDate: { fontSize: 12, color: '#999' },
+  footer: { padding: 20, paddingBottom: 40 },
+  sendButton: { padding: 18, borderRadius: 12, alignItems: 'center' },
+  sendText: { fontSize: 16, fontWeight: 'bold' },
+});
@@ -0,0 +1,299 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { QuiloxColors } from '@/constants/theme';
+import { fetchTableAreas, supabase, TableArea } from '@/lib/supabase';
+import { VenueBill, venueBillManager } from '@/lib/venue-bills';
+import { router, Stack } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+
+const EXPIRY_OPTIONS = [15, 30, 60, 120];
+
+const STATUS_COLORS: Record<VenueBill['status'], string> = {
+  open: QuiloxColors.gold,
+  paid: '#10B981',
+  void: '#666',
+};
+
+export default function StaffBillsScreen() {
+  const [isStaff, setIsStaff] = useState<boolean | null>(null);
+  const [tables, setTables] = useState<TableArea[]>([]);
+  const [bills, setBills] = useState<VenueBill[]>([]);
+
+  const [tableId, setTableId] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [expiresIn, setExpiresIn] = useState(30);
+  const [isCreating, setIsCreating] = useState(false);
+  const [shownBill, setShownBill] = useState<VenueBill | null>(null);
+
+  const loadBills = useCallback(async () => {
+    setBills(await venueBillManager.getRecentBills());
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const staff = user?.app_metadata?.role === 'admin';
+      setIsStaff(staff);
+      if (!staff) return;
+
+      setTables(await fetchTableAreas());
+      await loadBills();
+    };
+    load();
+  }, [loadBills]);
+
+  const handleCreate = async () => {
+    const value = parseFloat(amount);
+
+    if (!value || value <= 0) {
+      Alert.alert('Invalid Amount', 'Enter the bill total');
+      return;
+    }
+
+    if (!description.trim()) {
+      Alert.alert('Description Required', 'Describe what the bill is for');
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const result = await venueBillManager.createBill({ tableId, amount: value, description, expiresInMinutes: expiresIn });
+
+      if (!result.success || !result.bill) {
+        Alert.alert('Could Not Create Bill', result.error || 'Please try again');
+        return;
+      }
+
+      setShownBill(result.bill);
+      setAmount('');
+      setDescription('');
+      await loadBills();
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const voidBill = async (bill: VenueBill) => {
+    const result = await venueBillManager.voidBill(bill.id);
+    if (!result.success) {
+      Alert.alert('Could Not Cancel', result.error || 'Please try again');
+      return;
+    }
+
+    if (shownBill?.id === bill.id) setShownBill(null);
+    await loadBills();
+  };
+
+  const handleVoid = (bill: VenueBill) => {
+    const message = `Cancel the ₦${bill.amount.toLocaleString()} bill for ${bill.table_label}? Its QR code will stop working.`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) voidBill(bill);
+    } else {
+      Alert.alert('Cancel Bill', message, [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Cancel Bill', style: 'destructive', onPress: () => voidBill(bill) },
+      ]);
+    }
+  };
+
+  if (isStaff === null) {
+    return (
+      <View style={[styles.container, { justifyContent: 'center', alignItems: 'center' }]}>
+        <ActivityIndicator size="large" color={QuiloxColors.gold} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Table Bills</Text>
+        <TouchableOpacity onPress={loadBills} style={styles.backButton}>
+          <IconSymbol name="arrow.uturn.left" size={20} color={QuiloxColors.gold} />
+        </TouchableOpacity>
+      </View>
+
+      {!isStaff ? (
+        <View style={[styles.content, { justifyContent: 'center', alignItems: 'center' }]}>
+          <Text style={styles.emptyText}>Table bills are only available to Quilox staff.</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          {/* QR for the bill being presented */}
+          {shownBill?.token && (
+            <View style={styles.qrCard}>
+              <Text style={styles.qrTable}>{shownBill.table_label}</Text>
+              <Text style={styles.qrAmount}>₦{shownBill.amount.toLocaleString()}</Text>
+              <View style={styles.qrWrapper}>
+                <QRCode value={shownBill.token} size={220} backgroundColor="#fff" color={QuiloxColors.black} />
+              </View>
+              <Text style={styles.qrMeta}>{shownBill.description}</Text>
+              <Text style={styles.qrMeta}>
+                Scan to pay before {new Date(shownBill.expires_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+              </Text>
+              <TouchableOpacity onPress={() => setShownBill(null)} style={{ marginTop: 12 }}>
+                <Text style={styles.linkText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          {/* New bill */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>New Bill</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginBottom: 12 }}>
+              <TouchableOpacity
+                style={[styles.chip, tableId === null && styles.chipActive]}
+                onPress={() => setTableId(null)}
+              >
+                <Text style={[styles.chipText, tableId === null && styles.chipTextActive]}>No table</Text>
+              </TouchableOpacity>
+              {tables.map((table) => (
+                <TouchableOpacity
+                  key={table.id}
+                  style={[styles.chip, tableId === table.id && styles.chipActive]}
+                  onPress={() => setTableId(table.id)}
+                >
+                  <Text style={[styles.chipText, tableId === table.id && styles.chipTextActive]}>
+                    {table.table_number}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <TextInput
+              style={[styles.input, { fontSize: 18 }]}
+              placeholder="Bill total (₦)"
+              placeholderTextColor="#666"
+              value={amount}
+              onChangeText={setAmount}
+              keyboardType="numeric"
+            />
+            <TextInput
+              style={[styles.input, { marginTop: 10 }]}
+              placeholder="e.g., 2x Moët, Shisha"
+              placeholderTextColor="#666"
+              value={description}
+              onChangeText={setDescription}
+              maxLength={120}
+            />
+            <Text style={styles.label}>Code valid for</Text>
+            <View style={styles.chipRow}>
+              {EXPIRY_OPTIONS.map((minutes) => (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.chip, expiresIn === minutes && styles.chipActive]}
+                  onPress={() => setExpiresIn(minutes)}
+                >
+                  <Text style={[styles.chipText, expiresIn === minutes && styles.chipTextActive]}>{minutes} min</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TouchableOpacity style={styles.createButton} onPress={handleCreate} disabled={isCreating}>
+              {isCreating ? (
+                <ActivityIndicator color={QuiloxColors.black} />
+              ) : (
+                <Text style={styles.createText}>Create Bill QR</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {/* Recent bills */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Today</Text>
+            {bills.length === 0 ? (
+              <Text style={styles.emptyText}>No bills raised in the last 24 hours</Text>
+            ) : (
+              bills.map((bill) => (
+                <TouchableOpacity
+                  key={bill.id}
+                  style={styles.billRow}
+                  disabled={!bill.token}
+                  onPress={() => setShownBill(bill)}
+                >
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.billTitle}>{bill.table_label} • ₦{bill.amount.toLocaleString()}</Text>
+                    <Text style={styles.billMeta}>{bill.description}</Text>
+                  </View>
+                  <Text style={[styles.statusText, { color: STATUS_COLORS[bill.status] }]}>
+                    {bill.status === 'open' && !bill.token ? 'EXPIRED' : bill.status.toUpperCase()}
+                  </Text>
+                  {bill.status === 'open' && (
+                    <TouchableOpacity onPress={() => handleVoid(bill)} style={{ marginLeft: 12 }}>
+                      <Text style={styles.voidText}>Cancel</Text>
+                    </TouchableOpacity>
+                  )}
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: QuiloxColors.black },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { fontSize: 18, fontWeight: 'bold', color: '#fff' },
+  content: { flex: 1, paddingHorizontal: 20 },
+  section: { marginBottom: 28 },
+  sectionTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 12, color: '#fff' },
+  label: { fontSize: 14, fontWeight: '600', marginTop: 16, marginBottom: 8, color: '#999' },
+  input: { padding: 16, borderRadius: 12, fontSize: 16, color: '#fff', backgroundColor: QuiloxColors.darkGray },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap' },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+    marginBottom: 8,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  chipActive: { backgroundColor: QuiloxColors.gold },
+  chipText: { fontSize: 13, fontWeight: '600', color: '#ccc' },
+  chipTextActive: { color: QuiloxColors.black },
+  createButton: { padding: 18, borderRadius: 12, alignItems: 'center', marginTop: 16, backgroundColor: QuiloxColors.gold },
+  createText: { fontSize: 16, fontWeight: 'bold', color: QuiloxColors.black },
+  qrCard: {
+    alignItems: 'center',
+    padding: 20,
+    borderRadius: 16,
+    marginBottom: 28,
+    borderWidth: 2,
+    borderColor: QuiloxColors.gold,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  qrTable: { fontSize: 14, fontWeight: '600', color: QuiloxColors.gold },
+  qrAmount: { fontSize: 28, fontWeight: 'bold', marginVertical: 8, color: '#fff' },
+  qrWrapper: { padding: 12, borderRadius: 12, marginVertical: 8, backgroundColor: '#fff' },
+  qrMeta: { fontSize: 12, marginTop: 6, textAlign: 'center', color: '#999' },
+  linkText: { fontSize: 14, fontWeight: '600', color: QuiloxColors.gold },
+  billRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  billTitle: { fontSize: 14, fontWeight: 'bold', color: '#fff' },
+  billMeta: { fontSize: 12, marginTop: 4, color: '#999' },
+  statusText: { fontSize: 11, fontWeight: 'bold' },
+  voidText: { fontSize: 13, fontWeight: '600', color: '#EF4444' },
+  emptyText: { fontSize: 14, textAlign: 'center', color: '#999' },
+});
@@ -0,0 +1,313 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { QuiloxColors } from '@/constants/theme';
+import { formatSessionTime } from '@/lib/booking-sessions';
+import { CheckInNight, checkInPassManager, CheckInSyncResult, ScanOutcome, ScanResult } from '@/lib/checkin-passes';
+import { supabase } from '@/lib/supabase';
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from 'expo-camera';
+import { router, Stack } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+// How long a result stays up before the scanner is ready for the next guest
+const RESULT_SECONDS = 3;
+const SYNC_INTERVAL_MS = 15000;
+
+const OUTCOME_COLORS: Record<ScanOutcome, string> = {
+  checked_in: '#10B981',
+  duplicate: '#F59E0B',
+  cancelled: '#EF4444',
+  invalid: '#EF4444',
+  wrong_night: '#EF4444',
+  expired: '#EF4444',
+};
+
+const OUTCOME_TITLES: Record<ScanOutcome, string> = {
+  checked_in: 'Checked In',
+  duplicate: 'Already Checked In',
+  cancelled: 'Booking Cancelled',
+  invalid: 'Invalid Pass',
+  wrong_night: 'Wrong Night',
+  expired: 'Code Expired',
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+export default function StaffCheckInScreen() {
+  const [isStaff, setIsStaff] = useState<boolean | null>(null);
+  const [permission, requestPermission] = useCameraPermissions();
+  const [night, setNight] = useState<CheckInNight | null>(null);
+  const [offline, setOffline] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [recent, setRecent] = useState<ScanResult[]>([]);
+  // Check-ins another scanner got to first, found when this one synced
+  const [flagged, setFlagged] = useState<CheckInSyncResult[]>([]);
+  const [pending, setPending] = useState(0);
+  // The camera keeps reporting the same code while it is in view; only act on the first
+  const scanLocked = useRef(false);
+
+  const loadNight = useCallback(async () => {
+    const loaded = await checkInPassManager.loadNight();
+    if (!loaded.success || !loaded.night) {
+      setLoadError(loaded.error || 'Could not load tonight\'s guest list');
+      return;
+    }
+    setLoadError(null);
+    setNight({ ...loaded.night });
+    setOffline(!!loaded.offline);
+    setPending(checkInPassManager.pendingCount());
+  }, []);
+
+  const sync = useCallback(async () => {
+    if (checkInPassManager.pendingCount() === 0) return;
+
+    const synced = await checkInPassManager.sync();
+    setOffline(!synced.success);
+    setPending(checkInPassManager.pendingCount());
+    if (!synced.results) return;
+
+    const problems = synced.results.filter((r) => r.result !== 'checked_in');
+    if (problems.length > 0) setFlagged((prev) => [...problems, ...prev]);
+
+    const current = checkInPassManager.getNight();
+    if (current) setNight({ ...current });
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const staff = user?.app_metadata?.role === 'admin';
+      setIsStaff(staff);
+      if (!staff) return;
+
+      await loadNight();
+      await sync();
+    };
+    load();
+  }, [loadNight, sync]);
+
+  // Keep trying to send check-ins made while offline
+  useEffect(() => {
+    const timer = setInterval(sync, SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [sync]);
+
+  const handleScanned = async ({ data }: BarcodeScanningResult) => {
+    if (scanLocked.current) return;
+    scanLocked.current = true;
+
+    const scanned = await checkInPassManager.scan(data);
+    setResult(scanned);
+    setRecent((prev) => [scanned, ...prev].slice(0, 20));
+    setPending(checkInPassManager.pendingCount());
+
+    setTimeout(() => {
+      setResult(null);
+      scanLocked.current = false;
+    }, RESULT_SECONDS * 1000);
+
+    if (scanned.outcome === 'checked_in') sync();
+  };
+
+  if (isStaff === null || !permission) {
+    return (
+      <View style={[styles.container, { justifyContent: 'center', alignItems: 'center' }]}>
+        <ActivityIndicator size="large" color={QuiloxColors.gold} />
+      </View>
+    );
+  }
+
+  const guests = night?.bookings.filter((b) => b.status === 'confirmed') ?? [];
+  const checkedIn = guests.filter((b) => b.checked_in_at).length;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Door Check-in</Text>
+        <TouchableOpacity onPress={loadNight} style={styles.backButton}>
+          <IconSymbol name="arrow.uturn.left" size={20} color={QuiloxColors.gold} />
+        </TouchableOpacity>
+      </View>
+
+      {!isStaff ? (
+        <View style={[styles.content, { justifyContent: 'center', alignItems: 'center' }]}>
+          <Text style={styles.emptyText}>Door check-in is only available to Quilox staff.</Text>
+        </View>
+      ) : !night ? (
+        <View style={[styles.content, { justifyContent: 'center', alignItems: 'center' }]}>
+          {loadError ? (
+            <>
+              <Text style={styles.emptyText}>{loadError}</Text>
+              <TouchableOpacity onPress={loadNight} style={{ marginTop: 12 }}>
+                <Text style={styles.linkText}>Try Again</Text>
+              </TouchableOpacity>
+            </>
+          ) : (
+            <ActivityIndicator size="large" color={QuiloxColors.gold} />
+          )}
+        </View>
+      ) : (
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryText}>
+              {new Date(`${night.booking_date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+              {guests.length > 0 ? ` · ${checkedIn} of ${guests.length} bookings in` : ''}
+            </Text>
+            {(offline || pending > 0) && (
+              <Text style={styles.offlineText}>
+                {offline ? 'Offline' : 'Syncing'}{pending > 0 ? ` · ${pending} to send` : ''}
+              </Text>
+            )}
+          </View>
+
+          {!permission.granted ? (
+            <View style={styles.permissionCard}>
+              <IconSymbol name="qrcode" size={48} color={QuiloxColors.gold} />
+              <Text style={styles.permissionText}>Allow camera access to scan guests&apos; check-in passes.</Text>
+              <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+                <Text style={styles.permissionButtonText}>Allow Camera</Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.cameraFrame}>
+              <CameraView
+                style={StyleSheet.absoluteFill}
+                facing="back"
+                barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+                onBarcodeScanned={result ? undefined : handleScanned}
+              />
+              {result && (
+                <View style={[styles.resultOverlay, { backgroundColor: OUTCOME_COLORS[result.outcome] + 'E6' }]}>
+                  <IconSymbol
+                    name={result.outcome === 'checked_in'
+                      ? 'checkmark.circle.fill'
+                      : result.outcome === 'duplicate' ? 'exclamationmark.triangle.fill' : 'xmark.circle.fill'}
+                    size={64}
+                    color="#fff"
+                  />
+                  <Text style={styles.resultTitle}>{OUTCOME_TITLES[result.outcome]}</Text>
+                  {result.guest && <Text style={styles.resultGuest}>{result.guest.guest_name}</Text>}
+                  {result.claims && (
+                    <Text style={styles.resultDetail}>
+                      {result.guest?.table_name ? `${result.guest.table_name} (${result.guest.table_number}) · ` : ''}
+                      {result.claims.guestCount} guests
+                    </Text>
+                  )}
+                  <Text style={styles.resultDetail}>
+                    {result.outcome === 'duplicate' && result.firstCheckedInAt
+                      ? `First checked in at ${formatTime(result.firstCheckedInAt)}`
+                      : result.message}
+                  </Text>
+                  {result.claims?.fromWallet && <Text style={styles.resultDetail}>Wallet pass</Text>}
+                </View>
+              )}
+            </View>
+          )}
+          <Text style={styles.hintText}>Scan the guest&apos;s pass. Passes are checked on this phone, even offline.</Text>
+
+          {/* Check-ins another door had already made */}
+          {flagged.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Flagged</Text>
+              {flagged.map((item, index) => (
+                <View key={`${item.booking_id}-${index}`} style={[styles.scanRow, { borderColor: '#F59E0B' }]}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.scanTitle}>{item.guest_name || item.booking_id || 'Unreadable scan'}</Text>
+                    <Text style={styles.scanMeta}>
+                      {item.result === 'duplicate' && item.checked_in_at
+                        ? `Duplicate: already checked in at ${formatTime(item.checked_in_at)}`
+                        : item.error || item.result}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {recent.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Recent Scans</Text>
+              {recent.map((scan, index) => (
+                <View key={`${scan.scannedAt}-${index}`} style={styles.scanRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.scanTitle}>{scan.guest?.guest_name || OUTCOME_TITLES[scan.outcome]}</Text>
+                    <Text style={styles.scanMeta}>
+                      {formatTime(scan.scannedAt)}
+                      {scan.claims ? ` · ${scan.claims.guestCount} guests` : ''}
+                      {scan.guest?.arrival_time ? ` · expected ${formatSessionTime(scan.guest.arrival_time)}` : ''}
+                    </Text>
+                  </View>
+                  <Text style={[styles.statusText, { color: OUTCOME_COLORS[scan.outcome] }]}>
+                    {OUTCOME_TITLES[scan.outcome].toUpperCase()}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: QuiloxColors.black },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { fontSize: 18, fontWeight: 'bold', color: '#fff' },
+  content: { flex: 1, paddingHorizontal: 20 },
+  summaryRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 },
+  summaryText: { fontSize: 14, fontWeight: '600', color: '#fff' },
+  offlineText: { fontSize: 12, fontWeight: '600', color: '#F59E0B' },
+  cameraFrame: {
+    aspectRatio: 1,
+    borderRadius: 20,
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: QuiloxColors.gold,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  resultOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  resultTitle: { fontSize: 24, fontWeight: 'bold', marginTop: 12, color: '#fff' },
+  resultGuest: { fontSize: 18, fontWeight: '600', marginTop: 8, color: '#fff' },
+  resultDetail: { fontSize: 14, marginTop: 6, textAlign: 'center', color: '#fff' },
+  hintText: { fontSize: 14, textAlign: 'center', marginTop: 16, color: '#999' },
+  permissionCard: { alignItems: 'center', padding: 24, borderRadius: 16, backgroundColor: QuiloxColors.darkGray },
+  permissionText: { fontSize: 14, textAlign: 'center', marginVertical: 16, color: '#ccc' },
+  permissionButton: { paddingHorizontal: 24, paddingVertical: 12, borderRadius: 12, backgroundColor: QuiloxColors.gold },
+  permissionButtonText: { fontSize: 14, fontWeight: 'bold', color: QuiloxColors.black },
+  section: { marginTop: 28 },
+  sectionTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 12, color: '#fff' },
+  scanRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#333',
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  scanTitle: { fontSize: 14, fontWeight: 'bold', color: '#fff' },
+  scanMeta: { fontSize: 12, marginTop: 4, color: '#999' },
+  statusText: { fontSize: 11, fontWeight: 'bold', marginLeft: 8 },
+  linkText: { fontSize: 14, fontWeight: '600', color: QuiloxColors.gold },
+  emptyText: { fontSize: 14, textAlign: 'center', color: '#999' },
+});
@@ -2,55 +2,159 @@ import { IconSymbol } from '@/components/ui/icon-symbol';
 import { QuiloxColors } from '@/constants/theme';
 import { useBooking } from '@/context/BookingContext';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { checkTableAvailability, fetchTableAreas, TableArea } from '@/lib/supabase';
+import {
+  BookingSession,
+  fetchBookingSessions,
+  formatSessionTime,
+  formatSessionWindow,
+  getArrivalTimes,
+} from '@/lib/booking-sessions';
+import {
+  fetchTableAreas,
+  fetchTableAvailability,
+  subscribeToTableAvailability,
+  TableAvailability,
+} from '@/lib/supabase';
+import { waitlistManager, WaitlistScope } from '@/lib/waitlist';
 import { router } from 'expo-router';
 import React, { useCallback, useEffect, useState } from 'react';
-import { ActivityIndicator, ImageBackground, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { ActivityIndicator, Alert, ImageBackground, Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 
 export default function TableSelectionScreen() {
   const colorScheme = useColorScheme();
   const isDark = true;
-  const { selectedDate, guestCount, selectedTable, setSelectedTable } = useBooking();
+  const {
+    selectedDate,
+    selectedSession,
+    setSelectedSession,
+    arrivalTime,
+    setArrivalTime,
+    guestCount,
+    selectedTable,
+    setSelectedTable,
+  } = useBooking();
 
-  const [tables, setTables] = useState<TableArea[]>([]);
+  const [tables, setTables] = useState<TableAvailability[]>([]);
+  const [sessions, setSessions] = useState<BookingSession[]>([]);
   const [loading, setLoading] = useState(true);
-  const [availabilityMap, setAvailabilityMap] = useState<Record<string, boolean>>({});
+  const [availabilityError, setAvailabilityError] = useState(false);
 
-  // Fetch tables and check availability
-  const loadTablesAndAvailability = useCallback(async () => {
-    setLoading(true);
+  const dateStr = selectedDate ? selectedDate.toISOString().split('T')[0] : null;
+
+  useEffect(() => {
+    fetchBookingSessions(selectedDate).then(setSessions);
+  }, [selectedDate]);
+
+  // Tables with their status for the night and session, in one request.
+  // Refreshes keep the last known statuses if the lookup fails.
+  const loadTablesAndAvailability = useCallback(async (refresh = false) => {
+    if (!refresh) setLoading(true);
     try {
-      const tablesData = await fetchTableAreas();
-      setTables(tablesData);
-
-      if (selectedDate) {
-        const dateStr = selectedDate.toISOString().split('T')[0];
-        const availabilityChecks = await Promise.all(
-          tablesData.map(async (table) => ({
-            id: table.id,
-            available: await checkTableAvailability(table.id, dateStr),
-          }))
-        );
-
-        const availMap: Record<string, boolean> = {};
-        availabilityChecks.forEach(({ id, available }) => {
-          availMap[id] = available;
-        });
-        setAvailabilityMap(availMap);
+      if (dateStr) {
+        const result = await fetchTableAvailability(dateStr, selectedSession);
+        setAvailabilityError(!result.success);
+        if (result.success) {
+          setTables(result.tables || []);
+          return;
+        }
+        if (refresh) return;
       }
+
+      // Availability unknown: list the tables; booking still refuses a taken table
+      const tablesData = await fetchTableAreas();
+      setTables(tablesData.map((table) => ({
+        ...table,
+        status: table.is_available ? 'available' : 'closed',
+        hold_expires_at: null,
+      })));
     } catch (error) {
       console.error('Error loading tables:', error);
     } finally {
       setLoading(false);
     }
-  }, [selectedDate]);
+  }, [dateStr, selectedSession]);
 
   useEffect(() => {
     loadTablesAndAvailability();
   }, [loadTablesAndAvailability]);
 
-  const isTableAvailable = (tableId: string) => {
-    return availabilityMap[tableId] !== false;
+  // Grey tables out live as other guests hold and book them
+  useEffect(() => {
+    if (!dateStr) return;
+    return subscribeToTableAvailability(dateStr, () => loadTablesAndAvailability(true));
+  }, [dateStr, loadTablesAndAvailability]);
+
+  // Holds run out without a database change, so refresh when the next one does
+  useEffect(() => {
+    const expiries = tables
+      .filter((table) => table.status === 'held' && table.hold_expires_at)
+      .map((table) => new Date(table.hold_expires_at!).getTime());
+    if (expiries.length === 0) return;
+
+    const timer = setTimeout(() => loadTablesAndAvailability(true), Math.max(Math.min(...expiries) - Date.now(), 0) + 1000);
+    return () => clearTimeout(timer);
+  }, [tables, loadTablesAndAvailability]);
+
+  // Switching session, or another guest booking it, can make the chosen table unavailable
+  useEffect(() => {
+    const current = selectedTable && tables.find((table) => table.id === selectedTable.id);
+    if (current && current.status !== 'available') {
+      setSelectedTable(null);
+    }
+  }, [tables, selectedTable, setSelectedTable]);
+
+  const handleSelectSession = (session: BookingSession) => {
+    if (session.id === selectedSession?.id) return;
+    setSelectedSession(session);
+    setArrivalTime(getArrivalTimes(session)[0] ?? null);
+  };
+
+  const joinWaitlist = async (scope: WaitlistScope, table?: TableAvailability) => {
+    if (!dateStr) return;
+
+    const result = await waitlistManager.join({
+      bookingDate: dateStr,
+      sessionId: selectedSession?.id,
+      scope,
+      tableId: table?.id,
+      section: table?.section,
+      guestCount,
+    });
+
+    if (!result.success) {
+      Alert.alert('Could Not Join Waitlist', result.error || 'Please try again');
+      return;
+    }
+
+    Alert.alert(
+      "You're on the Waitlist",
+      "If a table frees up we'll hold it for you and let you know. See your place in line under My Bookings."
+    );
+  };
+
+  // Taken tables can't be selected, but the guest can wait for them
+  const promptWaitlist = (table: TableAvailability) => {
+    if (Platform.OS === 'web') {
+      if (confirm(`${table.name} is taken. Join the waitlist for it?`)) joinWaitlist('table', table);
+      return;
+    }
+
+    Alert.alert('Join the Waitlist', `${table.name} is taken. What would you like to wait for?`, [
+      { text: 'This Table', onPress: () => joinWaitlist('table', table) },
+      { text: `Any ${table.section} Table`, onPress: () => joinWaitlist('section', table) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const getStatusLabel = (table: TableAvailability) => {
+    switch (table.status) {
+      case 'booked': return 'Booked';
+      case 'held': {
+        const minutes = Math.max(Math.ceil((new Date(table.hold_expires_at!).getTime() - Date.now()) / 60000), 1);
+        return `On hold · ${minutes} min`;
+      }
+      default: return 'Not Available';
+    }
   };
 
   const handleContinue = () => {
@@ -89,12 +193,55 @@ export default function TableSelectionScreen() {
               <IconSymbol name="person.2" size={18} color={QuiloxColors.gold} />
               <Text style={[styles.infoText, { color: '#fff' }]}>{guestCount} Guests</Text>
             </View>
+            {selectedSession && (
+              <View style={styles.infoRow}>
+                <IconSymbol name="clock" size={18} color={QuiloxColors.gold} />
+                <Text style={[styles.infoText, { color: '#fff' }]}>
+                  {selectedSession.name} · {formatSessionWindow(selectedSession)}
+                  {arrivalTime ? ` · arriving ${formatSessionTime(arrivalTime)}` : ''}
+                </Text>
+              </View>
+            )}
+          </View>
+        )}
+
+        {availabilityError && (
+          <View style={[styles.infoCard, { backgroundColor: QuiloxColors.darkGray }]}>
+            <Text style={[styles.noticeText, { color: '#999' }]}>
+              Live availability could not be loaded. Your table is confirmed when you book.
+            </Text>
+            <TouchableOpacity onPress={() => loadTablesAndAvailability()}>
+              <Text style={[styles.noticeText, { color: QuiloxColors.gold, fontWeight: 'bold' }]}>Try Again</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Availability is per session: switch to see the other slots */}
+        {sessions.length > 1 && (
+          <View style={styles.sessionRow}>
+            {sessions.map((session) => {
+              const isSelected = selectedSession?.id === session.id;
+              return (
+                <TouchableOpacity
+                  key={session.id}
+                  style={[styles.sessionChip, { backgroundColor: isSelected ? QuiloxColors.gold : QuiloxColors.darkGray }]}
+                  onPress={() => handleSelectSession(session)}
+                >
+                  <Text style={[styles.sessionChipText, { color: isSelected ? QuiloxColors.black : '#fff' }]}>
+                    {session.name}
+                  </Text>
+                  <Text style={[styles.sessionChipTime, { color: isSelected ? QuiloxColors.black : '#999' }]}>
+                    {formatSessionWindow(session)}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
           </View>
         )}
 
         <View style={styles.tableGrid}>
           {tables.map((table) => {
-            const available = isTableAvailable(table.id) && table.is_available;
+            const available = table.status === 'available';
             const isSelected = selectedTable?.id === table.id;
 
             return (
@@ -105,8 +252,8 @@ export default function TableSelectionScreen() {
                   !available && styles.tableCardDisabled,
                   isSelected && { borderColor: QuiloxColors.gold, borderWidth: 3 },
                 ]}
-                onPress={() => available && setSelectedTable(table)}
-                disabled={!available}
+                onPress={() => (available ? setSelectedTable(table) : promptWaitlist(table))}
+                disabled={table.status === 'closed'}
               >
                 <ImageBackground
                   source={{ uri: table.image_url || 'https://images.unsplash.com/photo-1566417713940-fe7c737a9ef2?w=400' }}
@@ -123,10 +270,13 @@ export default function TableSelectionScreen() {
                       <Text style={styles.tableSeats}>{table.seats} seats</Text>
                       <Text style={styles.tableFee}>₦{table.booking_fee.toLocaleString()} booking fee</Text>
                       {!available && (
-                        <View style={[styles.unavailableBadge, { backgroundColor: QuiloxColors.error }]}>
-                          <Text style={styles.unavailableText}>Not Available</Text>
+                        <View style={[styles.unavailableBadge, { backgroundColor: table.status === 'held' ? '#F59E0B' : QuiloxColors.error }]}>
+                          <Text style={styles.unavailableText}>{getStatusLabel(table)}</Text>
                         </View>
                       )}
+                      {(table.status === 'booked' || table.status === 'held') && (
+                        <Text style={styles.waitlistHint}>Tap to join the waitlist</Text>
+                      )}
                     </View>
                   </View>
                 </ImageBackground>
@@ -134,6 +284,18 @@ export default function TableSelectionScreen() {
             );
           })}
         </View>
+
+        {dateStr && tables.some((table) => table.status === 'booked' || table.status === 'held') && (
+          <TouchableOpacity
+            style={[styles.infoCard, { backgroundColor: QuiloxColors.darkGray, alignItems: 'center' }]}
+            onPress={() => joinWaitlist('any')}
+          >
+            <Text style={[styles.noticeText, { color: '#999' }]}>Can&apos;t find a table?</Text>
+            <Text style={[styles.noticeText, { color: QuiloxColors.gold, fontWeight: 'bold' }]}>
+              Join the waitlist for any table
+            </Text>
+          </TouchableOpacity>
+        )}
       </ScrollView>
 
       {/* Continue Button */}
@@ -201,6 +363,7 @@ const styles = StyleSheet.create({
     marginTop: 8,
   },
   unavailableText: { color: '#fff', fontSize: 12, fontWeight: 'bold' },
+  waitlistHint: { color: QuiloxColors.gold, fontSize: 12, fontWeight: '600', marginTop: 4 },
   footer: { padding: 20, paddingBottom: 40 },
   continueButton: { padding: 18, borderRadius: 12, alignItems: 'center' },
   continueText: { fontSize: 16, fontWeight: 'bold' },
@@ -227,6 +390,28 @@ const styles = StyleSheet.create({
     alignSelf: 'flex-start',
     marginTop: 4,
   },
+  noticeText: {
+    fontSize: 14,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  sessionChip: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  sessionChipText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  sessionChipTime: {
+    fontSize: 12,
+    marginTop: 2,
+  },
   tableSectionText: {
     color: QuiloxColors.black,
     fontSize: 12,
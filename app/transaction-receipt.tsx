@@ -0,0 +1,162 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { QuiloxColors } from '@/constants/theme';
+import { useWallet } from '@/hooks/useWallet';
+import {
+  buildReceiptText,
+  formatNaira,
+  formatPaymentMethod,
+  formatTransactionDate,
+  transactionTitle,
+} from '@/lib/receipts';
+import { WalletTransaction, walletManager } from '@/lib/wallet-manager';
+import { router, Stack, useLocalSearchParams } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, ScrollView, Share, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+const statusLabels: Record<WalletTransaction['status'], { label: string; color: string }> = {
+  completed: { label: 'Successful', color: '#10B981' },
+  pending: { label: 'Pending', color: QuiloxColors.gold },
+  failed: { label: 'Failed', color: '#EF4444' },
+};
+
+export default function TransactionReceiptScreen() {
+  const params = useLocalSearchParams();
+  const transactionId = params.id as string;
+  const { wallet } = useWallet();
+
+  const [transaction, setTransaction] = useState<WalletTransaction | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    walletManager.getTransaction(transactionId).then((tx) => {
+      setTransaction(tx);
+      setLoading(false);
+    });
+  }, [transactionId]);
+
+  const handleShare = async () => {
+    if (!transaction) return;
+    const message = buildReceiptText(transaction, wallet);
+
+    try {
+      if (Platform.OS === 'web') {
+        await navigator.clipboard.writeText(message);
+        alert('Receipt copied to clipboard');
+        return;
+      }
+      await Share.share({ title: 'Quilox Privé receipt', message });
+    } catch (error: any) {
+      console.error('Failed to share receipt:', error);
+      Alert.alert('Error', 'Could not share this receipt');
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <ActivityIndicator size="large" color={QuiloxColors.gold} />
+      </View>
+    );
+  }
+
+  const status = transaction ? statusLabels[transaction.status] : null;
+  const details = transaction
+    ? [
+        { label: 'Description', value: transactionTitle(transaction) },
+        { label: 'Method', value: formatPaymentMethod(transaction.payment_method) },
+        { label: 'Date', value: formatTransactionDate(transaction.created_at) },
+        { label: 'Reference', value: transaction.reference },
+        ...(transaction.balance_after !== null
+          ? [{ label: 'Balance after', value: formatNaira(transaction.balance_after) }]
+          : []),
+        ...(wallet ? [{ label: 'Account', value: `${wallet.account_name} • ${wallet.account_number}` }] : []),
+      ]
+    : [];
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Receipt</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {!transaction || !status ? (
+        <View style={styles.centerContent}>
+          <Text style={styles.emptyText}>Transaction not found</Text>
+        </View>
+      ) : (
+        <>
+          <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+            <View style={styles.receipt}>
+              <Text style={styles.brand}>QUILOX PRIVÉ</Text>
+              <Text style={styles.amountLabel}>{transaction.type === 'credit' ? 'Money in' : 'Money out'}</Text>
+              <Text style={styles.amount}>{formatNaira(transaction.amount)}</Text>
+              <View style={[styles.statusBadge, { backgroundColor: status.color + '20' }]}>
+                <Text style={[styles.statusText, { color: status.color }]}>{status.label}</Text>
+              </View>
+
+              <View style={styles.divider} />
+
+              {details.map((detail) => (
+                <View key={detail.label} style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>{detail.label}</Text>
+                  <Text style={styles.detailValue} selectable>{detail.value}</Text>
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={styles.shareButton} onPress={handleShare}>
+              <IconSymbol name="paperplane.fill" size={18} color={QuiloxColors.black} />
+              <Text style={styles.shareText}>Share Receipt</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: QuiloxColors.black },
+  centerContent: { flex: 1, justifyContent: 'center', alignItems: 'center' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { fontSize: 18, fontWeight: 'bold', color: '#fff' },
+  content: { flex: 1, paddingHorizontal: 20 },
+  emptyText: { fontSize: 14, color: '#999' },
+  receipt: { padding: 24, borderRadius: 16, alignItems: 'center', backgroundColor: QuiloxColors.darkGray },
+  brand: { fontSize: 12, fontWeight: 'bold', letterSpacing: 3, color: QuiloxColors.gold, marginBottom: 16 },
+  amountLabel: { fontSize: 14, color: '#999' },
+  amount: { fontSize: 34, fontWeight: 'bold', color: '#fff', marginTop: 6 },
+  statusBadge: { paddingVertical: 4, paddingHorizontal: 12, borderRadius: 12, marginTop: 12 },
+  statusText: { fontSize: 12, fontWeight: 'bold', textTransform: 'uppercase' },
+  divider: { alignSelf: 'stretch', height: 1, backgroundColor: '#333', marginVertical: 20 },
+  detailRow: { alignSelf: 'stretch', flexDirection: 'row', justifyContent: 'space-between', gap: 16, marginBottom: 14 },
+  detailLabel: { fontSize: 13, color: '#999' },
+  detailValue: { flex: 1, fontSize: 13, fontWeight: '600', color: '#fff', textAlign: 'right' },
+  footer: { padding: 20, paddingBottom: 40 },
+  shareButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    padding: 18,
+    borderRadius: 12,
+    backgroundColor: QuiloxColors.gold,
+  },
+  shareText: { fontSize: 16, fontWeight: 'bold', color: QuiloxColors.black },
+});
@@ -0,0 +1,245 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { QuiloxColors } from '@/constants/theme';
+import { useWallet } from '@/hooks/useWallet';
+import { formatNaira, formatPaymentMethod, formatTransactionDate, transactionTitle } from '@/lib/receipts';
+import { TransactionFilters, WalletTransaction, walletManager } from '@/lib/wallet-manager';
+import { router, Stack } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, FlatList, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+type Option<T> = { label: string; value: T | undefined };
+
+const typeOptions: Option<TransactionFilters['type']>[] = [
+  { label: 'All', value: undefined },
+  { label: 'Money in', value: 'credit' },
+  { label: 'Money out', value: 'debit' },
+];
+
+const statusOptions: Option<TransactionFilters['status']>[] = [
+  { label: 'Any status', value: undefined },
+  { label: 'Completed', value: 'completed' },
+  { label: 'Pending', value: 'pending' },
+  { label: 'Failed', value: 'failed' },
+];
+
+const methodOptions: Option<string[]>[] = [
+  { label: 'Any method', value: undefined },
+  { label: 'Card', value: ['card'] },
+  { label: 'Bank transfer', value: ['bank', 'bank_transfer'] },
+  { label: 'USSD', value: ['ussd'] },
+  { label: 'Wallet', value: ['wallet'] },
+  { label: 'Transfer', value: ['wallet_transfer'] },
+  { label: 'Refund', value: ['refund'] },
+];
+
+// Days back from today; undefined is all time
+const periodOptions: Option<number>[] = [
+  { label: 'All time', value: undefined },
+  { label: '7 days', value: 7 },
+  { label: '30 days', value: 30 },
+  { label: '90 days', value: 90 },
+];
+
+const statusColors: Record<WalletTransaction['status'], string> = {
+  completed: '#10B981',
+  pending: QuiloxColors.gold,
+  failed: '#EF4444',
+};
+
+function FilterRow<T>({ options, selected, onSelect }: {
+  options: Option<T>[];
+  selected: Option<T>;
+  onSelect: (option: Option<T>) => void;
+}) {
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.filterRow}>
+      {options.map((option) => {
+        const active = option.label === selected.label;
+        return (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => onSelect(option)}
+          >
+            <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+export default function TransactionsScreen() {
+  const { wallet, loading: walletLoading } = useWallet();
+
+  const [type, setType] = useState(typeOptions[0]);
+  const [status, setStatus] = useState(statusOptions[0]);
+  const [method, setMethod] = useState(methodOptions[0]);
+  const [period, setPeriod] = useState(periodOptions[0]);
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+
+  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+
+  // Ignore responses for filters the member has already moved on from
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const buildFilters = useCallback((): TransactionFilters => ({
+    type: type.value,
+    status: status.value,
+    paymentMethods: method.value,
+    from: period.value ? new Date(Date.now() - period.value * 24 * 60 * 60 * 1000) : undefined,
+    search: debouncedSearch,
+  }), [type, status, method, period, debouncedSearch]);
+
+  const loadPage = useCallback(async (pageToLoad: number) => {
+    if (!wallet) return;
+
+    const id = ++requestId.current;
+    if (pageToLoad === 0) setLoading(true);
+    else setLoadingMore(true);
+
+    const result = await walletManager.getTransactions(wallet.id, buildFilters(), pageToLoad);
+    if (id !== requestId.current) return;
+
+    setTransactions((current) => (pageToLoad === 0 ? result.transactions : [...current, ...result.transactions]));
+    setHasMore(result.hasMore);
+    setPage(pageToLoad);
+    setLoading(false);
+    setLoadingMore(false);
+  }, [wallet, buildFilters]);
+
+  useEffect(() => {
+    loadPage(0);
+  }, [loadPage]);
+
+  const loadMore = () => {
+    if (hasMore && !loading && !loadingMore) loadPage(page + 1);
+  };
+
+  const renderTransaction = ({ item }: { item: WalletTransaction }) => {
+    const isCredit = item.type === 'credit';
+    return (
+      <TouchableOpacity
+        style={styles.row}
+        onPress={() => router.push({ pathname: '/transaction-receipt', params: { id: item.id } })}
+      >
+        <View style={[styles.rowIcon, { backgroundColor: (isCredit ? '#10B981' : '#EF4444') + '20' }]}>
+          <IconSymbol name={isCredit ? 'plus' : 'arrow.up.right'} size={18} color={isCredit ? '#10B981' : '#EF4444'} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{transactionTitle(item)}</Text>
+          <Text style={styles.rowMeta}>
+            {formatPaymentMethod(item.payment_method)} • {formatTransactionDate(item.created_at)}
+          </Text>
+        </View>
+        <View style={{ alignItems: 'flex-end' }}>
+          <Text style={[styles.rowAmount, { color: isCredit ? '#10B981' : '#fff' }]}>
+            {isCredit ? '+' : '−'}{formatNaira(item.amount)}
+          </Text>
+          {item.status !== 'completed' && (
+            <Text style={[styles.rowStatus, { color: statusColors[item.status] }]}>{item.status}</Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Transaction History</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      {/* Search & filters */}
+      <View style={styles.filters}>
+        <TextInput
+          style={styles.searchInput}
+          placeholder="Search descriptions"
+          placeholderTextColor="#666"
+          value={search}
+          onChangeText={setSearch}
+          autoCorrect={false}
+        />
+        <FilterRow options={typeOptions} selected={type} onSelect={setType} />
+        <FilterRow options={statusOptions} selected={status} onSelect={setStatus} />
+        <FilterRow options={methodOptions} selected={method} onSelect={setMethod} />
+        <FilterRow options={periodOptions} selected={period} onSelect={setPeriod} />
+      </View>
+
+      {walletLoading || (loading && transactions.length === 0) ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color={QuiloxColors.gold} />
+        </View>
+      ) : (
+        <FlatList
+          data={transactions}
+          keyExtractor={(item) => item.id}
+          renderItem={renderTransaction}
+          contentContainerStyle={styles.list}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {wallet ? 'No transactions match these filters' : 'You do not have a Privé wallet yet'}
+            </Text>
+          }
+          ListFooterComponent={loadingMore ? <ActivityIndicator color={QuiloxColors.gold} style={{ marginVertical: 16 }} /> : null}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: QuiloxColors.black },
+  centerContent: { flex: 1, justifyContent: 'center', alignItems: 'center' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { fontSize: 18, fontWeight: 'bold', color: '#fff' },
+  filters: { paddingHorizontal: 20, gap: 8, marginBottom: 8 },
+  searchInput: { padding: 14, borderRadius: 12, fontSize: 15, color: '#fff', backgroundColor: QuiloxColors.darkGray },
+  filterRow: { gap: 8 },
+  chip: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 16, backgroundColor: QuiloxColors.darkGray },
+  chipActive: { backgroundColor: QuiloxColors.gold },
+  chipText: { fontSize: 12, fontWeight: '600', color: '#999' },
+  chipTextActive: { color: QuiloxColors.black },
+  list: { paddingHorizontal: 20, paddingBottom: 40 },
+  emptyText: { fontSize: 14, color: '#999', textAlign: 'center', marginTop: 40 },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  rowIcon: { width: 36, height: 36, borderRadius: 18, alignItems: 'center', justifyContent: 'center' },
+  rowTitle: { fontSize: 15, fontWeight: '600', color: '#fff' },
+  rowMeta: { fontSize: 12, color: '#999', marginTop: 4 },
+  rowAmount: { fontSize: 15, fontWeight: 'bold' },
+  rowStatus: { fontSize: 11, fontWeight: 'bold', textTransform: 'uppercase', marginTop: 4 },
+});
@@ -4,12 +4,37 @@ import { QuiloxColors } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useWallet } from '@/hooks/useWallet';
 import { paystackClient } from '@/lib/paystack';
-import { supabase, verifyAndUpdateWalletTopUp } from '@/lib/supabase';
+import { confirmWalletTopUp, supabase } from '@/lib/supabase';
+import { StatementFormat, walletManager } from '@/lib/wallet-manager';
 import { logger } from '@/utils/logger';
 import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
+import { openBrowserAsync } from 'expo-web-browser';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { ActivityIndicator, Alert, Linking, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
 
+const toDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Statement periods as inclusive from/to days
+const statementPeriods = [
+  {
+    label: 'This month',
+    range: (now: Date) => ({ from: toDay(new Date(now.getFullYear(), now.getMonth(), 1)), to: toDay(now) }),
+  },
+  {
+    label: 'Last month',
+    range: (now: Date) => ({
+      from: toDay(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+      to: toDay(new Date(now.getFullYear(), now.getMonth(), 0)),
+    }),
+  },
+  {
+    label: 'Last 3 months',
+    range: (now: Date) => ({ from: toDay(new Date(now.getFullYear(), now.getMonth() - 2, 1)), to: toDay(now) }),
+  },
+];
+
 // GLOBAL guard - persists across component remounts
 const GLOBAL_PROCESSED_REFS = new Set<string>();
 let PROCESSING_LOCK = false;
@@ -29,6 +54,8 @@ export default function WalletScreen() {
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [paymentUrl, setPaymentUrl] = useState('');
   const [pendingPaymentRef, setPendingPaymentRef] = useState<string | null>(null);
+  const [statementPeriod, setStatementPeriod] = useState(statementPeriods[0]);
+  const [downloadingStatement, setDownloadingStatement] = useState<StatementFormat | null>(null);
 
   // Guard to prevent processing the same payment reference multiple times
   const processedRefsRef = useRef<Set<string>>(new Set());
@@ -231,8 +258,8 @@ export default function WalletScreen() {
         throw new Error('Wallet not found');
       }
 
-      // Verify payment and update wallet balance
-      const result = await verifyAndUpdateWalletTopUp(reference, wallet.id);
+      // The webhook credits the wallet; wait for it to settle the transaction
+      const result = await confirmWalletTopUp(reference, wallet.id);
       
       if (result.success) {
         Alert.alert(
@@ -240,6 +267,12 @@ export default function WalletScreen() {
           `₦${(result.newBalance || 0).toLocaleString()} is now your wallet balance.`
         );
         await loadWallet();
+      } else if (result.pending) {
+        Alert.alert(
+          'Top-up Processing',
+          'Your payment was received and will reflect in your wallet shortly.'
+        );
+        await loadWallet();
       } else {
         throw new Error(result.error || 'Failed to verify payment');
       }
@@ -273,6 +306,26 @@ export default function WalletScreen() {
     Alert.alert('Payment Error', error || 'An error occurred during payment. Please try again.');
   };
 
+  const handleDownloadStatement = async (format: StatementFormat) => {
+    setDownloadingStatement(format);
+    try {
+      const result = await walletManager.getStatementUrl({ ...statementPeriod.range(new Date()), format });
+
+      if (!result.success || !result.url) {
+        Alert.alert('Statement Unavailable', result.error || 'Please try again');
+        return;
+      }
+
+      if (Platform.OS === 'web') {
+        window.open(result.url, '_blank');
+      } else {
+        await openBrowserAsync(result.url);
+      }
+    } finally {
+      setDownloadingStatement(null);
+    }
+  };
+
   return (
     <View style={[styles.container, { backgroundColor: QuiloxColors.black }]}>
       {/* Header */}
@@ -304,12 +357,67 @@ export default function WalletScreen() {
             <IconSymbol name="plus" size={20} color={QuiloxColors.black} />
             <Text style={[styles.actionButtonText, { color: QuiloxColors.black }]}>Top Up</Text>
           </TouchableOpacity>
-          <TouchableOpacity style={[styles.actionButton, { backgroundColor: QuiloxColors.darkGray }]}>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: QuiloxColors.darkGray }]}
+            onPress={() => router.push('/send-money')}
+          >
+            <IconSymbol name="paperplane.fill" size={20} color="#fff" />
+            <Text style={[styles.actionButtonText, { color: '#fff' }]}>Send</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: QuiloxColors.darkGray }]}
+            onPress={() => router.push('/withdraw')}
+          >
+            <IconSymbol name="arrow.up.right" size={20} color="#fff" />
+            <Text style={[styles.actionButtonText, { color: '#fff' }]}>Withdraw</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: QuiloxColors.darkGray }]}
+            onPress={() => router.push('/transactions')}
+          >
             <IconSymbol name="clock" size={20} color="#fff" />
             <Text style={[styles.actionButtonText, { color: '#fff' }]}>History</Text>
           </TouchableOpacity>
         </View>
 
+        {/* Statement */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: '#fff' }]}>Statement</Text>
+          <View style={styles.statementPeriods}>
+            {statementPeriods.map((period) => {
+              const selected = period.label === statementPeriod.label;
+              return (
+                <TouchableOpacity
+                  key={period.label}
+                  style={[styles.statementPeriod, { backgroundColor: selected ? QuiloxColors.gold : QuiloxColors.darkGray }]}
+                  onPress={() => setStatementPeriod(period)}
+                >
+                  <Text style={[styles.statementPeriodText, { color: selected ? QuiloxColors.black : '#999' }]}>{period.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={[styles.actionButtons, { marginBottom: 0 }]}>
+            {(['pdf', 'csv'] as StatementFormat[]).map((format) => (
+              <TouchableOpacity
+                key={format}
+                style={[styles.actionButton, { backgroundColor: QuiloxColors.darkGray }]}
+                onPress={() => handleDownloadStatement(format)}
+                disabled={downloadingStatement !== null}
+              >
+                {downloadingStatement === format ? (
+                  <ActivityIndicator size="small" color={QuiloxColors.gold} />
+                ) : (
+                  <>
+                    <IconSymbol name="doc.text.image" size={20} color={QuiloxColors.gold} />
+                    <Text style={[styles.actionButtonText, { color: '#fff' }]}>{format.toUpperCase()}</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
         {/* Enter Amount */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: '#fff' }]}>Enter Amount</Text>
@@ -457,11 +565,13 @@ const styles = StyleSheet.create({
   },
   actionButtons: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 12,
     marginBottom: 32,
   },
   actionButton: {
     flex: 1,
+    minWidth: '40%',
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
@@ -474,6 +584,9 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
   },
   section: { marginBottom: 32 },
+  statementPeriods: { flexDirection: 'row', gap: 8, marginBottom: 12 },
+  statementPeriod: { paddingVertical: 6, paddingHorizontal: 12, borderRadius: 16 },
+  statementPeriodText: { fontSize: 12, fontWeight: '600' },
   sectionTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 16 },
   amountGrid: {
     flexDirection: 'row',
@@ -0,0 +1,394 @@
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { QuiloxColors } from '@/constants/theme';
+import { useWallet } from '@/hooks/useWallet';
+import { Bank, getPaymentProvider } from '@/lib/payment-provider';
+import { supabase } from '@/lib/supabase';
+import {
+  MIN_WITHDRAWAL_AMOUNT,
+  WalletBeneficiary,
+  WalletWithdrawal,
+  walletManager,
+} from '@/lib/wallet-manager';
+import { logger } from '@/utils/logger';
+import { router, Stack } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Alert, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+// Withdrawals are paid out by the backend through Paystack, so bank codes must be Paystack's
+const payoutProvider = getPaymentProvider('paystack');
+
+export default function WithdrawScreen() {
+  const { wallet, loading, loadWallet } = useWallet();
+  const walletBalance = wallet?.balance || 0;
+
+  const [beneficiaries, setBeneficiaries] = useState<WalletBeneficiary[]>([]);
+  const [withdrawals, setWithdrawals] = useState<WalletWithdrawal[]>([]);
+  const [selectedBeneficiaryId, setSelectedBeneficiaryId] = useState<string | null>(null);
+  const [amount, setAmount] = useState('');
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  // Add-account form
+  const [showAddAccount, setShowAddAccount] = useState(false);
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [bankSearch, setBankSearch] = useState('');
+  const [selectedBank, setSelectedBank] = useState<Bank | null>(null);
+  const [accountNumber, setAccountNumber] = useState('');
+  const [isSavingAccount, setIsSavingAccount] = useState(false);
+
+  const loadBeneficiaries = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const saved = await walletManager.getBeneficiaries(user.id);
+    setBeneficiaries(saved);
+    setSelectedBeneficiaryId((current) => current ?? saved[0]?.id ?? null);
+  }, []);
+
+  const loadWithdrawals = useCallback(async () => {
+    if (!wallet) return;
+    setWithdrawals(await walletManager.getWithdrawals(wallet.id));
+  }, [wallet]);
+
+  useEffect(() => {
+    loadBeneficiaries();
+  }, [loadBeneficiaries]);
+
+  useEffect(() => {
+    loadWithdrawals();
+  }, [loadWithdrawals]);
+
+  const openAddAccount = async () => {
+    setShowAddAccount(true);
+    if (banks.length > 0) return;
+
+    const result = await payoutProvider.listBanks();
+    if (result.success && result.data) {
+      setBanks(result.data);
+    } else {
+      Alert.alert('Error', result.error || 'Could not load banks');
+    }
+  };
+
+  const filteredBanks = useMemo(() => {
+    const query = bankSearch.trim().toLowerCase();
+    if (!query) return banks.slice(0, 8);
+    return banks.filter((bank) => bank.name.toLowerCase().includes(query)).slice(0, 8);
+  }, [banks, bankSearch]);
+
+  const handleSaveAccount = async () => {
+    if (!selectedBank) {
+      Alert.alert('Select Bank', 'Please choose the bank for this account');
+      return;
+    }
+
+    if (!/^\d{10}$/.test(accountNumber)) {
+      Alert.alert('Invalid Account Number', 'Nigerian account numbers have 10 digits');
+      return;
+    }
+
+    setIsSavingAccount(true);
+    const result = await walletManager.addBeneficiary({
+      bankCode: selectedBank.code,
+      bankName: selectedBank.name,
+      accountNumber,
+    });
+    setIsSavingAccount(false);
+
+    if (!result.success || !result.beneficiary) {
+      Alert.alert('Could Not Verify Account', result.error || 'Please check the account number and bank');
+      return;
+    }
+
+    const saved = result.beneficiary;
+    Alert.alert('Account Verified', `${saved.account_name}\n${saved.bank_name} • ${saved.account_number}`);
+
+    setShowAddAccount(false);
+    setSelectedBank(null);
+    setBankSearch('');
+    setAccountNumber('');
+    await loadBeneficiaries();
+    setSelectedBeneficiaryId(saved.id);
+  };
+
+  const handleRemoveAccount = (beneficiary: WalletBeneficiary) => {
+    const remove = async () => {
+      const result = await walletManager.removeBeneficiary(beneficiary.id);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to remove account');
+        return;
+      }
+      if (selectedBeneficiaryId === beneficiary.id) setSelectedBeneficiaryId(null);
+      loadBeneficiaries();
+    };
+
+    const message = `Remove ${beneficiary.account_name} (${beneficiary.bank_name})?`;
+    if (Platform.OS === 'web') {
+      if (confirm(message)) remove();
+    } else {
+      Alert.alert('Remove Account', message, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: remove },
+      ]);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    const beneficiary = beneficiaries.find((b) => b.id === selectedBeneficiaryId);
+    const value = parseFloat(amount);
+
+    if (!beneficiary) {
+      Alert.alert('Select Account', 'Please choose where to send the money');
+      return;
+    }
+
+    if (!value || value < MIN_WITHDRAWAL_AMOUNT) {
+      Alert.alert('Invalid Amount', `The minimum withdrawal is ₦${MIN_WITHDRAWAL_AMOUNT.toLocaleString()}`);
+      return;
+    }
+
+    if (value > walletBalance) {
+      Alert.alert('Insufficient Balance', `Your available balance is ₦${walletBalance.toLocaleString()}`);
+      return;
+    }
+
+    setIsProcessing(true);
+    try {
+      const result = await walletManager.withdraw({ beneficiaryId: beneficiary.id, amount: value });
+
+      if (!result.success) {
+        Alert.alert('Withdrawal Failed', result.error || 'Please try again');
+        return;
+      }
+
+      logger.info('Withdrawal requested:', { reference: result.reference, amount: value });
+      Alert.alert(
+        'Withdrawal Processing',
+        `₦${value.toLocaleString()} is on its way to ${beneficiary.account_name}. ` +
+          'The amount is held from your balance until the bank confirms the transfer; if it fails, it comes straight back.'
+      );
+      setAmount('');
+      await loadWallet();
+      await loadWithdrawals();
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const getWithdrawalStatus = (withdrawal: WalletWithdrawal) => {
+    switch (withdrawal.status) {
+      case 'completed': return { label: 'Sent', color: '#10B981' };
+      case 'failed': return { label: 'Returned', color: '#EF4444' };
+      default: return { label: 'Processing', color: QuiloxColors.gold };
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, { justifyContent: 'center', alignItems: 'center' }]}>
+        <ActivityIndicator size="large" color={QuiloxColors.gold} />
+      </View>
+    );
+  }
+
+  const canWithdraw = !!selectedBeneficiaryId && !!amount && !isProcessing;
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ headerShown: false }} />
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+          <IconSymbol name="chevron.left" size={24} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Withdraw to Bank</Text>
+        <View style={{ width: 40 }} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.balanceCard}>
+          <Text style={styles.balanceLabel}>Available Balance</Text>
+          <Text style={styles.balanceAmount}>₦{walletBalance.toLocaleString()}</Text>
+        </View>
+
+        {/* Saved accounts */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Send To</Text>
+          {beneficiaries.length === 0 && !showAddAccount ? (
+            <Text style={styles.emptyText}>No saved accounts yet</Text>
+          ) : null}
+
+          {beneficiaries.map((beneficiary) => {
+            const selected = beneficiary.id === selectedBeneficiaryId;
+            return (
+              <TouchableOpacity
+                key={beneficiary.id}
+                style={[styles.accountCard, selected && styles.accountCardSelected]}
+                onPress={() => setSelectedBeneficiaryId(beneficiary.id)}
+                onLongPress={() => handleRemoveAccount(beneficiary)}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.accountName}>{beneficiary.account_name}</Text>
+                  <Text style={styles.accountMeta}>
+                    {beneficiary.bank_name} • {beneficiary.account_number}
+                  </Text>
+                </View>
+                {selected && <IconSymbol name="checkmark.circle.fill" size={22} color={QuiloxColors.gold} />}
+              </TouchableOpacity>
+            );
+          })}
+
+          {showAddAccount ? (
+            <View style={styles.addAccountForm}>
+              <TextInput
+                style={styles.input}
+                placeholder="Search bank"
+                placeholderTextColor="#666"
+                value={selectedBank ? selectedBank.name : bankSearch}
+                onChangeText={(text) => {
+                  setSelectedBank(null);
+                  setBankSearch(text);
+                }}
+              />
+              {!selectedBank && filteredBanks.map((bank) => (
+                <TouchableOpacity key={bank.code} style={styles.bankOption} onPress={() => setSelectedBank(bank)}>
+                  <Text style={styles.bankOptionText}>{bank.name}</Text>
+                </TouchableOpacity>
+              ))}
+              <TextInput
+                style={styles.input}
+                placeholder="10-digit account number"
+                placeholderTextColor="#666"
+                value={accountNumber}
+                onChangeText={(text) => setAccountNumber(text.replace(/\D/g, '').slice(0, 10))}
+                keyboardType="number-pad"
+              />
+              <View style={styles.formButtons}>
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => setShowAddAccount(false)}>
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.primaryButton} onPress={handleSaveAccount} disabled={isSavingAccount}>
+                  {isSavingAccount ? (
+                    <ActivityIndicator color={QuiloxColors.black} />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>Verify & Save</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.addAccountButton} onPress={openAddAccount}>
+              <IconSymbol name="plus" size={18} color={QuiloxColors.gold} />
+              <Text style={styles.addAccountText}>Add bank account</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Amount */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Amount</Text>
+          <TextInput
+            style={[styles.input, { fontSize: 18, paddingVertical: 16 }]}
+            placeholder={`Enter amount (min ₦${MIN_WITHDRAWAL_AMOUNT.toLocaleString()})`}
+            placeholderTextColor="#666"
+            value={amount}
+            onChangeText={setAmount}
+            keyboardType="numeric"
+          />
+        </View>
+
+        {/* Recent withdrawals */}
+        {withdrawals.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Recent Withdrawals</Text>
+            {withdrawals.map((withdrawal) => {
+              const status = getWithdrawalStatus(withdrawal);
+              return (
+                <View key={withdrawal.id} style={styles.withdrawalRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.accountName}>₦{Number(withdrawal.amount).toLocaleString()}</Text>
+                    <Text style={styles.accountMeta}>
+                      {withdrawal.metadata?.account_name || withdrawal.description} •{' '}
+                      {new Date(withdrawal.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                    </Text>
+                  </View>
+                  <Text style={[styles.withdrawalStatus, { color: status.color }]}>{status.label}</Text>
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.withdrawButton, { backgroundColor: canWithdraw ? QuiloxColors.gold : QuiloxColors.darkGray }]}
+          onPress={handleWithdraw}
+          disabled={!canWithdraw}
+        >
+          {isProcessing ? (
+            <ActivityIndicator color={QuiloxColors.black} />
+          ) : (
+            <Text style={[styles.withdrawText, { color: canWithdraw ? QuiloxColors.black : '#666' }]}>Withdraw</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: QuiloxColors.black },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+  },
+  backButton: { width: 40, height: 40, alignItems: 'center', justifyContent: 'center' },
+  headerTitle: { fontSize: 18, fontWeight: 'bold', color: '#fff' },
+  content: { flex: 1, paddingHorizontal: 20 },
+  balanceCard: { padding: 20, borderRadius: 16, marginBottom: 24, backgroundColor: QuiloxColors.gold },
+  balanceLabel: { fontSize: 14, fontWeight: '600', color: QuiloxColors.black },
+  balanceAmount: { fontSize: 32, fontWeight: 'bold', marginTop: 8, color: QuiloxColors.black },
+  section: { marginBottom: 28 },
+  sectionTitle: { fontSize: 18, fontWeight: 'bold', marginBottom: 12, color: '#fff' },
+  emptyText: { fontSize: 14, color: '#999', marginBottom: 12 },
+  accountCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 10,
+    backgroundColor: QuiloxColors.darkGray,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  accountCardSelected: { borderColor: QuiloxColors.gold },
+  accountName: { fontSize: 16, fontWeight: 'bold', color: '#fff' },
+  accountMeta: { fontSize: 12, color: '#999', marginTop: 4 },
+  addAccountButton: { flexDirection: 'row', alignItems: 'center', gap: 8, paddingVertical: 12 },
+  addAccountText: { fontSize: 14, fontWeight: '600', color: QuiloxColors.gold },
+  addAccountForm: { gap: 10, marginTop: 4 },
+  input: { padding: 16, borderRadius: 12, fontSize: 16, color: '#fff', backgroundColor: QuiloxColors.darkGray },
+  bankOption: { paddingVertical: 10, paddingHorizontal: 16 },
+  bankOptionText: { fontSize: 14, color: '#fff' },
+  formButtons: { flexDirection: 'row', gap: 12 },
+  primaryButton: { flex: 1, padding: 14, borderRadius: 12, alignItems: 'center', backgroundColor: QuiloxColors.gold },
+  primaryButtonText: { fontSize: 14, fontWeight: 'bold', color: QuiloxColors.black },
+  secondaryButton: { flex: 1, padding: 14, borderRadius: 12, alignItems: 'center', backgroundColor: QuiloxColors.darkGray },
+  secondaryButtonText: { fontSize: 14, fontWeight: 'bold', color: '#fff' },
+  withdrawalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 12,
+    marginBottom: 8,
+    backgroundColor: QuiloxColors.darkGray,
+  },
+  withdrawalStatus: { fontSize: 12, fontWeight: 'bold', textTransform: 'uppercase' },
+  footer: { padding: 20, paddingBottom: 40 },
+  withdrawButton: { padding: 18, borderRadius: 12, alignItems: 'center' },
+  withdrawText: { fontSize: 16, fontWeight: 'bold' },
+});
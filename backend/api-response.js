@@ -0,0 +1,38 @@
+// Error codes shared with the app - keep in sync with AppErrorCode in lib/api-response.ts
+
+const AppErrorCode = {
+  AUTH_INVALID_TOKEN: 'AUTH_1001',
+  AUTH_TOKEN_EXPIRED: 'AUTH_1002',
+  AUTH_INSUFFICIENT_PERMISSIONS: 'AUTH_1003',
+  AUTH_INVALID_CREDENTIALS: 'AUTH_1004',
+
+  VALIDATION_MISSING_FIELD: 'VAL_2001',
+  VALIDATION_INVALID_FORMAT: 'VAL_2002',
+  VALIDATION_OUT_OF_RANGE: 'VAL_2003',
+  VALIDATION_DUPLICATE_ENTRY: 'VAL_2004',
+
+  BOOKING_TABLE_UNAVAILABLE: 'BIZ_3001',
+  WALLET_INSUFFICIENT_FUNDS: 'BIZ_3006',
+  WALLET_INACTIVE: 'BIZ_3007',
+  BOOKING_NOT_CANCELLABLE: 'BIZ_3008',
+  BILL_NOT_PAYABLE: 'BIZ_3011',
+  BOOKING_NOT_CHECKABLE: 'BIZ_3012',
+
+  DB_CONNECTION_FAILED: 'DB_4001',
+  DB_CONSTRAINT_VIOLATION: 'DB_4003',
+  DB_RECORD_NOT_FOUND: 'DB_4004',
+
+  EXT_SERVICE_UNAVAILABLE: 'EXT_5001',
+  EXT_PAYMENT_FAILED: 'EXT_5003',
+};
+
+// Standard error body: { success: false, error: { code, message }, timestamp }
+const sendError = (res, statusCode, code, message) => {
+  return res.status(statusCode).json({
+    success: false,
+    error: { code, message },
+    timestamp: new Date().toISOString(),
+  });
+};
+
+module.exports = { AppErrorCode, sendError };
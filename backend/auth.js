@@ -0,0 +1,152 @@
+// Authentication & ownership middleware
+// Callers send their Supabase access token as `Authorization: Bearer <token>`.
+
+const { supabase } = require('./supabase');
+const { AppErrorCode, sendError } = require('./api-response');
+
+// Validates the Supabase access token and sets req.user
+const requireAuth = async (req, res, next) => {
+  if (!supabase) {
+    console.error('❌ Supabase not initialized');
+    return sendError(res, 503, AppErrorCode.DB_CONNECTION_FAILED, 'Database not configured');
+  }
+
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : null;
+
+  if (!token) {
+    return sendError(res, 401, AppErrorCode.AUTH_INVALID_TOKEN, 'Missing access token');
+  }
+
+  try {
+    const { data, error } = await supabase.auth.getUser(token);
+
+    if (error || !data?.user) {
+      const expired = /expired/i.test(error?.message || '');
+      return sendError(
+        res,
+        401,
+        expired ? AppErrorCode.AUTH_TOKEN_EXPIRED : AppErrorCode.AUTH_INVALID_TOKEN,
+        expired ? 'Access token expired' : 'Invalid access token'
+      );
+    }
+
+    req.user = data.user;
+    next();
+  } catch (error) {
+    console.error('Error validating access token:', error);
+    sendError(res, 401, AppErrorCode.AUTH_INVALID_TOKEN, 'Invalid access token');
+  }
+};
+
+// Resolves the caller's user_wallets row and sets req.wallet (use after requireAuth)
+const requireWallet = async (req, res, next) => {
+  try {
+    const { data: wallet, error } = await supabase
+      .from('user_wallets')
+      .select('*')
+      .eq('user_id', req.user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!wallet) {
+      return sendError(res, 403, AppErrorCode.AUTH_INSUFFICIENT_PERMISSIONS, 'No wallet found for this user');
+    }
+
+    req.wallet = wallet;
+    next();
+  } catch (error) {
+    console.error('Error resolving wallet:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+};
+
+// Refuses requests for account numbers the caller does not own (use after requireWallet)
+// `getAccountNumber` picks the account number out of the request.
+const requireAccountOwnership = (getAccountNumber) => (req, res, next) => {
+  const accountNumber = getAccountNumber(req);
+
+  if (!accountNumber || String(accountNumber) !== String(req.wallet.account_number)) {
+    console.warn(`⚠️ User ${req.user.id} tried to access account ${accountNumber}`);
+    return sendError(res, 403, AppErrorCode.AUTH_INSUFFICIENT_PERMISSIONS, 'You do not own this account');
+  }
+
+  next();
+};
+
+// Refuses payment references the caller did not start (use after requireAuth).
+// A reference belongs to the caller when it is on their wallet's ledger, one of their
+// booking checkouts or one of their bill payments. `getReference` picks it out of the request.
+const requireChargeOwnership = (getReference) => async (req, res, next) => {
+  const reference = getReference(req);
+
+  try {
+    const { data: wallet, error: walletError } = await supabase
+      .from('user_wallets')
+      .select('id')
+      .eq('user_id', req.user.id)
+      .maybeSingle();
+
+    if (walletError) throw walletError;
+
+    const lookups = [
+      supabase.from('booking_checkouts').select('id').eq('reference', reference).eq('user_id', req.user.id).limit(1),
+      supabase.from('bill_session_payments').select('id').eq('reference', reference).eq('user_id', req.user.id).limit(1),
+    ];
+    if (wallet) {
+      lookups.push(
+        supabase.from('wallet_transactions').select('id').eq('reference', reference).eq('wallet_id', wallet.id).limit(1)
+      );
+    }
+
+    const results = await Promise.all(lookups);
+    const failed = results.find((result) => result.error);
+    if (failed) throw failed.error;
+
+    if (!reference || !results.some((result) => result.data?.length > 0)) {
+      console.warn(`⚠️ User ${req.user.id} tried to access payment ${reference}`);
+      return sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Transaction not found');
+    }
+
+    next();
+  } catch (error) {
+    console.error('Error resolving payment owner:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+};
+
+// Admins carry app_metadata.role = 'admin' (set with the service key; users cannot change it)
+const requireAdmin = (req, res, next) => {
+  if (req.user?.app_metadata?.role !== 'admin') {
+    return sendError(res, 403, AppErrorCode.AUTH_INSUFFICIENT_PERMISSIONS, 'Admin access required');
+  }
+
+  next();
+};
+
+// Scheduled jobs authenticate with `Authorization: Bearer <CRON_SECRET>` (what Vercel Cron sends)
+const requireJobSecret = (req, res, next) => {
+  const secret = process.env.CRON_SECRET;
+
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return sendError(res, 401, AppErrorCode.AUTH_INVALID_TOKEN, 'Invalid job secret');
+  }
+
+  next();
+};
+
+module.exports = {
+  requireAuth,
+  requireWallet,
+  requireAccountOwnership,
+  requireChargeOwnership,
+  requireAdmin,
+  requireJobSecret,
+};
@@ -0,0 +1,51 @@
+// Split-the-bill card payments
+// Members can pay their part of a table bill by card. The charge carries
+// { purpose: 'bill_session', session_id, user_id } in its Paystack metadata and is
+// recorded once Paystack confirms it - by the charge.success webhook or by the app
+// verifying the reference, whichever comes first. record_bill_session_payment is
+// idempotent on the reference, so both can run.
+
+const { supabase } = require('./supabase');
+
+const BILL_SESSION_PURPOSE = 'bill_session';
+
+// Records a successful charge against its bill session.
+// Returns { status: 'recorded' | 'already_processed' | 'rejected', sessionStatus?, outstanding?, message? }
+const settleBillSessionCharge = async ({ reference, amount, metadata }) => {
+  if (!metadata?.session_id || !metadata?.user_id) {
+    return { status: 'rejected', message: 'Charge has no bill session' };
+  }
+
+  const { data, error } = await supabase.rpc('record_bill_session_payment', {
+    p_session_id: metadata.session_id,
+    p_user_id: metadata.user_id,
+    p_amount: amount,
+    p_method: 'card',
+    p_reference: reference,
+  });
+
+  if (error) {
+    if (['P0002', '42501', '23505'].includes(error.code)) {
+      // Unknown session, payer not on the bill or reference reused - retrying will not help
+      console.error(`⚠️ Bill payment ${reference} not recorded:`, error.message);
+      return { status: 'rejected', message: error.message };
+    }
+    throw error;
+  }
+
+  const result = Array.isArray(data) ? data[0] : data;
+
+  if (result?.already_applied) {
+    console.log(`ℹ️ Bill payment ${reference} already recorded`);
+  } else {
+    console.log(`🧾 Bill session ${metadata.session_id} paid ₦${amount} by card, ₦${result?.amount_outstanding} outstanding`);
+  }
+
+  return {
+    status: result?.already_applied ? 'already_processed' : 'recorded',
+    sessionStatus: result?.session_status,
+    outstanding: Number(result?.amount_outstanding ?? 0),
+  };
+};
+
+module.exports = { BILL_SESSION_PURPOSE, settleBillSessionCharge };
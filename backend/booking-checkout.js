@@ -0,0 +1,414 @@
+// Table booking checkout
+// Bookings are priced and confirmed here, never by the app: the database only lets
+// the service role confirm a booking or write its payment columns.
+//
+// Wallet-only bookings are debited and confirmed in one call. Card (and split-tender)
+// checkouts are recorded in booking_checkouts with the amounts the backend priced;
+// the wallet part is held (QLXBKG-<reference>) and Paystack is initialized for the
+// rest. The booking is confirmed, and the hold finalized with it, once the charge
+// succeeds - by the charge.success webhook or by the app confirming the reference
+// after checkout, whichever comes first. A failed or abandoned checkout releases the
+// hold; a charge that cannot become a booking (the table went) is refunded.
+
+const crypto = require('crypto');
+const { supabase } = require('./supabase');
+const { callPaystackAPI } = require('./paystack');
+const { findQuote } = require('./pricing');
+const { BOOKING_PURPOSE } = require('./booking-payments');
+
+// What the member chooses about a booking; price and payment are set here
+const DETAIL_FIELDS = [
+  'table_id', 'booking_date', 'session_id', 'arrival_time', 'guest_count',
+  'guest_name', 'guest_email', 'guest_phone', 'special_requests',
+];
+const REQUIRED_FIELDS = ['table_id', 'booking_date', 'guest_count', 'guest_name', 'guest_email', 'guest_phone'];
+
+// Errors that mean the booking can never be made for this payment
+const FINAL_ERRORS = ['23505', '23514', '55000', '22023', 'P0002'];
+
+const walletHoldReference = (reference) => `QLXBKG-${reference}`;
+
+const createReference = (prefix) => `${prefix}-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+
+const roundNaira = (amount) => Math.round(amount * 100) / 100;
+
+const pickDetails = (input = {}) => Object.fromEntries(DETAIL_FIELDS.map((field) => [field, input[field] ?? null]));
+
+// The row confirm_booking writes: the member's details at the backend's price
+const paidBooking = ({ userId, details, quote, holdId, reference, metadata }) => ({
+  ...details,
+  user_id: userId,
+  hold_id: holdId || undefined,
+  status: 'confirmed',
+  booking_fee: quote.base_fee,
+  amount_payable: quote.total,
+  discount_total: quote.discount_total,
+  applied_discounts: quote.discounts,
+  payment_reference: reference,
+  payment_status: 'paid',
+  metadata: { ...metadata, quote_id: quote.id, promo_code: quote.promo_code, paid_at: new Date().toISOString() },
+});
+
+const confirmBooking = async (booking) => {
+  const { data, error } = await supabase.rpc('confirm_booking', { p_booking: booking }).single();
+  if (error) throw error;
+  return data;
+};
+
+// Debits the wallet and confirms the booking in one transaction
+const confirmWalletBooking = async (booking, { walletId, amount, reference }) => {
+  const { data, error } = await supabase
+    .rpc('create_booking_with_wallet_payment', {
+      p_booking: booking,
+      p_wallet_id: walletId,
+      p_amount: amount,
+      p_reference: reference,
+      p_description: `Table booking on ${booking.booking_date}`,
+    })
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Finalizes the held wallet part and confirms the booking in one transaction
+const confirmHeldBooking = async (booking, reference) => {
+  const { data, error } = await supabase
+    .rpc('confirm_booking_with_held_debit', { p_booking: booking, p_reference: reference })
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Puts a checkout's held wallet part back on the balance
+const releaseWalletHold = async (checkout, reason) => {
+  if (!(Number(checkout.wallet_amount) > 0)) return;
+
+  const { error } = await supabase.rpc('wallet_release_debit', {
+    p_reference: walletHoldReference(checkout.reference),
+    p_reason: reason,
+    p_metadata: { booking_checkout: checkout.reference },
+  });
+
+  // P0002: the hold was never placed
+  if (error && error.code !== 'P0002') {
+    console.error(`❌ Releasing the wallet hold for booking checkout ${checkout.reference} failed:`, error);
+  }
+};
+
+const loadWallet = async (userId) => {
+  const { data, error } = await supabase
+    .from('user_wallets')
+    .select('id, balance, status')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Starts a checkout for the signed-in member at a quote from /api/bookings/quote.
+// `walletAmount` is how much of the price they want taken from their wallet.
+// Returns { booking } when it is already paid (wallet only), { reference, authorizationUrl }
+// when the member has to pay by card, or { error, status } to answer with.
+const startCheckout = async ({ userId, booking: input, holdId, quoteId, walletAmount, callbackUrl }) => {
+  const details = pickDetails(input);
+  const missing = REQUIRED_FIELDS.filter((field) => details[field] === null || details[field] === '');
+  if (missing.length > 0) {
+    return { error: `${missing.join(', ')} required`, status: 400 };
+  }
+
+  const quote = await findQuote(quoteId, userId);
+  if (!quote || quote.table_id !== details.table_id) {
+    return { error: 'This price has expired. Please review it and try again.', status: 409 };
+  }
+
+  // The wallet covers what the member asked it to, up to the total
+  const wallet = Number(walletAmount) > 0 ? await loadWallet(userId) : null;
+  const walletPart = wallet?.status === 'active'
+    ? roundNaira(Math.max(0, Math.min(Number(walletAmount) || 0, Number(wallet.balance), quote.total)))
+    : 0;
+
+  if (quote.total <= 0) {
+    const reference = createReference('QLXFREE');
+    const booking = await confirmBooking(paidBooking({
+      userId, details, quote, holdId, reference, metadata: { payment_method: 'none' },
+    }));
+    return { booking };
+  }
+
+  if (walletPart >= quote.total) {
+    const reference = createReference('QLXBKG');
+    const booking = await confirmWalletBooking(
+      paidBooking({
+        userId, details, quote, holdId, reference,
+        metadata: { payment_method: 'wallet', wallet_amount: walletPart, paystack_amount: 0 },
+      }),
+      { walletId: wallet.id, amount: walletPart, reference }
+    );
+    return { booking };
+  }
+
+  const reference = createReference('BOOKING');
+  const paystackAmount = roundNaira(quote.total - walletPart);
+
+  const { error: saveError } = await supabase.from('booking_checkouts').insert({
+    reference,
+    user_id: userId,
+    hold_id: holdId || null,
+    booking: details,
+    quote,
+    quote_id: quote.id,
+    wallet_id: walletPart > 0 ? wallet.id : null,
+    wallet_amount: walletPart,
+    paystack_amount: paystackAmount,
+  });
+
+  if (saveError) throw saveError;
+
+  // Take the wallet part off the balance before the member pays the rest, so it
+  // cannot be spent in the meantime
+  if (walletPart > 0) {
+    const { error: holdError } = await supabase.rpc('wallet_hold_debit', {
+      p_wallet_id: wallet.id,
+      p_amount: walletPart,
+      p_reference: walletHoldReference(reference),
+      p_description: `Table booking on ${details.booking_date}`,
+      p_payment_method: 'wallet',
+      p_metadata: { purpose: BOOKING_PURPOSE, table_id: details.table_id, booking_date: details.booking_date },
+    });
+
+    if (holdError) {
+      await supabase.from('booking_checkouts').update({ status: 'failed', error: holdError.message }).eq('reference', reference);
+      throw holdError;
+    }
+  }
+
+  let data;
+  try {
+    data = await callPaystackAPI('/transaction/initialize', 'POST', {
+      reference,
+      amount: Math.round(paystackAmount * 100), // NGN -> kobo
+      currency: 'NGN',
+      email: details.guest_email,
+      callback_url: callbackUrl,
+      channels: ['card', 'bank_transfer', 'ussd'],
+      metadata: {
+        purpose: BOOKING_PURPOSE,
+        user_id: userId,
+        table_id: details.table_id,
+        booking_date: details.booking_date,
+        session_id: details.session_id,
+        hold_id: holdId || null,
+      },
+    });
+  } catch (error) {
+    // The member never got a payment page
+    const { data: checkout } = await supabase
+      .from('booking_checkouts')
+      .update({ status: 'failed', error: error.message })
+      .eq('reference', reference)
+      .select('*')
+      .single();
+    if (checkout) await releaseWalletHold(checkout, 'Payment could not be started');
+    throw error;
+  }
+
+  console.log(`🧾 Booking checkout ${reference}: ₦${paystackAmount} by card, ₦${walletPart} from the wallet`);
+  return { reference, authorizationUrl: data.data?.authorization_url, quote };
+};
+
+// Gives a charge back when it cannot become a booking
+const refundCharge = async (checkout, reason) => {
+  if (checkout.refunded_at) return;
+
+  try {
+    await callPaystackAPI('/refund', 'POST', { transaction: checkout.reference, merchant_note: reason });
+    await supabase.from('booking_checkouts').update({ refunded_at: new Date().toISOString() }).eq('id', checkout.id);
+    console.log(`↩️ Booking checkout ${checkout.reference} refunded: ${reason}`);
+  } catch (error) {
+    console.error(`❌ Refunding booking checkout ${checkout.reference} failed:`, error);
+  }
+};
+
+const toResult = (checkout) => ({ status: checkout.status, bookingId: checkout.booking_id, error: checkout.error });
+
+// Confirms the booking for a successful charge, at the checkout's stored quote.
+// `charge` is the verified Paystack transaction (webhook payload or /transaction/verify).
+// Safe to call any number of times.
+// Returns { status, bookingId?, error? }; status 'unknown' when there is no such checkout.
+const settleCheckout = async (charge) => {
+  const { data: checkout, error } = await supabase
+    .from('booking_checkouts')
+    .select('*')
+    .eq('reference', charge.reference)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!checkout) return { status: 'unknown' };
+
+  if (checkout.status !== 'pending') {
+    // Paid after the member gave up on the checkout
+    if (checkout.status === 'cancelled') await refundCharge(checkout, 'Booking checkout was cancelled');
+    return toResult(checkout);
+  }
+
+  const fail = async (message) => {
+    const { data: failed } = await supabase
+      .from('booking_checkouts')
+      .update({ status: 'failed', error: message })
+      .eq('id', checkout.id)
+      .select('*')
+      .single();
+    await releaseWalletHold(checkout, message);
+    await refundCharge(failed || checkout, message);
+    console.error(`⚠️ Booking checkout ${checkout.reference} failed: ${message}`);
+    return { status: 'failed', error: message };
+  };
+
+  // The charge and the wallet part together have to pay the stored quote
+  const quote = await findQuote(checkout.quote_id, checkout.user_id, { includeExpired: true });
+  const paid = Number(charge.amount || 0) / 100; // kobo -> NGN
+  const walletAmount = Number(checkout.wallet_amount);
+
+  if (!quote || roundNaira(walletAmount + Number(checkout.paystack_amount)) !== quote.total) {
+    return fail('Checkout does not match its quote');
+  }
+  if (charge.currency !== 'NGN' || Math.round(paid * 100) !== Math.round(Number(checkout.paystack_amount) * 100)) {
+    return fail(`Amount paid (₦${paid}) does not match the booking (₦${checkout.paystack_amount})`);
+  }
+
+  // Only one caller gets to confirm it
+  const { data: claimed, error: claimError } = await supabase
+    .from('booking_checkouts')
+    .update({ status: 'processing' })
+    .eq('id', checkout.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) return { status: 'processing' };
+
+  const booking = paidBooking({
+    userId: checkout.user_id,
+    details: checkout.booking,
+    quote,
+    holdId: checkout.hold_id,
+    reference: checkout.reference,
+    metadata: {
+      payment_method: walletAmount > 0 ? 'wallet' : 'paystack',
+      paystack_reference: checkout.reference,
+      paystack_amount: Number(checkout.paystack_amount),
+      ...(walletAmount > 0 && { wallet_amount: walletAmount }),
+    },
+  });
+
+  try {
+    const confirmed = walletAmount > 0
+      ? await confirmHeldBooking(booking, walletHoldReference(checkout.reference))
+      : await confirmBooking(booking);
+
+    const { error: updateError } = await supabase
+      .from('booking_checkouts')
+      .update({ status: 'confirmed', booking_id: confirmed.id, error: null })
+      .eq('id', checkout.id);
+
+    if (updateError) throw updateError;
+
+    console.log(`🗓️ Booking ${confirmed.id} confirmed from checkout ${checkout.reference}`);
+    return { status: 'confirmed', bookingId: confirmed.id };
+  } catch (confirmError) {
+    if (FINAL_ERRORS.includes(confirmError.code)) {
+      return fail(confirmError.message);
+    }
+
+    // Let the next delivery (or the app) try again
+    await supabase.from('booking_checkouts').update({ status: 'pending' }).eq('id', checkout.id);
+    throw confirmError;
+  }
+};
+
+// Loads one of the member's checkouts
+const loadCheckout = async (reference, userId) => {
+  const { data, error } = await supabase
+    .from('booking_checkouts')
+    .select('*')
+    .eq('reference', reference)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Ends a pending checkout without a booking: the wallet part goes back on the balance
+// and the table is let go (a waitlist offer stays held until it expires). A charge
+// that still goes through is refunded by settleCheckout.
+const abandonCheckout = async (checkout, reason) => {
+  const { data: cancelled, error } = await supabase
+    .from('booking_checkouts')
+    .update({ status: 'cancelled', error: reason })
+    .eq('id', checkout.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) throw error;
+  if (!cancelled || cancelled.length === 0) return false;
+
+  await releaseWalletHold(checkout, reason);
+
+  if (checkout.hold_id) {
+    const { error: releaseError } = await supabase
+      .from('bookings')
+      .delete()
+      .eq('id', checkout.hold_id)
+      .eq('user_id', checkout.user_id)
+      .eq('status', 'pending')
+      .not('hold_expires_at', 'is', null)
+      .is('metadata->waitlist_entry_id', null);
+
+    if (releaseError) console.error(`Failed to release hold ${checkout.hold_id}:`, releaseError);
+  }
+
+  console.log(`🚫 Booking checkout ${checkout.reference} cancelled: ${reason}`);
+  return true;
+};
+
+// Checks a checkout's charge with Paystack: confirms the booking if it was paid and
+// cancels the checkout if the charge failed.
+// Returns { status, bookingId?, error? }, or null when the member has no such checkout.
+const confirmCheckout = async (reference, userId) => {
+  const checkout = await loadCheckout(reference, userId);
+  if (!checkout) return null;
+  if (checkout.status !== 'pending') return toResult(checkout);
+
+  const charge = (await callPaystackAPI(`/transaction/verify/${encodeURIComponent(reference)}`)).data;
+
+  if (charge.status === 'success') {
+    return settleCheckout(charge);
+  }
+
+  const message = charge.gateway_response || `Payment is ${charge.status}`;
+  if (charge.status === 'failed' && await abandonCheckout(checkout, message)) {
+    return { status: 'cancelled', error: message };
+  }
+
+  return { status: 'pending', error: message };
+};
+
+// The member gave up on paying.
+// Returns { status, bookingId?, error? }, or null when the member has no such checkout.
+const cancelCheckout = async (reference, userId) => {
+  const checkout = await loadCheckout(reference, userId);
+  if (!checkout) return null;
+  if (checkout.status !== 'pending') return toResult(checkout);
+
+  if (!(await abandonCheckout(checkout, 'Cancelled by the member'))) {
+    return toResult(await loadCheckout(reference, userId));
+  }
+
+  return { status: 'cancelled' };
+};
+
+module.exports = { startCheckout, settleCheckout, confirmCheckout, cancelCheckout, abandonCheckout };
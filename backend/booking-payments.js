@@ -0,0 +1,154 @@
+// What a booking was actually paid
+// bookings.payment_status and amount_payable are written when the booking is made and
+// say what the member was meant to pay, not what was taken. Anything that gives money
+// back works from the payment records instead: the completed wallet debit and the
+// Paystack charge, verified with Paystack. Split-tender bookings have both; their
+// wallet debit is QLXBKG-<Paystack reference>. refundBooking gives it back.
+
+const { supabase } = require('./supabase');
+const { callPaystackAPI } = require('./paystack');
+
+const BOOKING_PURPOSE = 'table_booking';
+
+// The payment has to have been made for this booking's table and night
+const paidForBooking = (metadata, booking) =>
+  metadata?.purpose === BOOKING_PURPOSE
+  && metadata.table_id === booking.table_id
+  && metadata.booking_date === String(booking.booking_date).split('T')[0];
+
+// The member's completed wallet debit for the booking, or null
+const verifyWalletPayment = async (booking) => {
+  const reference = booking.metadata?.wallet_reference;
+  if (!reference) return null;
+
+  const { data: debit, error } = await supabase
+    .from('wallet_transactions')
+    .select('amount, status, metadata, wallet:user_wallets(user_id)')
+    .eq('reference', reference)
+    .eq('type', 'debit')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!debit || debit.status !== 'completed' || debit.wallet?.user_id !== booking.user_id
+    || !paidForBooking(debit.metadata, booking)) {
+    console.log(`⚠️ Booking ${booking.id}: no completed wallet debit ${reference}`);
+    return null;
+  }
+
+  return { reference, amount: Number(debit.amount) };
+};
+
+// The member's successful Paystack charge for the booking, or null. The backend stamps
+// user_id into the metadata of every charge it initializes.
+const verifyCardPayment = async (booking) => {
+  const reference = booking.metadata?.paystack_reference || booking.payment_reference;
+  if (!reference || reference.startsWith('QLXBKG-')) return null;
+
+  let charge;
+  try {
+    charge = (await callPaystackAPI(`/transaction/verify/${encodeURIComponent(reference)}`)).data;
+  } catch (error) {
+    // Paystack answers 400/404 for references it never saw
+    if (error.statusCode === 400 || error.statusCode === 404) return null;
+    throw error;
+  }
+
+  if (charge.status !== 'success' || charge.currency !== 'NGN' || charge.metadata?.user_id !== booking.user_id
+    || !paidForBooking(charge.metadata, booking)) {
+    console.log(`⚠️ Booking ${booking.id}: Paystack charge ${reference} is not a payment for it`);
+    return null;
+  }
+
+  return { reference, amount: Number(charge.amount || 0) / 100 }; // kobo -> NGN
+};
+
+// Returns { amount, reference, wallet, card } where wallet and card are
+// { reference, amount } or null. `reference` identifies the payment as a whole
+// (null when nothing was paid), so one payment is never refunded twice.
+const verifyBookingPayment = async (booking) => {
+  const [wallet, card] = await Promise.all([verifyWalletPayment(booking), verifyCardPayment(booking)]);
+
+  // A split-tender wallet debit belongs to its card payment
+  if (wallet && card && wallet.reference !== `QLXBKG-${card.reference}`) {
+    console.log(`⚠️ Booking ${booking.id}: wallet debit ${wallet.reference} is not part of ${card.reference}`);
+    return { amount: card.amount, reference: card.reference, wallet: null, card };
+  }
+
+  return {
+    amount: (wallet?.amount ?? 0) + (card?.amount ?? 0),
+    reference: card?.reference ?? wallet?.reference ?? null,
+    wallet,
+    card,
+  };
+};
+
+// Refunds a cancelled booking: Privé members (and fees paid from the wallet) get a
+// wallet credit, everyone else a Paystack refund to the original card payment.
+// `payment` is the verified payment from verifyBookingPayment; the credit's reference
+// is derived from it, so the same payment can only ever be refunded once.
+// `booking` needs table:table_areas(name). Returns the refund record for bookings.metadata;
+// failed refunds are retried by retryFailedRefunds (reconciliation.js).
+const refundBooking = async (booking, quote, payment) => {
+  const reference = `QLXREF-${payment.reference}`;
+  const description = `Refund: ${booking.table?.name || 'table'} booking on ${booking.booking_date}`;
+  const base = {
+    reference,
+    amount: quote.amount,
+    percent: quote.percent,
+    policy: quote.rule,
+    requested_at: new Date().toISOString(),
+  };
+
+  const { data: wallet } = await supabase
+    .from('user_wallets')
+    .select('id, status')
+    .eq('user_id', booking.user_id)
+    .maybeSingle();
+
+  const toWallet = wallet?.status === 'active' || (wallet && payment.wallet);
+
+  try {
+    if (toWallet) {
+      const { data, error } = await supabase.rpc('wallet_credit', {
+        p_wallet_id: wallet.id,
+        p_amount: quote.amount,
+        p_reference: reference,
+        p_description: description,
+        p_payment_method: 'refund',
+        p_metadata: { booking_id: booking.id, payment_reference: payment.reference },
+      });
+
+      if (error) throw error;
+
+      // A retry finds the credit an earlier attempt made
+      return { ...base, method: 'wallet', status: 'completed', transaction_id: data?.[0]?.transaction_id };
+    }
+
+    if (!payment.card) {
+      throw new Error('No card payment to refund');
+    }
+
+    // Only the card part can go back to the card
+    const amount = Math.min(quote.amount, payment.card.amount);
+    const data = await callPaystackAPI('/refund', 'POST', {
+      transaction: payment.card.reference,
+      amount: Math.round(amount * 100), // kobo
+      merchant_note: description,
+    });
+
+    return {
+      ...base,
+      amount,
+      method: 'paystack',
+      status: data.data?.status === 'processed' ? 'completed' : 'pending',
+      transaction_reference: payment.card.reference,
+      provider_reference: data.data?.id ? String(data.data.id) : undefined,
+    };
+  } catch (error) {
+    console.error(`❌ Refund for booking ${booking.id} failed:`, error);
+    return { ...base, method: toWallet ? 'wallet' : 'paystack', status: 'failed', error: error.message };
+  }
+};
+
+module.exports = { BOOKING_PURPOSE, verifyBookingPayment, refundBooking };
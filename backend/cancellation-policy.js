@@ -0,0 +1,41 @@
+// Booking cancellation policy
+// Decides how much of a paid booking fee is refunded when the member cancels.
+
+// Bookings are for the night; a date-only booking starts when doors open (Lagos time)
+const DOORS_OPEN = 'T22:00:00+01:00';
+
+// Checked in order - the first rule the cancellation satisfies applies
+const REFUND_RULES = [
+  { minHoursBefore: 48, percent: 100, label: 'Full refund (48+ hours before)' },
+  { minHoursBefore: 24, percent: 50, label: '50% refund (24-48 hours before)' },
+  { minHoursBefore: -Infinity, percent: 0, label: 'No refund (less than 24 hours before)' },
+];
+
+const getBookingStart = (booking) => {
+  // Session bookings start when their session does
+  if (booking.session_id && booking.starts_at) return new Date(booking.starts_at);
+
+  const date = String(booking.booking_date);
+  return new Date(date.includes('T') ? date : `${date}${DOORS_OPEN}`);
+};
+
+// Returns { refundable, percent, amount, paid, hoursBefore, rule } for cancelling `booking`
+// at `now`. `paid` is what the member verifiably paid (see booking-payments.js), never
+// the booking's own payment columns, so the refund can never be more than was taken.
+const evaluateCancellation = (booking, paid, now = new Date()) => {
+  const hoursBefore = (getBookingStart(booking).getTime() - now.getTime()) / (60 * 60 * 1000);
+  const rule = REFUND_RULES.find((r) => hoursBefore >= r.minHoursBefore);
+  const percent = paid > 0 ? rule.percent : 0;
+  const amount = Math.round(paid * percent) / 100;
+
+  return {
+    refundable: amount > 0,
+    percent,
+    amount,
+    paid,
+    hoursBefore: Math.floor(hoursBefore),
+    rule: paid > 0 ? rule.label : 'No payment to refund',
+  };
+};
+
+module.exports = { evaluateCancellation, REFUND_RULES };
@@ -0,0 +1,287 @@
+// Booking check-in passes
+// A confirmed booking's pass is a QR code that changes every PASS_ROTATION_SECONDS,
+// so a screenshot stops working almost straight away. The member's app builds each
+// code itself from a per-booking key, and door staff check it with the night key
+// the booking key is derived from, so neither side needs a connection at the door.
+//
+// Token format: QLXPASS.bookingId.tableId.guestCount.bookingDate.step.signature
+//   step       - floor(unix seconds / PASS_ROTATION_SECONDS), or 'W' for the fixed
+//                code printed on Apple/Google wallet passes, which cannot rotate;
+//                scanners only accept it between the booking's starts_at and ends_at
+//   signature  - HMAC-SHA256(bookingKey, everything before it)
+//   bookingKey - HMAC-SHA256(nightKey, bookingId)
+//   nightKey   - HMAC-SHA256(CHECKIN_QR_SECRET, 'QLXPASS.night.' + bookingDate)
+// Keys are used as their hex strings. Members only ever see their own booking key;
+// the night key is given to staff, and only for the night they are working.
+
+const { Buffer } = require('buffer');
+const crypto = require('crypto');
+const fs = require('fs');
+const { supabase } = require('./supabase');
+
+const TOKEN_PREFIX = 'QLXPASS';
+const WALLET_STEP = 'W';
+const PASS_ROTATION_SECONDS = 30;
+const WALLET_LINK_TTL_MINUTES = 5;
+const GOOGLE_WALLET_SAVE_URL = 'https://pay.google.com/gp/v/save/';
+
+const hmac = (key, payload) => crypto.createHmac('sha256', key).update(payload).digest('hex');
+
+const secret = () => {
+  const value = process.env.CHECKIN_QR_SECRET;
+  if (!value) throw new Error('CHECKIN_QR_SECRET is not configured');
+  return value;
+};
+
+const nightKey = (bookingDate) => hmac(secret(), `${TOKEN_PREFIX}.night.${bookingDate}`);
+
+const bookingPassKey = (booking) => hmac(nightKey(booking.booking_date), booking.id);
+
+const createPassToken = (booking, step) => {
+  const payload = [
+    TOKEN_PREFIX,
+    booking.id,
+    booking.table_id,
+    booking.guest_count,
+    booking.booking_date,
+    step,
+  ].join('.');
+  return `${payload}.${hmac(bookingPassKey(booking), payload)}`;
+};
+
+// The night that is on now in Lagos (UTC+1). A night runs from noon to noon.
+const currentNight = () => new Date(Date.now() + (1 - 12) * 60 * 60 * 1000).toISOString().split('T')[0];
+
+const PASS_COLUMNS = `
+  id, user_id, table_id, booking_date, guest_count, guest_name, arrival_time, status,
+  starts_at, ends_at, checked_in_at,
+  table:table_areas(name, table_number, section),
+  session:booking_sessions(name)
+`;
+
+const walletPassesAvailable = () => ({
+  apple: Boolean(
+    process.env.APPLE_PASS_TYPE_ID && process.env.APPLE_TEAM_ID && process.env.APPLE_PASS_CERT
+    && process.env.APPLE_PASS_KEY && process.env.APPLE_WWDR_CERT
+  ),
+  google: Boolean(
+    process.env.GOOGLE_WALLET_ISSUER_ID && process.env.GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL
+    && process.env.GOOGLE_WALLET_PRIVATE_KEY
+  ),
+});
+
+// Loads a member's booking for its pass.
+// Returns { booking } or { error, status } where status is the HTTP status to answer with.
+const loadPassBooking = async (bookingId, userId) => {
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select(PASS_COLUMNS)
+    .eq('id', bookingId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!booking || booking.user_id !== userId) return { error: 'Booking not found', status: 404 };
+  if (booking.status !== 'confirmed') return { error: 'Only confirmed bookings have a check-in pass', status: 409 };
+
+  return { booking };
+};
+
+// What the app needs to show the pass and build its rotating code
+const toMemberPass = (booking) => ({
+  booking_id: booking.id,
+  table_id: booking.table_id,
+  table_name: booking.table?.name ?? null,
+  table_number: booking.table?.table_number ?? null,
+  section: booking.table?.section ?? null,
+  guest_count: booking.guest_count,
+  guest_name: booking.guest_name,
+  booking_date: booking.booking_date,
+  session_name: booking.session?.name ?? null,
+  arrival_time: booking.arrival_time,
+  checked_in_at: booking.checked_in_at,
+  key: bookingPassKey(booking),
+  rotation_seconds: PASS_ROTATION_SECONDS,
+  wallet: walletPassesAvailable(),
+});
+
+// Everything a door scanner needs for one night: the key to verify passes with and
+// the guest list, so it can name guests and spot cancelled bookings offline
+const loadNight = async (bookingDate) => {
+  const { data, error } = await supabase
+    .from('bookings')
+    .select(`
+      id, table_id, guest_count, guest_name, arrival_time, status, starts_at, ends_at, checked_in_at,
+      table:table_areas(name, table_number),
+      session:booking_sessions(name)
+    `)
+    .eq('booking_date', bookingDate)
+    .in('status', ['confirmed', 'cancelled'])
+    .order('arrival_time', { ascending: true, nullsFirst: false });
+
+  if (error) throw error;
+
+  return {
+    booking_date: bookingDate,
+    key: nightKey(bookingDate),
+    rotation_seconds: PASS_ROTATION_SECONDS,
+    bookings: (data || []).map((booking) => ({
+      booking_id: booking.id,
+      table_id: booking.table_id,
+      table_name: booking.table?.name ?? null,
+      table_number: booking.table?.table_number ?? null,
+      guest_count: booking.guest_count,
+      guest_name: booking.guest_name,
+      session_name: booking.session?.name ?? null,
+      arrival_time: booking.arrival_time,
+      starts_at: booking.starts_at,
+      ends_at: booking.ends_at,
+      status: booking.status,
+      checked_in_at: booking.checked_in_at,
+    })),
+  };
+};
+
+// ==================== WALLET PASSES ====================
+
+// Short-lived download link for the Apple pass, so Safari can fetch it without the
+// member's token. Format: bookingId.userId.expiresAt.signature
+const createWalletPassLink = (booking) => {
+  const expiresAt = Date.now() + WALLET_LINK_TTL_MINUTES * 60 * 1000;
+  const payload = [booking.id, booking.user_id, expiresAt].join('.');
+  return `${payload}.${hmac(secret(), `${TOKEN_PREFIX}.wallet.${payload}`)}`;
+};
+
+// Returns { bookingId, userId } for a valid, unexpired link token, otherwise null
+const verifyWalletPassLink = (token) => {
+  const parts = String(token || '').split('.');
+  if (parts.length !== 4) return null;
+
+  const [bookingId, userId, expiresAt, given] = parts;
+  const expected = hmac(secret(), `${TOKEN_PREFIX}.wallet.${parts.slice(0, 3).join('.')}`);
+  const valid = given.length === expected.length && crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(given).digest(),
+    crypto.createHash('sha256').update(expected).digest()
+  );
+
+  if (!valid || Number(expiresAt) < Date.now()) return null;
+  return { bookingId, userId };
+};
+
+const passTitle = (booking) => `${booking.table?.name ?? 'Table'} (${booking.table?.table_number ?? '-'})`;
+
+// Apple Wallet .pkpass, signed with the pass type certificate
+const renderApplePass = async (booking) => {
+  const { PKPass } = require('passkit-generator');
+
+  const passJson = {
+    formatVersion: 1,
+    passTypeIdentifier: process.env.APPLE_PASS_TYPE_ID,
+    teamIdentifier: process.env.APPLE_TEAM_ID,
+    serialNumber: booking.id,
+    organizationName: 'Quilox',
+    description: 'Quilox table booking',
+    backgroundColor: 'rgb(0, 0, 0)',
+    foregroundColor: 'rgb(255, 255, 255)',
+    labelColor: 'rgb(212, 175, 55)',
+    eventTicket: {
+      primaryFields: [{ key: 'table', label: 'TABLE', value: passTitle(booking) }],
+      secondaryFields: [
+        { key: 'date', label: 'DATE', value: booking.booking_date },
+        { key: 'session', label: 'SESSION', value: booking.session?.name ?? 'All night' },
+      ],
+      auxiliaryFields: [
+        { key: 'guests', label: 'GUESTS', value: booking.guest_count },
+        { key: 'name', label: 'NAME', value: booking.guest_name },
+      ],
+      backFields: [
+        { key: 'booking', label: 'Booking', value: booking.id },
+        { key: 'note', label: 'At the door', value: 'Show this pass, or the rotating code in the Quilox app.' },
+      ],
+    },
+  };
+
+  // Kept inside backend/ - it is all the Docker image and the Vercel function ship
+  const icon = (file) => fs.readFileSync(require.resolve(`./assets/${file}`));
+  const pass = new PKPass(
+    {
+      'pass.json': Buffer.from(JSON.stringify(passJson)),
+      'icon.png': icon('pass-icon.png'), // 29 px
+      'icon@2x.png': icon('pass-icon@2x.png'),
+      'icon@3x.png': icon('pass-icon@3x.png'),
+    },
+    {
+      wwdr: process.env.APPLE_WWDR_CERT,
+      signerCert: process.env.APPLE_PASS_CERT,
+      signerKey: process.env.APPLE_PASS_KEY,
+      signerKeyPassphrase: process.env.APPLE_PASS_KEY_PASSPHRASE,
+    }
+  );
+
+  pass.setBarcodes({
+    message: createPassToken(booking, WALLET_STEP),
+    format: 'PKBarcodeFormatQR',
+    messageEncoding: 'iso-8859-1',
+  });
+  if (booking.starts_at) pass.setRelevantDate(new Date(booking.starts_at));
+
+  return pass.getAsBuffer();
+};
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+
+// "Save to Google Wallet" link: a JWT signed by the issuer's service account,
+// creating an event ticket object under GOOGLE_WALLET_CLASS_ID (created once in the
+// Google Pay & Wallet console)
+const googleWalletSaveUrl = (booking) => {
+  const issuerId = process.env.GOOGLE_WALLET_ISSUER_ID;
+  const classSuffix = process.env.GOOGLE_WALLET_CLASS_ID || 'quilox_table_booking';
+  const localized = (value) => ({ defaultValue: { language: 'en-US', value: String(value) } });
+
+  const ticket = {
+    id: `${issuerId}.${booking.id}`,
+    classId: `${issuerId}.${classSuffix}`,
+    state: 'ACTIVE',
+    ticketHolderName: booking.guest_name,
+    ticketNumber: booking.id,
+    seatInfo: {
+      section: localized(booking.table?.section ?? 'Quilox'),
+      seat: localized(passTitle(booking)),
+    },
+    barcode: {
+      type: 'QR_CODE',
+      value: createPassToken(booking, WALLET_STEP),
+      alternateText: `${booking.guest_count} guests · ${booking.booking_date}`,
+    },
+    ...(booking.starts_at && booking.ends_at && {
+      validTimeInterval: { start: { date: booking.starts_at }, end: { date: booking.ends_at } },
+    }),
+  };
+
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const claims = base64url(JSON.stringify({
+    iss: process.env.GOOGLE_WALLET_SERVICE_ACCOUNT_EMAIL,
+    aud: 'google',
+    typ: 'savetowallet',
+    iat: Math.floor(Date.now() / 1000),
+    payload: { eventTicketObjects: [ticket] },
+  }));
+  const signature = crypto
+    .createSign('RSA-SHA256')
+    .update(`${header}.${claims}`)
+    .sign(process.env.GOOGLE_WALLET_PRIVATE_KEY.replace(/\\n/g, '\n'), 'base64url');
+
+  return `${GOOGLE_WALLET_SAVE_URL}${header}.${claims}.${signature}`;
+};
+
+module.exports = {
+  currentNight,
+  loadPassBooking,
+  toMemberPass,
+  loadNight,
+  walletPassesAvailable,
+  createWalletPassLink,
+  verifyWalletPassLink,
+  renderApplePass,
+  googleWalletSaveUrl,
+};
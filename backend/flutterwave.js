@@ -0,0 +1,37 @@
+// Flutterwave API helper
+// Secret-key calls for the app's Flutterwave routes, and for the webhook, which
+// re-verifies events against the API before settling anything.
+
+const FLUTTERWAVE_BASE_URL = 'https://api.flutterwave.com/v3';
+
+const callFlutterwaveAPI = async (endpoint, method = 'GET', body = null) => {
+  const secretKey = process.env.FLUTTERWAVE_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error('FLUTTERWAVE_SECRET_KEY not configured');
+  }
+
+  const options = {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${secretKey}`,
+    },
+  };
+
+  if (body && method !== 'GET') {
+    options.body = JSON.stringify(body);
+  }
+
+  const response = await fetch(`${FLUTTERWAVE_BASE_URL}${endpoint}`, options);
+  const data = await response.json();
+
+  if (!response.ok || data.status !== 'success') {
+    const error = new Error(data.message || 'Flutterwave API request failed');
+    error.statusCode = response.status;
+    throw error;
+  }
+
+  return data;
+};
+
+module.exports = { callFlutterwaveAPI };
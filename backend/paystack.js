@@ -0,0 +1,37 @@
+// Paystack API helper
+// The secret key only lives on the server; the app reaches Paystack through the
+// /api/paystack/* routes in server.js.
+
+const PAYSTACK_BASE_URL = 'https://api.paystack.co';
+
+const callPaystackAPI = async (endpoint, method = 'GET', body = null) => {
+  const secretKey = process.env.PAYSTACK_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error('PAYSTACK_SECRET_KEY not configured');
+  }
+
+  const options = {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${secretKey}`,
+    },
+  };
+
+  if (body && method !== 'GET') {
+    options.body = JSON.stringify(body);
+  }
+
+  const response = await fetch(`${PAYSTACK_BASE_URL}${endpoint}`, options);
+  const data = await response.json();
+
+  if (!response.ok || data.status !== true) {
+    const error = new Error(data.message || 'Paystack API request failed');
+    error.statusCode = response.status;
+    throw error;
+  }
+
+  return data;
+};
+
+module.exports = { callPaystackAPI };
@@ -0,0 +1,188 @@
+// Booking pricing engine
+// Turns a table's booking fee into the amount the member pays. Membership discounts
+// apply first, then at most one promotion (the code the member entered, otherwise
+// the best automatic one) on what is left.
+
+const { supabase } = require('./supabase');
+
+// Advertised on the Privé screen: "15% booking discount". Tiers set their own
+// (membership_tiers.booking_discount_percent); this covers members not yet placed.
+const PRIVE_BOOKING_DISCOUNT_PERCENT = 15;
+
+// How long a member has to pay a quoted price
+const QUOTE_TTL_MINUTES = 30;
+
+const roundNaira = (amount) => Math.round(amount * 100) / 100;
+
+const promotionIsLive = (promotion, now) =>
+  promotion.is_active &&
+  (!promotion.starts_at || new Date(promotion.starts_at) <= now) &&
+  (!promotion.ends_at || new Date(promotion.ends_at) > now);
+
+// Why a promotion does not apply to this booking, or null when it does
+const promotionIneligibility = (promotion, { baseFee, membership, now }) => {
+  if (!promotionIsLive(promotion, now)) return 'This promo code has expired';
+  if (promotion.audience === 'prive' && !membership.isPrive) return 'This promo code is for Privé members';
+  if (baseFee < Number(promotion.min_fee || 0)) return `This promo code needs a booking fee of ₦${Number(promotion.min_fee).toLocaleString()} or more`;
+  return null;
+};
+
+const promotionAmount = (promotion, subtotal) => {
+  const value = Number(promotion.discount_value);
+  let amount = promotion.discount_type === 'percent' ? (subtotal * value) / 100 : value;
+
+  if (promotion.max_discount !== null && promotion.max_discount !== undefined) {
+    amount = Math.min(amount, Number(promotion.max_discount));
+  }
+
+  return roundNaira(Math.min(amount, subtotal));
+};
+
+// Pure pricing: no database access, so it is the same wherever a quote is made.
+// `membership` is { isPrive, tierName?, bookingDiscountPercent? }; `promotions` are promotions rows.
+// Returns { base_fee, discounts: [{ code, label, type, percent?, amount }], discount_total, total, promo_error? }
+const priceBooking = ({ baseFee, membership, promotions = [], promoCode, now = new Date() }) => {
+  const fee = roundNaira(Number(baseFee || 0));
+  const discounts = [];
+  let subtotal = fee;
+
+  const memberPercent = membership.isPrive
+    ? membership.bookingDiscountPercent ?? PRIVE_BOOKING_DISCOUNT_PERCENT
+    : 0;
+
+  if (memberPercent > 0) {
+    const amount = roundNaira((subtotal * memberPercent) / 100);
+    discounts.push({
+      code: 'prive_member',
+      label: `Privé ${membership.tierName ? `${membership.tierName} ` : ''}member discount (${memberPercent}%)`,
+      type: 'membership',
+      percent: memberPercent,
+      amount,
+    });
+    subtotal = roundNaira(subtotal - amount);
+  }
+
+  let promoError;
+  let promotion = null;
+  const context = { baseFee: fee, membership, now };
+
+  if (promoCode) {
+    const entered = promotions.find((p) => p.code && p.code.toUpperCase() === promoCode.trim().toUpperCase());
+    promoError = entered ? promotionIneligibility(entered, context) : 'Promo code not recognised';
+    promotion = promoError ? null : entered;
+  }
+
+  if (!promotion) {
+    // Best automatic promotion for this booking
+    promotion = promotions
+      .filter((p) => !p.code && !promotionIneligibility(p, context))
+      .sort((a, b) => promotionAmount(b, subtotal) - promotionAmount(a, subtotal))[0] || null;
+  }
+
+  if (promotion && subtotal > 0) {
+    const amount = promotionAmount(promotion, subtotal);
+    if (amount > 0) {
+      discounts.push({
+        code: promotion.code || `promo_${promotion.id}`,
+        label: promotion.name,
+        type: 'promotion',
+        promotion_id: promotion.id,
+        ...(promotion.discount_type === 'percent' && { percent: Number(promotion.discount_value) }),
+        amount,
+      });
+      subtotal = roundNaira(subtotal - amount);
+    }
+  }
+
+  return {
+    base_fee: fee,
+    discounts,
+    discount_total: roundNaira(fee - subtotal),
+    total: subtotal,
+    ...(promoError && { promo_error: promoError }),
+  };
+};
+
+// Membership as far as pricing is concerned: Privé status and the member's tier
+const getMembership = async (userId) => {
+  const { data: wallet, error } = await supabase
+    .from('user_wallets')
+    .select('status, tier:membership_tiers(id, name, booking_discount_percent)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return {
+    isPrive: wallet?.status === 'active',
+    tierId: wallet?.tier?.id,
+    tierName: wallet?.tier?.name,
+    bookingDiscountPercent: wallet?.tier ? Number(wallet.tier.booking_discount_percent) : undefined,
+  };
+};
+
+// Prices a table booking for a member. Returns the priceBooking result plus the
+// table, membership and quote time, ready to store on the booking.
+const quoteBooking = async ({ tableId, userId, promoCode, now = new Date() }) => {
+  const { data: table, error: tableError } = await supabase
+    .from('table_areas')
+    .select('id, name, booking_fee')
+    .eq('id', tableId)
+    .maybeSingle();
+
+  if (tableError) throw tableError;
+  if (!table) return null;
+
+  const { data: promotions, error: promotionsError } = await supabase
+    .from('promotions')
+    .select('*')
+    .eq('is_active', true);
+
+  if (promotionsError) throw promotionsError;
+
+  const membership = await getMembership(userId);
+  const price = priceBooking({ baseFee: table.booking_fee, membership, promotions, promoCode, now });
+
+  return {
+    table_id: table.id,
+    currency: 'NGN',
+    ...price,
+    membership: { is_prive: membership.isPrive, tier_id: membership.tierId || null },
+    promo_code: promoCode && !price.promo_error ? promoCode.trim().toUpperCase() : null,
+    quoted_at: now.toISOString(),
+  };
+};
+
+// Stores a quote so checkout can charge exactly what the member was shown.
+// Returns the quote with its id and expires_at.
+const saveQuote = async (userId, quote) => {
+  const expiresAt = new Date(Date.now() + QUOTE_TTL_MINUTES * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('booking_quotes')
+    .insert({ user_id: userId, table_id: quote.table_id, quote, total: quote.total, expires_at: expiresAt })
+    .select('id, expires_at')
+    .single();
+
+  if (error) throw error;
+  return { ...quote, id: data.id, expires_at: data.expires_at };
+};
+
+// A member's stored quote, or null when it is not theirs or has expired.
+// Pass `includeExpired` to check a payment against the quote it was started with.
+const findQuote = async (quoteId, userId, { includeExpired = false } = {}) => {
+  const { data, error } = await supabase
+    .from('booking_quotes')
+    .select('*')
+    .eq('id', quoteId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  // 22P02: not a quote id at all
+  if (error && error.code !== '22P02') throw error;
+  if (!data || (!includeExpired && new Date(data.expires_at) <= new Date())) return null;
+
+  return { ...data.quote, id: data.id, total: Number(data.total), expires_at: data.expires_at };
+};
+
+module.exports = { PRIVE_BOOKING_DISCOUNT_PERCENT, priceBooking, quoteBooking, saveQuote, findQuote };
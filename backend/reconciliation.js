@@ -0,0 +1,503 @@
+// Pending top-up and withdrawal reconciliation
+// Top-ups start as pending wallet_transactions rows and are settled by the Paystack
+// webhook. When a webhook never arrives (or checkout was abandoned) the row stays
+// pending; this job verifies each stale reference with Paystack and settles it
+// through the same idempotent ledger functions the webhook uses. Withdrawal holds
+// whose transfer webhook never arrived are checked the same way, and so are table
+// booking checkouts: paid ones are confirmed, unpaid ones give back their wallet hold.
+// Cancelled bookings whose refund failed are refunded again.
+
+const { supabase } = require('./supabase');
+const { callPaystackAPI } = require('./paystack');
+const { TOP_UP_PREFIX, checkTopUpCharge, settleTopUp } = require('./settlement');
+const { settleWithdrawal, reverseWithdrawal } = require('./withdrawals');
+const { settleCheckout, abandonCheckout } = require('./booking-checkout');
+const { verifyBookingPayment, refundBooking } = require('./booking-payments');
+
+const DEFAULTS = {
+  staleAfterMinutes: 30, // leave fresh checkouts alone
+  abandonAfterHours: 24, // unpaid sessions older than this are failed
+  refundAttempts: 5, // failed refunds are left for an admin after this many tries
+  limit: 100,
+};
+
+const FAILED_STATUSES = ['failed', 'reversed'];
+const UNPAID_STATUSES = ['abandoned'];
+const FAILED_TRANSFER_STATUSES = ['failed', 'reversed', 'abandoned'];
+
+const hoursSince = (timestamp, now) => (now.getTime() - new Date(timestamp).getTime()) / (60 * 60 * 1000);
+
+// Verifies one pending top-up and settles it. Returns { outcome, mismatch? }.
+const reconcileTopUp = async (tx, options, now) => {
+  const ageHours = hoursSince(tx.created_at, now);
+  let charge;
+
+  try {
+    const data = await callPaystackAPI(`/transaction/verify/${encodeURIComponent(tx.reference)}`);
+    charge = data.data;
+  } catch (error) {
+    // Paystack answers 400/404 for references it never saw, i.e. checkout never opened
+    if ((error.statusCode === 400 || error.statusCode === 404) && ageHours >= options.abandonAfterHours) {
+      await failTopUp(tx.reference, 'Reference unknown to Paystack');
+      return { outcome: 'failed' };
+    }
+    return {
+      outcome: 'pending',
+      mismatch: { reference: tx.reference, kind: 'verification_error', detail: error.message },
+    };
+  }
+
+  if (charge.status === 'success') {
+    const amountPaid = Number(charge.amount || 0) / 100; // kobo -> NGN
+    const expected = Number(tx.amount);
+
+    if (charge.currency && charge.currency !== 'NGN') {
+      return {
+        outcome: 'pending',
+        mismatch: { reference: tx.reference, kind: 'currency_mismatch', expected: 'NGN', actual: charge.currency },
+      };
+    }
+
+    // Only a top-up charge by the wallet's owner settles the row; anything else never will
+    const problem = await checkTopUpCharge(tx.reference, charge.metadata);
+    if (problem) {
+      await failTopUp(tx.reference, problem);
+      return {
+        outcome: 'failed',
+        mismatch: { reference: tx.reference, kind: 'not_a_topup', detail: problem },
+      };
+    }
+
+    const result = await settleTopUp(tx.reference, amountPaid);
+
+    if (result.status === 'rejected') {
+      return {
+        outcome: 'pending',
+        mismatch: { reference: tx.reference, kind: 'amount_mismatch', expected, actual: amountPaid, detail: result.message },
+      };
+    }
+
+    // Overpayments are credited at the top-up amount; flag the difference for follow-up
+    if (amountPaid > expected) {
+      return {
+        outcome: 'completed',
+        mismatch: { reference: tx.reference, kind: 'overpayment', expected, actual: amountPaid },
+      };
+    }
+
+    return { outcome: 'completed' };
+  }
+
+  if (FAILED_STATUSES.includes(charge.status)) {
+    await failTopUp(tx.reference, `Paystack status: ${charge.status}`);
+    return { outcome: 'failed' };
+  }
+
+  if (UNPAID_STATUSES.includes(charge.status) && ageHours >= options.abandonAfterHours) {
+    await failTopUp(tx.reference, 'Checkout abandoned');
+    return { outcome: 'failed' };
+  }
+
+  // ongoing / pending / processing, or abandoned but still recent
+  return { outcome: 'pending' };
+};
+
+const failTopUp = async (reference, reason) => {
+  const { error } = await supabase.rpc('fail_wallet_topup', { p_reference: reference, p_reason: reason });
+  if (error) throw error;
+};
+
+// Walks stale pending top-ups and returns (and stores) a reconciliation report
+const reconcilePendingTopUps = async ({ trigger = 'manual', ...overrides } = {}) => {
+  if (!supabase) {
+    throw new Error('Database not configured');
+  }
+
+  const options = { ...DEFAULTS, ...overrides };
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - options.staleAfterMinutes * 60 * 1000).toISOString();
+
+  const report = {
+    job: 'wallet_topups',
+    trigger,
+    started_at: now.toISOString(),
+    scanned: 0,
+    completed: 0,
+    failed: 0,
+    still_pending: 0,
+    mismatches: [],
+  };
+
+  const { data: pending, error } = await supabase
+    .from('wallet_transactions')
+    .select('id, reference, amount, created_at')
+    .eq('type', 'credit')
+    .eq('status', 'pending')
+    .like('reference', `${TOP_UP_PREFIX}%`)
+    .lt('created_at', staleBefore)
+    .order('created_at', { ascending: true })
+    .limit(options.limit);
+
+  if (error) throw error;
+
+  for (const tx of pending || []) {
+    report.scanned += 1;
+
+    try {
+      const result = await reconcileTopUp(tx, options, now);
+
+      if (result.outcome === 'completed') report.completed += 1;
+      else if (result.outcome === 'failed') report.failed += 1;
+      else report.still_pending += 1;
+
+      if (result.mismatch) report.mismatches.push(result.mismatch);
+    } catch (err) {
+      console.error(`❌ Reconciling ${tx.reference} failed:`, err);
+      report.still_pending += 1;
+      report.mismatches.push({ reference: tx.reference, kind: 'error', detail: err.message });
+    }
+  }
+
+  const run = await saveReport(report);
+
+  console.log(
+    `🧾 Top-up reconciliation: ${report.scanned} scanned, ${report.completed} completed, ` +
+    `${report.failed} failed, ${report.still_pending} pending, ${report.mismatches.length} mismatches`
+  );
+
+  return { id: run?.id, ...report };
+};
+
+// Verifies one held withdrawal with Paystack and settles it. Returns { outcome, mismatch? }.
+const reconcileWithdrawal = async (tx, options, now) => {
+  let transfer;
+
+  try {
+    transfer = (await callPaystackAPI(`/transfer/verify/${encodeURIComponent(tx.reference)}`)).data;
+  } catch (error) {
+    // Paystack answers 400/404 for transfers it never created: the request never reached it
+    if ((error.statusCode === 400 || error.statusCode === 404) && hoursSince(tx.created_at, now) >= options.abandonAfterHours) {
+      await settleWithdrawal(tx.reference, false, 'Transfer unknown to Paystack', { settled_by: 'reconciliation' });
+      return { outcome: 'failed' };
+    }
+    return {
+      outcome: 'pending',
+      mismatch: { reference: tx.reference, kind: 'verification_error', detail: error.message },
+    };
+  }
+
+  if (transfer.status === 'success') {
+    await settleWithdrawal(tx.reference, true, null, { transfer_code: transfer.transfer_code, settled_by: 'reconciliation' });
+    return { outcome: 'completed' };
+  }
+
+  if (FAILED_TRANSFER_STATUSES.includes(transfer.status)) {
+    const reason = `Paystack status: ${transfer.status}`;
+    const metadata = { transfer_code: transfer.transfer_code, settled_by: 'reconciliation' };
+    // A webhook may have completed the withdrawal since it was listed
+    if (transfer.status === 'reversed') {
+      await reverseWithdrawal(tx.reference, reason, metadata);
+    } else {
+      await settleWithdrawal(tx.reference, false, reason, metadata);
+    }
+    return { outcome: 'failed' };
+  }
+
+  // pending / processing / otp
+  return { outcome: 'pending' };
+};
+
+// Walks stale withdrawal holds and returns (and stores) a reconciliation report
+const reconcileHeldWithdrawals = async ({ trigger = 'manual', ...overrides } = {}) => {
+  if (!supabase) {
+    throw new Error('Database not configured');
+  }
+
+  const options = { ...DEFAULTS, ...overrides };
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - options.staleAfterMinutes * 60 * 1000).toISOString();
+
+  const report = {
+    job: 'wallet_withdrawals',
+    trigger,
+    started_at: now.toISOString(),
+    scanned: 0,
+    completed: 0,
+    failed: 0,
+    still_pending: 0,
+    mismatches: [],
+  };
+
+  const { data: pending, error } = await supabase
+    .from('wallet_transactions')
+    .select('id, reference, amount, created_at')
+    .eq('type', 'debit')
+    .eq('status', 'pending')
+    .eq('payment_method', 'bank_transfer')
+    .eq('metadata->>withdrawal', 'true')
+    .lt('created_at', staleBefore)
+    .order('created_at', { ascending: true })
+    .limit(options.limit);
+
+  if (error) throw error;
+
+  for (const tx of pending || []) {
+    report.scanned += 1;
+
+    try {
+      const result = await reconcileWithdrawal(tx, options, now);
+
+      if (result.outcome === 'completed') report.completed += 1;
+      else if (result.outcome === 'failed') report.failed += 1;
+      else report.still_pending += 1;
+
+      if (result.mismatch) report.mismatches.push(result.mismatch);
+    } catch (err) {
+      console.error(`❌ Reconciling withdrawal ${tx.reference} failed:`, err);
+      report.still_pending += 1;
+      report.mismatches.push({ reference: tx.reference, kind: 'error', detail: err.message });
+    }
+  }
+
+  const run = await saveReport(report);
+
+  console.log(
+    `🧾 Withdrawal reconciliation: ${report.scanned} scanned, ${report.completed} completed, ` +
+    `${report.failed} released, ${report.still_pending} pending, ${report.mismatches.length} mismatches`
+  );
+
+  return { id: run?.id, ...report };
+};
+
+// Verifies one stale booking checkout and settles it. Returns { outcome, mismatch? }.
+// The table hold is long gone by now, so an unpaid checkout is not worth keeping.
+const reconcileBookingCheckout = async (checkout) => {
+  let charge;
+
+  try {
+    charge = (await callPaystackAPI(`/transaction/verify/${encodeURIComponent(checkout.reference)}`)).data;
+  } catch (error) {
+    // Paystack answers 400/404 for references it never saw: the payment page never opened
+    if (error.statusCode === 400 || error.statusCode === 404) {
+      await abandonCheckout(checkout, 'Reference unknown to Paystack');
+      return { outcome: 'failed' };
+    }
+    return {
+      outcome: 'pending',
+      mismatch: { reference: checkout.reference, kind: 'verification_error', detail: error.message },
+    };
+  }
+
+  if (charge.status === 'success') {
+    const result = await settleCheckout(charge);
+
+    if (result.status === 'confirmed') return { outcome: 'completed' };
+    if (result.status === 'failed') {
+      return {
+        outcome: 'failed',
+        mismatch: { reference: checkout.reference, kind: 'booking_failed', detail: result.error },
+      };
+    }
+    return { outcome: 'pending' };
+  }
+
+  if ([...FAILED_STATUSES, ...UNPAID_STATUSES].includes(charge.status)) {
+    await abandonCheckout(checkout, `Paystack status: ${charge.status}`);
+    return { outcome: 'failed' };
+  }
+
+  // ongoing / pending / processing
+  return { outcome: 'pending' };
+};
+
+// Walks stale booking checkouts and returns (and stores) a reconciliation report
+const reconcileBookingCheckouts = async ({ trigger = 'manual', ...overrides } = {}) => {
+  if (!supabase) {
+    throw new Error('Database not configured');
+  }
+
+  const options = { ...DEFAULTS, ...overrides };
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - options.staleAfterMinutes * 60 * 1000).toISOString();
+
+  const report = {
+    job: 'booking_checkouts',
+    trigger,
+    started_at: now.toISOString(),
+    scanned: 0,
+    completed: 0,
+    failed: 0,
+    still_pending: 0,
+    mismatches: [],
+  };
+
+  const { data: pending, error } = await supabase
+    .from('booking_checkouts')
+    .select('*')
+    .eq('status', 'pending')
+    .lt('created_at', staleBefore)
+    .order('created_at', { ascending: true })
+    .limit(options.limit);
+
+  if (error) throw error;
+
+  for (const checkout of pending || []) {
+    report.scanned += 1;
+
+    try {
+      const result = await reconcileBookingCheckout(checkout);
+
+      if (result.outcome === 'completed') report.completed += 1;
+      else if (result.outcome === 'failed') report.failed += 1;
+      else report.still_pending += 1;
+
+      if (result.mismatch) report.mismatches.push(result.mismatch);
+    } catch (err) {
+      console.error(`❌ Reconciling booking checkout ${checkout.reference} failed:`, err);
+      report.still_pending += 1;
+      report.mismatches.push({ reference: checkout.reference, kind: 'error', detail: err.message });
+    }
+  }
+
+  const run = await saveReport(report);
+
+  console.log(
+    `🧾 Booking checkout reconciliation: ${report.scanned} scanned, ${report.completed} confirmed, ` +
+    `${report.failed} cancelled, ${report.still_pending} pending, ${report.mismatches.length} mismatches`
+  );
+
+  return { id: run?.id, ...report };
+};
+
+// Refunds a cancelled booking again, for the amount and policy its cancellation
+// recorded. Returns { outcome, mismatch? }.
+const retryRefund = async (booking, options) => {
+  const previous = booking.metadata.refund;
+  const attempts = Number(previous.attempts || 1);
+
+  if (attempts >= options.refundAttempts) {
+    return {
+      outcome: 'failed',
+      mismatch: { reference: previous.reference, kind: 'refund_failed', detail: previous.error, booking_id: booking.id },
+    };
+  }
+
+  const payment = await verifyBookingPayment(booking);
+  const quote = { amount: Number(previous.amount), percent: previous.percent, rule: previous.policy };
+  const refund = { ...(await refundBooking(booking, quote, payment)), attempts: attempts + 1 };
+
+  // Only the run that still finds the refund failed records its outcome
+  const { error } = await supabase
+    .from('bookings')
+    .update({
+      payment_status: refund.status === 'failed' ? booking.payment_status : 'refunded',
+      metadata: { ...booking.metadata, refund },
+    })
+    .eq('id', booking.id)
+    .eq('metadata->refund->>status', 'failed');
+
+  if (error) throw error;
+
+  if (refund.status === 'failed') {
+    return {
+      outcome: 'pending',
+      mismatch: { reference: refund.reference, kind: 'refund_retry_failed', detail: refund.error, booking_id: booking.id },
+    };
+  }
+
+  return { outcome: 'completed' };
+};
+
+// Retries refunds that failed when their booking was cancelled and returns (and stores)
+// a reconciliation report
+const retryFailedRefunds = async ({ trigger = 'manual', ...overrides } = {}) => {
+  if (!supabase) {
+    throw new Error('Database not configured');
+  }
+
+  const options = { ...DEFAULTS, ...overrides };
+
+  const report = {
+    job: 'booking_refunds',
+    trigger,
+    started_at: new Date().toISOString(),
+    scanned: 0,
+    completed: 0,
+    failed: 0,
+    still_pending: 0,
+    mismatches: [],
+  };
+
+  const { data: bookings, error } = await supabase
+    .from('bookings')
+    .select('*, table:table_areas(name, table_number)')
+    .eq('status', 'cancelled')
+    .eq('metadata->refund->>status', 'failed')
+    .order('updated_at', { ascending: true })
+    .limit(options.limit);
+
+  if (error) throw error;
+
+  for (const booking of bookings || []) {
+    report.scanned += 1;
+
+    try {
+      const result = await retryRefund(booking, options);
+
+      if (result.outcome === 'completed') report.completed += 1;
+      else if (result.outcome === 'failed') report.failed += 1;
+      else report.still_pending += 1;
+
+      if (result.mismatch) report.mismatches.push(result.mismatch);
+    } catch (err) {
+      console.error(`❌ Retrying refund for booking ${booking.id} failed:`, err);
+      report.still_pending += 1;
+      report.mismatches.push({ reference: booking.metadata.refund.reference, kind: 'error', detail: err.message });
+    }
+  }
+
+  const run = await saveReport(report);
+
+  console.log(
+    `🧾 Refund retries: ${report.scanned} scanned, ${report.completed} refunded, ` +
+    `${report.failed} given up, ${report.still_pending} still failing, ${report.mismatches.length} mismatches`
+  );
+
+  return { id: run?.id, ...report };
+};
+
+const saveReport = async (report) => {
+  report.finished_at = new Date().toISOString();
+
+  const { data: run, error } = await supabase
+    .from('reconciliation_runs')
+    .insert(report)
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Failed to save reconciliation report:', error);
+  }
+
+  return run;
+};
+
+module.exports = { reconcilePendingTopUps, reconcileHeldWithdrawals, reconcileBookingCheckouts, retryFailedRefunds };
+
+// On demand from the command line: `npm run reconcile`
+if (require.main === module) {
+  Promise.all([
+    reconcilePendingTopUps({ trigger: 'manual' }),
+    reconcileHeldWithdrawals({ trigger: 'manual' }),
+    reconcileBookingCheckouts({ trigger: 'manual' }),
+    retryFailedRefunds({ trigger: 'manual' }),
+  ])
+    .then((reports) => {
+      console.log(JSON.stringify(reports, null, 2));
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('❌ Reconciliation failed:', error);
+      process.exit(1);
+    });
+}
@@ -1,18 +1,70 @@
 const express = require('express');
 const cors = require('cors');
 const crypto = require('crypto');
-const { createClient } = require('@supabase/supabase-js');
+const { supabase } = require('./supabase');
+const { callPaystackAPI } = require('./paystack');
+const { callFlutterwaveAPI } = require('./flutterwave');
+const {
+  requireAuth,
+  requireWallet,
+  requireAccountOwnership,
+  requireChargeOwnership,
+  requireAdmin,
+  requireJobSecret,
+} = require('./auth');
+const { AppErrorCode, sendError } = require('./api-response');
+const { evaluateCancellation } = require('./cancellation-policy');
+const { verifyBookingPayment, refundBooking } = require('./booking-payments');
+const { quoteBooking, saveQuote } = require('./pricing');
+const { startCheckout, confirmCheckout, cancelCheckout } = require('./booking-checkout');
+const { MIN_WITHDRAWAL, createWithdrawalReference, startWithdrawal } = require('./withdrawals');
+const {
+  FORMATS: STATEMENT_FORMATS,
+  parsePeriod,
+  buildStatement,
+  statementToCsv,
+  statementFilename,
+  createStatementToken,
+  verifyStatementToken,
+} = require('./statements');
+const { renderStatementPdf } = require('./statement-pdf');
+const {
+  reconcilePendingTopUps,
+  reconcileHeldWithdrawals,
+  reconcileBookingCheckouts,
+  retryFailedRefunds,
+} = require('./reconciliation');
+const { BILL_SESSION_PURPOSE, settleBillSessionCharge } = require('./bill-sessions');
+const { createBill, createBillToken, verifyBillToken, loadScannedBill } = require('./venue-bills');
+const {
+  currentNight,
+  loadPassBooking,
+  toMemberPass,
+  loadNight,
+  walletPassesAvailable,
+  createWalletPassLink,
+  verifyWalletPassLink,
+  renderApplePass,
+  googleWalletSaveUrl,
+} = require('./checkin-passes');
+const {
+  isDeliveryClaimable,
+  recordWebhookEvent,
+  processWebhookEvent,
+  retryDueWebhookEvents,
+  replayWebhookEvent,
+  getWebhookEvent,
+  listWebhookEvents,
+} = require('./webhook-store');
 const app = express();
 
-// Initialize Supabase client
-const supabaseUrl = process.env.SUPABASE_URL;
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY; // Use service key for server-side operations
-const supabase = supabaseUrl && supabaseServiceKey 
-  ? createClient(supabaseUrl, supabaseServiceKey)
-  : null;
-
 // Middleware
-app.use(cors());
+// ALLOWED_ORIGINS restricts browser callers (comma-separated); native apps send no Origin
+const allowedOrigins = (process.env.ALLOWED_ORIGINS || '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+app.use(cors(allowedOrigins.length > 0 ? { origin: allowedOrigins } : undefined));
 
 // Capture raw body for Paystack webhook signature verification
 app.use(
@@ -61,11 +113,18 @@ const callGlobusAPI = async (endpoint, method = 'GET', body = null) => {
   return data;
 };
 
+// Wallet routes only act on the caller's own account
+const ownsParamAccount = requireAccountOwnership((req) => req.params.accountNumber);
+const ownsSourceAccount = requireAccountOwnership((req) => req.body?.sourceAccount);
+const ownsParamReference = requireChargeOwnership((req) => req.params.reference);
+
 // Create Virtual Account
-app.post('/api/wallet/create', async (req, res) => {
+app.post('/api/wallet/create', requireAuth, async (req, res) => {
   try {
-    console.log('Creating virtual account:', req.body);
-    const data = await callGlobusAPI('/accounts/create', 'POST', req.body);
+    // Accounts are always created for the caller, whatever the body says
+    const body = { ...req.body, userId: req.user.id };
+    console.log('Creating virtual account for user:', req.user.id);
+    const data = await callGlobusAPI('/accounts/create', 'POST', body);
     res.json(data);
   } catch (error) {
     console.error('Error creating account:', error);
@@ -77,7 +136,7 @@ app.post('/api/wallet/create', async (req, res) => {
 });
 
 // Get Account Balance
-app.get('/api/wallet/balance/:accountNumber', async (req, res) => {
+app.get('/api/wallet/balance/:accountNumber', requireAuth, requireWallet, ownsParamAccount, async (req, res) => {
   try {
     const { accountNumber } = req.params;
     console.log('Fetching balance for:', accountNumber);
@@ -93,7 +152,7 @@ app.get('/api/wallet/balance/:accountNumber', async (req, res) => {
 });
 
 // Get Transaction History
-app.get('/api/wallet/transactions/:accountNumber', async (req, res) => {
+app.get('/api/wallet/transactions/:accountNumber', requireAuth, requireWallet, ownsParamAccount, async (req, res) => {
   try {
     const { accountNumber } = req.params;
     const { page = 1, limit = 50 } = req.query;
@@ -110,10 +169,13 @@ app.get('/api/wallet/transactions/:accountNumber', async (req, res) => {
 });
 
 // Transfer Funds
-app.post('/api/wallet/transfer', async (req, res) => {
+app.post('/api/wallet/transfer', requireAuth, requireWallet, ownsSourceAccount, async (req, res) => {
   try {
-    console.log('Initiating transfer:', req.body);
-    const data = await callGlobusAPI('/transfers/initiate', 'POST', req.body);
+    // Only forward the fields a transfer needs
+    const { sourceAccount, destinationAccount, destinationBankCode, amount, narration, reference } = req.body;
+    const transfer = { sourceAccount, destinationAccount, destinationBankCode, amount, narration, reference };
+    console.log('Initiating transfer:', transfer);
+    const data = await callGlobusAPI('/transfers/initiate', 'POST', transfer);
     res.json(data);
   } catch (error) {
     console.error('Error initiating transfer:', error);
@@ -125,10 +187,11 @@ app.post('/api/wallet/transfer', async (req, res) => {
 });
 
 // Verify Account
-app.post('/api/wallet/verify', async (req, res) => {
+app.post('/api/wallet/verify', requireAuth, async (req, res) => {
   try {
-    console.log('Verifying account:', req.body);
-    const data = await callGlobusAPI('/accounts/verify', 'POST', req.body);
+    const { accountNumber, bankCode } = req.body;
+    console.log('Verifying account:', { accountNumber, bankCode });
+    const data = await callGlobusAPI('/accounts/verify', 'POST', { accountNumber, bankCode });
     res.json(data);
   } catch (error) {
     console.error('Error verifying account:', error);
@@ -153,62 +216,158 @@ app.get('/api/banks', async (req, res) => {
   }
 });
 
-// Paystack Webhook Handler
-app.post('/api/webhooks/paystack', async (req, res) => {
+// Initialize Paystack Transaction
+app.post('/api/paystack/transaction/initialize', requireAuth, async (req, res) => {
   try {
-    console.log('🔔 Paystack webhook received:', JSON.stringify(req.body, null, 2));
+    const { reference, amount, currency = 'NGN', email, callback_url, channels, metadata } = req.body;
 
-    const paystackSecret = process.env.PAYSTACK_SECRET_KEY;
-    const signature = req.headers['x-paystack-signature'];
-
-    if (!paystackSecret) {
-      console.error('❌ PAYSTACK_SECRET_KEY not configured');
-      return res.status(500).json({ error: 'Paystack not configured' });
+    if (!reference || !email || typeof amount !== 'number' || amount <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'reference, email and a positive amount are required'
+      });
     }
 
-    if (!signature || !req.rawBody) {
-      console.error('⚠️ Missing webhook signature or raw body');
-      return res.status(401).json({ error: 'Invalid signature' });
+    console.log('Initializing Paystack transaction:', reference);
+    const data = await callPaystackAPI('/transaction/initialize', 'POST', {
+      reference,
+      amount: Math.round(amount * 100), // NGN -> kobo
+      currency,
+      email,
+      callback_url,
+      channels,
+      // Stamped here, so whatever settles or refunds the charge knows who paid it
+      metadata: { ...metadata, user_id: req.user.id },
+    });
+    res.json({ success: true, data: data.data });
+  } catch (error) {
+    console.error('Error initializing transaction:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Verify one of the caller's Paystack transactions
+app.get('/api/paystack/transaction/verify/:reference', requireAuth, ownsParamReference, async (req, res) => {
+  try {
+    const { reference } = req.params;
+    console.log('Verifying Paystack transaction:', reference);
+    const data = await callPaystackAPI(`/transaction/verify/${encodeURIComponent(reference)}`);
+    res.json({ success: true, data: data.data });
+  } catch (error) {
+    console.error('Error verifying transaction:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Create (or fetch existing) Paystack Customer
+app.post('/api/paystack/customer', requireAuth, async (req, res) => {
+  try {
+    const { email, first_name, last_name, phone } = req.body;
+
+    if (!email) {
+      return res.status(400).json({ success: false, error: 'email is required' });
     }
 
-    const expected = crypto
-      .createHmac('sha512', paystackSecret)
-      .update(req.rawBody)
-      .digest('hex');
+    console.log('Creating Paystack customer:', email);
+    const data = await callPaystackAPI('/customer', 'POST', { email, first_name, last_name, phone });
+    res.json({ success: true, data: data.data });
+  } catch (error) {
+    console.error('Error creating customer:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
 
-    if (signature !== expected) {
-      console.error('⚠️ Invalid webhook signature');
-      return res.status(401).json({ error: 'Invalid signature' });
+// Create Paystack Dedicated Virtual Account
+app.post('/api/paystack/dedicated-account', requireAuth, async (req, res) => {
+  try {
+    const { customer, preferred_bank = 'wema-bank' } = req.body;
+
+    if (!customer) {
+      return res.status(400).json({ success: false, error: 'customer is required' });
     }
 
-    // Check if Supabase is initialized
-    if (!supabase) {
-      console.error('❌ Supabase not initialized');
-      return res.status(500).json({ error: 'Database not configured' });
+    console.log('Creating dedicated account for customer:', customer);
+    const data = await callPaystackAPI('/dedicated_account', 'POST', { customer, preferred_bank });
+    res.json({ success: true, data: data.data });
+  } catch (error) {
+    console.error('Error creating dedicated account:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// List banks supported for Paystack transfers
+app.get('/api/paystack/banks', async (req, res) => {
+  try {
+    const data = await callPaystackAPI('/bank?country=nigeria&currency=NGN');
+    res.json({ success: true, data: data.data });
+  } catch (error) {
+    console.error('Error fetching Paystack banks:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Resolve an account number to its account name
+app.get('/api/paystack/bank/resolve', requireAuth, async (req, res) => {
+  try {
+    const { account_number, bank_code } = req.query;
+
+    if (!account_number || !bank_code) {
+      return res.status(400).json({ success: false, error: 'account_number and bank_code are required' });
     }
 
-    const payload = req.body;
+    const query = new URLSearchParams({ account_number, bank_code }).toString();
+    const data = await callPaystackAPI(`/bank/resolve?${query}`);
+    res.json({ success: true, data: data.data });
+  } catch (error) {
+    console.error('Error resolving account:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
 
-    // Only process successful charge.success events
-    if (payload.event === 'charge.success' && payload.data?.status === 'success') {
-      const txRef = payload.data.reference;
-      const amount = typeof payload.data.amount === 'number' ? payload.data.amount / 100 : 0;
+// Initialize a Flutterwave hosted payment
+app.post('/api/flutterwave/payments', requireAuth, async (req, res) => {
+  try {
+    const { tx_ref, amount, currency = 'NGN', redirect_url, customer, customizations, meta } = req.body;
 
-      console.log(`✅ Webhook received: ${txRef}, Amount: ₦${amount}`);
-      
-      // DISABLED: Client handles all balance updates to prevent double-counting
-      // Webhook just acknowledges - no database changes
-      res.json({ 
-        success: true, 
-        message: 'Webhook acknowledged',
-        transaction_ref: txRef
+    if (!tx_ref || !customer?.email || typeof amount !== 'number' || amount <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'tx_ref, customer.email and a positive amount are required'
       });
-    } else {
-      console.log(`ℹ️ Webhook event ignored: ${payload.event} - ${payload.data?.status}`);
-      res.json({ success: true, message: 'Event acknowledged' });
     }
+
+    console.log('Initializing Flutterwave payment:', tx_ref);
+    const data = await callFlutterwaveAPI('/payments', 'POST', {
+      tx_ref,
+      amount,
+      currency,
+      redirect_url,
+      customer,
+      customizations,
+      // Stamped here, so whatever settles the charge knows who paid it
+      meta: { ...meta, user_id: req.user.id },
+    });
+    res.json({ success: true, data: data.data });
   } catch (error) {
-    console.error('❌ Webhook processing error:', error);
+    console.error('Error initializing Flutterwave payment:', error);
     res.status(500).json({ 
       success: false,
       error: error.message 
@@ -216,13 +375,1311 @@ app.post('/api/webhooks/paystack', async (req, res) => {
   }
 });
 
-// Export for Vercel serverless
-module.exports = app;
+// Verify one of the caller's Flutterwave payments by tx_ref
+app.get('/api/flutterwave/transactions/verify/:reference', requireAuth, ownsParamReference, async (req, res) => {
+  try {
+    const { reference } = req.params;
+    console.log('Verifying Flutterwave transaction:', reference);
+    const data = await callFlutterwaveAPI(`/transactions/verify_by_reference?tx_ref=${encodeURIComponent(reference)}`);
+    res.json({ success: true, data: data.data });
+  } catch (error) {
+    console.error('Error verifying Flutterwave transaction:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
 
-// For local development
-if (require.main === module) {
-  const PORT = process.env.PORT || 3000;
-  app.listen(PORT, () => {
-    console.log(`🚀 Globus Bank Proxy Server running on port ${PORT}`);
+// Create a permanent Flutterwave virtual account for the caller
+app.post('/api/flutterwave/virtual-account', requireAuth, async (req, res) => {
+  try {
+    const { email, firstname, lastname, phonenumber, bvn } = req.body;
+
+    if (!email || !firstname || !lastname) {
+      return res.status(400).json({ success: false, error: 'email, firstname and lastname are required' });
+    }
+
+    console.log('Creating Flutterwave virtual account for user:', req.user.id);
+    const data = await callFlutterwaveAPI('/virtual-account-numbers', 'POST', {
+      email,
+      is_permanent: true,
+      bvn: bvn || '',
+      // Deposits are credited to the user in this reference (see handleFlutterwaveCharge)
+      tx_ref: `quilox-${req.user.id}-${Date.now()}`,
+      firstname,
+      lastname,
+      phonenumber: phonenumber || '',
+      narration: `Quilox Privé - ${firstname} ${lastname}`,
+    });
+    res.json({ success: true, data: data.data });
+  } catch (error) {
+    console.error('Error creating Flutterwave virtual account:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// List banks supported for Flutterwave transfers
+app.get('/api/flutterwave/banks', async (req, res) => {
+  try {
+    const data = await callFlutterwaveAPI('/banks/NG');
+    res.json({ success: true, data: data.data });
+  } catch (error) {
+    console.error('Error fetching Flutterwave banks:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Resolve an account number to its account name with Flutterwave
+app.post('/api/flutterwave/accounts/resolve', requireAuth, async (req, res) => {
+  try {
+    const { account_number, account_bank } = req.body;
+
+    if (!account_number || !account_bank) {
+      return res.status(400).json({ success: false, error: 'account_number and account_bank are required' });
+    }
+
+    const data = await callFlutterwaveAPI('/accounts/resolve', 'POST', { account_number, account_bank });
+    res.json({ success: true, data: data.data });
+  } catch (error) {
+    console.error('Error resolving account with Flutterwave:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Shared error handling for withdrawal routes
+const sendWithdrawalError = (res, error) => {
+  console.error('Error starting withdrawal:', error);
+  if (error.code === '23514') {
+    return sendError(res, 409, AppErrorCode.WALLET_INSUFFICIENT_FUNDS, 'Insufficient wallet balance');
+  }
+  if (error.code === '55000') {
+    return sendError(res, 403, AppErrorCode.WALLET_INACTIVE, 'Wallet is not active');
+  }
+  if (error.code === '23505') {
+    return sendError(res, 409, AppErrorCode.VALIDATION_DUPLICATE_ENTRY, 'Reference already used');
+  }
+  res.status(500).json({ 
+    success: false,
+    error: error.message 
   });
+};
+
+// Sends a statement as a CSV or PDF attachment
+const sendStatementFile = (res, statement, format) => {
+  res.setHeader('Content-Disposition', `attachment; filename="${statementFilename(statement, format)}"`);
+  if (format === 'pdf') {
+    res.type('application/pdf').end(renderStatementPdf(statement), 'latin1');
+  } else {
+    res.type('text/csv; charset=utf-8').send(statementToCsv(statement));
+  }
+};
+
+// Wallet statement for a period: ?from=YYYY-MM-DD&to=YYYY-MM-DD (inclusive, Lagos time)
+// and optionally &format=csv|pdf to download it instead of JSON
+app.get('/api/wallet/statement', requireAuth, requireWallet, async (req, res) => {
+  const period = parsePeriod(req.query);
+  if (period.error) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_INVALID_FORMAT, period.error);
+  }
+
+  const { format } = req.query;
+  if (format && !STATEMENT_FORMATS.includes(format)) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_INVALID_FORMAT, `format must be one of ${STATEMENT_FORMATS.join(', ')}`);
+  }
+
+  try {
+    const statement = await buildStatement(req.wallet, period);
+    if (format) return sendStatementFile(res, statement, format);
+    res.json({ success: true, data: statement });
+  } catch (error) {
+    console.error('Error building statement:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Short-lived download link, so the app can open the file in a browser without its token
+app.post('/api/wallet/statement/link', requireAuth, requireWallet, async (req, res) => {
+  const { from, to, format } = req.body || {};
+  const period = parsePeriod({ from, to });
+
+  if (period.error) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_INVALID_FORMAT, period.error);
+  }
+  if (!STATEMENT_FORMATS.includes(format)) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_INVALID_FORMAT, `format must be one of ${STATEMENT_FORMATS.join(', ')}`);
+  }
+
+  try {
+    const { token, expiresAt } = createStatementToken(req.wallet.id, { ...period, format });
+    res.json({
+      success: true,
+      data: { path: `/api/wallet/statement/download?token=${token}`, expires_at: expiresAt },
+    });
+  } catch (error) {
+    console.error('Error creating statement link:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+app.get('/api/wallet/statement/download', async (req, res) => {
+  try {
+    const link = verifyStatementToken(req.query.token);
+    if (!link) {
+      return sendError(res, 401, AppErrorCode.AUTH_TOKEN_EXPIRED, 'This statement link is invalid or has expired');
+    }
+
+    const { data: wallet, error } = await supabase
+      .from('user_wallets')
+      .select('*')
+      .eq('id', link.walletId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!wallet) {
+      return sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Wallet not found');
+    }
+
+    const statement = await buildStatement(wallet, link);
+    sendStatementFile(res, statement, link.format);
+  } catch (error) {
+    console.error('Error downloading statement:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Save a withdrawal account. The account name comes from the bank, not the member.
+app.post('/api/wallet/beneficiaries', requireAuth, requireWallet, async (req, res) => {
+  try {
+    const { account_number, bank_code, bank_name } = req.body;
+
+    if (!/^\d{10}$/.test(String(account_number || '')) || !bank_code || !bank_name) {
+      return sendError(res, 400, AppErrorCode.VALIDATION_INVALID_FORMAT, 'A 10-digit account_number, bank_code and bank_name are required');
+    }
+
+    const query = new URLSearchParams({ account_number, bank_code }).toString();
+    const resolved = await callPaystackAPI(`/bank/resolve?${query}`);
+
+    const { data: beneficiary, error } = await supabase
+      .from('wallet_beneficiaries')
+      .upsert({
+        user_id: req.user.id,
+        account_number,
+        bank_code,
+        bank_name,
+        account_name: resolved.data.account_name,
+      }, { onConflict: 'user_id,bank_code,account_number' })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    res.json({ success: true, data: beneficiary });
+  } catch (error) {
+    console.error('Error saving beneficiary:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Withdraw to a saved beneficiary
+app.post('/api/wallet/withdrawals', requireAuth, requireWallet, async (req, res) => {
+  const { beneficiary_id, amount } = req.body;
+  const numericAmount = Number(amount);
+
+  if (!beneficiary_id || !Number.isFinite(numericAmount)) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_MISSING_FIELD, 'beneficiary_id and amount are required');
+  }
+
+  if (numericAmount < MIN_WITHDRAWAL) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_OUT_OF_RANGE, `Minimum withdrawal is ₦${MIN_WITHDRAWAL.toLocaleString()}`);
+  }
+
+  try {
+    const { data: beneficiary, error } = await supabase
+      .from('wallet_beneficiaries')
+      .select('*')
+      .eq('id', beneficiary_id)
+      .eq('user_id', req.user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!beneficiary) {
+      return sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Beneficiary not found');
+    }
+
+    const reference = createWithdrawalReference();
+    console.log(`🏦 Withdrawal ${reference}: ₦${numericAmount} to ${beneficiary.bank_name} ${beneficiary.account_number}`);
+    const result = await startWithdrawal(req.wallet, {
+      amount: numericAmount,
+      reference,
+      destination: beneficiary,
+      beneficiaryId: beneficiary.id,
+    });
+
+    if (result.recipientCode && result.recipientCode !== beneficiary.recipient_code) {
+      await supabase
+        .from('wallet_beneficiaries')
+        .update({ recipient_code: result.recipientCode })
+        .eq('id', beneficiary.id);
+    }
+
+    res.json({
+      success: true,
+      data: { reference: result.reference, status: result.status, new_balance: result.newBalance },
+    });
+  } catch (error) {
+    sendWithdrawalError(res, error);
+  }
+});
+
+// Loads one of the caller's bookings, or responds 404
+const loadOwnBooking = async (req, res) => {
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('*, table:table_areas(name, table_number)')
+    .eq('id', req.params.id)
+    .eq('user_id', req.user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!booking) {
+    sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Booking not found');
+    return null;
+  }
+
+  return booking;
+};
+
+// Price a table booking (membership discount, promotions) before payment
+app.post('/api/bookings/quote', requireAuth, async (req, res) => {
+  try {
+    const { tableId, promoCode } = req.body || {};
+
+    if (!tableId) {
+      return sendError(res, 400, AppErrorCode.VALIDATION_MISSING_FIELD, 'tableId is required');
+    }
+
+    const quote = await quoteBooking({ tableId, userId: req.user.id, promoCode });
+
+    if (!quote) {
+      return sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Table not found');
+    }
+
+    // Checkout charges this stored quote, by id
+    res.json({ success: true, data: await saveQuote(req.user.id, quote) });
+  } catch (error) {
+    console.error('Error pricing booking:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Errors from confirming a booking that the member can act on
+const bookingErrorResponse = (res, error) => {
+  if (error.code === '23505') {
+    return sendError(res, 409, AppErrorCode.BOOKING_TABLE_UNAVAILABLE, 'This table is not available for the selected date.');
+  }
+  if (error.code === '23514') {
+    return sendError(res, 400, AppErrorCode.WALLET_INSUFFICIENT_FUNDS, 'Insufficient wallet balance');
+  }
+  if (error.code === '55000') {
+    return sendError(res, 403, AppErrorCode.WALLET_INACTIVE, 'Wallet is not active');
+  }
+  return null;
+};
+
+// Book a table at a stored quote: the backend takes any wallet part and confirms it,
+// or starts the Paystack checkout for the rest
+app.post('/api/bookings/checkout', requireAuth, async (req, res) => {
+  try {
+    const { booking, holdId, quoteId, walletAmount, callbackUrl } = req.body || {};
+
+    if (!quoteId) {
+      return sendError(res, 400, AppErrorCode.VALIDATION_MISSING_FIELD, 'quoteId is required');
+    }
+
+    const result = await startCheckout({
+      userId: req.user.id,
+      booking,
+      holdId,
+      quoteId,
+      walletAmount,
+      callbackUrl,
+    });
+
+    if (result.error) {
+      const code = result.status === 409 ? AppErrorCode.VALIDATION_OUT_OF_RANGE : AppErrorCode.VALIDATION_MISSING_FIELD;
+      return sendError(res, result.status, code, result.error);
+    }
+
+    if (result.booking) {
+      return res.json({ success: true, data: { status: 'confirmed', booking: result.booking } });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        status: 'pending',
+        reference: result.reference,
+        authorization_url: result.authorizationUrl,
+        quote: result.quote,
+      },
+    });
+  } catch (error) {
+    if (bookingErrorResponse(res, error)) return;
+
+    console.error('Error starting booking checkout:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// The app is back from Paystack: confirm the booking if the charge went through.
+// The webhook does the same; whichever arrives second sees it confirmed.
+app.post('/api/bookings/checkout/:reference/confirm', requireAuth, async (req, res) => {
+  try {
+    const result = await confirmCheckout(req.params.reference, req.user.id);
+
+    if (!result) {
+      return sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Checkout not found');
+    }
+
+    res.json({ success: true, data: { status: result.status, booking_id: result.bookingId || null, error: result.error || null } });
+  } catch (error) {
+    console.error('Error confirming booking checkout:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// The member closed the payment page without paying: let the table go
+app.post('/api/bookings/checkout/:reference/cancel', requireAuth, async (req, res) => {
+  try {
+    const result = await cancelCheckout(req.params.reference, req.user.id);
+
+    if (!result) {
+      return sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Checkout not found');
+    }
+
+    res.json({ success: true, data: { status: result.status, booking_id: result.bookingId || null, error: result.error || null } });
+  } catch (error) {
+    console.error('Error cancelling booking checkout:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Preview what cancelling a booking would refund
+app.get('/api/bookings/:id/cancellation', requireAuth, async (req, res) => {
+  try {
+    const booking = await loadOwnBooking(req, res);
+    if (!booking) return;
+
+    const payment = await verifyBookingPayment(booking);
+    res.json({ success: true, data: evaluateCancellation(booking, payment.amount) });
+  } catch (error) {
+    console.error('Error quoting cancellation:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Cancel a booking and refund the refundable part of a paid booking fee
+app.post('/api/bookings/:id/cancel', requireAuth, async (req, res) => {
+  try {
+    const booking = await loadOwnBooking(req, res);
+    if (!booking) return;
+
+    const payment = await verifyBookingPayment(booking);
+    const quote = evaluateCancellation(booking, payment.amount);
+
+    // Only one request can move the booking out of pending/confirmed, so only one refunds it
+    const { data: cancelled, error: cancelError } = await supabase
+      .from('bookings')
+      .update({ status: 'cancelled' })
+      .eq('id', booking.id)
+      .in('status', ['pending', 'confirmed'])
+      .select('id');
+
+    if (cancelError) throw cancelError;
+
+    if (!cancelled || cancelled.length === 0) {
+      return sendError(res, 409, AppErrorCode.BOOKING_NOT_CANCELLABLE, `Booking is already ${booking.status}`);
+    }
+
+    const metadata = { ...(booking.metadata || {}), cancelled_at: new Date().toISOString() };
+    let paymentStatus = booking.payment_status;
+
+    if (quote.refundable) {
+      metadata.refund = await refundBooking(booking, quote, payment);
+      if (metadata.refund.status !== 'failed') {
+        paymentStatus = 'refunded';
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('bookings')
+      .update({ payment_status: paymentStatus, metadata })
+      .eq('id', booking.id);
+
+    if (updateError) throw updateError;
+
+    console.log(`🗓️ Booking ${booking.id} cancelled (${quote.rule})`);
+    res.json({ success: true, data: { booking_id: booking.id, policy: quote, refund: metadata.refund || null } });
+  } catch (error) {
+    console.error('Error cancelling booking:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Check-in pass for a confirmed booking, with the key the app builds its rotating code from
+app.get('/api/bookings/:id/pass', requireAuth, async (req, res) => {
+  try {
+    const result = await loadPassBooking(req.params.id, req.user.id);
+    if (result.error) {
+      const code = result.status === 404 ? AppErrorCode.DB_RECORD_NOT_FOUND : AppErrorCode.BOOKING_NOT_CHECKABLE;
+      return sendError(res, result.status, code, result.error);
+    }
+
+    res.json({ success: true, data: toMemberPass(result.booking) });
+  } catch (error) {
+    console.error('Error loading check-in pass:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Adds the pass to Apple Wallet (a short-lived .pkpass download link) or Google
+// Wallet (a "Save to Google Wallet" link)
+app.post('/api/bookings/:id/wallet-pass', requireAuth, async (req, res) => {
+  const { platform } = req.body || {};
+
+  if (!['apple', 'google'].includes(platform)) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_INVALID_FORMAT, 'platform must be apple or google');
+  }
+  if (!walletPassesAvailable()[platform]) {
+    return sendError(res, 503, AppErrorCode.EXT_SERVICE_UNAVAILABLE, 'Wallet passes are not available yet');
+  }
+
+  try {
+    const result = await loadPassBooking(req.params.id, req.user.id);
+    if (result.error) {
+      const code = result.status === 404 ? AppErrorCode.DB_RECORD_NOT_FOUND : AppErrorCode.BOOKING_NOT_CHECKABLE;
+      return sendError(res, result.status, code, result.error);
+    }
+
+    const data = platform === 'apple'
+      ? { path: `/api/booking-passes/apple?token=${createWalletPassLink(result.booking)}` }
+      : { url: googleWalletSaveUrl(result.booking) };
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Error creating wallet pass:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+app.get('/api/booking-passes/apple', async (req, res) => {
+  try {
+    const link = verifyWalletPassLink(req.query.token);
+    if (!link) {
+      return sendError(res, 401, AppErrorCode.AUTH_TOKEN_EXPIRED, 'This pass link is invalid or has expired');
+    }
+
+    const result = await loadPassBooking(link.bookingId, link.userId);
+    if (result.error) {
+      const code = result.status === 404 ? AppErrorCode.DB_RECORD_NOT_FOUND : AppErrorCode.BOOKING_NOT_CHECKABLE;
+      return sendError(res, result.status, code, result.error);
+    }
+
+    const pass = await renderApplePass(result.booking);
+    res.setHeader('Content-Disposition', `attachment; filename="quilox-${result.booking.booking_date}.pkpass"`);
+    res.type('application/vnd.apple.pkpass').send(pass);
+  } catch (error) {
+    console.error('Error rendering Apple Wallet pass:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Records a member's card payment towards a split bill once the app has seen it
+// succeed. The webhook records the same charge; whichever arrives second is a no-op.
+app.post('/api/bill-sessions/:id/card-payments', requireAuth, async (req, res) => {
+  const { reference } = req.body || {};
+
+  if (!reference) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_MISSING_FIELD, 'reference is required');
+  }
+
+  try {
+    const charge = (await callPaystackAPI(`/transaction/verify/${encodeURIComponent(reference)}`)).data;
+    const metadata = charge?.metadata || {};
+
+    if (charge?.status !== 'success' || charge.currency !== 'NGN') {
+      return sendError(res, 402, AppErrorCode.EXT_PAYMENT_FAILED, charge?.gateway_response || 'Payment was not successful');
+    }
+
+    if (metadata.purpose !== BILL_SESSION_PURPOSE || metadata.session_id !== req.params.id || metadata.user_id !== req.user.id) {
+      return sendError(res, 422, AppErrorCode.VALIDATION_INVALID_FORMAT, 'This payment is not for this bill');
+    }
+
+    const result = await settleBillSessionCharge({ reference, amount: charge.amount / 100, metadata });
+    if (result.status === 'rejected') {
+      return sendError(res, 409, AppErrorCode.DB_CONSTRAINT_VIOLATION, result.message);
+    }
+
+    res.json({
+      success: true,
+      data: { status: result.sessionStatus, amount_outstanding: result.outstanding, already_processed: result.status === 'already_processed' },
+    });
+  } catch (error) {
+    console.error('Error recording bill payment:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// A member scanned a bill QR: check the signature and return the bill to confirm
+app.post('/api/bills/scan', requireAuth, async (req, res) => {
+  const { token } = req.body || {};
+
+  if (!token) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_MISSING_FIELD, 'token is required');
+  }
+
+  try {
+    const result = await loadScannedBill(token);
+    if (result.error) {
+      return sendError(res, result.status, AppErrorCode.BILL_NOT_PAYABLE, result.error);
+    }
+
+    res.json({ success: true, data: result.bill });
+  } catch (error) {
+    console.error('Error reading bill code:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Pays a scanned bill from the member's wallet. Everything charged comes from the
+// bill record; the token only says which bill and what amount the member saw.
+app.post('/api/bills/pay', requireAuth, requireWallet, async (req, res) => {
+  const { token, reference } = req.body || {};
+
+  if (!token || !reference) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_MISSING_FIELD, 'token and reference are required');
+  }
+
+  const claims = verifyBillToken(token);
+  if (!claims) {
+    return sendError(res, 422, AppErrorCode.BILL_NOT_PAYABLE, 'This is not a valid Quilox bill code');
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('pay_venue_bill', {
+      p_bill_id: claims.billId,
+      p_wallet_id: req.wallet.id,
+      p_amount: claims.amount,
+      p_reference: reference,
+    });
+
+    if (error) {
+      if (error.code === '23514') {
+        return sendError(res, 409, AppErrorCode.WALLET_INSUFFICIENT_FUNDS, 'Your wallet balance is too low for this bill');
+      }
+      if (error.code === '55000' || error.code === '22023') {
+        return sendError(res, 409, AppErrorCode.BILL_NOT_PAYABLE, error.message);
+      }
+      if (error.code === 'P0002') {
+        return sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Bill not found');
+      }
+      throw error;
+    }
+
+    const result = Array.isArray(data) ? data[0] : data;
+    console.log(`🧾 Bill ${claims.billId} paid by wallet ${req.wallet.id} (${reference})`);
+    res.json({
+      success: true,
+      data: {
+        transaction_id: result.transaction_id,
+        new_balance: Number(result.new_balance),
+        already_applied: result.already_applied,
+      },
+    });
+  } catch (error) {
+    console.error('Error paying bill:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Scheduled top-up reconciliation (Vercel Cron, see vercel.json)
+app.get('/api/jobs/reconcile-topups', requireJobSecret, async (req, res) => {
+  try {
+    const report = await reconcilePendingTopUps({ trigger: 'schedule' });
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error reconciling top-ups:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Scheduled withdrawal check: holds whose transfer webhook never arrived
+app.get('/api/jobs/reconcile-withdrawals', requireJobSecret, async (req, res) => {
+  try {
+    const report = await reconcileHeldWithdrawals({ trigger: 'schedule' });
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error reconciling withdrawals:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Scheduled booking checkout check: confirms paid checkouts whose webhook never
+// arrived and gives back the wallet hold of unpaid ones
+app.get('/api/jobs/reconcile-booking-checkouts', requireJobSecret, async (req, res) => {
+  try {
+    const report = await reconcileBookingCheckouts({ trigger: 'schedule' });
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error reconciling booking checkouts:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Scheduled retry of booking refunds that failed at cancellation
+app.get('/api/jobs/retry-refunds', requireJobSecret, async (req, res) => {
+  try {
+    const report = await retryFailedRefunds({ trigger: 'schedule' });
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error retrying refunds:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Scheduled membership tier refresh: spend ages out of the 12-month window daily
+app.get('/api/jobs/refresh-tiers', requireJobSecret, async (req, res) => {
+  try {
+    const { data, error } = await supabase.rpc('refresh_all_member_tiers');
+    if (error) throw error;
+
+    const result = Array.isArray(data) ? data[0] : data;
+    console.log(`🏅 Tier refresh: ${result?.refreshed} wallets, ${result?.changed} changed`);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error refreshing membership tiers:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Scheduled waitlist sweep: table offers nobody paid for in time go to the next guest
+app.get('/api/jobs/expire-waitlist-offers', requireJobSecret, async (req, res) => {
+  try {
+    const { data, error } = await supabase.rpc('expire_waitlist_offers');
+    if (error) throw error;
+
+    const result = Array.isArray(data) ? data[0] : data;
+    console.log(`⏳ Waitlist sweep: ${result?.offers_expired} offers expired, ${result?.offers_made} new offers`);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error expiring waitlist offers:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Scheduled loyalty expiry: points 12 months after they were earned, and unused reward codes
+app.get('/api/jobs/expire-points', requireJobSecret, async (req, res) => {
+  try {
+    const { data, error } = await supabase.rpc('expire_loyalty_points');
+    if (error) throw error;
+
+    const result = Array.isArray(data) ? data[0] : data;
+    console.log(`⭐ Points expiry: ${result?.points_expired} points from ${result?.lots_expired} lots, ${result?.codes_expired} codes returned`);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error expiring loyalty points:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Staff raise a bill for a table; the response carries the token to show as a QR code
+app.post('/api/admin/bills', requireAuth, requireAdmin, async (req, res) => {
+  const { table_id, amount, description, expires_in_minutes } = req.body || {};
+
+  try {
+    const result = await createBill({
+      tableId: table_id,
+      amount,
+      description,
+      expiresInMinutes: expires_in_minutes,
+      staffId: req.user.id,
+    });
+
+    if (result.error) {
+      return sendError(res, 422, AppErrorCode.VALIDATION_INVALID_FORMAT, result.error);
+    }
+
+    res.json({ success: true, data: { ...result.bill, token: result.token } });
+  } catch (error) {
+    console.error('Error creating bill:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Bills raised today, newest first; open ones carry their QR token again
+app.get('/api/admin/bills', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabase
+      .from('venue_bills')
+      .select('*')
+      .gte('created_at', since)
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (error) throw error;
+
+    const bills = (data || []).map((bill) => ({
+      ...bill,
+      token: bill.status === 'open' && new Date(bill.expires_at) > new Date() ? createBillToken(bill) : null,
+    }));
+    res.json({ success: true, data: bills });
+  } catch (error) {
+    console.error('Error listing bills:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Cancels an unpaid bill so its QR code can no longer be paid
+app.post('/api/admin/bills/:id/void', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { data, error } = await supabase
+      .from('venue_bills')
+      .update({ status: 'void' })
+      .eq('id', req.params.id)
+      .eq('status', 'open')
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      return sendError(res, 409, AppErrorCode.BILL_NOT_PAYABLE, 'Only unpaid bills can be cancelled');
+    }
+
+    console.log(`🧾 Bill ${data.id} voided by ${req.user.id}`);
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Error voiding bill:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// The night key and guest list a door scanner needs to check passes offline.
+// ?date=YYYY-MM-DD, defaulting to the night that is on now.
+app.get('/api/admin/checkin/night', requireAuth, requireAdmin, async (req, res) => {
+  const date = req.query.date || currentNight();
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_INVALID_FORMAT, 'date must be YYYY-MM-DD');
+  }
+
+  try {
+    res.json({ success: true, data: await loadNight(date) });
+  } catch (error) {
+    console.error('Error loading check-in night:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Check-ins from a door scanner, sent as soon as it is online. Each one is answered
+// on its own; a booking that was already checked in comes back as a duplicate.
+app.post('/api/admin/checkins', requireAuth, requireAdmin, async (req, res) => {
+  const { checkins } = req.body || {};
+
+  if (!Array.isArray(checkins) || checkins.length === 0) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_MISSING_FIELD, 'checkins are required');
+  }
+  if (checkins.length > 100) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_OUT_OF_RANGE, 'Send at most 100 check-ins at a time');
+  }
+
+  try {
+    const results = [];
+    for (const checkin of checkins) {
+      // A bad entry in an offline batch is reported on its own, not by failing the batch
+      if (!checkin || typeof checkin !== 'object' || typeof checkin.booking_id !== 'string' || !checkin.booking_id) {
+        results.push({
+          booking_id: typeof checkin?.booking_id === 'string' ? checkin.booking_id : null,
+          result: 'invalid',
+          error: 'booking_id is required',
+        });
+        continue;
+      }
+
+      // Checked in at the server's time; the scanner's own time is only kept for the log
+      const reported = typeof checkin.scanned_at === 'string' ? Date.parse(checkin.scanned_at) : NaN;
+      const { data, error } = await supabase.rpc('check_in_booking', {
+        p_booking_id: checkin.booking_id,
+        p_staff_id: req.user.id,
+        p_reported_scanned_at: Number.isNaN(reported) ? null : new Date(reported).toISOString(),
+      });
+
+      if (error) {
+        if (error.code === 'P0002' || error.code === '22P02') {
+          results.push({ booking_id: checkin.booking_id, result: 'not_found', error: 'Booking not found' });
+          continue;
+        }
+        if (error.code === '55000') {
+          results.push({ booking_id: checkin.booking_id, result: 'not_confirmed', error: error.message });
+          continue;
+        }
+        throw error;
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (row.result === 'duplicate') {
+        console.log(`🚪 Duplicate check-in for booking ${row.booking_id} by ${req.user.id}`);
+      }
+      results.push(row);
+    }
+
+    res.json({ success: true, data: results });
+  } catch (error) {
+    console.error('Error recording check-ins:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Staff claim a reward code shown by a member
+app.post('/api/admin/rewards/fulfil', requireAuth, requireAdmin, async (req, res) => {
+  const { code } = req.body || {};
+
+  if (!code) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_MISSING_FIELD, 'code is required');
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('fulfil_reward_redemption', {
+      p_code: String(code).trim(),
+      p_staff_id: req.user.id,
+    });
+
+    if (error) {
+      if (error.code === 'P0002') {
+        return sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Reward code not found');
+      }
+      if (error.code === '55000') {
+        return sendError(res, 409, AppErrorCode.VALIDATION_OUT_OF_RANGE, error.message);
+      }
+      throw error;
+    }
+
+    const redemption = Array.isArray(data) ? data[0] : data;
+    console.log(`🎁 Reward code ${redemption.code} claimed by ${req.user.id}`);
+    res.json({ success: true, data: redemption });
+  } catch (error) {
+    console.error('Error fulfilling reward code:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Manual points correction. Positive points add a lot, negative points use the oldest ones.
+app.post('/api/admin/loyalty/adjust', requireAuth, requireAdmin, async (req, res) => {
+  const { wallet_id, points, reference, description } = req.body || {};
+
+  if (!wallet_id || !reference || !description || !Number.isInteger(Number(points)) || Number(points) === 0) {
+    return sendError(res, 400, AppErrorCode.VALIDATION_MISSING_FIELD, 'wallet_id, reference, description and non-zero whole points are required');
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('loyalty_adjust', {
+      p_wallet_id: wallet_id,
+      p_points: Number(points),
+      p_reference: reference,
+      p_description: description,
+    });
+
+    if (error) {
+      if (error.code === '23514') {
+        return sendError(res, 409, AppErrorCode.VALIDATION_OUT_OF_RANGE, 'Member does not have that many unexpired points');
+      }
+      if (error.code === '23505') {
+        return sendError(res, 409, AppErrorCode.VALIDATION_DUPLICATE_ENTRY, 'Reference already used');
+      }
+      if (error.code === 'P0002') {
+        return sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Wallet not found');
+      }
+      throw error;
+    }
+
+    const result = Array.isArray(data) ? data[0] : data;
+    console.log(`⭐ Points adjusted by ${req.user.id}: ${points} on wallet ${wallet_id} (${reference})`);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    console.error('Error adjusting loyalty points:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// On-demand top-up reconciliation
+app.post('/api/admin/reconciliation/topups', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { staleAfterMinutes, abandonAfterHours, limit } = req.body || {};
+    const overrides = Object.fromEntries(
+      Object.entries({ staleAfterMinutes, abandonAfterHours, limit })
+        .filter(([, value]) => Number.isFinite(Number(value)) && value !== null && value !== '')
+        .map(([key, value]) => [key, Number(value)])
+    );
+
+    console.log(`🧾 Manual top-up reconciliation by ${req.user.id}`);
+    const report = await reconcilePendingTopUps({ trigger: 'manual', ...overrides });
+    res.json({ success: true, data: report });
+  } catch (error) {
+    console.error('Error reconciling top-ups:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Recent reconciliation reports
+app.get('/api/admin/reconciliation/runs', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const limit = Math.min(Number(req.query.limit) || 20, 100);
+    const { data, error } = await supabase
+      .from('reconciliation_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Error fetching reconciliation runs:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Stores a webhook delivery, then processes it. Once the event is stored we answer
+// 200 whatever happens: failed events are retried from webhook_events (see
+// backend/webhook-store.js) instead of relying on the provider to redeliver.
+const handleWebhookDelivery = async (req, res, provider, signatureValid) => {
+  if (!supabase) {
+    console.error('❌ Supabase not initialized');
+    return res.status(500).json({ error: 'Database not configured' });
+  }
+
+  // Unsigned requests could come from anyone, so they are never stored
+  if (!signatureValid) {
+    return res.status(401).json({ error: 'Invalid signature' });
+  }
+
+  const { event, duplicate } = await recordWebhookEvent({
+    provider,
+    payload: req.body,
+    rawBody: req.rawBody ? req.rawBody.toString('utf8') : null,
+  });
+
+  // A redelivery of an event still received (its first delivery died) or failed runs it again
+  if (duplicate && !isDeliveryClaimable(event)) {
+    console.log(`ℹ️ Duplicate ${provider} webhook ${event.event_id} (${event.status})`);
+    return res.json({ success: true, message: 'Duplicate event', event_id: event.id });
+  }
+
+  const result = await processWebhookEvent(event);
+
+  if (result.status === 'processed') {
+    return res.json({ ...result.outcome, event_id: event.id });
+  }
+
+  res.json({
+    success: false,
+    message: result.status === 'dead_letter' ? 'Event moved to dead letter' : 'Event queued for retry',
+    event_id: event.id,
+  });
+};
+
+// Paystack Webhook Handler
+app.post('/api/webhooks/paystack', async (req, res) => {
+  try {
+    console.log(`🔔 Paystack webhook received: ${req.body?.event} ${req.body?.data?.reference || ''}`);
+
+    const paystackSecret = process.env.PAYSTACK_SECRET_KEY;
+    const signature = req.headers['x-paystack-signature'];
+
+    if (!paystackSecret) {
+      console.error('❌ PAYSTACK_SECRET_KEY not configured');
+      return res.status(500).json({ error: 'Paystack not configured' });
+    }
+
+    if (!req.rawBody) {
+      console.error('⚠️ Missing webhook raw body');
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
+
+    const expected = crypto
+      .createHmac('sha512', paystackSecret)
+      .update(req.rawBody)
+      .digest('hex');
+
+    const signatureValid = Boolean(signature) && signature === expected;
+    if (!signatureValid) {
+      console.error('⚠️ Invalid webhook signature');
+    }
+
+    await handleWebhookDelivery(req, res, 'paystack', signatureValid);
+  } catch (error) {
+    console.error('❌ Webhook processing error:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Flutterwave Webhook Handler
+// Flutterwave signs nothing; it echoes the secret hash configured on the dashboard
+// in `verif-hash`. Every event is re-verified against the API before settling.
+app.post('/api/webhooks/flutterwave', async (req, res) => {
+  try {
+    const secretHash = process.env.FLUTTERWAVE_SECRET_HASH;
+    const signature = req.headers['verif-hash'];
+
+    if (!secretHash) {
+      console.error('❌ FLUTTERWAVE_SECRET_HASH not configured');
+      return res.status(500).json({ error: 'Flutterwave not configured' });
+    }
+
+    // Compare digests so the check takes the same time whatever the header holds
+    const digest = (value) => crypto.createHash('sha256').update(String(value || '')).digest();
+    const signatureValid = crypto.timingSafeEqual(digest(signature), digest(secretHash));
+    if (!signatureValid) {
+      console.error('⚠️ Invalid Flutterwave verif-hash');
+    }
+
+    const payload = req.body || {};
+    console.log(`🔔 Flutterwave webhook received: ${payload.event || payload['event.type']} ${payload.data?.tx_ref || payload.data?.reference || ''}`);
+
+    await handleWebhookDelivery(req, res, 'flutterwave', signatureValid);
+  } catch (error) {
+    console.error('❌ Flutterwave webhook processing error:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Scheduled webhook retries (Vercel Cron, see vercel.json)
+app.get('/api/jobs/retry-webhooks', requireJobSecret, async (req, res) => {
+  try {
+    const summary = await retryDueWebhookEvents();
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    console.error('Error retrying webhooks:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Stored webhook events, newest first.
+// Filters: status, provider, event_type, reference; page with `before` (created_at).
+app.get('/api/admin/webhooks', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const { status, provider, event_type: eventType, reference, before, limit } = req.query;
+    const data = await listWebhookEvents({ status, provider, eventType, reference, before, limit });
+    res.json({ success: true, data });
+  } catch (error) {
+    console.error('Error listing webhook events:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// A single webhook event including its payload and raw body
+app.get('/api/admin/webhooks/:id', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const event = await getWebhookEvent(req.params.id);
+
+    if (!event) {
+      return sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Webhook event not found');
+    }
+
+    res.json({ success: true, data: event });
+  } catch (error) {
+    console.error('Error fetching webhook event:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Processes a stored webhook event again
+app.post('/api/admin/webhooks/:id/replay', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    console.log(`🔁 Webhook ${req.params.id} replayed by ${req.user.id}`);
+    const result = await replayWebhookEvent(req.params.id);
+
+    if (result.status === 'not_found') {
+      return sendError(res, 404, AppErrorCode.DB_RECORD_NOT_FOUND, 'Webhook event not found');
+    }
+
+    if (result.status === 'rejected') {
+      return sendError(res, 422, AppErrorCode.VALIDATION_INVALID_FORMAT, 'Events with an invalid signature cannot be replayed');
+    }
+
+    if (result.status === 'skipped') {
+      return sendError(res, 409, AppErrorCode.VALIDATION_INVALID_FORMAT, 'Event is already being processed');
+    }
+
+    res.json({ success: result.status === 'processed', data: result.event, error: result.error });
+  } catch (error) {
+    console.error('Error replaying webhook event:', error);
+    res.status(500).json({ 
+      success: false,
+      error: error.message 
+    });
+  }
+});
+
+// Export for Vercel serverless
+module.exports = app;
+
+// For local development
+if (require.main === module) {
+  const PORT = process.env.PORT || 3000;
+  app.listen(PORT, () => {
+    console.log(`🚀 Globus Bank Proxy Server running on port ${PORT}`);
+  });
+
+  // Long-running hosts (Docker/Railway) reconcile top-ups, withdrawals, booking checkouts and failed refunds in-process
+  const reconcileMinutes = Number(process.env.RECONCILE_INTERVAL_MINUTES);
+  if (reconcileMinutes > 0) {
+    setInterval(() => {
+      reconcilePendingTopUps({ trigger: 'schedule' }).catch((error) => {
+        console.error('❌ Scheduled reconciliation failed:', error);
+      });
+      reconcileHeldWithdrawals({ trigger: 'schedule' }).catch((error) => {
+        console.error('❌ Scheduled withdrawal reconciliation failed:', error);
+      });
+      reconcileBookingCheckouts({ trigger: 'schedule' }).catch((error) => {
+        console.error('❌ Scheduled booking checkout reconciliation failed:', error);
+      });
+      retryFailedRefunds({ trigger: 'schedule' }).catch((error) => {
+        console.error('❌ Scheduled refund retry failed:', error);
+      });
+    }, reconcileMinutes * 60 * 1000);
+  }
+
+  // ...and retry failed webhook events the same way
+  const webhookRetryMinutes = Number(process.env.WEBHOOK_RETRY_INTERVAL_MINUTES);
+  if (webhookRetryMinutes > 0) {
+    setInterval(() => {
+      retryDueWebhookEvents().catch((error) => {
+        console.error('❌ Scheduled webhook retry failed:', error);
+      });
+    }, webhookRetryMinutes * 60 * 1000);
+  }
 }
\ No newline at end of file
@@ -0,0 +1,150 @@
+// Wallet settlement shared by the payment webhooks and reconciliation.
+// Every path credits through the idempotent ledger functions, so the same
+// event can be delivered (or replayed) any number of times.
+
+const { supabase } = require('./supabase');
+
+const TOP_UP_PREFIX = 'QLXTOP-';
+
+// Members create their own pending top-up rows, so a successful charge only settles
+// one if it was a wallet top-up and paid for by the wallet's owner: the app sets
+// purpose and wallet_id when it starts checkout, and the backend stamps user_id.
+// Returns null when the charge matches, otherwise why it does not.
+const checkTopUpCharge = async (reference, metadata) => {
+  if (!reference?.startsWith(TOP_UP_PREFIX)) return 'Not a wallet top-up reference';
+  if (metadata?.purpose !== 'wallet_topup') return 'Charge is not a wallet top-up';
+
+  const { data: tx, error } = await supabase
+    .from('wallet_transactions')
+    .select('wallet_id, wallet:user_wallets(user_id)')
+    .eq('reference', reference)
+    .eq('type', 'credit')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!tx) return 'No top-up for this reference';
+
+  if (metadata.wallet_id !== tx.wallet_id || !metadata.user_id || metadata.user_id !== tx.wallet?.user_id) {
+    return 'Charge was not made for this wallet';
+  }
+
+  return null;
+};
+
+// Settles a card/checkout top-up created by the app (QLXTOP- reference).
+// Returns { status: 'credited' | 'already_processed' | 'rejected', walletId?, newBalance?, message? }
+const settleTopUp = async (reference, amountPaid) => {
+  const { data, error } = await supabase.rpc('complete_wallet_topup', {
+    p_reference: reference,
+    p_amount_paid: amountPaid,
+  });
+
+  if (error) {
+    if (error.code === 'P0002' || error.code === '22023') {
+      // Unknown reference or amount mismatch - retrying will not help
+      console.error(`⚠️ Top-up ${reference} not settled:`, error.message);
+      return { status: 'rejected', message: error.message };
+    }
+    throw error;
+  }
+
+  const result = Array.isArray(data) ? data[0] : data;
+
+  if (result?.already_completed) {
+    console.log(`ℹ️ Top-up ${reference} already settled`);
+  } else {
+    console.log(`💰 Wallet ${result?.wallet_id} credited ₦${amountPaid}, balance ₦${result?.new_balance}`);
+  }
+
+  return {
+    status: result?.already_completed ? 'already_processed' : 'credited',
+    walletId: result?.wallet_id,
+    newBalance: Number(result?.new_balance ?? 0),
+  };
+};
+
+// Finds the wallet that owns a virtual account, by account number first, then by
+// the provider's customer code, then by the member's user id
+const findWalletForDeposit = async ({ accountNumber, customerCode, userId }) => {
+  if (accountNumber) {
+    const { data, error } = await supabase
+      .from('user_wallets')
+      .select('id, user_id, status')
+      .eq('account_number', String(accountNumber))
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data;
+  }
+
+  if (customerCode) {
+    const { data, error } = await supabase
+      .from('user_wallets')
+      .select('id, user_id, status')
+      .eq('provider_customer_code', customerCode)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data;
+  }
+
+  if (userId) {
+    const { data, error } = await supabase
+      .from('user_wallets')
+      .select('id, user_id, status')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data;
+  }
+
+  return null;
+};
+
+// Credits a bank transfer into a member's virtual account.
+// `reference` is the provider's transaction reference; `sender` is
+// { name, bank, account_number } when the provider shares it.
+// Returns { status: 'credited' | 'already_processed' | 'unmatched', walletId?, newBalance? }
+const creditVirtualAccountDeposit = async ({ provider, accountNumber, customerCode, userId, amount, reference, sender = {} }) => {
+  const wallet = await findWalletForDeposit({ accountNumber, customerCode, userId });
+
+  if (!wallet) {
+    console.error(`⚠️ Deposit ${reference} to ${accountNumber || customerCode || userId} matches no wallet`);
+    return { status: 'unmatched' };
+  }
+
+  const description = sender.name ? `Bank transfer from ${sender.name}` : 'Bank transfer';
+
+  const { data, error } = await supabase.rpc('credit_wallet_deposit', {
+    p_wallet_id: wallet.id,
+    p_amount: amount,
+    p_reference: reference,
+    p_description: description,
+    p_metadata: {
+      provider,
+      receiver_account_number: accountNumber || null,
+      sender_name: sender.name || null,
+      sender_bank: sender.bank || null,
+      sender_account_number: sender.account_number || null,
+    },
+  });
+
+  if (error) throw error;
+
+  const result = Array.isArray(data) ? data[0] : data;
+
+  if (result?.already_applied) {
+    console.log(`ℹ️ Deposit ${reference} already credited`);
+  } else {
+    console.log(`🏦 Deposit ${reference}: wallet ${wallet.id} credited ₦${amount}, balance ₦${result?.new_balance}`);
+  }
+
+  return {
+    status: result?.already_applied ? 'already_processed' : 'credited',
+    walletId: wallet.id,
+    newBalance: Number(result?.new_balance ?? 0),
+  };
+};
+
+module.exports = { TOP_UP_PREFIX, checkTopUpCharge, settleTopUp, creditVirtualAccountDeposit };
@@ -0,0 +1,215 @@
+// Branded PDF for wallet statements (see statements.js)
+// A small PDF writer rather than a rendering engine: the standard Helvetica and
+// Courier fonts need nothing embedded, amounts are set in Courier so they can be
+// right-aligned by character count, and all output is ASCII so string lengths are
+// byte offsets.
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const BOTTOM = 60;
+const ROW_HEIGHT = 22;
+
+const GOLD = [1, 0.843, 0]; // QuiloxColors.gold
+const BLACK = [0, 0, 0];
+const WHITE = [1, 1, 1];
+const GREY = [0.45, 0.45, 0.45];
+const RULE = [0.85, 0.85, 0.85];
+
+const COURIER_CHAR_WIDTH = 0.6; // em
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Characters outside WinAnsi's Latin-1 range that statements actually contain
+const WIN_ANSI_EXTRAS = { '—': 0o227, '–': 0o226, '•': 0o225, '’': 0o222 };
+
+const pdfString = (text) =>
+  Array.from(String(text).replace(/₦/g, 'NGN ')).map((char) => {
+    const code = char.charCodeAt(0);
+    if (char === '\\' || char === '(' || char === ')') return `\\${char}`;
+    if (code >= 32 && code <= 126) return char;
+    if (code >= 160 && code <= 255) return `\\${code.toString(8)}`;
+    const extra = WIN_ANSI_EXTRAS[char];
+    return extra ? `\\${extra.toString(8)}` : '?';
+  }).join('');
+
+const color = ([r, g, b]) => `${r} ${g} ${b}`;
+
+const money = (amount) =>
+  `NGN ${Number(amount).toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDay = (value) => {
+  const lagos = new Date(new Date(value).getTime() + 60 * 60 * 1000); // Africa/Lagos, UTC+1
+  return `${String(lagos.getUTCDate()).padStart(2, '0')} ${MONTHS[lagos.getUTCMonth()]} ${lagos.getUTCFullYear()}`;
+};
+
+const truncate = (text, max) => (text.length > max ? `${text.slice(0, max - 1)}...` : text);
+
+class Page {
+  constructor() {
+    this.ops = [];
+  }
+
+  rect(x, y, width, height, fill) {
+    this.ops.push(`${color(fill)} rg ${x} ${y} ${width} ${height} re f`);
+  }
+
+  line(x1, y, x2, stroke = RULE) {
+    this.ops.push(`${color(stroke)} RG 0.5 w ${x1} ${y} m ${x2} ${y} l S`);
+  }
+
+  text(x, y, value, { font = 'F1', size = 9, fill = BLACK } = {}) {
+    this.ops.push(`BT /${font} ${size} Tf ${color(fill)} rg ${x} ${y} Td (${pdfString(value)}) Tj ET`);
+  }
+
+  // Courier, right-aligned on `right`
+  amount(right, y, value, { size = 8, fill = BLACK, bold = false } = {}) {
+    const width = value.length * size * COURIER_CHAR_WIDTH;
+    this.text(right - width, y, value, { font: bold ? 'F4' : 'F3', size, fill });
+  }
+}
+
+const COLUMNS = { date: MARGIN, description: 100, moneyIn: 400, moneyOut: 478, balance: PAGE_WIDTH - MARGIN };
+
+const tableHeader = (page, y) => {
+  page.rect(MARGIN, y - 6, PAGE_WIDTH - 2 * MARGIN, 18, [0.96, 0.96, 0.96]);
+  const style = { font: 'F2', size: 8, fill: GREY };
+  page.text(COLUMNS.date + 4, y, 'DATE', style);
+  page.text(COLUMNS.description, y, 'DESCRIPTION', style);
+  page.amount(COLUMNS.moneyIn, y, 'MONEY IN', { fill: GREY, bold: true });
+  page.amount(COLUMNS.moneyOut, y, 'MONEY OUT', { fill: GREY, bold: true });
+  page.amount(COLUMNS.balance - 4, y, 'BALANCE', { fill: GREY, bold: true });
+  return y - 24;
+};
+
+const firstPageHeader = (page, statement) => {
+  const { account, period } = statement;
+
+  page.rect(0, PAGE_HEIGHT - 80, PAGE_WIDTH, 80, BLACK);
+  page.text(MARGIN, PAGE_HEIGHT - 42, 'QUILOX PRIVÉ', { font: 'F2', size: 20, fill: GOLD });
+  page.text(MARGIN, PAGE_HEIGHT - 62, 'Wallet statement', { size: 11, fill: WHITE });
+  page.text(360, PAGE_HEIGHT - 42, `${formatDay(`${period.from}T12:00:00Z`)} — ${formatDay(`${period.to}T12:00:00Z`)}`, { size: 10, fill: WHITE });
+  page.text(360, PAGE_HEIGHT - 62, `Generated ${formatDay(statement.generated_at)}`, { size: 9, fill: GREY });
+
+  let y = PAGE_HEIGHT - 110;
+  [
+    ['Account name', account.account_name],
+    ['Account number', account.account_number],
+    ['Bank', account.bank_name],
+    ['Currency', account.currency],
+  ].forEach(([label, value]) => {
+    page.text(MARGIN, y, label, { size: 9, fill: GREY });
+    page.text(140, y, value || '-', { font: 'F2', size: 9 });
+    y -= 15;
+  });
+
+  // Summary boxes
+  y -= 12;
+  const boxWidth = (PAGE_WIDTH - 2 * MARGIN - 3 * 10) / 4;
+  [
+    ['Opening balance', statement.opening_balance],
+    ['Money in', statement.total_credits],
+    ['Money out', statement.total_debits],
+    ['Closing balance', statement.closing_balance],
+  ].forEach(([label, value], index) => {
+    const x = MARGIN + index * (boxWidth + 10);
+    page.rect(x, y - 34, boxWidth, 44, index === 3 ? GOLD : [0.96, 0.96, 0.96]);
+    page.text(x + 8, y - 2, label, { size: 8, fill: index === 3 ? BLACK : GREY });
+    page.amount(x + boxWidth - 8, y - 22, money(value), { size: 9, bold: true });
+  });
+
+  return tableHeader(page, y - 64);
+};
+
+const continuationHeader = (page, statement) => {
+  page.rect(0, PAGE_HEIGHT - 40, PAGE_WIDTH, 40, BLACK);
+  page.text(MARGIN, PAGE_HEIGHT - 26, 'QUILOX PRIVÉ', { font: 'F2', size: 12, fill: GOLD });
+  page.text(160, PAGE_HEIGHT - 26, `Wallet statement • ${statement.account.account_number} (continued)`, { size: 9, fill: WHITE });
+  return tableHeader(page, PAGE_HEIGHT - 64);
+};
+
+const balanceRow = (page, y, date, label, balance) => {
+  page.text(COLUMNS.date + 4, y, date, { size: 8 });
+  page.text(COLUMNS.description, y, label, { font: 'F2', size: 8 });
+  page.amount(COLUMNS.balance - 4, y, money(balance), { bold: true });
+  page.line(MARGIN, y - 8, PAGE_WIDTH - MARGIN);
+};
+
+// Lays out statement pages as content streams
+const layoutPages = (statement) => {
+  const pages = [];
+  let page = new Page();
+  let y = firstPageHeader(page, statement);
+  pages.push(page);
+
+  const ensureRoom = () => {
+    if (y >= BOTTOM) return;
+    page = new Page();
+    y = continuationHeader(page, statement);
+    pages.push(page);
+  };
+
+  balanceRow(page, y, formatDay(`${statement.period.from}T12:00:00Z`), 'Opening balance', statement.opening_balance);
+  y -= ROW_HEIGHT;
+
+  statement.entries.forEach((entry) => {
+    ensureRoom();
+    const pending = entry.status === 'pending' ? ' (pending)' : '';
+    page.text(COLUMNS.date + 4, y, formatDay(entry.date), { size: 8 });
+    page.text(COLUMNS.description, y, truncate(entry.description + pending, 52), { size: 8 });
+    page.text(COLUMNS.description, y - 9, truncate(entry.reference, 60), { font: 'F3', size: 6.5, fill: GREY });
+    page.amount(COLUMNS.moneyIn, y, entry.type === 'credit' ? money(entry.amount) : '');
+    page.amount(COLUMNS.moneyOut, y, entry.type === 'debit' ? money(entry.amount) : '');
+    page.amount(COLUMNS.balance - 4, y, money(entry.running_balance));
+    page.line(MARGIN, y - 14, PAGE_WIDTH - MARGIN);
+    y -= ROW_HEIGHT;
+  });
+
+  ensureRoom();
+  balanceRow(page, y, formatDay(`${statement.period.to}T12:00:00Z`), 'Closing balance', statement.closing_balance);
+
+  pages.forEach((p, index) => {
+    p.text(MARGIN, 28, 'Quilox Privé wallet statement. Pending entries are amounts held for transfers in progress.', { size: 7, fill: GREY });
+    p.text(PAGE_WIDTH - MARGIN - 50, 28, `Page ${index + 1} of ${pages.length}`, { size: 7, fill: GREY });
+  });
+
+  return pages.map((p) => p.ops.join('\n'));
+};
+
+// Renders the statement as a PDF document string (ASCII; send with 'latin1'/'binary' encoding)
+const renderStatementPdf = (statement) => {
+  const streams = layoutPages(statement);
+  const fonts = ['Helvetica', 'Helvetica-Bold', 'Courier', 'Courier-Bold'];
+  const fontObj = (index) => 3 + index;
+  const pageObj = (index) => 3 + fonts.length + index * 2;
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Count ${streams.length} /Kids [${streams.map((_, i) => `${pageObj(i)} 0 R`).join(' ')}] >>`,
+    ...fonts.map((name) => `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`),
+  ];
+
+  const fontResources = fonts.map((_, i) => `/F${i + 1} ${fontObj(i)} 0 R`).join(' ');
+  streams.forEach((content, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << ${fontResources} >> >> /Contents ${pageObj(i) + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return pdf;
+};
+
+module.exports = { renderStatementPdf };
@@ -0,0 +1,170 @@
+// Wallet statements
+// Opening balance, every entry in the period with its running balance, and the
+// closing balance, from wallet_statement_* in the database. Exported as JSON, CSV
+// or PDF (statement-pdf.js).
+//
+// Periods are whole days in Lagos time. Download links let the app open a file in
+// the browser without sending the member's token: they are signed with
+// STATEMENT_LINK_SECRET and expire after STATEMENT_LINK_TTL_MINUTES.
+
+const crypto = require('crypto');
+const { supabase } = require('./supabase');
+
+const LAGOS_OFFSET = '+01:00';
+const MAX_PERIOD_DAYS = 366;
+const STATEMENT_LINK_TTL_MINUTES = 10;
+const FORMATS = ['csv', 'pdf'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const lagosDate = (date) => new Date(date.getTime() + DAY_MS / 24).toISOString().slice(0, 10);
+const startOfDay = (day) => new Date(`${day}T00:00:00${LAGOS_OFFSET}`);
+
+// Validates a { from, to } pair of YYYY-MM-DD days (inclusive). Defaults to the
+// current month so far. Returns { from, to } or { error }.
+const parsePeriod = ({ from, to } = {}) => {
+  const today = lagosDate(new Date());
+  const period = {
+    from: from || `${today.slice(0, 8)}01`,
+    to: to || today,
+  };
+
+  if (!DATE_PATTERN.test(period.from) || !DATE_PATTERN.test(period.to) ||
+      Number.isNaN(startOfDay(period.from).getTime()) || Number.isNaN(startOfDay(period.to).getTime())) {
+    return { error: 'from and to must be dates in YYYY-MM-DD format' };
+  }
+
+  const days = (startOfDay(period.to) - startOfDay(period.from)) / DAY_MS;
+  if (days < 0) return { error: 'from must be on or before to' };
+  if (days >= MAX_PERIOD_DAYS) return { error: `Statements cover at most ${MAX_PERIOD_DAYS} days` };
+
+  return period;
+};
+
+const buildStatement = async (wallet, { from, to }) => {
+  const periodStart = startOfDay(from);
+  const periodEnd = new Date(startOfDay(to).getTime() + DAY_MS);
+
+  const { data: opening, error: openingError } = await supabase.rpc('wallet_statement_opening_balance', {
+    p_wallet_id: wallet.id,
+    p_from: periodStart.toISOString(),
+  });
+  if (openingError) throw openingError;
+
+  const { data: rows, error: entriesError } = await supabase.rpc('wallet_statement_entries', {
+    p_wallet_id: wallet.id,
+    p_from: periodStart.toISOString(),
+    p_to: periodEnd.toISOString(),
+  });
+  if (entriesError) throw entriesError;
+
+  const entries = (rows || []).map((row) => ({
+    transaction_id: row.transaction_id,
+    date: row.created_at,
+    reference: row.reference,
+    description: row.description || (row.type === 'credit' ? 'Wallet credit' : 'Wallet debit'),
+    payment_method: row.payment_method,
+    type: row.type,
+    status: row.status,
+    amount: Number(row.amount),
+    running_balance: Number(row.running_balance),
+  }));
+
+  const openingBalance = Number(opening || 0);
+  const sum = (type) => entries.filter((e) => e.type === type).reduce((total, e) => total + e.amount, 0);
+
+  return {
+    account: {
+      account_name: wallet.account_name,
+      account_number: wallet.account_number,
+      bank_name: wallet.bank_name,
+      currency: wallet.currency || 'NGN',
+    },
+    period: { from, to },
+    opening_balance: openingBalance,
+    total_credits: Math.round(sum('credit') * 100) / 100,
+    total_debits: Math.round(sum('debit') * 100) / 100,
+    closing_balance: entries.length > 0 ? entries[entries.length - 1].running_balance : openingBalance,
+    entries,
+    generated_at: new Date().toISOString(),
+  };
+};
+
+const csvCell = (value) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const money = (amount) => (amount === null || amount === undefined ? '' : Number(amount).toFixed(2));
+
+const statementToCsv = (statement) => {
+  const rows = [
+    ['Quilox Privé wallet statement'],
+    ['Account name', statement.account.account_name],
+    ['Account number', statement.account.account_number],
+    ['Period', `${statement.period.from} to ${statement.period.to}`],
+    ['Currency', statement.account.currency],
+    [],
+    ['Date', 'Reference', 'Description', 'Method', 'Status', 'Money in', 'Money out', 'Balance'],
+    [statement.period.from, '', 'Opening balance', '', '', '', '', money(statement.opening_balance)],
+    ...statement.entries.map((entry) => [
+      entry.date,
+      entry.reference,
+      entry.description,
+      entry.payment_method || '',
+      entry.status,
+      entry.type === 'credit' ? money(entry.amount) : '',
+      entry.type === 'debit' ? money(entry.amount) : '',
+      money(entry.running_balance),
+    ]),
+    [statement.period.to, '', 'Closing balance', '', '', money(statement.total_credits), money(statement.total_debits), money(statement.closing_balance)],
+  ];
+
+  // BOM so spreadsheet apps read the file as UTF-8
+  return '\uFEFF' + rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+const statementFilename = (statement, format) =>
+  `quilox-statement-${statement.account.account_number}-${statement.period.from}-to-${statement.period.to}.${format}`;
+
+// ==================== DOWNLOAD LINKS ====================
+
+const signature = (payload) => {
+  const secret = process.env.STATEMENT_LINK_SECRET;
+  if (!secret) throw new Error('STATEMENT_LINK_SECRET is not configured');
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+};
+
+// Token format: walletId.from.to.format.expiresAt.signature - every part is URL-safe
+const createStatementToken = (walletId, { from, to, format }) => {
+  const expiresAt = Date.now() + STATEMENT_LINK_TTL_MINUTES * 60 * 1000;
+  const payload = [walletId, from, to, format, expiresAt].join('.');
+  return { token: `${payload}.${signature(payload)}`, expiresAt: new Date(expiresAt).toISOString() };
+};
+
+// Returns { walletId, from, to, format } for a valid, unexpired token, otherwise null
+const verifyStatementToken = (token) => {
+  const parts = String(token || '').split('.');
+  if (parts.length !== 6) return null;
+
+  const [walletId, from, to, format, expiresAt, given] = parts;
+  const expected = signature(parts.slice(0, 5).join('.'));
+  const valid = given.length === expected.length && crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(given).digest(),
+    crypto.createHash('sha256').update(expected).digest()
+  );
+
+  if (!valid || Number(expiresAt) < Date.now() || !FORMATS.includes(format)) return null;
+  return { walletId, from, to, format };
+};
+
+module.exports = {
+  FORMATS,
+  parsePeriod,
+  buildStatement,
+  statementToCsv,
+  statementFilename,
+  createStatementToken,
+  verifyStatementToken,
+};
@@ -0,0 +1,127 @@
+// Venue bills (scan to pay)
+// Staff raise a bill for a table; the staff view shows it as a QR code holding a
+// signed token. Members scan it, the app asks the backend to check the token
+// (verifyBillToken) and load the bill, and pays it with pay_venue_bill. Amount and
+// description always come from venue_bills, so a member can neither change what
+// they pay nor describe it themselves.
+//
+// Token format: QLXBILL.billId.tableId.amountKobo.expiresAt.signature, signed with
+// BILL_QR_SECRET. tableId is '-' for bills not tied to a table.
+
+const crypto = require('crypto');
+const { supabase } = require('./supabase');
+
+const TOKEN_PREFIX = 'QLXBILL';
+const DEFAULT_EXPIRY_MINUTES = 30;
+const MAX_EXPIRY_MINUTES = 240;
+
+const signature = (payload) => {
+  const secret = process.env.BILL_QR_SECRET;
+  if (!secret) throw new Error('BILL_QR_SECRET is not configured');
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+};
+
+const createBillToken = (bill) => {
+  const payload = [
+    TOKEN_PREFIX,
+    bill.id,
+    bill.table_id || '-',
+    Math.round(Number(bill.amount) * 100),
+    Math.floor(new Date(bill.expires_at).getTime() / 1000),
+  ].join('.');
+  return `${payload}.${signature(payload)}`;
+};
+
+// Returns { billId, tableId, amount, expiresAt } for a valid token, otherwise null.
+// Expiry is checked by the caller so it can tell the member the bill has expired.
+const verifyBillToken = (token) => {
+  const parts = String(token || '').trim().split('.');
+  if (parts.length !== 6 || parts[0] !== TOKEN_PREFIX) return null;
+
+  const [, billId, tableId, amountKobo, expiresAt, given] = parts;
+  const expected = signature(parts.slice(0, 5).join('.'));
+  const valid = given.length === expected.length && crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(given).digest(),
+    crypto.createHash('sha256').update(expected).digest()
+  );
+
+  if (!valid || !/^\d+$/.test(amountKobo) || !/^\d+$/.test(expiresAt)) return null;
+
+  return {
+    billId,
+    tableId: tableId === '-' ? null : tableId,
+    amount: Number(amountKobo) / 100,
+    expiresAt: new Date(Number(expiresAt) * 1000),
+  };
+};
+
+// Creates a bill and its QR token. Returns { bill, token } or { error }.
+const createBill = async ({ tableId, amount, description, expiresInMinutes, staffId }) => {
+  const value = Math.round(Number(amount) * 100) / 100;
+  const minutes = Number(expiresInMinutes) || DEFAULT_EXPIRY_MINUTES;
+
+  if (!Number.isFinite(value) || value <= 0) return { error: 'amount must be a positive number' };
+  if (!description || !String(description).trim()) return { error: 'description is required' };
+  if (minutes <= 0 || minutes > MAX_EXPIRY_MINUTES) {
+    return { error: `Bills expire within ${MAX_EXPIRY_MINUTES} minutes` };
+  }
+
+  let tableLabel = 'Quilox';
+  if (tableId) {
+    const { data: table, error } = await supabase
+      .from('table_areas')
+      .select('name, table_number')
+      .eq('id', tableId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!table) return { error: 'Table not found' };
+    tableLabel = `${table.name} (${table.table_number})`;
+  }
+
+  const { data: bill, error } = await supabase
+    .from('venue_bills')
+    .insert({
+      table_id: tableId || null,
+      table_label: tableLabel,
+      amount: value,
+      description: String(description).trim(),
+      expires_at: new Date(Date.now() + minutes * 60 * 1000).toISOString(),
+      created_by: staffId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  console.log(`🧾 Bill ${bill.id} raised for ${tableLabel}: ₦${value}`);
+  return { bill, token: createBillToken(bill) };
+};
+
+// Checks a scanned token against the bill it names.
+// Returns { bill } or { error, status } where status is the HTTP status to answer with.
+const loadScannedBill = async (token) => {
+  const claims = verifyBillToken(token);
+  if (!claims) return { error: 'This is not a valid Quilox bill code', status: 422 };
+
+  const { data: bill, error } = await supabase
+    .from('venue_bills')
+    .select('id, table_id, table_label, amount, description, status, expires_at, paid_by')
+    .eq('id', claims.billId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!bill || Number(bill.amount) !== claims.amount || (bill.table_id || null) !== claims.tableId) {
+    return { error: 'This bill code does not match our records', status: 422 };
+  }
+  if (bill.status === 'void') return { error: 'This bill has been cancelled by staff', status: 409 };
+  if (bill.status === 'paid') return { error: 'This bill has already been paid', status: 409, bill };
+  if (claims.expiresAt <= new Date() || new Date(bill.expires_at) <= new Date()) {
+    return { error: 'This bill code has expired. Ask staff for a new one.', status: 410 };
+  }
+
+  return { bill: { ...bill, amount: Number(bill.amount) } };
+};
+
+module.exports = { createBill, createBillToken, verifyBillToken, loadScannedBill };
@@ -0,0 +1,293 @@
+// Payment webhook processing
+// Each handler takes a verified payload and returns the outcome that is stored on
+// the webhook event and sent back to the provider:
+//   { success, message, transaction_ref? }
+// Handlers throw when the event should be retried (database or provider API
+// errors). Everything they call is idempotent, so retries and replays are safe.
+
+const { supabase } = require('./supabase');
+const { callFlutterwaveAPI } = require('./flutterwave');
+const { settleWithdrawal, reverseWithdrawal } = require('./withdrawals');
+const { TOP_UP_PREFIX, checkTopUpCharge, settleTopUp, creditVirtualAccountDeposit } = require('./settlement');
+const { BILL_SESSION_PURPOSE, settleBillSessionCharge } = require('./bill-sessions');
+const { BOOKING_PURPOSE } = require('./booking-payments');
+const { settleCheckout } = require('./booking-checkout');
+
+const depositOutcome = (result, txRef) => ({
+  success: result.status !== 'unmatched',
+  message: result.status === 'unmatched' ? 'No wallet for this account' : 'Deposit processed',
+  transaction_ref: txRef,
+});
+
+const topUpOutcome = (result, txRef) => {
+  if (result.status === 'rejected') {
+    return { success: false, message: result.message, transaction_ref: txRef };
+  }
+
+  return {
+    success: true,
+    message: result.status === 'already_processed' ? 'Already processed' : 'Wallet credited',
+    transaction_ref: txRef,
+  };
+};
+
+// Settles a withdrawal hold; transfers we never held (e.g. made from the dashboard) are ignored.
+// `reversed` transfers may already have completed, in which case the wallet is credited back.
+const settleHeldWithdrawal = async (reference, succeeded, reason, metadata, reversed = false) => {
+  try {
+    const result = reversed
+      ? await reverseWithdrawal(reference, reason, metadata)
+      : await settleWithdrawal(reference, succeeded, reason, metadata);
+
+    if (result?.reversed === 'credited') {
+      console.log(`↩️ Withdrawal ${reference} reversed after completing${result.already_settled ? ' (already credited)' : ', wallet credited'}`);
+    } else if (result?.already_settled) {
+      console.log(`ℹ️ Withdrawal ${reference} already settled`);
+    } else {
+      console.log(`🏦 Withdrawal ${reference} ${succeeded ? 'completed' : 'released'}`);
+    }
+  } catch (error) {
+    if (error.code !== 'P0002') throw error;
+    console.log(`ℹ️ No held withdrawal for transfer ${reference}`);
+  }
+
+  return { success: true, message: 'Transfer event processed', transaction_ref: reference };
+};
+
+// ==================== PAYSTACK ====================
+
+const handlePaystackCharge = async (data) => {
+  const txRef = data.reference;
+  const amount = typeof data.amount === 'number' ? data.amount / 100 : 0;
+  const purpose = data.metadata?.purpose;
+
+  console.log(`✅ Webhook received: ${txRef}, Amount: ₦${amount}`);
+
+  // Bank transfer into a member's dedicated virtual account
+  if (data.channel === 'dedicated_nuban') {
+    const authorization = data.authorization || {};
+    const result = await creditVirtualAccountDeposit({
+      provider: 'paystack',
+      accountNumber: authorization.receiver_bank_account_number || data.metadata?.receiver_account_number,
+      customerCode: data.customer?.customer_code,
+      amount,
+      reference: txRef,
+      sender: {
+        name: authorization.sender_name,
+        bank: authorization.sender_bank,
+        account_number: authorization.sender_bank_account_number,
+      },
+    });
+
+    return depositOutcome(result, txRef);
+  }
+
+  // A member's card payment towards a split table bill
+  if (purpose === BILL_SESSION_PURPOSE) {
+    const result = await settleBillSessionCharge({ reference: txRef, amount, metadata: data.metadata });
+    return {
+      success: result.status !== 'rejected',
+      message: result.status === 'rejected' ? result.message : 'Bill payment recorded',
+      transaction_ref: txRef,
+    };
+  }
+
+  // A table booking paid by card: the booking is confirmed from its checkout
+  if (purpose === BOOKING_PURPOSE) {
+    const result = await settleCheckout(data);
+    if (result.status === 'processing') {
+      // Another delivery (or the app) is confirming it; check again on retry
+      throw new Error(`Booking checkout ${txRef} is being confirmed`);
+    }
+
+    const messages = { confirmed: 'Booking confirmed', unknown: 'No checkout for this charge' };
+    return {
+      success: result.status !== 'failed',
+      message: result.error || messages[result.status] || `Checkout is ${result.status}`,
+      transaction_ref: txRef,
+    };
+  }
+
+  if (!txRef?.startsWith(TOP_UP_PREFIX)) {
+    console.log(`ℹ️ Charge ${txRef} is not a wallet top-up (${purpose || 'no purpose'})`);
+    return { success: true, message: 'Event acknowledged', transaction_ref: txRef };
+  }
+
+  const problem = await checkTopUpCharge(txRef, data.metadata);
+  if (problem) {
+    console.error(`⚠️ Top-up ${txRef} not settled: ${problem}`);
+    return { success: false, message: problem, transaction_ref: txRef };
+  }
+
+  // Credits the wallet and marks the transaction completed in one database call.
+  // Safe to run for every delivery: repeats are reported as already processed.
+  return topUpOutcome(await settleTopUp(txRef, amount), txRef);
+};
+
+// Booking refunds issued through /api/bookings/:id/cancel
+const handlePaystackRefund = async (event, data) => {
+  const transactionRef = data.transaction_reference;
+  const processed = event === 'refund.processed';
+
+  const { data: booking, error } = await supabase
+    .from('bookings')
+    .select('id, metadata')
+    .eq('metadata->refund->>transaction_reference', transactionRef)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  if (!booking) {
+    console.log(`ℹ️ No booking refund found for ${transactionRef}`);
+    return { success: true, message: 'Event acknowledged', transaction_ref: transactionRef };
+  }
+
+  const refund = { ...booking.metadata.refund, status: processed ? 'completed' : 'failed', settled_at: new Date().toISOString() };
+  const { error: updateError } = await supabase
+    .from('bookings')
+    .update({ payment_status: processed ? 'refunded' : 'paid', metadata: { ...booking.metadata, refund } })
+    .eq('id', booking.id);
+
+  if (updateError) throw updateError;
+
+  console.log(`↩️ Refund for booking ${booking.id} ${processed ? 'processed' : 'failed'}`);
+  return { success: true, message: `Refund ${refund.status}`, transaction_ref: transactionRef };
+};
+
+const processPaystackEvent = async (payload) => {
+  const data = payload.data || {};
+
+  if (payload.event === 'charge.success' && data.status === 'success') {
+    return handlePaystackCharge(data);
+  }
+
+  if (['transfer.success', 'transfer.failed', 'transfer.reversed'].includes(payload.event)) {
+    // Settles withdrawal holds placed by /api/wallet/withdrawals
+    return settleHeldWithdrawal(
+      data.reference,
+      payload.event === 'transfer.success',
+      data.reason || payload.event,
+      { transfer_code: data.transfer_code, settled_by: payload.event },
+      payload.event === 'transfer.reversed'
+    );
+  }
+
+  if (payload.event === 'refund.processed' || payload.event === 'refund.failed') {
+    return handlePaystackRefund(payload.event, data);
+  }
+
+  console.log(`ℹ️ Webhook event ignored: ${payload.event} - ${data.status}`);
+  return { success: true, message: 'Event acknowledged' };
+};
+
+// ==================== FLUTTERWAVE ====================
+
+const handleFlutterwaveCharge = async (data) => {
+  // Trust the API, not the payload
+  const verified = (await callFlutterwaveAPI(`/transactions/${encodeURIComponent(data.id)}/verify`)).data;
+  const txRef = verified.tx_ref;
+
+  if (verified.status !== 'successful' || verified.currency !== 'NGN') {
+    console.log(`ℹ️ Flutterwave charge ${txRef} is ${verified.status} (${verified.currency})`);
+    return { success: true, message: 'Event acknowledged', transaction_ref: txRef };
+  }
+
+  const amount = Number(verified.amount);
+
+  // Transfers into a permanent virtual account carry the tx_ref the account was
+  // created with (quilox-<userId>-<timestamp>), so each deposit is keyed by its id
+  const virtualAccount = /^quilox-([0-9a-f-]{36})-\d+$/i.exec(txRef || '');
+  if (virtualAccount && verified.payment_type === 'bank_transfer') {
+    const result = await creditVirtualAccountDeposit({
+      provider: 'flutterwave',
+      userId: virtualAccount[1],
+      amount,
+      reference: `FLW-${verified.id}`,
+      sender: {
+        name: verified.meta?.originatorname,
+        bank: verified.meta?.bankname,
+        account_number: verified.meta?.originatoraccountnumber,
+      },
+    });
+
+    return depositOutcome(result, txRef);
+  }
+
+  if (!txRef?.startsWith(TOP_UP_PREFIX)) {
+    console.log(`ℹ️ Flutterwave charge ${txRef} is not a wallet top-up`);
+    return { success: true, message: 'Event acknowledged', transaction_ref: txRef };
+  }
+
+  // meta carries purpose and wallet_id from the app and user_id from /api/flutterwave/payments
+  const problem = await checkTopUpCharge(txRef, verified.meta);
+  if (problem) {
+    console.error(`⚠️ Top-up ${txRef} not settled: ${problem}`);
+    return { success: false, message: problem, transaction_ref: txRef };
+  }
+
+  return topUpOutcome(await settleTopUp(txRef, amount), txRef);
+};
+
+const handleFlutterwaveTransfer = async (data) => {
+  const verified = (await callFlutterwaveAPI(`/transfers/${encodeURIComponent(data.id)}`)).data;
+  const reference = verified.reference;
+  const status = String(verified.status || '').toUpperCase();
+
+  if (status !== 'SUCCESSFUL' && status !== 'FAILED') {
+    console.log(`ℹ️ Flutterwave transfer ${reference} still ${status}`);
+    return { success: true, message: 'Event acknowledged', transaction_ref: reference };
+  }
+
+  return settleHeldWithdrawal(reference, status === 'SUCCESSFUL', verified.complete_message || 'Transfer failed', {
+    flutterwave_transfer_id: verified.id,
+    settled_by: 'flutterwave:transfer.completed',
+  });
+};
+
+const flutterwaveEventType = (payload) => payload.event || payload['event.type'];
+
+const processFlutterwaveEvent = async (payload) => {
+  const event = flutterwaveEventType(payload);
+
+  if (event === 'charge.completed') {
+    return handleFlutterwaveCharge(payload.data || {});
+  }
+
+  if (event === 'transfer.completed') {
+    return handleFlutterwaveTransfer(payload.data || {});
+  }
+
+  console.log(`ℹ️ Flutterwave event ignored: ${event}`);
+  return { success: true, message: 'Event acknowledged' };
+};
+
+// ==================== EVENT IDENTITY ====================
+
+// Stable id for deduplication. Providers resend the same payload on retry, so the
+// event name plus the provider's object id identifies a delivery.
+const describeEvent = (provider, payload) => {
+  const data = payload?.data || {};
+
+  if (provider === 'flutterwave') {
+    const eventType = flutterwaveEventType(payload);
+    return {
+      eventType,
+      eventId: eventType && data.id ? `${eventType}:${data.id}` : null,
+      reference: data.tx_ref || data.reference || null,
+    };
+  }
+
+  const objectId = data.id || data.transfer_code || data.reference;
+  return {
+    eventType: payload?.event,
+    eventId: payload?.event && objectId ? `${payload.event}:${objectId}` : null,
+    reference: data.reference || data.transaction_reference || null,
+  };
+};
+
+const processors = {
+  paystack: processPaystackEvent,
+  flutterwave: processFlutterwaveEvent,
+};
+
+module.exports = { processors, describeEvent };
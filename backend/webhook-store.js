@@ -0,0 +1,240 @@
+// Durable webhook event store
+// Every inbound webhook is written to webhook_events before it is processed, so a
+// failure never loses the event. Events are deduplicated by the provider's event id,
+// failed ones are retried with exponential backoff and moved to dead_letter after
+// WEBHOOK_MAX_ATTEMPTS. Admins can list events and replay them.
+//
+// Status flow: received -> processing -> processed
+//                                     -> failed -> processing ... -> dead_letter
+// A received event that never got claimed (the delivery died first) is retried once
+// its lease runs out, like a crashed attempt. Deliveries with a bad signature are
+// refused without being stored; older rows may still be marked rejected.
+
+const crypto = require('crypto');
+const { supabase } = require('./supabase');
+const { processors, describeEvent } = require('./webhook-handlers');
+
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 5;
+const BASE_DELAY_MINUTES = 5; // 5, 10, 20, 40 ... minutes between attempts
+const MAX_DELAY_MINUTES = 6 * 60;
+const PROCESSING_LEASE_MINUTES = 10; // a crashed attempt becomes retryable after this
+
+// Statuses each caller may pick an event up from
+const CLAIMABLE = {
+  delivery: ['received', 'failed'],
+  retry: ['received', 'failed', 'processing'],
+  replay: ['received', 'failed', 'processed', 'dead_letter'],
+};
+
+const LIST_COLUMNS =
+  'id, provider, event_id, event_type, reference, signature_valid, status, attempts, ' +
+  'last_error, outcome, next_attempt_at, processed_at, created_at, updated_at';
+
+const minutesFromNow = (minutes) => new Date(Date.now() + minutes * 60 * 1000).toISOString();
+
+const retryDelayMinutes = (attempts) =>
+  Math.min(BASE_DELAY_MINUTES * 2 ** Math.max(attempts - 1, 0), MAX_DELAY_MINUTES);
+
+// Stores an inbound webhook whose signature has been checked. Returns { event, duplicate }.
+// Redeliveries of an event we already hold return the stored row with duplicate: true.
+const recordWebhookEvent = async ({ provider, payload, rawBody }) => {
+  const { eventType, eventId, reference } = describeEvent(provider, payload);
+
+  const row = {
+    provider,
+    event_id: eventId || `sha256:${crypto.createHash('sha256').update(rawBody || '').digest('hex')}`,
+    event_type: eventType || null,
+    reference,
+    payload: payload || {},
+    raw_body: rawBody || null,
+    signature_valid: true,
+    status: 'received',
+    // If this delivery dies before claiming the event, the retry worker takes it from here
+    next_attempt_at: minutesFromNow(PROCESSING_LEASE_MINUTES),
+  };
+
+  const { data, error } = await supabase.from('webhook_events').insert(row).select('*').single();
+
+  if (!error) {
+    return { event: data, duplicate: false };
+  }
+
+  if (error.code !== '23505') throw error;
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('webhook_events')
+    .select('*')
+    .eq('provider', provider)
+    .eq('event_id', row.event_id)
+    .single();
+
+  if (fetchError) throw fetchError;
+
+  return { event: existing, duplicate: true };
+};
+
+// Marks an event as processing, guarding against two workers running it at once.
+// Returns the claimed row, or null when it was not in a claimable state.
+const claimEvent = async (event, mode) => {
+  if (!CLAIMABLE[mode].includes(event.status)) return null;
+
+  const { data, error } = await supabase
+    .from('webhook_events')
+    .update({
+      status: 'processing',
+      attempts: event.attempts + 1,
+      next_attempt_at: minutesFromNow(PROCESSING_LEASE_MINUTES),
+    })
+    .eq('id', event.id)
+    .eq('attempts', event.attempts)
+    .in('status', CLAIMABLE[mode])
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Runs the provider handler for a stored event and records the outcome.
+// Returns { status, outcome?, error? }; status 'skipped' means another worker has it.
+const processWebhookEvent = async (event, { mode = 'delivery' } = {}) => {
+  const claimed = await claimEvent(event, mode);
+
+  if (!claimed) {
+    return { status: 'skipped' };
+  }
+
+  try {
+    const outcome = await processors[claimed.provider](claimed.payload);
+
+    const { error } = await supabase
+      .from('webhook_events')
+      .update({
+        status: 'processed',
+        outcome,
+        last_error: null,
+        next_attempt_at: null,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', claimed.id);
+
+    if (error) throw error;
+
+    return { status: 'processed', outcome };
+  } catch (processingError) {
+    const deadLetter = claimed.attempts >= MAX_ATTEMPTS;
+    const status = deadLetter ? 'dead_letter' : 'failed';
+
+    if (deadLetter) {
+      console.error(`☠️ Webhook ${claimed.id} dead-lettered after ${claimed.attempts} attempts:`, processingError);
+    } else {
+      console.error(`❌ Webhook ${claimed.id} attempt ${claimed.attempts} failed:`, processingError);
+    }
+
+    const { error } = await supabase
+      .from('webhook_events')
+      .update({
+        status,
+        last_error: processingError.message,
+        next_attempt_at: deadLetter ? null : minutesFromNow(retryDelayMinutes(claimed.attempts)),
+      })
+      .eq('id', claimed.id);
+
+    if (error) {
+      // The processing lease expires on its own, so the retry job still picks it up
+      console.error(`Failed to record webhook ${claimed.id} failure:`, error);
+    }
+
+    return { status, error: processingError.message };
+  }
+};
+
+// Retries failed events (and deliveries or attempts that crashed mid-processing) that are due
+const retryDueWebhookEvents = async ({ limit = 50 } = {}) => {
+  if (!supabase) {
+    throw new Error('Database not configured');
+  }
+
+  const { data: due, error } = await supabase
+    .from('webhook_events')
+    .select('*')
+    .in('status', CLAIMABLE.retry)
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const summary = { scanned: 0, processed: 0, failed: 0, dead_letter: 0, skipped: 0 };
+
+  for (const event of due || []) {
+    summary.scanned += 1;
+    const result = await processWebhookEvent(event, { mode: 'retry' });
+    summary[result.status] += 1;
+  }
+
+  if (summary.scanned > 0) {
+    console.log(
+      `🔁 Webhook retries: ${summary.scanned} due, ${summary.processed} processed, ` +
+      `${summary.failed} failed, ${summary.dead_letter} dead-lettered`
+    );
+  }
+
+  return summary;
+};
+
+const getWebhookEvent = async (id) => {
+  const { data, error } = await supabase.from('webhook_events').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+// Processes a stored event again on an admin's request, whatever its state
+// (except rejected events, whose payload was never authenticated)
+const replayWebhookEvent = async (id) => {
+  const event = await getWebhookEvent(id);
+
+  if (!event) {
+    return { status: 'not_found' };
+  }
+
+  if (event.status === 'rejected') {
+    return { status: 'rejected', event };
+  }
+
+  const result = await processWebhookEvent(event, { mode: 'replay' });
+  return { ...result, event: await getWebhookEvent(id) };
+};
+
+// Newest first; raw bodies are left out, fetch a single event for those
+const listWebhookEvents = async ({ status, provider, eventType, reference, before, limit = 50 } = {}) => {
+  let query = supabase
+    .from('webhook_events')
+    .select(LIST_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(Math.min(Number(limit) || 50, 200));
+
+  if (status) query = query.eq('status', status);
+  if (provider) query = query.eq('provider', provider);
+  if (eventType) query = query.eq('event_type', eventType);
+  if (reference) query = query.eq('reference', reference);
+  if (before) query = query.lt('created_at', before);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+// A redelivery runs an event again unless it was already handled
+const isDeliveryClaimable = (event) => CLAIMABLE.delivery.includes(event.status);
+
+module.exports = {
+  MAX_ATTEMPTS,
+  isDeliveryClaimable,
+  recordWebhookEvent,
+  processWebhookEvent,
+  retryDueWebhookEvents,
+  replayWebhookEvent,
+  getWebhookEvent,
+  listWebhookEvents,
+};
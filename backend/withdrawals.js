@@ -0,0 +1,149 @@
+// Wallet withdrawals
+// The amount is held on the wallet (wallet_hold_debit) before the Paystack transfer
+// starts. transfer.* webhooks finalize the debit or release the hold; transfers whose
+// webhook never arrives are checked with /transfer/verify by the reconciliation job.
+// A transfer can still be reversed after it succeeded; the wallet then gets the
+// amount back as a separate <reference>-REV credit.
+
+const crypto = require('crypto');
+const { supabase } = require('./supabase');
+const { callPaystackAPI } = require('./paystack');
+
+const MIN_WITHDRAWAL = 1000; // NGN
+
+const createWithdrawalReference = () => `QLXWD-${Date.now()}-${crypto.randomBytes(4).toString('hex')}`;
+
+// Paystack answered and turned the request down, so no transfer exists. Timeouts,
+// network errors and 5xx answers leave the transfer's fate unknown.
+const isDefiniteRejection = (error) => error.statusCode >= 400 && error.statusCode < 500 && error.statusCode !== 429;
+
+// Creates (or reuses) the Paystack transfer recipient for an account
+const getRecipientCode = async ({ account_number, bank_code, account_name, recipient_code }) => {
+  if (recipient_code) return recipient_code;
+
+  const recipient = await callPaystackAPI('/transferrecipient', 'POST', {
+    type: 'nuban',
+    name: account_name || account_number,
+    account_number,
+    bank_code,
+    currency: 'NGN',
+  });
+
+  return recipient.data.recipient_code;
+};
+
+// Holds `amount` on the wallet and starts the transfer to `destination`
+// ({ account_number, bank_code, account_name, recipient_code? }).
+// Throws errors with a Postgres `code` for ledger failures; releases the hold only if
+// Paystack rejects the transfer. When the outcome is unknown the hold stays and the
+// withdrawal is reported pending until the webhook or reconciliation settles it.
+const startWithdrawal = async (wallet, { amount, reference, narration, destination, beneficiaryId }) => {
+  const description = narration || `Withdrawal to ${destination.account_name || destination.account_number}`;
+
+  const { data: hold, error: holdError } = await supabase.rpc('wallet_hold_debit', {
+    p_wallet_id: wallet.id,
+    p_amount: amount,
+    p_reference: reference,
+    p_description: description,
+    p_payment_method: 'bank_transfer',
+    p_metadata: {
+      withdrawal: true,
+      beneficiary_id: beneficiaryId || null,
+      account_number: destination.account_number,
+      bank_code: destination.bank_code,
+      account_name: destination.account_name || null,
+    },
+  });
+
+  if (holdError) throw holdError;
+
+  const held = hold?.[0];
+  if (held?.already_applied) {
+    return { reference, status: 'pending', newBalance: Number(held.new_balance), alreadySubmitted: true };
+  }
+
+  try {
+    const recipientCode = await getRecipientCode(destination);
+
+    const transfer = await callPaystackAPI('/transfer', 'POST', {
+      source: 'balance',
+      amount: Math.round(amount * 100), // kobo
+      recipient: recipientCode,
+      reason: description,
+      reference,
+    });
+
+    return {
+      reference,
+      status: 'pending',
+      newBalance: Number(held?.new_balance ?? 0),
+      recipientCode,
+      transferCode: transfer.data?.transfer_code,
+    };
+  } catch (error) {
+    if (!isDefiniteRejection(error)) {
+      console.error(`⚠️ Transfer ${reference} outcome unknown, keeping hold:`, error);
+      return { reference, status: 'pending', newBalance: Number(held?.new_balance ?? 0) };
+    }
+
+    console.error(`❌ Transfer ${reference} rejected, releasing hold:`, error);
+    await settleWithdrawal(reference, false, error.message);
+    throw error;
+  }
+};
+
+// Finalizes (success) or releases (failure) the hold for a withdrawal reference
+const settleWithdrawal = async (reference, succeeded, reason, metadata = {}) => {
+  const { data, error } = succeeded
+    ? await supabase.rpc('wallet_finalize_debit', { p_reference: reference, p_metadata: metadata })
+    : await supabase.rpc('wallet_release_debit', { p_reference: reference, p_reason: reason || 'Transfer failed', p_metadata: metadata });
+
+  if (error) throw error;
+
+  return Array.isArray(data) ? data[0] : data;
+};
+
+// Settles a reversed transfer. A held withdrawal is released like a failed one; one
+// already completed gets a compensating credit, which wallet_credit applies once.
+const reverseWithdrawal = async (reference, reason, metadata = {}) => {
+  const released = await settleWithdrawal(reference, false, reason, metadata);
+  if (!released?.already_settled) {
+    return { ...released, reversed: 'released' };
+  }
+
+  const { data: debit, error } = await supabase
+    .from('wallet_transactions')
+    .select('wallet_id, amount, status')
+    .eq('reference', reference)
+    .eq('type', 'debit')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  // Already released (failed before the reversal arrived): the money is back
+  if (debit?.status !== 'completed') {
+    return { ...released, reversed: 'already_released' };
+  }
+
+  const { data, error: creditError } = await supabase.rpc('wallet_credit', {
+    p_wallet_id: debit.wallet_id,
+    p_amount: Number(debit.amount),
+    p_reference: `${reference}-REV`,
+    p_description: 'Withdrawal reversed by the bank',
+    p_payment_method: 'bank_transfer',
+    p_metadata: { ...metadata, reversal_of: reference, reason: reason || null },
+  });
+
+  if (creditError) throw creditError;
+
+  const credit = data?.[0];
+  return {
+    transaction_id: credit?.transaction_id,
+    wallet_id: debit.wallet_id,
+    new_balance: credit?.new_balance,
+    already_settled: Boolean(credit?.already_applied),
+    reversed: 'credited',
+  };
+};
+
+module.exports = { MIN_WITHDRAWAL, createWithdrawalReference, startWithdrawal, settleWithdrawal, reverseWithdrawal };
@@ -35,6 +35,7 @@ const MAPPING = {
   'person.2': 'people',
   'location': 'place',
   'creditcard': 'credit-card',
+  'arrow.uturn.left': 'undo',
   'info.circle': 'info',
   'minus': 'remove',
   'plus': 'add',
@@ -42,11 +43,15 @@ const MAPPING = {
   // Prive screen icons
   'shield.fill': 'shield',
   'wallet.pass': 'account-balance-wallet',
+  'arrow.up.right': 'north-east',
+  'arrow.down.left': 'south-west',
   'star.fill': 'star',
   'qrcode': 'qr-code',
   'trophy.fill': 'emoji-events',
   'checkmark.circle': 'check-circle',
   'checkmark.circle.fill': 'check-circle',
+  'exclamationmark.triangle.fill': 'warning',
+  'xmark.circle.fill': 'cancel',
   'eye': 'visibility',
   'clock': 'access-time',
   'gear': 'settings',
@@ -63,6 +68,7 @@ const MAPPING = {
   'checkmark.seal': 'verified',
   'checkmark.seal.fill': 'verified',
   'list.bullet': 'list',
+  'wineglass': 'wine-bar',
 
   // Social / Feed icons
   'heart': 'favorite',
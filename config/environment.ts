@@ -5,6 +5,8 @@
 
 export type Environment = 'development' | 'staging' | 'production';
 
+export type PaymentProviderName = 'paystack' | 'flutterwave' | 'globus';
+
 export interface EnvironmentConfig {
   env: Environment;
   isDevelopment: boolean;
@@ -21,6 +23,11 @@ export interface EnvironmentConfig {
   api: {
     version: string;
     timeout: number;
+    baseUrl: string;
+  };
+  payments: {
+    provider: PaymentProviderName;
+    fallbackProviders: PaymentProviderName[];
   };
   logging: {
     level: 'debug' | 'info' | 'warn' | 'error';
@@ -60,6 +67,18 @@ function detectEnvironment(): Environment {
   return 'production';
 }
 
+const PAYMENT_PROVIDERS: PaymentProviderName[] = ['paystack', 'flutterwave', 'globus'];
+
+/**
+ * Parse a comma-separated provider list, dropping unknown names
+ */
+function parsePaymentProviders(value: string | undefined): PaymentProviderName[] {
+  return (value || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name): name is PaymentProviderName => PAYMENT_PROVIDERS.includes(name as PaymentProviderName));
+}
+
 /**
  * Get environment-specific configuration
  */
@@ -74,6 +93,13 @@ export function getEnvironmentConfig(): EnvironmentConfig {
     api: {
       version: '1.0.0',
       timeout: 30000,
+      // Quilox backend (backend/server.js) - holds provider secret keys
+      baseUrl: process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000',
+    },
+    payments: {
+      // Primary provider, then the ones to fail over to, in order
+      provider: parsePaymentProviders(process.env.EXPO_PUBLIC_PAYMENT_PROVIDER)[0] || 'paystack',
+      fallbackProviders: parsePaymentProviders(process.env.EXPO_PUBLIC_PAYMENT_FALLBACK_PROVIDERS),
     },
   };
 
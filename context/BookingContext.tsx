@@ -1,9 +1,14 @@
 import React, { createContext, useContext, useState } from 'react';
+import { BookingSession } from '../lib/booking-sessions';
 import { TableArea } from '../lib/supabase';
 
 type BookingContextType = {
   selectedDate: Date | null;
   setSelectedDate: (date: Date | null) => void;
+  selectedSession: BookingSession | null;
+  setSelectedSession: (session: BookingSession | null) => void;
+  arrivalTime: string | null;
+  setArrivalTime: (time: string | null) => void;
   guestCount: number;
   setGuestCount: (count: number) => void;
   selectedTable: TableArea | null;
@@ -21,6 +26,10 @@ type BookingContextType = {
 const BookingContext = createContext<BookingContextType>({
   selectedDate: null,
   setSelectedDate: () => {},
+  selectedSession: null,
+  setSelectedSession: () => {},
+  arrivalTime: null,
+  setArrivalTime: () => {},
   guestCount: 2,
   setGuestCount: () => {},
   selectedTable: null,
@@ -39,6 +48,8 @@ export const useBooking = () => useContext(BookingContext);
 
 export const BookingProvider = ({ children }: { children: React.ReactNode }) => {
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedSession, setSelectedSession] = useState<BookingSession | null>(null);
+  const [arrivalTime, setArrivalTime] = useState<string | null>(null);
   const [guestCount, setGuestCount] = useState(2);
   const [selectedTable, setSelectedTable] = useState<TableArea | null>(null);
   const [guestInfo, setGuestInfoState] = useState({
@@ -54,6 +65,8 @@ export const BookingProvider = ({ children }: { children: React.ReactNode }) =>
 
   const resetBooking = () => {
     setSelectedDate(null);
+    setSelectedSession(null);
+    setArrivalTime(null);
     setGuestCount(2);
     setSelectedTable(null);
     setGuestInfoState({
@@ -69,6 +82,10 @@ export const BookingProvider = ({ children }: { children: React.ReactNode }) =>
       value={{
         selectedDate,
         setSelectedDate,
+        selectedSession,
+        setSelectedSession,
+        arrivalTime,
+        setArrivalTime,
         guestCount,
         setGuestCount,
         selectedTable,
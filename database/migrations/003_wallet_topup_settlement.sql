@@ -0,0 +1,93 @@
+-- Server-side settlement of wallet top-ups
+-- The Paystack webhook (backend/server.js) is the only path that credits a wallet.
+-- The app inserts a pending wallet_transactions row before opening checkout and
+-- then only reads its status back.
+
+-- wallet_transactions already exists in deployed projects; keep the definition here
+-- so fresh environments match.
+CREATE TABLE IF NOT EXISTS wallet_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wallet_id UUID NOT NULL REFERENCES user_wallets(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL CHECK (type IN ('credit', 'debit')),
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  reference TEXT NOT NULL,
+  description TEXT,
+  payment_method VARCHAR(50),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_reference ON wallet_transactions(reference);
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_wallet_id ON wallet_transactions(wallet_id);
+
+-- Credits a pending top-up exactly once.
+-- The transaction row is locked for the duration of the call, so concurrent
+-- webhook deliveries for the same reference serialize and only the first one
+-- moves money. Later calls return the current balance with already_completed = true.
+CREATE OR REPLACE FUNCTION complete_wallet_topup(
+  p_reference TEXT,
+  p_amount_paid DECIMAL
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  wallet_id UUID,
+  new_balance DECIMAL,
+  points_earned INTEGER,
+  already_completed BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx wallet_transactions%ROWTYPE;
+  v_balance DECIMAL(15, 2);
+  v_points INTEGER;
+BEGIN
+  SELECT * INTO v_tx
+  FROM wallet_transactions t
+  WHERE t.reference = p_reference
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet transaction % not found', p_reference USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_tx.type <> 'credit' THEN
+    RAISE EXCEPTION 'Wallet transaction % is not a credit', p_reference USING ERRCODE = '22023';
+  END IF;
+
+  IF v_tx.status = 'completed' THEN
+    SELECT w.balance INTO v_balance FROM user_wallets w WHERE w.id = v_tx.wallet_id;
+    RETURN QUERY SELECT v_tx.id, v_tx.wallet_id, v_balance, 0, TRUE;
+    RETURN;
+  END IF;
+
+  IF p_amount_paid < v_tx.amount THEN
+    RAISE EXCEPTION 'Amount paid (%) is less than top-up amount (%) for %', p_amount_paid, v_tx.amount, p_reference
+      USING ERRCODE = '22023';
+  END IF;
+
+  -- 1 loyalty point per ₦100 topped up
+  v_points := FLOOR(v_tx.amount / 100);
+
+  UPDATE user_wallets w
+  SET balance = w.balance + v_tx.amount,
+      loyalty_points = w.loyalty_points + v_points
+  WHERE w.id = v_tx.wallet_id
+  RETURNING w.balance INTO v_balance;
+
+  UPDATE wallet_transactions t
+  SET status = 'completed',
+      updated_at = NOW()
+  WHERE t.id = v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, v_tx.wallet_id, v_balance, v_points, FALSE;
+END;
+$$;
+
+-- Only the backend (service role) may settle top-ups
+REVOKE ALL ON FUNCTION complete_wallet_topup(TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_wallet_topup(TEXT, DECIMAL) TO service_role;
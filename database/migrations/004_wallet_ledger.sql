@@ -0,0 +1,243 @@
+-- Atomic wallet ledger
+-- Every balance change goes through wallet_credit / wallet_debit, which insert the
+-- wallet_transactions row and move the balance in the same database transaction.
+-- Clients can no longer write user_wallets.balance directly.
+
+-- Balances can never go negative, whatever path writes them
+ALTER TABLE user_wallets
+DROP CONSTRAINT IF EXISTS user_wallets_balance_non_negative;
+
+ALTER TABLE user_wallets
+ADD CONSTRAINT user_wallets_balance_non_negative CHECK (balance >= 0);
+
+-- One ledger entry per reference
+DROP INDEX IF EXISTS idx_wallet_transactions_reference;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_wallet_transactions_reference ON wallet_transactions(reference);
+
+-- Balance after the entry was applied (for statements) and free-form context
+ALTER TABLE wallet_transactions
+ADD COLUMN IF NOT EXISTS balance_after DECIMAL(15, 2),
+ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Balance writes now only happen inside the ledger functions below
+DROP POLICY IF EXISTS "Users can update own wallet balance" ON user_wallets;
+
+-- Credits a wallet and records the ledger entry.
+-- Idempotent by reference: replaying a completed reference returns the current
+-- balance with already_applied = true instead of crediting twice. A pending credit
+-- with the same reference (e.g. a top-up awaiting settlement) is completed in place.
+CREATE OR REPLACE FUNCTION wallet_credit(
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_description TEXT,
+  p_payment_method TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  new_balance DECIMAL,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet user_wallets%ROWTYPE;
+  v_tx wallet_transactions%ROWTYPE;
+  v_balance DECIMAL(15, 2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Credit amount must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_wallet FROM user_wallets w WHERE w.id = p_wallet_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet % not found', p_wallet_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_tx.wallet_id <> p_wallet_id OR v_tx.type <> 'credit' THEN
+      RAISE EXCEPTION 'Reference % already used', p_reference USING ERRCODE = '23505';
+    END IF;
+
+    IF v_tx.status = 'completed' THEN
+      RETURN QUERY SELECT v_tx.id, v_wallet.balance, TRUE;
+      RETURN;
+    END IF;
+
+    UPDATE user_wallets w
+    SET balance = w.balance + p_amount
+    WHERE w.id = p_wallet_id
+    RETURNING w.balance INTO v_balance;
+
+    UPDATE wallet_transactions t
+    SET status = 'completed',
+        amount = p_amount,
+        balance_after = v_balance,
+        metadata = t.metadata || COALESCE(p_metadata, '{}'::jsonb),
+        updated_at = NOW()
+    WHERE t.id = v_tx.id;
+
+    RETURN QUERY SELECT v_tx.id, v_balance, FALSE;
+    RETURN;
+  END IF;
+
+  UPDATE user_wallets w
+  SET balance = w.balance + p_amount
+  WHERE w.id = p_wallet_id
+  RETURNING w.balance INTO v_balance;
+
+  INSERT INTO wallet_transactions (
+    user_id, wallet_id, type, amount, status, reference,
+    description, payment_method, balance_after, metadata
+  )
+  VALUES (
+    v_wallet.user_id, p_wallet_id, 'credit', p_amount, 'completed', p_reference,
+    p_description, p_payment_method, v_balance, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, v_balance, FALSE;
+END;
+$$;
+
+-- Debits a wallet and records the ledger entry.
+-- Fails with check_violation (23514) when the balance does not cover the amount.
+-- Members may only debit their own active wallet; the service role may debit any.
+-- Replaying a completed reference returns the existing entry without debiting again.
+CREATE OR REPLACE FUNCTION wallet_debit(
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_description TEXT,
+  p_payment_method TEXT DEFAULT 'wallet',
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  new_balance DECIMAL,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet user_wallets%ROWTYPE;
+  v_tx wallet_transactions%ROWTYPE;
+  v_balance DECIMAL(15, 2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Debit amount must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_wallet FROM user_wallets w WHERE w.id = p_wallet_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet % not found', p_wallet_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' AND v_wallet.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to debit wallet %', p_wallet_id USING ERRCODE = '42501';
+  END IF;
+
+  IF v_wallet.status <> 'active' THEN
+    RAISE EXCEPTION 'Wallet % is %', p_wallet_id, v_wallet.status USING ERRCODE = '55000';
+  END IF;
+
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference;
+
+  IF FOUND THEN
+    IF v_tx.wallet_id = p_wallet_id AND v_tx.type = 'debit' AND v_tx.status = 'completed' THEN
+      RETURN QUERY SELECT v_tx.id, v_wallet.balance, TRUE;
+      RETURN;
+    END IF;
+    RAISE EXCEPTION 'Reference % already used', p_reference USING ERRCODE = '23505';
+  END IF;
+
+  IF v_wallet.balance < p_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance' USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE user_wallets w
+  SET balance = w.balance - p_amount
+  WHERE w.id = p_wallet_id
+  RETURNING w.balance INTO v_balance;
+
+  INSERT INTO wallet_transactions (
+    user_id, wallet_id, type, amount, status, reference,
+    description, payment_method, balance_after, metadata
+  )
+  VALUES (
+    v_wallet.user_id, p_wallet_id, 'debit', p_amount, 'completed', p_reference,
+    p_description, p_payment_method, v_balance, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, v_balance, FALSE;
+END;
+$$;
+
+-- Top-up settlement now goes through the ledger so it records balance_after
+CREATE OR REPLACE FUNCTION complete_wallet_topup(
+  p_reference TEXT,
+  p_amount_paid DECIMAL
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  wallet_id UUID,
+  new_balance DECIMAL,
+  points_earned INTEGER,
+  already_completed BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx wallet_transactions%ROWTYPE;
+  v_result RECORD;
+  v_points INTEGER := 0;
+BEGIN
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet transaction % not found', p_reference USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_tx.type <> 'credit' THEN
+    RAISE EXCEPTION 'Wallet transaction % is not a credit', p_reference USING ERRCODE = '22023';
+  END IF;
+
+  IF v_tx.status <> 'completed' AND p_amount_paid < v_tx.amount THEN
+    RAISE EXCEPTION 'Amount paid (%) is less than top-up amount (%) for %', p_amount_paid, v_tx.amount, p_reference
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_result
+  FROM wallet_credit(v_tx.wallet_id, v_tx.amount, p_reference, v_tx.description, v_tx.payment_method);
+
+  IF NOT v_result.already_applied THEN
+    -- 1 loyalty point per ₦100 topped up
+    v_points := FLOOR(v_tx.amount / 100);
+    UPDATE user_wallets w
+    SET loyalty_points = w.loyalty_points + v_points
+    WHERE w.id = v_tx.wallet_id;
+  END IF;
+
+  RETURN QUERY SELECT v_result.transaction_id, v_tx.wallet_id, v_result.new_balance, v_points, v_result.already_applied;
+END;
+$$;
+
+-- Credits only come from the backend; members may debit their own wallet
+REVOKE ALL ON FUNCTION wallet_credit(UUID, DECIMAL, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION wallet_credit(UUID, DECIMAL, TEXT, TEXT, TEXT, JSONB) TO service_role;
+
+REVOKE ALL ON FUNCTION wallet_debit(UUID, DECIMAL, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION wallet_debit(UUID, DECIMAL, TEXT, TEXT, TEXT, JSONB) TO authenticated, service_role;
+
+REVOKE ALL ON FUNCTION complete_wallet_topup(TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_wallet_topup(TEXT, DECIMAL) TO service_role;
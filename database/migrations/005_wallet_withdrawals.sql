@@ -0,0 +1,207 @@
+-- Wallet withdrawals to Nigerian bank accounts
+-- A withdrawal holds the amount as a pending debit while the bank transfer is in
+-- flight; the transfer webhook then finalizes the debit or releases the hold.
+
+-- Saved bank accounts members withdraw to. account_name is the name the bank
+-- resolved, never user input.
+CREATE TABLE IF NOT EXISTS wallet_beneficiaries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  bank_code VARCHAR(10) NOT NULL,
+  bank_name VARCHAR(100) NOT NULL,
+  account_number VARCHAR(10) NOT NULL CHECK (account_number ~ '^\d{10}$'),
+  account_name VARCHAR(255) NOT NULL,
+  recipient_code TEXT, -- Paystack transfer recipient, created on first withdrawal
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_user_beneficiary UNIQUE(user_id, bank_code, account_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_beneficiaries_user_id ON wallet_beneficiaries(user_id);
+
+ALTER TABLE wallet_beneficiaries ENABLE ROW LEVEL SECURITY;
+
+-- Beneficiaries are added by the backend after name resolution; members can view and remove theirs
+DROP POLICY IF EXISTS "Users can view own beneficiaries" ON wallet_beneficiaries;
+CREATE POLICY "Users can view own beneficiaries"
+  ON wallet_beneficiaries FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can delete own beneficiaries" ON wallet_beneficiaries;
+CREATE POLICY "Users can delete own beneficiaries"
+  ON wallet_beneficiaries FOR DELETE
+  USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_wallet_beneficiaries_updated_at ON wallet_beneficiaries;
+CREATE TRIGGER update_wallet_beneficiaries_updated_at
+  BEFORE UPDATE ON wallet_beneficiaries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Places a hold: takes the amount off the balance and records a pending debit.
+-- Replaying the same reference returns the existing hold.
+CREATE OR REPLACE FUNCTION wallet_hold_debit(
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_description TEXT,
+  p_payment_method TEXT DEFAULT 'bank_transfer',
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  new_balance DECIMAL,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet user_wallets%ROWTYPE;
+  v_tx wallet_transactions%ROWTYPE;
+  v_balance DECIMAL(15, 2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Debit amount must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_wallet FROM user_wallets w WHERE w.id = p_wallet_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet % not found', p_wallet_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_wallet.status <> 'active' THEN
+    RAISE EXCEPTION 'Wallet % is %', p_wallet_id, v_wallet.status USING ERRCODE = '55000';
+  END IF;
+
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference;
+
+  IF FOUND THEN
+    IF v_tx.wallet_id = p_wallet_id AND v_tx.type = 'debit' AND v_tx.status IN ('pending', 'completed') THEN
+      RETURN QUERY SELECT v_tx.id, v_wallet.balance, TRUE;
+      RETURN;
+    END IF;
+    RAISE EXCEPTION 'Reference % already used', p_reference USING ERRCODE = '23505';
+  END IF;
+
+  IF v_wallet.balance < p_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance' USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE user_wallets w
+  SET balance = w.balance - p_amount
+  WHERE w.id = p_wallet_id
+  RETURNING w.balance INTO v_balance;
+
+  INSERT INTO wallet_transactions (
+    user_id, wallet_id, type, amount, status, reference,
+    description, payment_method, balance_after, metadata
+  )
+  VALUES (
+    v_wallet.user_id, p_wallet_id, 'debit', p_amount, 'pending', p_reference,
+    p_description, p_payment_method, v_balance, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, v_balance, FALSE;
+END;
+$$;
+
+-- Finalizes a held debit once the money has left (transfer.success)
+CREATE OR REPLACE FUNCTION wallet_finalize_debit(
+  p_reference TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  wallet_id UUID,
+  status TEXT,
+  already_settled BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference FOR UPDATE;
+
+  IF NOT FOUND OR v_tx.type <> 'debit' THEN
+    RAISE EXCEPTION 'Held debit % not found', p_reference USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_tx.status <> 'pending' THEN
+    RETURN QUERY SELECT v_tx.id, v_tx.wallet_id, v_tx.status::TEXT, TRUE;
+    RETURN;
+  END IF;
+
+  UPDATE wallet_transactions t
+  SET status = 'completed',
+      metadata = t.metadata || COALESCE(p_metadata, '{}'::jsonb),
+      updated_at = NOW()
+  WHERE t.id = v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, v_tx.wallet_id, 'completed'::TEXT, FALSE;
+END;
+$$;
+
+-- Releases a held debit (transfer.failed / transfer.reversed): the amount goes back
+-- on the balance and the debit is marked failed with the reason
+CREATE OR REPLACE FUNCTION wallet_release_debit(
+  p_reference TEXT,
+  p_reason TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  wallet_id UUID,
+  new_balance DECIMAL,
+  already_settled BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx wallet_transactions%ROWTYPE;
+  v_balance DECIMAL(15, 2);
+BEGIN
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference FOR UPDATE;
+
+  IF NOT FOUND OR v_tx.type <> 'debit' THEN
+    RAISE EXCEPTION 'Held debit % not found', p_reference USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_tx.status <> 'pending' THEN
+    SELECT w.balance INTO v_balance FROM user_wallets w WHERE w.id = v_tx.wallet_id;
+    RETURN QUERY SELECT v_tx.id, v_tx.wallet_id, v_balance, TRUE;
+    RETURN;
+  END IF;
+
+  UPDATE user_wallets w
+  SET balance = w.balance + v_tx.amount
+  WHERE w.id = v_tx.wallet_id
+  RETURNING w.balance INTO v_balance;
+
+  UPDATE wallet_transactions t
+  SET status = 'failed',
+      metadata = t.metadata || COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object('release_reason', p_reason),
+      updated_at = NOW()
+  WHERE t.id = v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, v_tx.wallet_id, v_balance, FALSE;
+END;
+$$;
+
+-- Holds are placed and settled by the backend only
+REVOKE ALL ON FUNCTION wallet_hold_debit(UUID, DECIMAL, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION wallet_hold_debit(UUID, DECIMAL, TEXT, TEXT, TEXT, JSONB) TO service_role;
+
+REVOKE ALL ON FUNCTION wallet_finalize_debit(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION wallet_finalize_debit(TEXT, JSONB) TO service_role;
+
+REVOKE ALL ON FUNCTION wallet_release_debit(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION wallet_release_debit(TEXT, TEXT, JSONB) TO service_role;
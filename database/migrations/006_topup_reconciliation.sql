@@ -0,0 +1,75 @@
+-- Top-up reconciliation
+-- backend/reconciliation.js walks stale pending top-ups, verifies each reference
+-- with the provider and settles it: complete_wallet_topup for paid charges,
+-- fail_wallet_topup for charges that will never be paid.
+
+-- Marks a pending top-up as failed. No money moves; completed or already failed
+-- rows are returned unchanged with already_settled = true.
+CREATE OR REPLACE FUNCTION fail_wallet_topup(
+  p_reference TEXT,
+  p_reason TEXT
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  status TEXT,
+  already_settled BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet transaction % not found', p_reference USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_tx.type <> 'credit' THEN
+    RAISE EXCEPTION 'Wallet transaction % is not a credit', p_reference USING ERRCODE = '22023';
+  END IF;
+
+  IF v_tx.status <> 'pending' THEN
+    RETURN QUERY SELECT v_tx.id, v_tx.status::TEXT, TRUE;
+    RETURN;
+  END IF;
+
+  UPDATE wallet_transactions t
+  SET status = 'failed',
+      metadata = t.metadata || jsonb_build_object('failure_reason', p_reason),
+      updated_at = NOW()
+  WHERE t.id = v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, 'failed'::TEXT, FALSE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION fail_wallet_topup(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fail_wallet_topup(TEXT, TEXT) TO service_role;
+
+-- One row per reconciliation run, with the mismatches that need a human
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job VARCHAR(50) NOT NULL,
+  trigger VARCHAR(20) NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  scanned INTEGER NOT NULL DEFAULT 0,
+  completed INTEGER NOT NULL DEFAULT 0,
+  failed INTEGER NOT NULL DEFAULT 0,
+  still_pending INTEGER NOT NULL DEFAULT 0,
+  mismatches JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_job ON reconciliation_runs(job, started_at DESC);
+
+-- Stale pending rows are found by status and age
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_pending
+  ON wallet_transactions(created_at)
+  WHERE status = 'pending';
+
+-- Backend only: no policies, so members cannot read runs
+ALTER TABLE reconciliation_runs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,53 @@
+-- Bank transfers into members' dedicated virtual accounts
+-- The payment webhook matches the receiving account (or the provider customer)
+-- to user_wallets and credits the wallet through the ledger.
+
+-- Provider customer the virtual account belongs to (e.g. Paystack CUS_xxx)
+ALTER TABLE user_wallets
+ADD COLUMN IF NOT EXISTS provider VARCHAR(20),
+ADD COLUMN IF NOT EXISTS provider_customer_code TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_user_wallets_provider_customer_code
+  ON user_wallets(provider_customer_code)
+  WHERE provider_customer_code IS NOT NULL;
+
+-- Credits a deposit into a wallet's virtual account and awards loyalty points like
+-- a card top-up. Idempotent by the provider's transaction reference.
+CREATE OR REPLACE FUNCTION credit_wallet_deposit(
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_description TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  new_balance DECIMAL,
+  points_earned INTEGER,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result RECORD;
+  v_points INTEGER := 0;
+BEGIN
+  SELECT * INTO v_result
+  FROM wallet_credit(p_wallet_id, p_amount, p_reference, p_description, 'bank_transfer', p_metadata);
+
+  IF NOT v_result.already_applied THEN
+    -- 1 loyalty point per ₦100, same as card top-ups
+    v_points := FLOOR(p_amount / 100);
+    UPDATE user_wallets w
+    SET loyalty_points = w.loyalty_points + v_points
+    WHERE w.id = p_wallet_id;
+  END IF;
+
+  RETURN QUERY SELECT v_result.transaction_id, v_result.new_balance, v_points, v_result.already_applied;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION credit_wallet_deposit(UUID, DECIMAL, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION credit_wallet_deposit(UUID, DECIMAL, TEXT, TEXT, JSONB) TO service_role;
@@ -0,0 +1,43 @@
+-- Durable webhook event store
+-- Every inbound payment webhook is stored before it is processed, deduplicated by
+-- the provider's event id, retried with backoff on failure and dead-lettered after
+-- too many attempts. See backend/webhook-store.js.
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider VARCHAR(20) NOT NULL,
+  event_id TEXT, -- NULL for events whose signature failed, so they never block the real one
+  event_type TEXT,
+  reference TEXT,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  raw_body TEXT,
+  signature_valid BOOLEAN NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processing', 'processed', 'failed', 'dead_letter', 'rejected')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  outcome JSONB,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT unique_webhook_event UNIQUE(provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_reference ON webhook_events(reference);
+
+-- Retry worker scans for failed events that are due
+CREATE INDEX IF NOT EXISTS idx_webhook_events_retry
+  ON webhook_events(next_attempt_at)
+  WHERE status IN ('failed', 'processing');
+
+DROP TRIGGER IF EXISTS update_webhook_events_updated_at ON webhook_events;
+CREATE TRIGGER update_webhook_events_updated_at
+  BEFORE UPDATE ON webhook_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Backend only: no policies, so members cannot read raw payment payloads
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,77 @@
+-- Table booking fees paid from the Privé wallet
+-- Debits the wallet and inserts the booking in one transaction, so a member is
+-- never charged without a booking (or booked without being charged). Split-tender
+-- bookings pass only the wallet part here; the rest was paid through Paystack.
+
+CREATE INDEX IF NOT EXISTS idx_bookings_wallet_reference
+  ON bookings((metadata->>'wallet_reference'))
+  WHERE metadata ? 'wallet_reference';
+
+-- Runs as the caller: wallet_debit only lets members debit their own wallet and the
+-- insert goes through the same bookings RLS policies as the app's direct inserts.
+-- Replaying a reference returns the booking it already paid for.
+CREATE OR REPLACE FUNCTION create_booking_with_wallet_payment(
+  p_booking JSONB,
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_description TEXT
+)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_debit RECORD;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_debit
+  FROM wallet_debit(
+    p_wallet_id,
+    p_amount,
+    p_reference,
+    p_description,
+    'wallet',
+    jsonb_build_object(
+      'purpose', 'table_booking',
+      'table_id', p_booking->>'table_id',
+      'booking_date', p_booking->>'booking_date'
+    )
+  );
+
+  IF v_debit.already_applied THEN
+    RETURN QUERY SELECT * FROM bookings b WHERE b.metadata->>'wallet_reference' = p_reference;
+    RETURN;
+  END IF;
+
+  INSERT INTO bookings (
+    user_id, table_id, booking_date, guest_count, guest_name, guest_email, guest_phone,
+    special_requests, status, booking_fee, payment_reference, payment_status, metadata
+  )
+  VALUES (
+    (p_booking->>'user_id')::UUID,
+    (p_booking->>'table_id')::UUID,
+    (p_booking->>'booking_date')::DATE,
+    (p_booking->>'guest_count')::INTEGER,
+    p_booking->>'guest_name',
+    p_booking->>'guest_email',
+    p_booking->>'guest_phone',
+    p_booking->>'special_requests',
+    COALESCE(p_booking->>'status', 'confirmed'),
+    (p_booking->>'booking_fee')::DECIMAL,
+    p_booking->>'payment_reference',
+    COALESCE(p_booking->>'payment_status', 'paid'),
+    COALESCE(p_booking->'metadata', '{}'::jsonb) || jsonb_build_object(
+      'wallet_reference', p_reference,
+      'wallet_transaction_id', v_debit.transaction_id
+    )
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN NEXT v_booking;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_booking_with_wallet_payment(JSONB, UUID, DECIMAL, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_booking_with_wallet_payment(JSONB, UUID, DECIMAL, TEXT, TEXT) TO authenticated, service_role;
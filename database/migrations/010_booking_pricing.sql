@@ -0,0 +1,108 @@
+-- Booking pricing
+-- The backend pricing engine (backend/pricing.js) turns a table's booking fee into
+-- the amount payable: membership discounts first, then at most one promotion.
+-- Bookings keep what was charged and every discount applied so finance can audit them.
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code VARCHAR(40) UNIQUE, -- NULL applies automatically; otherwise the member enters it
+  name TEXT NOT NULL,
+  description TEXT,
+  discount_type VARCHAR(10) NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value DECIMAL(15, 2) NOT NULL CHECK (discount_value > 0),
+  max_discount DECIMAL(15, 2), -- cap for percent discounts
+  min_fee DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  audience VARCHAR(10) NOT NULL DEFAULT 'all' CHECK (audience IN ('all', 'prive')),
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT percent_discount_range CHECK (discount_type <> 'percent' OR discount_value <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_active ON promotions(is_active, starts_at, ends_at);
+
+DROP TRIGGER IF EXISTS update_promotions_updated_at ON promotions;
+CREATE TRIGGER update_promotions_updated_at
+  BEFORE UPDATE ON promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Priced by the backend; members never read the promotions table directly
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+
+-- What the member was charged. booking_fee stays the table's list price.
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS amount_payable DECIMAL(15, 2),
+ADD COLUMN IF NOT EXISTS discount_total DECIMAL(15, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS applied_discounts JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Wallet-paid bookings carry the pricing columns too
+CREATE OR REPLACE FUNCTION create_booking_with_wallet_payment(
+  p_booking JSONB,
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_description TEXT
+)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_debit RECORD;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_debit
+  FROM wallet_debit(
+    p_wallet_id,
+    p_amount,
+    p_reference,
+    p_description,
+    'wallet',
+    jsonb_build_object(
+      'purpose', 'table_booking',
+      'table_id', p_booking->>'table_id',
+      'booking_date', p_booking->>'booking_date'
+    )
+  );
+
+  IF v_debit.already_applied THEN
+    RETURN QUERY SELECT * FROM bookings b WHERE b.metadata->>'wallet_reference' = p_reference;
+    RETURN;
+  END IF;
+
+  INSERT INTO bookings (
+    user_id, table_id, booking_date, guest_count, guest_name, guest_email, guest_phone,
+    special_requests, status, booking_fee, amount_payable, discount_total, applied_discounts,
+    payment_reference, payment_status, metadata
+  )
+  VALUES (
+    (p_booking->>'user_id')::UUID,
+    (p_booking->>'table_id')::UUID,
+    (p_booking->>'booking_date')::DATE,
+    (p_booking->>'guest_count')::INTEGER,
+    p_booking->>'guest_name',
+    p_booking->>'guest_email',
+    p_booking->>'guest_phone',
+    p_booking->>'special_requests',
+    COALESCE(p_booking->>'status', 'confirmed'),
+    (p_booking->>'booking_fee')::DECIMAL,
+    (p_booking->>'amount_payable')::DECIMAL,
+    COALESCE((p_booking->>'discount_total')::DECIMAL, 0),
+    COALESCE(p_booking->'applied_discounts', '[]'::jsonb),
+    p_booking->>'payment_reference',
+    COALESCE(p_booking->>'payment_status', 'paid'),
+    COALESCE(p_booking->'metadata', '{}'::jsonb) || jsonb_build_object(
+      'wallet_reference', p_reference,
+      'wallet_transaction_id', v_debit.transaction_id
+    )
+  )
+  RETURNING * INTO v_booking;
+
+  RETURN NEXT v_booking;
+END;
+$$;
@@ -0,0 +1,292 @@
+-- Privé membership tiers
+-- A member's tier comes from what they spent in the last 12 months (paid bookings,
+-- bill payments and merch), not from their wallet balance. Thresholds and the
+-- benefits of each tier live in membership_tiers so they can change without a
+-- release; every tier change is recorded in membership_tier_history.
+
+CREATE TABLE IF NOT EXISTS membership_tiers (
+  id VARCHAR(20) PRIMARY KEY, -- 'bronze', 'silver', ...
+  name VARCHAR(50) NOT NULL,
+  rank INTEGER NOT NULL UNIQUE, -- higher is better
+  min_spend DECIMAL(15, 2) NOT NULL DEFAULT 0, -- rolling 12-month spend to qualify
+  booking_discount_percent DECIMAL(5, 2) NOT NULL DEFAULT 0,
+  points_multiplier DECIMAL(4, 2) NOT NULL DEFAULT 1,
+  benefits JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ title, description, icon }] shown on the Privé screen
+  color VARCHAR(9),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_membership_tiers_updated_at ON membership_tiers;
+CREATE TRIGGER update_membership_tiers_updated_at
+  BEFORE UPDATE ON membership_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE membership_tiers ENABLE ROW LEVEL SECURITY;
+
+-- Tier configuration is public to signed-in members (the app shows the ladder)
+DROP POLICY IF EXISTS "Members can view tiers" ON membership_tiers;
+CREATE POLICY "Members can view tiers"
+  ON membership_tiers FOR SELECT
+  TO authenticated
+  USING (is_active);
+
+INSERT INTO membership_tiers (id, name, rank, min_spend, booking_discount_percent, points_multiplier, color, benefits)
+VALUES
+  ('bronze', 'Bronze', 1, 0, 15, 1, '#CD7F32', '[
+    {"title": "15% booking discount", "description": "Save on every reservation", "icon": "percent"},
+    {"title": "Loyalty rewards", "description": "Earn points on every top-up", "icon": "gift"}
+  ]'::jsonb),
+  ('silver', 'Silver', 2, 500000, 15, 1.25, '#C0C0C0', '[
+    {"title": "15% booking discount", "description": "Save on every reservation", "icon": "percent"},
+    {"title": "Exclusive events", "description": "Access to members-only nights", "icon": "star"},
+    {"title": "1.25x loyalty points", "description": "Earn faster on every top-up", "icon": "gift"}
+  ]'::jsonb),
+  ('gold', 'Gold', 3, 2000000, 20, 1.5, '#D4AF37', '[
+    {"title": "20% booking discount", "description": "Save more on every reservation", "icon": "percent"},
+    {"title": "Exclusive events", "description": "Access to members-only nights", "icon": "star"},
+    {"title": "1.5x loyalty points", "description": "Earn faster on every top-up", "icon": "gift"},
+    {"title": "VIP table access", "description": "Best tables in the house", "icon": "checkmark.seal"}
+  ]'::jsonb)
+ON CONFLICT (id) DO NOTHING;
+
+-- Current tier, kept up to date by refresh_member_tier
+ALTER TABLE user_wallets
+ADD COLUMN IF NOT EXISTS tier_id VARCHAR(20) REFERENCES membership_tiers(id),
+ADD COLUMN IF NOT EXISTS rolling_spend DECIMAL(15, 2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS tier_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS membership_tier_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_tier_id VARCHAR(20) REFERENCES membership_tiers(id),
+  to_tier_id VARCHAR(20) NOT NULL REFERENCES membership_tiers(id),
+  rolling_spend DECIMAL(15, 2) NOT NULL,
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('initial', 'upgrade', 'downgrade')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_membership_tier_history_user ON membership_tier_history(user_id, created_at DESC);
+
+ALTER TABLE membership_tier_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own tier history" ON membership_tier_history;
+CREATE POLICY "Users can view own tier history"
+  ON membership_tier_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- What a member spent in the 12 months before p_as_of.
+-- Bookings count what was charged less any refund; bill payments and merch are
+-- completed wallet debits (merch debits are tagged with metadata.purpose = 'merch').
+-- Booking fees paid from the wallet are counted once, from bookings.
+CREATE OR REPLACE FUNCTION member_rolling_spend(p_user_id UUID, p_as_of TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS TABLE (
+  bookings DECIMAL,
+  bill_payments DECIMAL,
+  merch DECIMAL,
+  total DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_since TIMESTAMP WITH TIME ZONE := p_as_of - INTERVAL '12 months';
+  v_bookings DECIMAL;
+  v_bills DECIMAL;
+  v_merch DECIMAL;
+BEGIN
+  SELECT COALESCE(SUM(
+    GREATEST(
+      COALESCE(b.amount_payable, b.booking_fee)
+        - CASE WHEN b.payment_status = 'refunded'
+            THEN COALESCE((b.metadata->'refund'->>'amount')::DECIMAL, COALESCE(b.amount_payable, b.booking_fee))
+            ELSE 0 END,
+      0
+    )
+  ), 0)
+  INTO v_bookings
+  FROM bookings b
+  WHERE b.user_id = p_user_id
+    AND b.payment_status IN ('paid', 'refunded')
+    AND b.created_at > v_since
+    AND b.created_at <= p_as_of;
+
+  SELECT
+    COALESCE(SUM(t.amount) FILTER (WHERE t.reference LIKE 'QLXBILL-%'), 0),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.metadata->>'purpose' = 'merch'), 0)
+  INTO v_bills, v_merch
+  FROM wallet_transactions t
+  WHERE t.user_id = p_user_id
+    AND t.type = 'debit'
+    AND t.status = 'completed'
+    AND t.created_at > v_since
+    AND t.created_at <= p_as_of;
+
+  RETURN QUERY SELECT v_bookings, v_bills, v_merch, v_bookings + v_bills + v_merch;
+END;
+$$;
+
+-- Recomputes a member's tier from their rolling spend and records any change
+CREATE OR REPLACE FUNCTION apply_member_tier(p_user_id UUID)
+RETURNS TABLE (
+  tier_id VARCHAR,
+  previous_tier_id VARCHAR,
+  rolling_spend DECIMAL,
+  changed BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet user_wallets%ROWTYPE;
+  v_spend DECIMAL;
+  v_tier membership_tiers%ROWTYPE;
+  v_previous membership_tiers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_wallet FROM user_wallets w WHERE w.user_id = p_user_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No Privé wallet for %', p_user_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT s.total INTO v_spend FROM member_rolling_spend(p_user_id) s;
+
+  SELECT * INTO v_tier
+  FROM membership_tiers mt
+  WHERE mt.is_active AND mt.min_spend <= v_spend
+  ORDER BY mt.rank DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No membership tier configured for spend %', v_spend USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE user_wallets w
+  SET rolling_spend = v_spend,
+      tier_id = v_tier.id,
+      tier_updated_at = CASE WHEN w.tier_id IS DISTINCT FROM v_tier.id THEN NOW() ELSE w.tier_updated_at END
+  WHERE w.id = v_wallet.id;
+
+  IF v_wallet.tier_id IS DISTINCT FROM v_tier.id THEN
+    SELECT * INTO v_previous FROM membership_tiers mt WHERE mt.id = v_wallet.tier_id;
+
+    INSERT INTO membership_tier_history (user_id, from_tier_id, to_tier_id, rolling_spend, reason)
+    VALUES (
+      p_user_id,
+      v_wallet.tier_id,
+      v_tier.id,
+      v_spend,
+      CASE
+        WHEN v_wallet.tier_id IS NULL THEN 'initial'
+        WHEN v_tier.rank > v_previous.rank THEN 'upgrade'
+        ELSE 'downgrade'
+      END
+    );
+  END IF;
+
+  RETURN QUERY SELECT v_tier.id, v_wallet.tier_id, v_spend, v_wallet.tier_id IS DISTINCT FROM v_tier.id;
+END;
+$$;
+
+-- Members may refresh their own tier; the service role any member's
+CREATE OR REPLACE FUNCTION refresh_member_tier(p_user_id UUID)
+RETURNS TABLE (
+  tier_id VARCHAR,
+  previous_tier_id VARCHAR,
+  rolling_spend DECIMAL,
+  changed BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND p_user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to refresh tier for %', p_user_id USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY SELECT * FROM apply_member_tier(p_user_id);
+END;
+$$;
+
+-- Spend drops out of the 12-month window without any new activity, so the backend
+-- refreshes every wallet on a schedule (see /api/jobs/refresh-tiers)
+CREATE OR REPLACE FUNCTION refresh_all_member_tiers()
+RETURNS TABLE (
+  refreshed INTEGER,
+  changed INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_result RECORD;
+  v_refreshed INTEGER := 0;
+  v_changed INTEGER := 0;
+BEGIN
+  FOR v_user_id IN SELECT w.user_id FROM user_wallets w LOOP
+    SELECT * INTO v_result FROM apply_member_tier(v_user_id);
+    v_refreshed := v_refreshed + 1;
+    IF v_result.changed THEN
+      v_changed := v_changed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT v_refreshed, v_changed;
+END;
+$$;
+
+-- Keep tiers current as spend happens. A tier refresh must never fail the payment
+-- that triggered it; the scheduled refresh catches anything missed here.
+CREATE OR REPLACE FUNCTION refresh_member_tier_on_spend()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_id IS NOT NULL AND EXISTS (SELECT 1 FROM user_wallets w WHERE w.user_id = NEW.user_id) THEN
+    BEGIN
+      PERFORM apply_member_tier(NEW.user_id);
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Tier refresh for % failed: %', NEW.user_id, SQLERRM;
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_tier_on_booking_payment ON bookings;
+CREATE TRIGGER refresh_tier_on_booking_payment
+  AFTER INSERT OR UPDATE OF payment_status ON bookings
+  FOR EACH ROW
+  WHEN (NEW.payment_status IN ('paid', 'refunded'))
+  EXECUTE FUNCTION refresh_member_tier_on_spend();
+
+DROP TRIGGER IF EXISTS refresh_tier_on_wallet_debit ON wallet_transactions;
+CREATE TRIGGER refresh_tier_on_wallet_debit
+  AFTER INSERT OR UPDATE OF status ON wallet_transactions
+  FOR EACH ROW
+  WHEN (NEW.type = 'debit' AND NEW.status = 'completed')
+  EXECUTE FUNCTION refresh_member_tier_on_spend();
+
+-- Place existing members
+SELECT refresh_all_member_tiers();
+
+REVOKE ALL ON FUNCTION member_rolling_spend(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION member_rolling_spend(UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+REVOKE ALL ON FUNCTION apply_member_tier(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_member_tier(UUID) TO service_role;
+
+REVOKE ALL ON FUNCTION refresh_member_tier(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION refresh_member_tier(UUID) TO authenticated, service_role;
+
+REVOKE ALL ON FUNCTION refresh_all_member_tiers() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_all_member_tiers() TO service_role;
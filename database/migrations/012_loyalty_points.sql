@@ -0,0 +1,575 @@
+-- Loyalty points ledger and rewards
+-- Replaces the bare user_wallets.loyalty_points counter with a ledger: every earn,
+-- redemption, expiry and adjustment is an entry with a unique reference, and
+-- loyalty_points becomes a cached balance that only these functions change (the
+-- same way wallet_transactions back user_wallets.balance).
+--
+-- Points expire 12 months after they are earned. Positive entries are "lots" that
+-- track how many of their points are left; redemptions use the oldest lots first
+-- and expiry removes whatever is left of a lot when it runs out.
+
+CREATE TABLE IF NOT EXISTS loyalty_point_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  wallet_id UUID NOT NULL REFERENCES user_wallets(id) ON DELETE CASCADE,
+  type VARCHAR(10) NOT NULL CHECK (type IN ('earn', 'redeem', 'expire', 'adjust')),
+  points INTEGER NOT NULL CHECK (points <> 0), -- signed: + earn/adjust, - redeem/expire/adjust
+  balance_after INTEGER NOT NULL,
+  remaining INTEGER NOT NULL DEFAULT 0, -- unspent points of a positive entry
+  expires_at TIMESTAMP WITH TIME ZONE,
+  reference TEXT NOT NULL UNIQUE,
+  description TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT remaining_within_points CHECK (remaining >= 0 AND remaining <= GREATEST(points, 0))
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_point_entries_wallet ON loyalty_point_entries(wallet_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_point_entries_lots
+  ON loyalty_point_entries(wallet_id, expires_at)
+  WHERE remaining > 0;
+
+ALTER TABLE loyalty_point_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own loyalty points" ON loyalty_point_entries;
+CREATE POLICY "Users can view own loyalty points"
+  ON loyalty_point_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Rewards members can spend points on
+CREATE TABLE IF NOT EXISTS rewards (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  category VARCHAR(20) NOT NULL CHECK (category IN ('bottle', 'table_upgrade', 'merch_voucher')),
+  points_cost INTEGER NOT NULL CHECK (points_cost > 0),
+  stock INTEGER CHECK (stock IS NULL OR stock >= 0), -- NULL is unlimited
+  code_valid_days INTEGER NOT NULL DEFAULT 30,
+  image_url TEXT,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_rewards_updated_at ON rewards;
+CREATE TRIGGER update_rewards_updated_at
+  BEFORE UPDATE ON rewards
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE rewards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view active rewards" ON rewards;
+CREATE POLICY "Members can view active rewards"
+  ON rewards FOR SELECT
+  TO authenticated
+  USING (is_active);
+
+INSERT INTO rewards (name, description, category, points_cost, code_valid_days, display_order)
+SELECT * FROM (VALUES
+  ('Complimentary Bottle', 'A bottle of house champagne on your next visit', 'bottle', 5000, 30, 1),
+  ('Table Upgrade', 'Upgrade your next booking to a VIP table, subject to availability', 'table_upgrade', 8000, 60, 2),
+  ('₦10,000 Merch Voucher', 'Spend it on anything in the Quilox shop', 'merch_voucher', 2500, 90, 3)
+) AS seed(name, description, category, points_cost, code_valid_days, display_order)
+WHERE NOT EXISTS (SELECT 1 FROM rewards);
+
+-- A redeemed reward: the code is shown to staff, who mark it fulfilled
+CREATE TABLE IF NOT EXISTS reward_redemptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reward_id UUID NOT NULL REFERENCES rewards(id),
+  points INTEGER NOT NULL,
+  code VARCHAR(12) NOT NULL UNIQUE,
+  status VARCHAR(20) NOT NULL DEFAULT 'issued' CHECK (status IN ('issued', 'fulfilled', 'expired', 'cancelled')),
+  ledger_reference TEXT NOT NULL REFERENCES loyalty_point_entries(reference),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  fulfilled_at TIMESTAMP WITH TIME ZONE,
+  fulfilled_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_user ON reward_redemptions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reward_redemptions_issued ON reward_redemptions(expires_at) WHERE status = 'issued';
+
+DROP TRIGGER IF EXISTS update_reward_redemptions_updated_at ON reward_redemptions;
+CREATE TRIGGER update_reward_redemptions_updated_at
+  BEFORE UPDATE ON reward_redemptions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE reward_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own redemptions" ON reward_redemptions;
+CREATE POLICY "Users can view own redemptions"
+  ON reward_redemptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ==================== LEDGER FUNCTIONS ====================
+
+-- Adds points as a new lot that expires after 12 months.
+-- Idempotent by reference: a replay returns the current balance with already_applied = true.
+CREATE OR REPLACE FUNCTION loyalty_add_points(
+  p_wallet_id UUID,
+  p_points INTEGER,
+  p_type TEXT,
+  p_reference TEXT,
+  p_description TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  entry_id UUID,
+  new_balance INTEGER,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet user_wallets%ROWTYPE;
+  v_entry loyalty_point_entries%ROWTYPE;
+  v_balance INTEGER;
+BEGIN
+  IF p_points IS NULL OR p_points <= 0 THEN
+    RAISE EXCEPTION 'Points must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_type NOT IN ('earn', 'adjust') THEN
+    RAISE EXCEPTION 'Cannot add points as %', p_type USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_wallet FROM user_wallets w WHERE w.id = p_wallet_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet % not found', p_wallet_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_entry FROM loyalty_point_entries e WHERE e.reference = p_reference;
+  IF FOUND THEN
+    IF v_entry.wallet_id = p_wallet_id AND v_entry.type = p_type THEN
+      RETURN QUERY SELECT v_entry.id, v_wallet.loyalty_points, TRUE;
+      RETURN;
+    END IF;
+    RAISE EXCEPTION 'Reference % already used', p_reference USING ERRCODE = '23505';
+  END IF;
+
+  UPDATE user_wallets w
+  SET loyalty_points = w.loyalty_points + p_points
+  WHERE w.id = p_wallet_id
+  RETURNING w.loyalty_points INTO v_balance;
+
+  INSERT INTO loyalty_point_entries (
+    user_id, wallet_id, type, points, balance_after, remaining, expires_at,
+    reference, description, metadata
+  )
+  VALUES (
+    v_wallet.user_id, p_wallet_id, p_type, p_points, v_balance, p_points, NOW() + INTERVAL '12 months',
+    p_reference, p_description, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_entry.id;
+
+  RETURN QUERY SELECT v_entry.id, v_balance, FALSE;
+END;
+$$;
+
+-- Takes points from the oldest unexpired lots first.
+-- Fails with check_violation (23514) when the unexpired points do not cover it.
+CREATE OR REPLACE FUNCTION loyalty_use_points(
+  p_wallet_id UUID,
+  p_points INTEGER,
+  p_type TEXT,
+  p_reference TEXT,
+  p_description TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  entry_id UUID,
+  new_balance INTEGER,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet user_wallets%ROWTYPE;
+  v_entry loyalty_point_entries%ROWTYPE;
+  v_lot RECORD;
+  v_left INTEGER := p_points;
+  v_take INTEGER;
+  v_available INTEGER;
+  v_balance INTEGER;
+BEGIN
+  IF p_points IS NULL OR p_points <= 0 THEN
+    RAISE EXCEPTION 'Points must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_type NOT IN ('redeem', 'adjust') THEN
+    RAISE EXCEPTION 'Cannot use points as %', p_type USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_wallet FROM user_wallets w WHERE w.id = p_wallet_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet % not found', p_wallet_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_entry FROM loyalty_point_entries e WHERE e.reference = p_reference;
+  IF FOUND THEN
+    IF v_entry.wallet_id = p_wallet_id AND v_entry.type = p_type THEN
+      RETURN QUERY SELECT v_entry.id, v_wallet.loyalty_points, TRUE;
+      RETURN;
+    END IF;
+    RAISE EXCEPTION 'Reference % already used', p_reference USING ERRCODE = '23505';
+  END IF;
+
+  SELECT COALESCE(SUM(e.remaining), 0) INTO v_available
+  FROM loyalty_point_entries e
+  WHERE e.wallet_id = p_wallet_id AND e.remaining > 0 AND e.expires_at > NOW();
+
+  IF v_available < p_points THEN
+    RAISE EXCEPTION 'Insufficient loyalty points' USING ERRCODE = '23514';
+  END IF;
+
+  FOR v_lot IN
+    SELECT e.id, e.remaining
+    FROM loyalty_point_entries e
+    WHERE e.wallet_id = p_wallet_id AND e.remaining > 0 AND e.expires_at > NOW()
+    ORDER BY e.expires_at, e.created_at
+    FOR UPDATE
+  LOOP
+    v_take := LEAST(v_lot.remaining, v_left);
+    UPDATE loyalty_point_entries e SET remaining = e.remaining - v_take WHERE e.id = v_lot.id;
+    v_left := v_left - v_take;
+    EXIT WHEN v_left = 0;
+  END LOOP;
+
+  UPDATE user_wallets w
+  SET loyalty_points = w.loyalty_points - p_points
+  WHERE w.id = p_wallet_id
+  RETURNING w.loyalty_points INTO v_balance;
+
+  INSERT INTO loyalty_point_entries (
+    user_id, wallet_id, type, points, balance_after, reference, description, metadata
+  )
+  VALUES (
+    v_wallet.user_id, p_wallet_id, p_type, -p_points, v_balance, p_reference, p_description, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_entry.id;
+
+  RETURN QUERY SELECT v_entry.id, v_balance, FALSE;
+END;
+$$;
+
+-- Points a spend earns: 1 per ₦100, times the member's tier multiplier
+CREATE OR REPLACE FUNCTION loyalty_points_for_amount(p_wallet_id UUID, p_amount DECIMAL)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT FLOOR(p_amount / 100 * COALESCE(mt.points_multiplier, 1))::INTEGER
+  FROM user_wallets w
+  LEFT JOIN membership_tiers mt ON mt.id = w.tier_id
+  WHERE w.id = p_wallet_id;
+$$;
+
+-- Manual corrections by staff: positive amounts add a lot, negative ones use points
+CREATE OR REPLACE FUNCTION loyalty_adjust(
+  p_wallet_id UUID,
+  p_points INTEGER,
+  p_reference TEXT,
+  p_description TEXT
+)
+RETURNS TABLE (
+  entry_id UUID,
+  new_balance INTEGER,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_points > 0 THEN
+    RETURN QUERY SELECT * FROM loyalty_add_points(p_wallet_id, p_points, 'adjust', p_reference, p_description);
+  ELSE
+    RETURN QUERY SELECT * FROM loyalty_use_points(p_wallet_id, -p_points, 'adjust', p_reference, p_description);
+  END IF;
+END;
+$$;
+
+-- Redeems a reward for the signed-in member and issues a code for staff to fulfil
+CREATE OR REPLACE FUNCTION redeem_reward(p_reward_id UUID, p_reference TEXT)
+RETURNS SETOF reward_redemptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet user_wallets%ROWTYPE;
+  v_reward rewards%ROWTYPE;
+  v_result RECORD;
+  v_code TEXT;
+BEGIN
+  SELECT * INTO v_wallet FROM user_wallets w WHERE w.user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No Privé wallet' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_wallet.status <> 'active' THEN
+    RAISE EXCEPTION 'Wallet % is %', v_wallet.id, v_wallet.status USING ERRCODE = '55000';
+  END IF;
+
+  -- Replaying a reference returns the code it already issued
+  IF EXISTS (SELECT 1 FROM reward_redemptions r WHERE r.ledger_reference = p_reference AND r.user_id = v_wallet.user_id) THEN
+    RETURN QUERY SELECT * FROM reward_redemptions r WHERE r.ledger_reference = p_reference;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_reward FROM rewards r WHERE r.id = p_reward_id AND r.is_active FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Reward % not found', p_reward_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_reward.stock IS NOT NULL AND v_reward.stock <= 0 THEN
+    RAISE EXCEPTION 'Reward % is out of stock', p_reward_id USING ERRCODE = '55000';
+  END IF;
+
+  SELECT * INTO v_result
+  FROM loyalty_use_points(
+    v_wallet.id, v_reward.points_cost, 'redeem', p_reference,
+    'Redeemed: ' || v_reward.name, jsonb_build_object('reward_id', v_reward.id)
+  );
+
+  IF v_reward.stock IS NOT NULL THEN
+    UPDATE rewards r SET stock = r.stock - 1 WHERE r.id = v_reward.id;
+  END IF;
+
+  -- Short, unambiguous code to read out at the bar (no 0/O or 1/I)
+  LOOP
+    v_code := 'QLX' || translate(upper(substr(md5(uuid_generate_v4()::text), 1, 6)), '01', '89');
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM reward_redemptions r WHERE r.code = v_code);
+  END LOOP;
+
+  RETURN QUERY
+  INSERT INTO reward_redemptions (user_id, reward_id, points, code, ledger_reference, expires_at)
+  VALUES (
+    v_wallet.user_id, v_reward.id, v_reward.points_cost, v_code, p_reference,
+    NOW() + make_interval(days => v_reward.code_valid_days)
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Marks an issued code as used. Called by the backend for staff.
+CREATE OR REPLACE FUNCTION fulfil_reward_redemption(p_code TEXT, p_staff_id UUID)
+RETURNS SETOF reward_redemptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_redemption reward_redemptions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_redemption FROM reward_redemptions r WHERE r.code = upper(p_code) FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Redemption code % not found', p_code USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_redemption.status <> 'issued' OR v_redemption.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Redemption code % is %', p_code,
+      CASE WHEN v_redemption.status = 'issued' THEN 'expired' ELSE v_redemption.status END
+      USING ERRCODE = '55000';
+  END IF;
+
+  RETURN QUERY
+  UPDATE reward_redemptions r
+  SET status = 'fulfilled', fulfilled_at = NOW(), fulfilled_by = p_staff_id
+  WHERE r.id = v_redemption.id
+  RETURNING *;
+END;
+$$;
+
+-- Expiry job: removes what is left of lots past their expiry date, and returns the
+-- points of reward codes that were never used
+CREATE OR REPLACE FUNCTION expire_loyalty_points()
+RETURNS TABLE (
+  lots_expired INTEGER,
+  points_expired INTEGER,
+  codes_expired INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot RECORD;
+  v_redemption RECORD;
+  v_balance INTEGER;
+  v_lots INTEGER := 0;
+  v_points INTEGER := 0;
+  v_codes INTEGER := 0;
+BEGIN
+  FOR v_redemption IN
+    SELECT r.* FROM reward_redemptions r
+    WHERE r.status = 'issued' AND r.expires_at <= NOW()
+    FOR UPDATE
+  LOOP
+    UPDATE reward_redemptions r SET status = 'expired' WHERE r.id = v_redemption.id;
+
+    PERFORM loyalty_add_points(
+      w.id, v_redemption.points, 'adjust', 'RWDEXP-' || v_redemption.id,
+      'Unused reward code ' || v_redemption.code || ' returned'
+    )
+    FROM user_wallets w WHERE w.user_id = v_redemption.user_id;
+
+    UPDATE rewards rw SET stock = rw.stock + 1 WHERE rw.id = v_redemption.reward_id AND rw.stock IS NOT NULL;
+    v_codes := v_codes + 1;
+  END LOOP;
+
+  FOR v_lot IN
+    SELECT e.* FROM loyalty_point_entries e
+    WHERE e.remaining > 0 AND e.expires_at <= NOW()
+    ORDER BY e.wallet_id, e.expires_at
+    FOR UPDATE
+  LOOP
+    UPDATE loyalty_point_entries e SET remaining = 0 WHERE e.id = v_lot.id;
+
+    UPDATE user_wallets w
+    SET loyalty_points = w.loyalty_points - v_lot.remaining
+    WHERE w.id = v_lot.wallet_id
+    RETURNING w.loyalty_points INTO v_balance;
+
+    INSERT INTO loyalty_point_entries (user_id, wallet_id, type, points, balance_after, reference, description, metadata)
+    VALUES (
+      v_lot.user_id, v_lot.wallet_id, 'expire', -v_lot.remaining, v_balance,
+      'PTSEXP-' || v_lot.id, 'Points expired', jsonb_build_object('lot_reference', v_lot.reference)
+    );
+
+    v_lots := v_lots + 1;
+    v_points := v_points + v_lot.remaining;
+  END LOOP;
+
+  RETURN QUERY SELECT v_lots, v_points, v_codes;
+END;
+$$;
+
+-- ==================== EARNING ====================
+
+-- Top-ups earn points through the ledger instead of bumping the counter
+CREATE OR REPLACE FUNCTION complete_wallet_topup(
+  p_reference TEXT,
+  p_amount_paid DECIMAL
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  wallet_id UUID,
+  new_balance DECIMAL,
+  points_earned INTEGER,
+  already_completed BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx wallet_transactions%ROWTYPE;
+  v_result RECORD;
+  v_points INTEGER := 0;
+BEGIN
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet transaction % not found', p_reference USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_tx.type <> 'credit' THEN
+    RAISE EXCEPTION 'Wallet transaction % is not a credit', p_reference USING ERRCODE = '22023';
+  END IF;
+
+  IF v_tx.status <> 'completed' AND p_amount_paid < v_tx.amount THEN
+    RAISE EXCEPTION 'Amount paid (%) is less than top-up amount (%) for %', p_amount_paid, v_tx.amount, p_reference
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_result
+  FROM wallet_credit(v_tx.wallet_id, v_tx.amount, p_reference, v_tx.description, v_tx.payment_method);
+
+  IF NOT v_result.already_applied THEN
+    v_points := loyalty_points_for_amount(v_tx.wallet_id, v_tx.amount);
+    IF v_points > 0 THEN
+      PERFORM loyalty_add_points(v_tx.wallet_id, v_points, 'earn', 'PTS-' || p_reference, 'Wallet top-up');
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT v_result.transaction_id, v_tx.wallet_id, v_result.new_balance, v_points, v_result.already_applied;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION credit_wallet_deposit(
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_description TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  new_balance DECIMAL,
+  points_earned INTEGER,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result RECORD;
+  v_points INTEGER := 0;
+BEGIN
+  SELECT * INTO v_result
+  FROM wallet_credit(p_wallet_id, p_amount, p_reference, p_description, 'bank_transfer', p_metadata);
+
+  IF NOT v_result.already_applied THEN
+    -- Same earn rate as card top-ups
+    v_points := loyalty_points_for_amount(p_wallet_id, p_amount);
+    IF v_points > 0 THEN
+      PERFORM loyalty_add_points(p_wallet_id, v_points, 'earn', 'PTS-' || p_reference, 'Bank transfer top-up');
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT v_result.transaction_id, v_result.new_balance, v_points, v_result.already_applied;
+END;
+$$;
+
+-- Existing balances become one opening lot each, expiring 12 months from now
+INSERT INTO loyalty_point_entries (user_id, wallet_id, type, points, balance_after, remaining, expires_at, reference, description)
+SELECT w.user_id, w.id, 'adjust', w.loyalty_points, w.loyalty_points, w.loyalty_points,
+  NOW() + INTERVAL '12 months', 'PTS-OPENING-' || w.id, 'Opening balance'
+FROM user_wallets w
+WHERE w.loyalty_points > 0
+ON CONFLICT (reference) DO NOTHING;
+
+REVOKE ALL ON FUNCTION loyalty_add_points(UUID, INTEGER, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION loyalty_add_points(UUID, INTEGER, TEXT, TEXT, TEXT, JSONB) TO service_role;
+
+REVOKE ALL ON FUNCTION loyalty_use_points(UUID, INTEGER, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION loyalty_use_points(UUID, INTEGER, TEXT, TEXT, TEXT, JSONB) TO service_role;
+
+REVOKE ALL ON FUNCTION loyalty_points_for_amount(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION loyalty_points_for_amount(UUID, DECIMAL) TO service_role;
+
+REVOKE ALL ON FUNCTION loyalty_adjust(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION loyalty_adjust(UUID, INTEGER, TEXT, TEXT) TO service_role;
+
+REVOKE ALL ON FUNCTION redeem_reward(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION redeem_reward(UUID, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION fulfil_reward_redemption(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fulfil_reward_redemption(TEXT, UUID) TO service_role;
+
+REVOKE ALL ON FUNCTION expire_loyalty_points() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_loyalty_points() TO service_role;
@@ -0,0 +1,25 @@
+-- Wallet transaction history
+-- Members page through their own wallet_transactions from the app, newest first,
+-- filtered by type, status, method and date and searched by description.
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_wallet_created
+  ON wallet_transactions(wallet_id, created_at DESC, id DESC);
+
+ALTER TABLE wallet_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own wallet transactions" ON wallet_transactions;
+CREATE POLICY "Users can view own wallet transactions"
+  ON wallet_transactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- The wallet screen records a pending top-up before sending the member to Paystack.
+-- Only the ledger functions complete it or move money.
+DROP POLICY IF EXISTS "Users can create own pending top-ups" ON wallet_transactions;
+CREATE POLICY "Users can create own pending top-ups"
+  ON wallet_transactions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND type = 'credit'
+    AND status = 'pending'
+    AND EXISTS (SELECT 1 FROM user_wallets w WHERE w.id = wallet_id AND w.user_id = auth.uid())
+  );
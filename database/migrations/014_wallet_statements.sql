@@ -0,0 +1,65 @@
+-- Wallet statements
+-- A statement lists every entry that moved the balance in a period with a running
+-- balance. That is completed transactions plus pending debits: a withdrawal holds
+-- its amount while the transfer is in flight, and a failed one releases it.
+
+CREATE OR REPLACE FUNCTION wallet_statement_opening_balance(p_wallet_id UUID, p_from TIMESTAMP WITH TIME ZONE)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(CASE WHEN t.type = 'credit' THEN t.amount ELSE -t.amount END), 0)
+  FROM wallet_transactions t
+  WHERE t.wallet_id = p_wallet_id
+    AND t.created_at < p_from
+    AND (t.status = 'completed' OR (t.type = 'debit' AND t.status = 'pending'));
+$$;
+
+-- Entries in [p_from, p_to), oldest first, each with the balance after it
+CREATE OR REPLACE FUNCTION wallet_statement_entries(
+  p_wallet_id UUID,
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  reference TEXT,
+  description TEXT,
+  payment_method VARCHAR,
+  type VARCHAR,
+  status VARCHAR,
+  amount DECIMAL,
+  running_balance DECIMAL
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.created_at,
+    t.reference,
+    t.description,
+    t.payment_method,
+    t.type,
+    t.status,
+    t.amount,
+    wallet_statement_opening_balance(p_wallet_id, p_from)
+      + SUM(CASE WHEN t.type = 'credit' THEN t.amount ELSE -t.amount END) OVER (ORDER BY t.created_at, t.id)
+  FROM wallet_transactions t
+  WHERE t.wallet_id = p_wallet_id
+    AND t.created_at >= p_from
+    AND t.created_at < p_to
+    AND (t.status = 'completed' OR (t.type = 'debit' AND t.status = 'pending'))
+  ORDER BY t.created_at, t.id;
+$$;
+
+REVOKE ALL ON FUNCTION wallet_statement_opening_balance(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION wallet_statement_opening_balance(UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
+
+REVOKE ALL ON FUNCTION wallet_statement_entries(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION wallet_statement_entries(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO service_role;
@@ -0,0 +1,273 @@
+-- Peer-to-peer wallet transfers
+-- Members send wallet funds to another member found by phone number or Quilox
+-- handle. A transfer is one debit on the sender and one credit on the recipient
+-- that share a reference, written together by wallet_transfer(). Both sides get
+-- an in-app notification.
+
+-- Quilox handles: lowercase letters, digits, dots and underscores
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS handle VARCHAR(30);
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_handle_format;
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_handle_format CHECK (handle IS NULL OR handle ~ '^[a-z0-9_.]{3,30}$');
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_profiles_handle ON profiles(handle);
+
+-- Nigerian numbers are stored as 080..., +23480... or 23480...; the last 10 digits identify them
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(RIGHT(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 10), '');
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_normalized_phone ON profiles(normalize_phone(phone));
+
+-- The two legs of a transfer share a reference, so a reference is unique per side
+DROP INDEX IF EXISTS uq_wallet_transactions_reference;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_wallet_transactions_reference_type ON wallet_transactions(reference, type);
+
+CREATE INDEX IF NOT EXISTS idx_wallet_transactions_transfers
+  ON wallet_transactions(wallet_id, created_at)
+  WHERE payment_method = 'wallet_transfer';
+
+-- In-app notifications
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type VARCHAR(40) NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON notifications;
+CREATE POLICY "Users can view own notifications"
+  ON notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can mark own notifications read" ON notifications;
+CREATE POLICY "Users can mark own notifications read"
+  ON notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Name shown to the sender before they confirm
+CREATE OR REPLACE FUNCTION transfer_display_name(p_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(NULLIF(TRIM(CONCAT_WS(' ', p.first_name, p.last_name)), ''), w.account_name)
+  FROM user_wallets w
+  LEFT JOIN profiles p ON p.id = w.user_id
+  WHERE w.user_id = p_user_id;
+$$;
+
+-- Finds the member a transfer would go to, by handle (with or without @) or phone number.
+-- Only members with an active wallet can look up, and be found by, others.
+-- Raises cardinality_violation (21000) when several members share a phone number.
+CREATE OR REPLACE FUNCTION find_transfer_recipient(p_query TEXT)
+RETURNS TABLE (
+  wallet_id UUID,
+  display_name TEXT,
+  handle TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_query TEXT := LOWER(TRIM(p_query));
+  v_matches INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM user_wallets w WHERE w.user_id = auth.uid() AND w.status = 'active') THEN
+    RAISE EXCEPTION 'No active Privé wallet' USING ERRCODE = '55000';
+  END IF;
+
+  IF v_query ~ '^\+?[0-9 ()-]+$' THEN
+    SELECT COUNT(*) INTO v_matches
+    FROM profiles p
+    JOIN user_wallets w ON w.user_id = p.id AND w.status = 'active'
+    WHERE normalize_phone(p.phone) = normalize_phone(v_query) AND p.id <> auth.uid();
+
+    IF v_matches > 1 THEN
+      RAISE EXCEPTION 'More than one member uses this number' USING ERRCODE = '21000';
+    END IF;
+
+    RETURN QUERY
+    SELECT w.id, transfer_display_name(p.id), p.handle::TEXT
+    FROM profiles p
+    JOIN user_wallets w ON w.user_id = p.id AND w.status = 'active'
+    WHERE normalize_phone(p.phone) = normalize_phone(v_query) AND p.id <> auth.uid();
+  ELSE
+    RETURN QUERY
+    SELECT w.id, transfer_display_name(p.id), p.handle::TEXT
+    FROM profiles p
+    JOIN user_wallets w ON w.user_id = p.id AND w.status = 'active'
+    WHERE p.handle = LTRIM(v_query, '@') AND p.id <> auth.uid();
+  END IF;
+END;
+$$;
+
+-- Moves p_amount from the caller's wallet to p_recipient_wallet_id.
+-- Limits: at least ₦100 per transfer and ₦500,000 per sender per day (Lagos time),
+-- raised as program_limit_exceeded (54000). Fails with check_violation (23514) on
+-- insufficient balance. Replaying a reference returns the original transfer.
+CREATE OR REPLACE FUNCTION wallet_transfer(
+  p_recipient_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  debit_transaction_id UUID,
+  credit_transaction_id UUID,
+  new_balance DECIMAL,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  c_min_amount CONSTANT DECIMAL := 100;
+  c_daily_limit CONSTANT DECIMAL := 500000;
+  v_sender user_wallets%ROWTYPE;
+  v_recipient user_wallets%ROWTYPE;
+  v_existing wallet_transactions%ROWTYPE;
+  v_sent_today DECIMAL;
+  v_sender_balance DECIMAL(15, 2);
+  v_recipient_balance DECIMAL(15, 2);
+  v_debit_id UUID;
+  v_credit_id UUID;
+  v_sender_name TEXT;
+  v_recipient_name TEXT;
+  v_note TEXT := NULLIF(TRIM(p_note), '');
+BEGIN
+  IF p_amount IS NULL OR p_amount < c_min_amount THEN
+    RAISE EXCEPTION 'Transfers must be at least %', c_min_amount USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock both wallets in id order so opposite transfers cannot deadlock
+  PERFORM 1 FROM user_wallets w
+  WHERE w.user_id = auth.uid() OR w.id = p_recipient_wallet_id
+  ORDER BY w.id
+  FOR UPDATE;
+
+  SELECT * INTO v_sender FROM user_wallets w WHERE w.user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No Privé wallet' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_recipient FROM user_wallets w WHERE w.id = p_recipient_wallet_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet % not found', p_recipient_wallet_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_sender.id = v_recipient.id THEN
+    RAISE EXCEPTION 'Cannot transfer to your own wallet' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_sender.status <> 'active' OR v_recipient.status <> 'active' THEN
+    RAISE EXCEPTION 'Both wallets must be active' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT * INTO v_existing FROM wallet_transactions t WHERE t.reference = p_reference AND t.type = 'debit';
+  IF FOUND THEN
+    IF v_existing.wallet_id = v_sender.id AND v_existing.payment_method = 'wallet_transfer' THEN
+      RETURN QUERY
+      SELECT v_existing.id, t.id, v_sender.balance, TRUE
+      FROM wallet_transactions t
+      WHERE t.reference = p_reference AND t.type = 'credit';
+      RETURN;
+    END IF;
+    RAISE EXCEPTION 'Reference % already used', p_reference USING ERRCODE = '23505';
+  END IF;
+
+  SELECT COALESCE(SUM(t.amount), 0) INTO v_sent_today
+  FROM wallet_transactions t
+  WHERE t.wallet_id = v_sender.id
+    AND t.type = 'debit'
+    AND t.payment_method = 'wallet_transfer'
+    AND t.created_at >= (date_trunc('day', NOW() AT TIME ZONE 'Africa/Lagos') AT TIME ZONE 'Africa/Lagos');
+
+  IF v_sent_today + p_amount > c_daily_limit THEN
+    RAISE EXCEPTION 'Daily transfer limit of % exceeded (% already sent today)', c_daily_limit, v_sent_today
+      USING ERRCODE = '54000';
+  END IF;
+
+  IF v_sender.balance < p_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance' USING ERRCODE = '23514';
+  END IF;
+
+  v_sender_name := transfer_display_name(v_sender.user_id);
+  v_recipient_name := transfer_display_name(v_recipient.user_id);
+
+  UPDATE user_wallets w SET balance = w.balance - p_amount WHERE w.id = v_sender.id
+  RETURNING w.balance INTO v_sender_balance;
+
+  UPDATE user_wallets w SET balance = w.balance + p_amount WHERE w.id = v_recipient.id
+  RETURNING w.balance INTO v_recipient_balance;
+
+  INSERT INTO wallet_transactions (
+    user_id, wallet_id, type, amount, status, reference,
+    description, payment_method, balance_after, metadata
+  )
+  VALUES (
+    v_sender.user_id, v_sender.id, 'debit', p_amount, 'completed', p_reference,
+    'Transfer to ' || v_recipient_name, 'wallet_transfer', v_sender_balance,
+    jsonb_build_object('purpose', 'p2p_transfer', 'counterparty_wallet_id', v_recipient.id,
+      'counterparty_name', v_recipient_name, 'note', v_note)
+  )
+  RETURNING id INTO v_debit_id;
+
+  INSERT INTO wallet_transactions (
+    user_id, wallet_id, type, amount, status, reference,
+    description, payment_method, balance_after, metadata
+  )
+  VALUES (
+    v_recipient.user_id, v_recipient.id, 'credit', p_amount, 'completed', p_reference,
+    'Transfer from ' || v_sender_name, 'wallet_transfer', v_recipient_balance,
+    jsonb_build_object('purpose', 'p2p_transfer', 'counterparty_wallet_id', v_sender.id,
+      'counterparty_name', v_sender_name, 'note', v_note)
+  )
+  RETURNING id INTO v_credit_id;
+
+  INSERT INTO notifications (user_id, type, title, body, data)
+  VALUES
+    (
+      v_sender.user_id, 'wallet_transfer_sent', 'Transfer sent',
+      'You sent ₦' || TO_CHAR(p_amount, 'FM999,999,990.00') || ' to ' || v_recipient_name,
+      jsonb_build_object('reference', p_reference, 'transaction_id', v_debit_id)
+    ),
+    (
+      v_recipient.user_id, 'wallet_transfer_received', 'Money received',
+      v_sender_name || ' sent you ₦' || TO_CHAR(p_amount, 'FM999,999,990.00') || COALESCE(': ' || v_note, ''),
+      jsonb_build_object('reference', p_reference, 'transaction_id', v_credit_id)
+    );
+
+  RETURN QUERY SELECT v_debit_id, v_credit_id, v_sender_balance, FALSE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transfer_display_name(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION transfer_display_name(UUID) TO service_role;
+
+REVOKE ALL ON FUNCTION find_transfer_recipient(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_transfer_recipient(TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION wallet_transfer(UUID, DECIMAL, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION wallet_transfer(UUID, DECIMAL, TEXT, TEXT) TO authenticated;
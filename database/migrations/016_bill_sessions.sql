@@ -0,0 +1,414 @@
+-- Split-the-bill sessions
+-- The host of a booking opens a session for the table's bill, invites Privé members
+-- from their party, and everyone pays towards the total from their wallet or by card.
+-- The session closes itself when the payments cover the total; the host can pay
+-- whatever is left.
+--
+-- Payments are recorded by record_bill_session_payment(), which locks the session,
+-- so two members paying at once cannot overpay the bill from their wallets. Card
+-- payments are recorded by the backend once Paystack confirms them.
+
+CREATE TABLE IF NOT EXISTS bill_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  host_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  description TEXT,
+  total DECIMAL(15, 2) NOT NULL CHECK (total > 0),
+  amount_paid DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'cancelled')),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One open bill per booking
+CREATE UNIQUE INDEX IF NOT EXISTS uq_bill_sessions_open_booking ON bill_sessions(booking_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_bill_sessions_host ON bill_sessions(host_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS bill_session_members (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES bill_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  display_name TEXT NOT NULL,
+  share DECIMAL(15, 2) NOT NULL CHECK (share >= 0),
+  amount_paid DECIMAL(15, 2) NOT NULL DEFAULT 0,
+  is_host BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (session_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_session_members_user ON bill_session_members(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS bill_session_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES bill_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  method VARCHAR(20) NOT NULL CHECK (method IN ('wallet', 'card')),
+  reference TEXT NOT NULL UNIQUE,
+  wallet_transaction_id UUID REFERENCES wallet_transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bill_session_payments_session ON bill_session_payments(session_id, created_at);
+
+DROP TRIGGER IF EXISTS update_bill_sessions_updated_at ON bill_sessions;
+CREATE TRIGGER update_bill_sessions_updated_at
+  BEFORE UPDATE ON bill_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Members see the whole session: the total, everyone's share and who has paid.
+-- SECURITY DEFINER so the policies below can check membership without recursing.
+CREATE OR REPLACE FUNCTION is_bill_session_member(p_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM bill_session_members m
+    WHERE m.session_id = p_session_id AND m.user_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE bill_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_session_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bill_session_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their bill sessions" ON bill_sessions;
+CREATE POLICY "Members can view their bill sessions"
+  ON bill_sessions FOR SELECT
+  USING (is_bill_session_member(id));
+
+DROP POLICY IF EXISTS "Members can view bill session members" ON bill_session_members;
+CREATE POLICY "Members can view bill session members"
+  ON bill_session_members FOR SELECT
+  USING (is_bill_session_member(session_id));
+
+DROP POLICY IF EXISTS "Members can view bill session payments" ON bill_session_payments;
+CREATE POLICY "Members can view bill session payments"
+  ON bill_session_payments FOR SELECT
+  USING (is_bill_session_member(session_id));
+
+-- Opens a bill for one of the caller's bookings. The host joins as the first member
+-- with an equal share of the total across the booking's guest count.
+CREATE OR REPLACE FUNCTION open_bill_session(
+  p_booking_id UUID,
+  p_total DECIMAL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS SETOF bill_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_session bill_sessions%ROWTYPE;
+BEGIN
+  IF p_total IS NULL OR p_total <= 0 THEN
+    RAISE EXCEPTION 'Bill total must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_booking FROM bookings b WHERE b.id = p_booking_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_booking_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can open a bill for this booking' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_booking.status NOT IN ('confirmed', 'completed') THEN
+    RAISE EXCEPTION 'Booking is %', v_booking.status USING ERRCODE = '55000';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM bill_sessions s WHERE s.booking_id = p_booking_id AND s.status = 'open') THEN
+    RAISE EXCEPTION 'This booking already has an open bill' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO bill_sessions (booking_id, host_id, description, total)
+  VALUES (p_booking_id, auth.uid(), NULLIF(TRIM(p_description), ''), p_total)
+  RETURNING * INTO v_session;
+
+  INSERT INTO bill_session_members (session_id, user_id, display_name, share, is_host)
+  VALUES (
+    v_session.id,
+    auth.uid(),
+    COALESCE(transfer_display_name(auth.uid()), v_booking.guest_name),
+    ROUND(p_total / GREATEST(v_booking.guest_count, 1), 2),
+    TRUE
+  );
+
+  RETURN NEXT v_session;
+END;
+$$;
+
+-- Adds a Privé member (found with find_transfer_recipient) to the host's open bill.
+-- The party is capped at the booking's guest count; the share defaults to an equal split.
+CREATE OR REPLACE FUNCTION invite_bill_session_member(
+  p_session_id UUID,
+  p_wallet_id UUID,
+  p_share DECIMAL DEFAULT NULL
+)
+RETURNS SETOF bill_session_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session bill_sessions%ROWTYPE;
+  v_guest_count INTEGER;
+  v_user_id UUID;
+  v_member bill_session_members%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session FROM bill_sessions s WHERE s.id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill session % not found', p_session_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can invite guests' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_session.status <> 'open' THEN
+    RAISE EXCEPTION 'Bill session is %', v_session.status USING ERRCODE = '55000';
+  END IF;
+
+  SELECT w.user_id INTO v_user_id FROM user_wallets w WHERE w.id = p_wallet_id AND w.status = 'active';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet % not found', p_wallet_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM bill_session_members m WHERE m.session_id = p_session_id AND m.user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Already part of this bill' USING ERRCODE = '23505';
+  END IF;
+
+  SELECT b.guest_count INTO v_guest_count FROM bookings b WHERE b.id = v_session.booking_id;
+  IF (SELECT COUNT(*) FROM bill_session_members m WHERE m.session_id = p_session_id) >= GREATEST(v_guest_count, 1) THEN
+    RAISE EXCEPTION 'Everyone on this booking (% guests) is already on the bill', v_guest_count USING ERRCODE = '22023';
+  END IF;
+
+  IF p_share IS NOT NULL AND (p_share < 0 OR p_share > v_session.total) THEN
+    RAISE EXCEPTION 'Share must be between 0 and the bill total' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO bill_session_members (session_id, user_id, display_name, share)
+  VALUES (
+    p_session_id,
+    v_user_id,
+    transfer_display_name(v_user_id),
+    COALESCE(p_share, ROUND(v_session.total / GREATEST(v_guest_count, 1), 2))
+  )
+  RETURNING * INTO v_member;
+
+  INSERT INTO notifications (user_id, type, title, body, data)
+  VALUES (
+    v_user_id, 'bill_session_invite', 'Split the bill',
+    transfer_display_name(v_session.host_id) || ' added you to a bill. Your share is ₦' ||
+      TO_CHAR(v_member.share, 'FM999,999,990.00'),
+    jsonb_build_object('session_id', p_session_id)
+  );
+
+  RETURN NEXT v_member;
+END;
+$$;
+
+-- Records a payment towards a bill and closes the session once the total is covered.
+-- Replaying a reference returns the payment already recorded for it.
+CREATE OR REPLACE FUNCTION record_bill_session_payment(
+  p_session_id UUID,
+  p_user_id UUID,
+  p_amount DECIMAL,
+  p_method TEXT,
+  p_reference TEXT,
+  p_wallet_transaction_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  payment_id UUID,
+  session_status VARCHAR,
+  amount_outstanding DECIMAL,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session bill_sessions%ROWTYPE;
+  v_existing bill_session_payments%ROWTYPE;
+  v_payment_id UUID;
+  v_payer TEXT;
+  v_covers_bill BOOLEAN;
+BEGIN
+  SELECT * INTO v_session FROM bill_sessions s WHERE s.id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill session % not found', p_session_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_existing FROM bill_session_payments p WHERE p.reference = p_reference;
+  IF FOUND THEN
+    IF v_existing.session_id <> p_session_id THEN
+      RAISE EXCEPTION 'Reference % already used', p_reference USING ERRCODE = '23505';
+    END IF;
+    RETURN QUERY SELECT v_existing.id, v_session.status, GREATEST(v_session.total - v_session.amount_paid, 0), TRUE;
+    RETURN;
+  END IF;
+
+  SELECT m.display_name INTO v_payer
+  FROM bill_session_members m
+  WHERE m.session_id = p_session_id AND m.user_id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not part of this bill' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO bill_session_payments (session_id, user_id, amount, method, reference, wallet_transaction_id)
+  VALUES (p_session_id, p_user_id, p_amount, p_method, p_reference, p_wallet_transaction_id)
+  RETURNING id INTO v_payment_id;
+
+  UPDATE bill_session_members m
+  SET amount_paid = m.amount_paid + p_amount
+  WHERE m.session_id = p_session_id AND m.user_id = p_user_id;
+
+  -- A card payment that lands after the bill was covered is still recorded
+  v_covers_bill := v_session.status = 'open' AND v_session.amount_paid + p_amount >= v_session.total;
+
+  UPDATE bill_sessions s
+  SET amount_paid = s.amount_paid + p_amount,
+      status = CASE WHEN v_covers_bill THEN 'closed' ELSE s.status END,
+      closed_at = CASE WHEN v_covers_bill THEN NOW() ELSE s.closed_at END
+  WHERE s.id = p_session_id
+  RETURNING * INTO v_session;
+
+  IF v_covers_bill THEN
+    INSERT INTO notifications (user_id, type, title, body, data)
+    SELECT m.user_id, 'bill_session_closed', 'Bill settled',
+      'The ₦' || TO_CHAR(v_session.total, 'FM999,999,990.00') || ' bill has been paid in full.',
+      jsonb_build_object('session_id', p_session_id)
+    FROM bill_session_members m
+    WHERE m.session_id = p_session_id;
+  ELSIF p_user_id <> v_session.host_id THEN
+    INSERT INTO notifications (user_id, type, title, body, data)
+    VALUES (
+      v_session.host_id, 'bill_session_payment', 'Bill payment received',
+      v_payer || ' paid ₦' || TO_CHAR(p_amount, 'FM999,999,990.00') || ' towards the bill.',
+      jsonb_build_object('session_id', p_session_id)
+    );
+  END IF;
+
+  RETURN QUERY SELECT v_payment_id, v_session.status, GREATEST(v_session.total - v_session.amount_paid, 0), FALSE;
+END;
+$$;
+
+-- Pays towards an open bill from the caller's wallet. The session is locked before
+-- the debit so the amount can never exceed what is still outstanding.
+CREATE OR REPLACE FUNCTION pay_bill_session_from_wallet(
+  p_session_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT
+)
+RETURNS TABLE (
+  payment_id UUID,
+  session_status VARCHAR,
+  amount_outstanding DECIMAL,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session bill_sessions%ROWTYPE;
+  v_wallet_id UUID;
+  v_debit RECORD;
+BEGIN
+  SELECT * INTO v_session FROM bill_sessions s WHERE s.id = p_session_id FOR UPDATE;
+  IF NOT FOUND OR NOT is_bill_session_member(p_session_id) THEN
+    RAISE EXCEPTION 'Bill session % not found', p_session_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM bill_session_payments p WHERE p.reference = p_reference) THEN
+    RETURN QUERY SELECT * FROM record_bill_session_payment(p_session_id, auth.uid(), p_amount, 'wallet', p_reference);
+    RETURN;
+  END IF;
+
+  IF v_session.status <> 'open' THEN
+    RAISE EXCEPTION 'Bill session is %', v_session.status USING ERRCODE = '55000';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_amount > v_session.total - v_session.amount_paid THEN
+    RAISE EXCEPTION 'Amount must be between 0 and the ₦% outstanding', v_session.total - v_session.amount_paid
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT w.id INTO v_wallet_id FROM user_wallets w WHERE w.user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No Privé wallet' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_debit
+  FROM wallet_debit(
+    v_wallet_id,
+    p_amount,
+    p_reference,
+    'Table bill' || COALESCE(' - ' || v_session.description, ''),
+    'wallet',
+    jsonb_build_object('purpose', 'bill_session', 'session_id', p_session_id, 'booking_id', v_session.booking_id)
+  );
+
+  RETURN QUERY
+  SELECT * FROM record_bill_session_payment(p_session_id, auth.uid(), p_amount, 'wallet', p_reference, v_debit.transaction_id);
+END;
+$$;
+
+-- The host can call off a bill that nobody has paid towards yet (e.g. a wrong total)
+CREATE OR REPLACE FUNCTION cancel_bill_session(p_session_id UUID)
+RETURNS SETOF bill_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session bill_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_session FROM bill_sessions s WHERE s.id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill session % not found', p_session_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_session.host_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the host can cancel this bill' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_session.status <> 'open' OR v_session.amount_paid > 0 THEN
+    RAISE EXCEPTION 'Bills with payments cannot be cancelled' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE bill_sessions s SET status = 'cancelled', closed_at = NOW()
+  WHERE s.id = p_session_id
+  RETURNING * INTO v_session;
+
+  RETURN NEXT v_session;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION is_bill_session_member(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_bill_session_member(UUID) TO authenticated, service_role;
+
+REVOKE ALL ON FUNCTION open_bill_session(UUID, DECIMAL, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION open_bill_session(UUID, DECIMAL, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION invite_bill_session_member(UUID, UUID, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION invite_bill_session_member(UUID, UUID, DECIMAL) TO authenticated;
+
+-- Card payments are recorded by the backend after Paystack confirms them
+REVOKE ALL ON FUNCTION record_bill_session_payment(UUID, UUID, DECIMAL, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_bill_session_payment(UUID, UUID, DECIMAL, TEXT, TEXT, UUID) TO service_role;
+
+REVOKE ALL ON FUNCTION pay_bill_session_from_wallet(UUID, DECIMAL, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION pay_bill_session_from_wallet(UUID, DECIMAL, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION cancel_bill_session(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_bill_session(UUID) TO authenticated;
@@ -0,0 +1,105 @@
+-- Venue bills (scan to pay)
+-- Staff raise a bill for a table from the staff view; the app shows it as a signed
+-- QR code (see backend/venue-bills.js) that the member scans to pay from their
+-- wallet. The amount and description always come from this table, never from the
+-- member, and a bill can only be paid once.
+
+CREATE TABLE IF NOT EXISTS venue_bills (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  table_id UUID REFERENCES table_areas(id) ON DELETE SET NULL,
+  table_label TEXT NOT NULL,
+  amount DECIMAL(15, 2) NOT NULL CHECK (amount > 0),
+  description TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'paid', 'void')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  paid_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  payment_reference TEXT UNIQUE,
+  wallet_transaction_id UUID REFERENCES wallet_transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_venue_bills_open ON venue_bills(created_at DESC) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_venue_bills_paid_by ON venue_bills(paid_by, paid_at DESC);
+
+DROP TRIGGER IF EXISTS update_venue_bills_updated_at ON venue_bills;
+CREATE TRIGGER update_venue_bills_updated_at
+  BEFORE UPDATE ON venue_bills
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Bills are read and written by the backend only
+ALTER TABLE venue_bills ENABLE ROW LEVEL SECURITY;
+
+-- Pays an open bill from p_wallet_id. p_amount is the amount in the scanned QR and
+-- must match the bill, so a stale or altered code is refused rather than charged.
+-- Replaying the reference that paid the bill returns the original payment.
+CREATE OR REPLACE FUNCTION pay_venue_bill(
+  p_bill_id UUID,
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  new_balance DECIMAL,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bill venue_bills%ROWTYPE;
+  v_wallet user_wallets%ROWTYPE;
+  v_debit RECORD;
+BEGIN
+  SELECT * INTO v_bill FROM venue_bills b WHERE b.id = p_bill_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bill % not found', p_bill_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_bill.status = 'paid' AND v_bill.payment_reference = p_reference THEN
+    SELECT * INTO v_wallet FROM user_wallets w WHERE w.id = p_wallet_id;
+    RETURN QUERY SELECT v_bill.wallet_transaction_id, v_wallet.balance, TRUE;
+    RETURN;
+  END IF;
+
+  IF v_bill.status <> 'open' THEN
+    RAISE EXCEPTION 'Bill is %', v_bill.status USING ERRCODE = '55000';
+  END IF;
+
+  IF v_bill.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'Bill expired at %', v_bill.expires_at USING ERRCODE = '55000';
+  END IF;
+
+  IF p_amount IS DISTINCT FROM v_bill.amount THEN
+    RAISE EXCEPTION 'Bill amount does not match' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_debit
+  FROM wallet_debit(
+    p_wallet_id,
+    v_bill.amount,
+    p_reference,
+    v_bill.table_label || ': ' || v_bill.description,
+    'wallet',
+    jsonb_build_object('purpose', 'venue_bill', 'bill_id', v_bill.id, 'table_id', v_bill.table_id)
+  );
+
+  UPDATE venue_bills b
+  SET status = 'paid',
+      paid_by = (SELECT w.user_id FROM user_wallets w WHERE w.id = p_wallet_id),
+      paid_at = NOW(),
+      payment_reference = p_reference,
+      wallet_transaction_id = v_debit.transaction_id
+  WHERE b.id = p_bill_id;
+
+  RETURN QUERY SELECT v_debit.transaction_id, v_debit.new_balance, FALSE;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION pay_venue_bill(UUID, UUID, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION pay_venue_bill(UUID, UUID, DECIMAL, TEXT) TO service_role;
@@ -0,0 +1,246 @@
+-- Table booking holds
+-- A table can have one active booking per night, enforced by a unique index rather
+-- than a check-then-insert in the app. Before a card payment the app places a short
+-- hold on the table (a 'pending' booking with hold_expires_at), so nobody else can
+-- take it while the member pays; confirm_booking turns the hold into the paid
+-- booking. Holds that run out are deleted the next time anyone asks for the table.
+--
+-- Creating the index fails if a table already has two active bookings for the same
+-- night; cancel the duplicate before running this migration.
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS hold_expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_bookings_table_date_active
+  ON bookings(table_id, booking_date)
+  WHERE status IN ('pending', 'confirmed');
+
+-- Places (or renews) the caller's hold on a table for p_booking->>'booking_date'.
+-- Raises 23505 if someone else holds or has booked the table.
+CREATE OR REPLACE FUNCTION hold_table(p_booking JSONB, p_minutes INTEGER DEFAULT 10)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table_id UUID := (p_booking->>'table_id')::UUID;
+  v_date DATE := (p_booking->>'booking_date')::DATE;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  IF p_minutes IS NULL OR p_minutes < 1 OR p_minutes > 30 THEN
+    RAISE EXCEPTION 'Holds last between 1 and 30 minutes' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM bookings b
+  WHERE b.table_id = v_table_id
+    AND b.booking_date = v_date
+    AND b.status = 'pending'
+    AND b.hold_expires_at <= NOW();
+
+  -- Trying again after abandoning checkout keeps the member's own hold
+  IF auth.uid() IS NOT NULL THEN
+    UPDATE bookings b
+    SET hold_expires_at = NOW() + make_interval(mins => p_minutes),
+        guest_count = (p_booking->>'guest_count')::INTEGER
+    WHERE b.table_id = v_table_id
+      AND b.booking_date = v_date
+      AND b.status = 'pending'
+      AND b.hold_expires_at IS NOT NULL
+      AND b.user_id = auth.uid()
+    RETURNING * INTO v_booking;
+
+    IF FOUND THEN
+      RETURN NEXT v_booking;
+      RETURN;
+    END IF;
+  END IF;
+
+  BEGIN
+    INSERT INTO bookings (
+      user_id, table_id, booking_date, guest_count, guest_name, guest_email, guest_phone,
+      special_requests, status, booking_fee, amount_payable, discount_total, applied_discounts,
+      payment_status, hold_expires_at
+    )
+    VALUES (
+      auth.uid(),
+      v_table_id,
+      v_date,
+      (p_booking->>'guest_count')::INTEGER,
+      p_booking->>'guest_name',
+      p_booking->>'guest_email',
+      p_booking->>'guest_phone',
+      p_booking->>'special_requests',
+      'pending',
+      (p_booking->>'booking_fee')::DECIMAL,
+      (p_booking->>'amount_payable')::DECIMAL,
+      COALESCE((p_booking->>'discount_total')::DECIMAL, 0),
+      COALESCE(p_booking->'applied_discounts', '[]'::jsonb),
+      'pending',
+      NOW() + make_interval(mins => p_minutes)
+    )
+    RETURNING * INTO v_booking;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'Table is not available on %', v_date USING ERRCODE = '23505';
+  END;
+
+  RETURN NEXT v_booking;
+END;
+$$;
+
+-- Lets the table go when the member abandons checkout
+CREATE OR REPLACE FUNCTION release_booking_hold(p_booking_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM bookings b
+  WHERE b.id = p_booking_id
+    AND b.status = 'pending'
+    AND b.hold_expires_at IS NOT NULL
+    AND b.user_id IS NOT DISTINCT FROM auth.uid();
+END;
+$$;
+
+-- Records a paid booking. If p_booking->>'hold_id' is the caller's hold and it is
+-- still there, the hold becomes the booking (even past its expiry: nobody else can
+-- have booked the table while the hold row existed). Otherwise the booking is
+-- inserted fresh, and raises 23505 if the table has been taken in the meantime.
+CREATE OR REPLACE FUNCTION confirm_booking(p_booking JSONB)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := CASE WHEN auth.role() = 'service_role' THEN (p_booking->>'user_id')::UUID ELSE auth.uid() END;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  IF p_booking->>'hold_id' IS NOT NULL THEN
+    UPDATE bookings b
+    SET guest_count = (p_booking->>'guest_count')::INTEGER,
+        guest_name = p_booking->>'guest_name',
+        guest_email = p_booking->>'guest_email',
+        guest_phone = p_booking->>'guest_phone',
+        special_requests = p_booking->>'special_requests',
+        status = COALESCE(p_booking->>'status', 'confirmed'),
+        booking_fee = (p_booking->>'booking_fee')::DECIMAL,
+        amount_payable = (p_booking->>'amount_payable')::DECIMAL,
+        discount_total = COALESCE((p_booking->>'discount_total')::DECIMAL, 0),
+        applied_discounts = COALESCE(p_booking->'applied_discounts', '[]'::jsonb),
+        payment_reference = p_booking->>'payment_reference',
+        payment_status = COALESCE(p_booking->>'payment_status', 'paid'),
+        metadata = COALESCE(b.metadata, '{}'::jsonb) || COALESCE(p_booking->'metadata', '{}'::jsonb),
+        hold_expires_at = NULL
+    WHERE b.id = (p_booking->>'hold_id')::UUID
+      AND b.status = 'pending'
+      AND b.hold_expires_at IS NOT NULL
+      AND b.user_id IS NOT DISTINCT FROM v_user_id
+      AND b.table_id = (p_booking->>'table_id')::UUID
+      AND b.booking_date = (p_booking->>'booking_date')::DATE
+    RETURNING * INTO v_booking;
+
+    IF FOUND THEN
+      RETURN NEXT v_booking;
+      RETURN;
+    END IF;
+  END IF;
+
+  DELETE FROM bookings b
+  WHERE b.table_id = (p_booking->>'table_id')::UUID
+    AND b.booking_date = (p_booking->>'booking_date')::DATE
+    AND b.status = 'pending'
+    AND b.hold_expires_at <= NOW();
+
+  BEGIN
+    INSERT INTO bookings (
+      user_id, table_id, booking_date, guest_count, guest_name, guest_email, guest_phone,
+      special_requests, status, booking_fee, amount_payable, discount_total, applied_discounts,
+      payment_reference, payment_status, metadata
+    )
+    VALUES (
+      v_user_id,
+      (p_booking->>'table_id')::UUID,
+      (p_booking->>'booking_date')::DATE,
+      (p_booking->>'guest_count')::INTEGER,
+      p_booking->>'guest_name',
+      p_booking->>'guest_email',
+      p_booking->>'guest_phone',
+      p_booking->>'special_requests',
+      COALESCE(p_booking->>'status', 'confirmed'),
+      (p_booking->>'booking_fee')::DECIMAL,
+      (p_booking->>'amount_payable')::DECIMAL,
+      COALESCE((p_booking->>'discount_total')::DECIMAL, 0),
+      COALESCE(p_booking->'applied_discounts', '[]'::jsonb),
+      p_booking->>'payment_reference',
+      COALESCE(p_booking->>'payment_status', 'paid'),
+      COALESCE(p_booking->'metadata', '{}'::jsonb)
+    )
+    RETURNING * INTO v_booking;
+  EXCEPTION WHEN unique_violation THEN
+    RAISE EXCEPTION 'Table is not available on %', p_booking->>'booking_date' USING ERRCODE = '23505';
+  END;
+
+  RETURN NEXT v_booking;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION hold_table(JSONB, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION release_booking_hold(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION confirm_booking(JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION hold_table(JSONB, INTEGER) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION release_booking_hold(UUID) TO anon, authenticated, service_role;
+GRANT EXECUTE ON FUNCTION confirm_booking(JSONB) TO anon, authenticated, service_role;
+
+-- Wallet-paid bookings convert the member's hold too. A table taken in the meantime
+-- raises 23505 and rolls the wallet debit back with it.
+CREATE OR REPLACE FUNCTION create_booking_with_wallet_payment(
+  p_booking JSONB,
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_description TEXT
+)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_debit RECORD;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_debit
+  FROM wallet_debit(
+    p_wallet_id,
+    p_amount,
+    p_reference,
+    p_description,
+    'wallet',
+    jsonb_build_object(
+      'purpose', 'table_booking',
+      'table_id', p_booking->>'table_id',
+      'booking_date', p_booking->>'booking_date'
+    )
+  );
+
+  IF v_debit.already_applied THEN
+    RETURN QUERY SELECT * FROM bookings b WHERE b.metadata->>'wallet_reference' = p_reference;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_booking
+  FROM confirm_booking(
+    p_booking || jsonb_build_object(
+      'metadata', COALESCE(p_booking->'metadata', '{}'::jsonb) || jsonb_build_object(
+        'wallet_reference', p_reference,
+        'wallet_transaction_id', v_debit.transaction_id
+      )
+    )
+  );
+
+  RETURN NEXT v_booking;
+END;
+$$;
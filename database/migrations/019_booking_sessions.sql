@@ -0,0 +1,286 @@
+-- Booking sessions (time slots)
+-- A night at Quilox is split into sessions (e.g. Dinner 9pm-12am, Late Night
+-- 12am-4am) that are booked separately, so an early booking no longer takes the
+-- table for the whole night. Times are Lagos time; a night runs from noon to noon,
+-- so session times before 12:00 fall on the calendar day after booking_date.
+--
+-- Each booking stores the window it occupies (starts_at/ends_at) and an exclusion
+-- constraint keeps a table's active windows from overlapping. This replaces the
+-- one-booking-per-night index from 018. Bookings without a session (older ones)
+-- take the whole night.
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS booking_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name VARCHAR(40) NOT NULL UNIQUE,
+  starts_at TIME NOT NULL,
+  ends_at TIME NOT NULL,
+  days_of_week SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}', -- 0 = Sunday, the night the session starts
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- Minutes after noon: a session has to end later in the same night than it starts
+  CONSTRAINT session_within_night CHECK (
+    ends_at = '12:00'
+    OR ((EXTRACT(EPOCH FROM ends_at)::INTEGER / 60 + 720) % 1440)
+      > ((EXTRACT(EPOCH FROM starts_at)::INTEGER / 60 + 720) % 1440)
+  )
+);
+
+DROP TRIGGER IF EXISTS update_booking_sessions_updated_at ON booking_sessions;
+CREATE TRIGGER update_booking_sessions_updated_at
+  BEFORE UPDATE ON booking_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE booking_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active booking sessions" ON booking_sessions;
+CREATE POLICY "Anyone can view active booking sessions"
+  ON booking_sessions FOR SELECT
+  USING (is_active);
+
+INSERT INTO booking_sessions (name, starts_at, ends_at, sort_order)
+VALUES
+  ('Dinner', '21:00', '00:00', 1),
+  ('Late Night', '00:00', '04:00', 2)
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES booking_sessions(id),
+ADD COLUMN IF NOT EXISTS arrival_time TIME,
+ADD COLUMN IF NOT EXISTS starts_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS ends_at TIMESTAMP WITH TIME ZONE;
+
+-- A time on the night of p_date as a Lagos timestamp
+CREATE OR REPLACE FUNCTION night_time(p_date DATE, p_time TIME)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT ((p_date + CASE WHEN p_time < '12:00' THEN 1 ELSE 0 END) + p_time) AT TIME ZONE 'Africa/Lagos';
+$$;
+
+-- Fills in the window a booking occupies and checks the session and arrival time
+CREATE OR REPLACE FUNCTION set_booking_window()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session booking_sessions%ROWTYPE;
+BEGIN
+  IF NEW.session_id IS NULL THEN
+    NEW.starts_at := night_time(NEW.booking_date, '12:00');
+    NEW.ends_at := NEW.starts_at + INTERVAL '24 hours';
+  ELSE
+    SELECT * INTO v_session FROM booking_sessions s WHERE s.id = NEW.session_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking session % not found', NEW.session_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF TG_OP = 'INSERT'
+      AND (NOT v_session.is_active OR NOT (EXTRACT(DOW FROM NEW.booking_date)::SMALLINT = ANY(v_session.days_of_week))) THEN
+      RAISE EXCEPTION '% is not available on %', v_session.name, NEW.booking_date USING ERRCODE = '22023';
+    END IF;
+
+    NEW.starts_at := night_time(NEW.booking_date, v_session.starts_at);
+    NEW.ends_at := night_time(NEW.booking_date, v_session.ends_at);
+  END IF;
+
+  IF NEW.arrival_time IS NOT NULL
+    AND (night_time(NEW.booking_date, NEW.arrival_time) < NEW.starts_at
+      OR night_time(NEW.booking_date, NEW.arrival_time) >= NEW.ends_at) THEN
+    RAISE EXCEPTION 'Arrival time must be within the booked session' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_bookings_window ON bookings;
+CREATE TRIGGER set_bookings_window
+  BEFORE INSERT OR UPDATE OF booking_date, session_id, arrival_time ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION set_booking_window();
+
+-- Existing bookings take the whole night
+UPDATE bookings
+SET starts_at = night_time(booking_date, '12:00'),
+    ends_at = night_time(booking_date, '12:00') + INTERVAL '24 hours'
+WHERE starts_at IS NULL;
+
+DROP INDEX IF EXISTS uq_bookings_table_date_active;
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlapping_tables;
+ALTER TABLE bookings
+ADD CONSTRAINT bookings_no_overlapping_tables
+  EXCLUDE USING gist (table_id WITH =, tstzrange(starts_at, ends_at) WITH &&)
+  WHERE (status IN ('pending', 'confirmed'));
+
+CREATE INDEX IF NOT EXISTS idx_bookings_table_window ON bookings(table_id, starts_at);
+
+-- Holds and confirmations now carry the session; an overlapping booking raises
+-- 23P01, which both report as 23505 like before
+
+CREATE OR REPLACE FUNCTION hold_table(p_booking JSONB, p_minutes INTEGER DEFAULT 10)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table_id UUID := (p_booking->>'table_id')::UUID;
+  v_date DATE := (p_booking->>'booking_date')::DATE;
+  v_session_id UUID := (p_booking->>'session_id')::UUID;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  IF p_minutes IS NULL OR p_minutes < 1 OR p_minutes > 30 THEN
+    RAISE EXCEPTION 'Holds last between 1 and 30 minutes' USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM bookings b
+  WHERE b.table_id = v_table_id
+    AND b.booking_date = v_date
+    AND b.status = 'pending'
+    AND b.hold_expires_at <= NOW();
+
+  -- Trying again after abandoning checkout keeps the member's own hold
+  IF auth.uid() IS NOT NULL THEN
+    UPDATE bookings b
+    SET hold_expires_at = NOW() + make_interval(mins => p_minutes),
+        guest_count = (p_booking->>'guest_count')::INTEGER,
+        arrival_time = (p_booking->>'arrival_time')::TIME
+    WHERE b.table_id = v_table_id
+      AND b.booking_date = v_date
+      AND b.session_id IS NOT DISTINCT FROM v_session_id
+      AND b.status = 'pending'
+      AND b.hold_expires_at IS NOT NULL
+      AND b.user_id = auth.uid()
+    RETURNING * INTO v_booking;
+
+    IF FOUND THEN
+      RETURN NEXT v_booking;
+      RETURN;
+    END IF;
+  END IF;
+
+  BEGIN
+    INSERT INTO bookings (
+      user_id, table_id, booking_date, session_id, arrival_time, guest_count, guest_name,
+      guest_email, guest_phone, special_requests, status, booking_fee, amount_payable,
+      discount_total, applied_discounts, payment_status, hold_expires_at
+    )
+    VALUES (
+      auth.uid(),
+      v_table_id,
+      v_date,
+      v_session_id,
+      (p_booking->>'arrival_time')::TIME,
+      (p_booking->>'guest_count')::INTEGER,
+      p_booking->>'guest_name',
+      p_booking->>'guest_email',
+      p_booking->>'guest_phone',
+      p_booking->>'special_requests',
+      'pending',
+      (p_booking->>'booking_fee')::DECIMAL,
+      (p_booking->>'amount_payable')::DECIMAL,
+      COALESCE((p_booking->>'discount_total')::DECIMAL, 0),
+      COALESCE(p_booking->'applied_discounts', '[]'::jsonb),
+      'pending',
+      NOW() + make_interval(mins => p_minutes)
+    )
+    RETURNING * INTO v_booking;
+  EXCEPTION WHEN unique_violation OR exclusion_violation THEN
+    RAISE EXCEPTION 'Table is not available for this session on %', v_date USING ERRCODE = '23505';
+  END;
+
+  RETURN NEXT v_booking;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION confirm_booking(p_booking JSONB)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := CASE WHEN auth.role() = 'service_role' THEN (p_booking->>'user_id')::UUID ELSE auth.uid() END;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  IF p_booking->>'hold_id' IS NOT NULL THEN
+    UPDATE bookings b
+    SET guest_count = (p_booking->>'guest_count')::INTEGER,
+        guest_name = p_booking->>'guest_name',
+        guest_email = p_booking->>'guest_email',
+        guest_phone = p_booking->>'guest_phone',
+        special_requests = p_booking->>'special_requests',
+        arrival_time = (p_booking->>'arrival_time')::TIME,
+        status = COALESCE(p_booking->>'status', 'confirmed'),
+        booking_fee = (p_booking->>'booking_fee')::DECIMAL,
+        amount_payable = (p_booking->>'amount_payable')::DECIMAL,
+        discount_total = COALESCE((p_booking->>'discount_total')::DECIMAL, 0),
+        applied_discounts = COALESCE(p_booking->'applied_discounts', '[]'::jsonb),
+        payment_reference = p_booking->>'payment_reference',
+        payment_status = COALESCE(p_booking->>'payment_status', 'paid'),
+        metadata = COALESCE(b.metadata, '{}'::jsonb) || COALESCE(p_booking->'metadata', '{}'::jsonb),
+        hold_expires_at = NULL
+    WHERE b.id = (p_booking->>'hold_id')::UUID
+      AND b.status = 'pending'
+      AND b.hold_expires_at IS NOT NULL
+      AND b.user_id IS NOT DISTINCT FROM v_user_id
+      AND b.table_id = (p_booking->>'table_id')::UUID
+      AND b.booking_date = (p_booking->>'booking_date')::DATE
+      AND b.session_id IS NOT DISTINCT FROM (p_booking->>'session_id')::UUID
+    RETURNING * INTO v_booking;
+
+    IF FOUND THEN
+      RETURN NEXT v_booking;
+      RETURN;
+    END IF;
+  END IF;
+
+  DELETE FROM bookings b
+  WHERE b.table_id = (p_booking->>'table_id')::UUID
+    AND b.booking_date = (p_booking->>'booking_date')::DATE
+    AND b.status = 'pending'
+    AND b.hold_expires_at <= NOW();
+
+  BEGIN
+    INSERT INTO bookings (
+      user_id, table_id, booking_date, session_id, arrival_time, guest_count, guest_name,
+      guest_email, guest_phone, special_requests, status, booking_fee, amount_payable,
+      discount_total, applied_discounts, payment_reference, payment_status, metadata
+    )
+    VALUES (
+      v_user_id,
+      (p_booking->>'table_id')::UUID,
+      (p_booking->>'booking_date')::DATE,
+      (p_booking->>'session_id')::UUID,
+      (p_booking->>'arrival_time')::TIME,
+      (p_booking->>'guest_count')::INTEGER,
+      p_booking->>'guest_name',
+      p_booking->>'guest_email',
+      p_booking->>'guest_phone',
+      p_booking->>'special_requests',
+      COALESCE(p_booking->>'status', 'confirmed'),
+      (p_booking->>'booking_fee')::DECIMAL,
+      (p_booking->>'amount_payable')::DECIMAL,
+      COALESCE((p_booking->>'discount_total')::DECIMAL, 0),
+      COALESCE(p_booking->'applied_discounts', '[]'::jsonb),
+      p_booking->>'payment_reference',
+      COALESCE(p_booking->>'payment_status', 'paid'),
+      COALESCE(p_booking->'metadata', '{}'::jsonb)
+    )
+    RETURNING * INTO v_booking;
+  EXCEPTION WHEN unique_violation OR exclusion_violation THEN
+    RAISE EXCEPTION 'Table is not available for this session on %', p_booking->>'booking_date' USING ERRCODE = '23505';
+  END;
+
+  RETURN NEXT v_booking;
+END;
+$$;
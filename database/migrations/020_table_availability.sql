@@ -0,0 +1,115 @@
+-- Table availability
+-- get_table_availability answers the table selection screen in one query: every
+-- table with its price and whether it is free, held by someone checking out, or
+-- booked for the chosen night and session. Members can only read their own
+-- bookings, so it runs as definer and returns nothing about who booked.
+--
+-- Changes to bookings are broadcast on the Realtime topic
+-- 'table-availability:<booking_date>' (event 'availability_changed', payload
+-- { table_id }) so open table selection screens refresh while a guest is choosing.
+
+CREATE OR REPLACE FUNCTION get_table_availability(p_booking_date DATE, p_session_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  table_number TEXT,
+  section TEXT,
+  seats INTEGER,
+  booking_fee DECIMAL,
+  image_url TEXT,
+  is_available BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  status TEXT, -- available, held, booked or closed
+  hold_expires_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session booking_sessions%ROWTYPE;
+  v_starts_at TIMESTAMP WITH TIME ZONE := night_time(p_booking_date, '12:00');
+  v_ends_at TIMESTAMP WITH TIME ZONE := night_time(p_booking_date, '12:00') + INTERVAL '24 hours';
+BEGIN
+  IF p_session_id IS NOT NULL THEN
+    SELECT * INTO v_session FROM booking_sessions s WHERE s.id = p_session_id AND s.is_active;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Booking session % not found', p_session_id USING ERRCODE = 'P0002';
+    END IF;
+
+    v_starts_at := night_time(p_booking_date, v_session.starts_at);
+    v_ends_at := night_time(p_booking_date, v_session.ends_at);
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.name::TEXT,
+    t.table_number::TEXT,
+    t.section::TEXT,
+    t.seats::INTEGER,
+    t.booking_fee::DECIMAL,
+    t.image_url::TEXT,
+    t.is_available,
+    t.created_at,
+    t.updated_at,
+    CASE
+      WHEN NOT t.is_available THEN 'closed'
+      WHEN BOOL_OR(b.id IS NOT NULL AND b.hold_expires_at IS NULL) THEN 'booked'
+      WHEN COUNT(b.id) > 0 THEN 'held'
+      ELSE 'available'
+    END,
+    MAX(b.hold_expires_at)
+  FROM table_areas t
+  LEFT JOIN bookings b
+    ON b.table_id = t.id
+    AND b.status IN ('pending', 'confirmed')
+    AND b.starts_at < v_ends_at
+    AND b.ends_at > v_starts_at
+    AND (b.hold_expires_at IS NULL OR b.hold_expires_at > NOW())
+    -- The member's own hold doesn't stop them picking the table again
+    AND NOT (b.hold_expires_at IS NOT NULL AND b.user_id IS NOT DISTINCT FROM auth.uid() AND auth.uid() IS NOT NULL)
+  GROUP BY t.id
+  ORDER BY t.section, t.table_number;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_table_availability(DATE, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_table_availability(DATE, UUID) TO anon, authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION broadcast_table_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM realtime.send(
+      jsonb_build_object('table_id', NEW.table_id),
+      'availability_changed',
+      'table-availability:' || NEW.booking_date::TEXT,
+      FALSE
+    );
+  END IF;
+
+  IF TG_OP <> 'INSERT' AND (TG_OP = 'DELETE' OR OLD.booking_date IS DISTINCT FROM NEW.booking_date) THEN
+    PERFORM realtime.send(
+      jsonb_build_object('table_id', OLD.table_id),
+      'availability_changed',
+      'table-availability:' || OLD.booking_date::TEXT,
+      FALSE
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS broadcast_bookings_availability ON bookings;
+CREATE TRIGGER broadcast_bookings_availability
+  AFTER INSERT OR DELETE OR UPDATE OF status, hold_expires_at, table_id, booking_date, session_id ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION broadcast_table_availability();
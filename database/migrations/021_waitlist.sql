@@ -0,0 +1,384 @@
+-- Waitlist for booked tables
+-- Guests can wait for a specific table, any table in a section, or any table on a
+-- night (optionally for one session). When a booking is cancelled the table is
+-- offered to the first guest in line whose request it fits: the offer is a
+-- checkout hold in their name (see 018) and they have WAITLIST_OFFER_MINUTES to
+-- pay for it. Offers that run out pass to the next guest (expire_waitlist_offers,
+-- run by /api/jobs/expire-waitlist-offers).
+
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  booking_date DATE NOT NULL,
+  session_id UUID REFERENCES booking_sessions(id), -- NULL: any session that night
+  scope VARCHAR(10) NOT NULL CHECK (scope IN ('table', 'section', 'any')),
+  table_id UUID REFERENCES table_areas(id) ON DELETE CASCADE,
+  section TEXT CHECK (section IN ('VIP', 'Regular', 'Privé')),
+  guest_count INTEGER NOT NULL CHECK (guest_count > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'claimed', 'expired', 'cancelled')),
+  offered_table_id UUID REFERENCES table_areas(id) ON DELETE SET NULL,
+  offered_session_id UUID REFERENCES booking_sessions(id),
+  offer_hold_id UUID, -- the pending booking holding the table for this guest
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  CONSTRAINT waitlist_scope_target CHECK (
+    (scope = 'table' AND table_id IS NOT NULL)
+    OR (scope = 'section' AND section IS NOT NULL)
+    OR scope = 'any'
+  )
+);
+
+-- One place in line per guest, night and session
+CREATE UNIQUE INDEX IF NOT EXISTS uq_waitlist_entries_active
+  ON waitlist_entries(user_id, booking_date, COALESCE(session_id, '00000000-0000-0000-0000-000000000000'::UUID))
+  WHERE status IN ('waiting', 'offered');
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_queue
+  ON waitlist_entries(booking_date, created_at)
+  WHERE status = 'waiting';
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_offers
+  ON waitlist_entries(offer_hold_id)
+  WHERE status = 'offered';
+
+DROP TRIGGER IF EXISTS update_waitlist_entries_updated_at ON waitlist_entries;
+CREATE TRIGGER update_waitlist_entries_updated_at
+  BEFORE UPDATE ON waitlist_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Guests read their own entries; joining and leaving go through the functions below
+ALTER TABLE waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own waitlist entries" ON waitlist_entries;
+CREATE POLICY "Users can view own waitlist entries"
+  ON waitlist_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Offers a table that has just come free to the first waiting guest it suits.
+-- Returns the entry offered the table, or NULL if nobody in line can take it.
+CREATE OR REPLACE FUNCTION offer_freed_table(p_table_id UUID, p_booking_date DATE, p_session_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table table_areas%ROWTYPE;
+  v_entry waitlist_entries%ROWTYPE;
+  v_session_id UUID;
+  v_hold_id UUID;
+  v_expires_at TIMESTAMP WITH TIME ZONE := NOW() + INTERVAL '30 minutes';
+BEGIN
+  SELECT * INTO v_table FROM table_areas t WHERE t.id = p_table_id AND t.is_available;
+  IF NOT FOUND OR p_booking_date < (NOW() AT TIME ZONE 'Africa/Lagos')::DATE THEN
+    RETURN NULL;
+  END IF;
+
+  FOR v_entry IN
+    SELECT * FROM waitlist_entries e
+    WHERE e.status = 'waiting'
+      AND e.booking_date = p_booking_date
+      AND (e.session_id IS NULL OR p_session_id IS NULL OR e.session_id = p_session_id)
+      AND (
+        e.scope = 'any'
+        OR (e.scope = 'section' AND e.section = v_table.section::TEXT)
+        OR (e.scope = 'table' AND e.table_id = p_table_id)
+      )
+      AND e.guest_count <= v_table.seats
+    ORDER BY e.created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_session_id := COALESCE(v_entry.session_id, p_session_id);
+
+    -- The hold fails if the guest's session overlaps another booking of the table
+    BEGIN
+      INSERT INTO bookings (
+        user_id, table_id, booking_date, session_id, guest_count, guest_name, guest_email,
+        guest_phone, status, booking_fee, payment_status, hold_expires_at, metadata
+      )
+      SELECT
+        v_entry.user_id,
+        p_table_id,
+        p_booking_date,
+        v_session_id,
+        v_entry.guest_count,
+        COALESCE(NULLIF(TRIM(CONCAT_WS(' ', p.first_name, p.last_name)), ''), 'Quilox Guest'),
+        COALESCE(u.email, ''),
+        COALESCE(p.phone, ''),
+        'pending',
+        v_table.booking_fee,
+        'pending',
+        v_expires_at,
+        jsonb_build_object('waitlist_entry_id', v_entry.id)
+      FROM auth.users u
+      LEFT JOIN profiles p ON p.id = u.id
+      WHERE u.id = v_entry.user_id
+      RETURNING id INTO v_hold_id;
+    EXCEPTION WHEN unique_violation OR exclusion_violation THEN
+      CONTINUE;
+    END;
+
+    IF v_hold_id IS NULL THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE waitlist_entries e
+    SET status = 'offered',
+        offered_table_id = p_table_id,
+        offered_session_id = v_session_id,
+        offer_hold_id = v_hold_id,
+        offer_expires_at = v_expires_at
+    WHERE e.id = v_entry.id;
+
+    INSERT INTO notifications (user_id, type, title, body, data)
+    VALUES (
+      v_entry.user_id, 'waitlist_offer', 'A table is free',
+      v_table.name || ' (' || v_table.table_number || ') is free on ' || TO_CHAR(p_booking_date, 'Dy DD Mon') ||
+        '. It is held for you for 30 minutes - pay the booking fee to claim it.',
+      jsonb_build_object(
+        'entry_id', v_entry.id,
+        'table_id', p_table_id,
+        'booking_date', p_booking_date,
+        'session_id', v_session_id,
+        'hold_id', v_hold_id,
+        'expires_at', v_expires_at
+      )
+    );
+
+    RETURN v_entry.id;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Offers cancelled tables to the waitlist and marks claimed offers
+CREATE OR REPLACE FUNCTION waitlist_on_booking_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.hold_expires_at IS NOT NULL AND NEW.hold_expires_at IS NULL AND NEW.status = 'confirmed' THEN
+    UPDATE waitlist_entries e
+    SET status = 'claimed'
+    WHERE e.offer_hold_id = NEW.id AND e.status = 'offered';
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status IN ('pending', 'confirmed') AND OLD.hold_expires_at IS NULL THEN
+    -- A whole-night booking can go to several guests waiting for different sessions
+    WHILE offer_freed_table(NEW.table_id, NEW.booking_date, NEW.session_id) IS NOT NULL LOOP
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS waitlist_bookings_change ON bookings;
+CREATE TRIGGER waitlist_bookings_change
+  AFTER UPDATE OF status, hold_expires_at ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION waitlist_on_booking_change();
+
+-- Joins the waitlist for a night. p_session_id NULL waits for any session.
+CREATE OR REPLACE FUNCTION join_waitlist(
+  p_booking_date DATE,
+  p_session_id UUID,
+  p_scope TEXT,
+  p_table_id UUID,
+  p_section TEXT,
+  p_guest_count INTEGER
+)
+RETURNS SETOF waitlist_entries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry waitlist_entries%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to join the waitlist' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_booking_date < (NOW() AT TIME ZONE 'Africa/Lagos')::DATE THEN
+    RAISE EXCEPTION 'That night has passed' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO waitlist_entries (user_id, booking_date, session_id, scope, table_id, section, guest_count)
+  VALUES (
+    auth.uid(),
+    p_booking_date,
+    p_session_id,
+    p_scope,
+    CASE WHEN p_scope = 'table' THEN p_table_id END,
+    CASE WHEN p_scope = 'section' THEN p_section END,
+    p_guest_count
+  )
+  RETURNING * INTO v_entry;
+
+  RETURN NEXT v_entry;
+END;
+$$;
+
+-- Leaves the waitlist. Declining an offer passes the table to the next guest.
+CREATE OR REPLACE FUNCTION leave_waitlist(p_entry_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry waitlist_entries%ROWTYPE;
+BEGIN
+  SELECT * INTO v_entry FROM waitlist_entries e WHERE e.id = p_entry_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Waitlist entry % not found', p_entry_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_entry.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not your waitlist entry' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_entry.status NOT IN ('waiting', 'offered') THEN
+    RETURN;
+  END IF;
+
+  UPDATE waitlist_entries e SET status = 'cancelled' WHERE e.id = p_entry_id;
+
+  IF v_entry.status = 'offered' THEN
+    DELETE FROM bookings b
+    WHERE b.id = v_entry.offer_hold_id AND b.status = 'pending' AND b.hold_expires_at IS NOT NULL;
+
+    PERFORM offer_freed_table(v_entry.offered_table_id, v_entry.booking_date, v_entry.offered_session_id);
+  END IF;
+END;
+$$;
+
+-- The caller's current entries with their place in line: guests ahead are those
+-- waiting longer for the same night and session whose request covers a table
+-- this one does too.
+CREATE OR REPLACE FUNCTION get_my_waitlist()
+RETURNS TABLE (
+  id UUID,
+  booking_date DATE,
+  session_id UUID,
+  session_name TEXT,
+  scope TEXT,
+  table_id UUID,
+  table_name TEXT,
+  section TEXT,
+  guest_count INTEGER,
+  status TEXT,
+  queue_position INTEGER,
+  offered_table JSONB,
+  offered_session_id UUID,
+  offer_hold_id UUID,
+  offer_expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.id,
+    e.booking_date,
+    e.session_id,
+    s.name::TEXT,
+    e.scope::TEXT,
+    e.table_id,
+    et.name::TEXT,
+    e.section,
+    e.guest_count,
+    e.status::TEXT,
+    CASE WHEN e.status = 'waiting' THEN (
+      SELECT COUNT(*)::INTEGER + 1
+      FROM waitlist_entries o
+      LEFT JOIN table_areas ot ON ot.id = o.table_id
+      WHERE o.status = 'waiting'
+        AND o.booking_date = e.booking_date
+        AND o.created_at < e.created_at
+        AND (o.session_id IS NULL OR e.session_id IS NULL OR o.session_id = e.session_id)
+        AND (
+          o.scope = 'any' OR e.scope = 'any'
+          OR (o.scope = 'table' AND e.scope = 'table' AND o.table_id = e.table_id)
+          OR ((o.scope <> 'table' OR e.scope <> 'table')
+            AND COALESCE(o.section, ot.section::TEXT) = COALESCE(e.section, et.section::TEXT))
+        )
+    ) END,
+    CASE WHEN e.status = 'offered' THEN to_jsonb(ot2) END,
+    e.offered_session_id,
+    e.offer_hold_id,
+    COALESCE(b.hold_expires_at, e.offer_expires_at),
+    e.created_at
+  FROM waitlist_entries e
+  LEFT JOIN booking_sessions s ON s.id = e.session_id
+  LEFT JOIN table_areas et ON et.id = e.table_id
+  LEFT JOIN table_areas ot2 ON ot2.id = e.offered_table_id
+  LEFT JOIN bookings b ON b.id = e.offer_hold_id
+  WHERE e.user_id = auth.uid()
+    AND e.status IN ('waiting', 'offered')
+  ORDER BY e.booking_date, e.created_at;
+$$;
+
+-- Run every few minutes: offers nobody claimed in time go to the next guest
+CREATE OR REPLACE FUNCTION expire_waitlist_offers()
+RETURNS TABLE (
+  offers_expired INTEGER,
+  offers_made INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry waitlist_entries%ROWTYPE;
+  v_expired INTEGER := 0;
+  v_offered INTEGER := 0;
+BEGIN
+  FOR v_entry IN
+    SELECT e.* FROM waitlist_entries e
+    LEFT JOIN bookings b ON b.id = e.offer_hold_id
+    WHERE e.status = 'offered'
+      -- The hold is gone (released, or cleared once expired) or has run out
+      AND (b.id IS NULL OR (b.status = 'pending' AND b.hold_expires_at <= NOW()))
+    FOR UPDATE OF e SKIP LOCKED
+  LOOP
+    DELETE FROM bookings b
+    WHERE b.id = v_entry.offer_hold_id AND b.status = 'pending' AND b.hold_expires_at <= NOW();
+
+    UPDATE waitlist_entries e SET status = 'expired' WHERE e.id = v_entry.id;
+    v_expired := v_expired + 1;
+
+    IF offer_freed_table(v_entry.offered_table_id, v_entry.booking_date, v_entry.offered_session_id) IS NOT NULL THEN
+      v_offered := v_offered + 1;
+    END IF;
+  END LOOP;
+
+  -- Nights that have passed
+  UPDATE waitlist_entries e
+  SET status = 'expired'
+  WHERE e.status = 'waiting' AND e.booking_date < (NOW() AT TIME ZONE 'Africa/Lagos')::DATE;
+
+  RETURN QUERY SELECT v_expired, v_offered;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION offer_freed_table(UUID, DATE, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION expire_waitlist_offers() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION join_waitlist(DATE, UUID, TEXT, UUID, TEXT, INTEGER) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION leave_waitlist(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_my_waitlist() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION offer_freed_table(UUID, DATE, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION expire_waitlist_offers() TO service_role;
+GRANT EXECUTE ON FUNCTION join_waitlist(DATE, UUID, TEXT, UUID, TEXT, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION leave_waitlist(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_my_waitlist() TO authenticated, service_role;
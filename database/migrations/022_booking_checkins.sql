@@ -0,0 +1,93 @@
+-- Door check-in
+-- Confirmed bookings carry a check-in pass: a QR code whose signature rotates every
+-- few seconds (see backend/checkin-passes.js). Door staff verify it on the scanner
+-- without a connection and send the check-ins up when they can. The first scan of
+-- a booking checks the guests in; any later scan is logged as a duplicate so staff
+-- can spot a shared or copied pass.
+
+ALTER TABLE bookings
+ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS checked_in_by UUID REFERENCES auth.users(id);
+
+-- Every scan the door sent, including duplicates
+CREATE TABLE IF NOT EXISTS booking_checkins (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  scanned_by UUID NOT NULL REFERENCES auth.users(id),
+  scanned_at TIMESTAMP WITH TIME ZONE NOT NULL, -- on the scanner, which may have been offline
+  result VARCHAR(20) NOT NULL CHECK (result IN ('checked_in', 'duplicate')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_checkins_booking
+  ON booking_checkins(booking_id, scanned_at);
+
+-- Written and read by the backend only
+ALTER TABLE booking_checkins ENABLE ROW LEVEL SECURITY;
+
+-- Records a scan. The earliest scan wins, so check-ins queued on an offline scanner
+-- keep the time the guests actually arrived.
+CREATE OR REPLACE FUNCTION check_in_booking(
+  p_booking_id UUID,
+  p_staff_id UUID,
+  p_scanned_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TABLE (
+  booking_id UUID,
+  result TEXT, -- checked_in or duplicate
+  checked_in_at TIMESTAMP WITH TIME ZONE,
+  checked_in_by UUID,
+  guest_name TEXT,
+  guest_count INTEGER,
+  table_name TEXT,
+  table_number TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  v_scanned_at TIMESTAMP WITH TIME ZONE := LEAST(COALESCE(p_scanned_at, NOW()), NOW());
+  v_result TEXT := 'checked_in';
+BEGIN
+  SELECT * INTO v_booking FROM bookings b WHERE b.id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_booking_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Booking is %', v_booking.status USING ERRCODE = '55000';
+  END IF;
+
+  IF v_booking.checked_in_at IS NOT NULL THEN
+    v_result := 'duplicate';
+  END IF;
+
+  IF v_booking.checked_in_at IS NULL OR v_scanned_at < v_booking.checked_in_at THEN
+    UPDATE bookings b
+    SET checked_in_at = v_scanned_at, checked_in_by = p_staff_id
+    WHERE b.id = p_booking_id;
+  END IF;
+
+  INSERT INTO booking_checkins (booking_id, scanned_by, scanned_at, result)
+  VALUES (p_booking_id, p_staff_id, v_scanned_at, v_result);
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    v_result,
+    b.checked_in_at,
+    b.checked_in_by,
+    b.guest_name::TEXT,
+    b.guest_count::INTEGER,
+    t.name::TEXT,
+    t.table_number::TEXT
+  FROM bookings b
+  JOIN table_areas t ON t.id = b.table_id
+  WHERE b.id = p_booking_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION check_in_booking(UUID, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_in_booking(UUID, UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
@@ -0,0 +1,17 @@
+-- Webhook events stuck in received
+-- An event is stored as received before it is claimed. If the claim or the handler
+-- throws before the event is marked failed it used to stay received for good: the
+-- retry worker only looked at failed/processing events. Received events now carry a
+-- next_attempt_at like a processing lease and the retry worker picks them up once it
+-- has passed. Unsigned deliveries are no longer stored at all.
+
+DROP INDEX IF EXISTS idx_webhook_events_retry;
+CREATE INDEX IF NOT EXISTS idx_webhook_events_retry
+  ON webhook_events(next_attempt_at)
+  WHERE status IN ('received', 'failed', 'processing');
+
+-- Events already stuck are due now
+UPDATE webhook_events
+SET next_attempt_at = NOW()
+WHERE status = 'received'
+  AND next_attempt_at IS NULL;
@@ -0,0 +1,117 @@
+-- Bookings are confirmed by the backend only
+-- confirm_booking and create_booking_with_wallet_payment took the booking's status,
+-- payment and price columns from the caller, so anyone could record a paid booking
+-- without paying. Both are now for the service role: the backend prices the booking,
+-- takes the wallet payment or verifies the Paystack charge, then confirms it (see
+-- backend/booking-checkout.js). Members can still hold a table while they pay, but
+-- no longer anonymously, and a trigger keeps them from writing payment columns.
+
+-- A card checkout in progress: what the backend priced and expects Paystack to charge.
+-- The charge.success webhook (or the app, after checkout) confirms the booking from it.
+CREATE TABLE IF NOT EXISTS booking_checkouts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reference TEXT NOT NULL UNIQUE, -- Paystack transaction reference
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  hold_id UUID, -- the member's table hold, turned into the booking
+  booking JSONB NOT NULL, -- table, night, session and guest details
+  quote JSONB NOT NULL, -- backend pricing the booking is charged at
+  wallet_id UUID REFERENCES user_wallets(id),
+  wallet_amount DECIMAL(15, 2) NOT NULL DEFAULT 0 CHECK (wallet_amount >= 0),
+  paystack_amount DECIMAL(15, 2) NOT NULL CHECK (paystack_amount > 0),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'confirmed', 'failed', 'cancelled')),
+  booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+  error TEXT,
+  refunded_at TIMESTAMP WITH TIME ZONE, -- set when the charge went back because no booking could be made
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_checkouts_user ON booking_checkouts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_booking_checkouts_pending
+  ON booking_checkouts(created_at)
+  WHERE status IN ('pending', 'processing');
+
+DROP TRIGGER IF EXISTS update_booking_checkouts_updated_at ON booking_checkouts;
+CREATE TRIGGER update_booking_checkouts_updated_at
+  BEFORE UPDATE ON booking_checkouts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Backend only: no policies
+ALTER TABLE booking_checkouts ENABLE ROW LEVEL SECURITY;
+
+-- Only the member who placed a hold can release it
+CREATE OR REPLACE FUNCTION release_booking_hold(p_booking_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM bookings b
+  WHERE b.id = p_booking_id
+    AND b.status = 'pending'
+    AND b.hold_expires_at IS NOT NULL
+    AND b.user_id = auth.uid();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION hold_table(JSONB, INTEGER) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION release_booking_hold(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION confirm_booking(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION create_booking_with_wallet_payment(JSONB, UUID, DECIMAL, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION hold_table(JSONB, INTEGER) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION release_booking_hold(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION confirm_booking(JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION create_booking_with_wallet_payment(JSONB, UUID, DECIMAL, TEXT, TEXT) TO service_role;
+
+-- Members (directly or through a function they call) can only write unpaid holds.
+-- Confirming, paying, pricing, check-in and what the booking is for are backend-only.
+CREATE OR REPLACE FUNCTION guard_booking_payment_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- The service role, and sessions without a JWT (migrations, scheduled SQL)
+  IF auth.role() IS DISTINCT FROM 'anon' AND auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending'
+      OR COALESCE(NEW.payment_status, 'pending') <> 'pending'
+      OR NEW.payment_reference IS NOT NULL
+      OR NEW.checked_in_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Bookings are confirmed by the backend' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.payment_reference IS DISTINCT FROM OLD.payment_reference
+    OR NEW.booking_fee IS DISTINCT FROM OLD.booking_fee
+    OR NEW.amount_payable IS DISTINCT FROM OLD.amount_payable
+    OR NEW.discount_total IS DISTINCT FROM OLD.discount_total
+    OR NEW.applied_discounts IS DISTINCT FROM OLD.applied_discounts
+    OR NEW.metadata IS DISTINCT FROM OLD.metadata
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.table_id IS DISTINCT FROM OLD.table_id
+    OR NEW.booking_date IS DISTINCT FROM OLD.booking_date
+    OR NEW.session_id IS DISTINCT FROM OLD.session_id
+    OR NEW.checked_in_at IS DISTINCT FROM OLD.checked_in_at
+    OR NEW.checked_in_by IS DISTINCT FROM OLD.checked_in_by THEN
+    RAISE EXCEPTION 'Bookings are changed by the backend' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_bookings_payment_columns ON bookings;
+CREATE TRIGGER guard_bookings_payment_columns
+  BEFORE INSERT OR UPDATE ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_booking_payment_columns();
@@ -0,0 +1,397 @@
+-- Ledger lookups by reference and side
+-- 015 made wallet_transactions.reference unique per type, because the debit and
+-- credit legs of a transfer share a reference. The ledger functions still looked a
+-- reference up on its own, so with both legs present they could pick up the wrong
+-- one (a credit replay finding the debit, a release finding the credit). Each one
+-- now looks up only the side it works on. Grants are unchanged.
+
+-- Credits: the credit leg of p_reference
+CREATE OR REPLACE FUNCTION wallet_credit(
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_description TEXT,
+  p_payment_method TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  new_balance DECIMAL,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet user_wallets%ROWTYPE;
+  v_tx wallet_transactions%ROWTYPE;
+  v_balance DECIMAL(15, 2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Credit amount must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_wallet FROM user_wallets w WHERE w.id = p_wallet_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet % not found', p_wallet_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference AND t.type = 'credit' FOR UPDATE;
+
+  IF FOUND THEN
+    IF v_tx.wallet_id <> p_wallet_id THEN
+      RAISE EXCEPTION 'Reference % already used', p_reference USING ERRCODE = '23505';
+    END IF;
+
+    IF v_tx.status = 'completed' THEN
+      RETURN QUERY SELECT v_tx.id, v_wallet.balance, TRUE;
+      RETURN;
+    END IF;
+
+    UPDATE user_wallets w
+    SET balance = w.balance + p_amount
+    WHERE w.id = p_wallet_id
+    RETURNING w.balance INTO v_balance;
+
+    UPDATE wallet_transactions t
+    SET status = 'completed',
+        amount = p_amount,
+        balance_after = v_balance,
+        metadata = t.metadata || COALESCE(p_metadata, '{}'::jsonb),
+        updated_at = NOW()
+    WHERE t.id = v_tx.id;
+
+    RETURN QUERY SELECT v_tx.id, v_balance, FALSE;
+    RETURN;
+  END IF;
+
+  UPDATE user_wallets w
+  SET balance = w.balance + p_amount
+  WHERE w.id = p_wallet_id
+  RETURNING w.balance INTO v_balance;
+
+  INSERT INTO wallet_transactions (
+    user_id, wallet_id, type, amount, status, reference,
+    description, payment_method, balance_after, metadata
+  )
+  VALUES (
+    v_wallet.user_id, p_wallet_id, 'credit', p_amount, 'completed', p_reference,
+    p_description, p_payment_method, v_balance, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, v_balance, FALSE;
+END;
+$$;
+
+-- Debits: the debit leg of p_reference
+CREATE OR REPLACE FUNCTION wallet_debit(
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_description TEXT,
+  p_payment_method TEXT DEFAULT 'wallet',
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  new_balance DECIMAL,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet user_wallets%ROWTYPE;
+  v_tx wallet_transactions%ROWTYPE;
+  v_balance DECIMAL(15, 2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Debit amount must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_wallet FROM user_wallets w WHERE w.id = p_wallet_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet % not found', p_wallet_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role' AND v_wallet.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to debit wallet %', p_wallet_id USING ERRCODE = '42501';
+  END IF;
+
+  IF v_wallet.status <> 'active' THEN
+    RAISE EXCEPTION 'Wallet % is %', p_wallet_id, v_wallet.status USING ERRCODE = '55000';
+  END IF;
+
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference AND t.type = 'debit';
+
+  IF FOUND THEN
+    IF v_tx.wallet_id = p_wallet_id AND v_tx.status = 'completed' THEN
+      RETURN QUERY SELECT v_tx.id, v_wallet.balance, TRUE;
+      RETURN;
+    END IF;
+    RAISE EXCEPTION 'Reference % already used', p_reference USING ERRCODE = '23505';
+  END IF;
+
+  IF v_wallet.balance < p_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance' USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE user_wallets w
+  SET balance = w.balance - p_amount
+  WHERE w.id = p_wallet_id
+  RETURNING w.balance INTO v_balance;
+
+  INSERT INTO wallet_transactions (
+    user_id, wallet_id, type, amount, status, reference,
+    description, payment_method, balance_after, metadata
+  )
+  VALUES (
+    v_wallet.user_id, p_wallet_id, 'debit', p_amount, 'completed', p_reference,
+    p_description, p_payment_method, v_balance, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, v_balance, FALSE;
+END;
+$$;
+
+-- Top-ups are credits
+CREATE OR REPLACE FUNCTION complete_wallet_topup(
+  p_reference TEXT,
+  p_amount_paid DECIMAL
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  wallet_id UUID,
+  new_balance DECIMAL,
+  points_earned INTEGER,
+  already_completed BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx wallet_transactions%ROWTYPE;
+  v_result RECORD;
+  v_points INTEGER := 0;
+BEGIN
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference AND t.type = 'credit';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Top-up % not found', p_reference USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_tx.status <> 'completed' AND p_amount_paid < v_tx.amount THEN
+    RAISE EXCEPTION 'Amount paid (%) is less than top-up amount (%) for %', p_amount_paid, v_tx.amount, p_reference
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_result
+  FROM wallet_credit(v_tx.wallet_id, v_tx.amount, p_reference, v_tx.description, v_tx.payment_method);
+
+  IF NOT v_result.already_applied THEN
+    v_points := loyalty_points_for_amount(v_tx.wallet_id, v_tx.amount);
+    IF v_points > 0 THEN
+      PERFORM loyalty_add_points(v_tx.wallet_id, v_points, 'earn', 'PTS-' || p_reference, 'Wallet top-up');
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT v_result.transaction_id, v_tx.wallet_id, v_result.new_balance, v_points, v_result.already_applied;
+END;
+$$;
+
+-- Holds are debits
+CREATE OR REPLACE FUNCTION wallet_hold_debit(
+  p_wallet_id UUID,
+  p_amount DECIMAL,
+  p_reference TEXT,
+  p_description TEXT,
+  p_payment_method TEXT DEFAULT 'bank_transfer',
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  new_balance DECIMAL,
+  already_applied BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_wallet user_wallets%ROWTYPE;
+  v_tx wallet_transactions%ROWTYPE;
+  v_balance DECIMAL(15, 2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Debit amount must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_wallet FROM user_wallets w WHERE w.id = p_wallet_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Wallet % not found', p_wallet_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_wallet.status <> 'active' THEN
+    RAISE EXCEPTION 'Wallet % is %', p_wallet_id, v_wallet.status USING ERRCODE = '55000';
+  END IF;
+
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference AND t.type = 'debit';
+
+  IF FOUND THEN
+    IF v_tx.wallet_id = p_wallet_id AND v_tx.status IN ('pending', 'completed') THEN
+      RETURN QUERY SELECT v_tx.id, v_wallet.balance, TRUE;
+      RETURN;
+    END IF;
+    RAISE EXCEPTION 'Reference % already used', p_reference USING ERRCODE = '23505';
+  END IF;
+
+  IF v_wallet.balance < p_amount THEN
+    RAISE EXCEPTION 'Insufficient wallet balance' USING ERRCODE = '23514';
+  END IF;
+
+  UPDATE user_wallets w
+  SET balance = w.balance - p_amount
+  WHERE w.id = p_wallet_id
+  RETURNING w.balance INTO v_balance;
+
+  INSERT INTO wallet_transactions (
+    user_id, wallet_id, type, amount, status, reference,
+    description, payment_method, balance_after, metadata
+  )
+  VALUES (
+    v_wallet.user_id, p_wallet_id, 'debit', p_amount, 'pending', p_reference,
+    p_description, p_payment_method, v_balance, COALESCE(p_metadata, '{}'::jsonb)
+  )
+  RETURNING id INTO v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, v_balance, FALSE;
+END;
+$$;
+
+-- Settling a hold works on the debit leg
+CREATE OR REPLACE FUNCTION wallet_finalize_debit(
+  p_reference TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  wallet_id UUID,
+  status TEXT,
+  already_settled BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference AND t.type = 'debit' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Held debit % not found', p_reference USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_tx.status <> 'pending' THEN
+    RETURN QUERY SELECT v_tx.id, v_tx.wallet_id, v_tx.status::TEXT, TRUE;
+    RETURN;
+  END IF;
+
+  UPDATE wallet_transactions t
+  SET status = 'completed',
+      metadata = t.metadata || COALESCE(p_metadata, '{}'::jsonb),
+      updated_at = NOW()
+  WHERE t.id = v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, v_tx.wallet_id, 'completed'::TEXT, FALSE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION wallet_release_debit(
+  p_reference TEXT,
+  p_reason TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  wallet_id UUID,
+  new_balance DECIMAL,
+  already_settled BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx wallet_transactions%ROWTYPE;
+  v_balance DECIMAL(15, 2);
+BEGIN
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference AND t.type = 'debit' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Held debit % not found', p_reference USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_tx.status <> 'pending' THEN
+    SELECT w.balance INTO v_balance FROM user_wallets w WHERE w.id = v_tx.wallet_id;
+    RETURN QUERY SELECT v_tx.id, v_tx.wallet_id, v_balance, TRUE;
+    RETURN;
+  END IF;
+
+  UPDATE user_wallets w
+  SET balance = w.balance + v_tx.amount
+  WHERE w.id = v_tx.wallet_id
+  RETURNING w.balance INTO v_balance;
+
+  UPDATE wallet_transactions t
+  SET status = 'failed',
+      metadata = t.metadata || COALESCE(p_metadata, '{}'::jsonb) || jsonb_build_object('release_reason', p_reason),
+      updated_at = NOW()
+  WHERE t.id = v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, v_tx.wallet_id, v_balance, FALSE;
+END;
+$$;
+
+-- Failing a top-up works on the credit leg
+CREATE OR REPLACE FUNCTION fail_wallet_topup(
+  p_reference TEXT,
+  p_reason TEXT
+)
+RETURNS TABLE (
+  transaction_id UUID,
+  status TEXT,
+  already_settled BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tx wallet_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tx FROM wallet_transactions t WHERE t.reference = p_reference AND t.type = 'credit' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Top-up % not found', p_reference USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_tx.status <> 'pending' THEN
+    RETURN QUERY SELECT v_tx.id, v_tx.status::TEXT, TRUE;
+    RETURN;
+  END IF;
+
+  UPDATE wallet_transactions t
+  SET status = 'failed',
+      metadata = t.metadata || jsonb_build_object('failure_reason', p_reason),
+      updated_at = NOW()
+  WHERE t.id = v_tx.id;
+
+  RETURN QUERY SELECT v_tx.id, 'failed'::TEXT, FALSE;
+END;
+$$;
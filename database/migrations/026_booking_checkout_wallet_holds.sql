@@ -0,0 +1,51 @@
+-- Split-tender bookings hold the wallet part first
+-- The wallet part of a card checkout used to be debited only once the card had been
+-- charged, so a member could spend the balance in the meantime and leave the card
+-- payment without a booking. It is now held (wallet_hold_debit) before Paystack is
+-- opened, and the hold is settled on the backend with the charge: finalized with the
+-- booking when the charge succeeds, released when it fails or the checkout is
+-- abandoned (see backend/booking-checkout.js).
+
+-- Finalizes the held wallet part and confirms the booking in one transaction.
+-- A table taken in the meantime raises 23505 and leaves the hold in place for the
+-- backend to release. Replaying a finalized reference returns its booking.
+CREATE OR REPLACE FUNCTION confirm_booking_with_held_debit(
+  p_booking JSONB,
+  p_reference TEXT
+)
+RETURNS SETOF bookings
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_debit RECORD;
+  v_booking bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO v_debit
+  FROM wallet_finalize_debit(p_reference, jsonb_build_object('booking_confirmed_at', NOW()));
+
+  IF v_debit.already_settled THEN
+    IF v_debit.status = 'completed' THEN
+      RETURN QUERY SELECT * FROM bookings b WHERE b.metadata->>'wallet_reference' = p_reference;
+      RETURN;
+    END IF;
+    RAISE EXCEPTION 'Wallet hold % was released', p_reference USING ERRCODE = '55000';
+  END IF;
+
+  SELECT * INTO v_booking
+  FROM confirm_booking(
+    p_booking || jsonb_build_object(
+      'metadata', COALESCE(p_booking->'metadata', '{}'::jsonb) || jsonb_build_object(
+        'wallet_reference', p_reference,
+        'wallet_transaction_id', v_debit.transaction_id
+      )
+    )
+  );
+
+  RETURN NEXT v_booking;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION confirm_booking_with_held_debit(JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION confirm_booking_with_held_debit(JSONB, TEXT) TO service_role;
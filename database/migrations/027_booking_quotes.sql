@@ -0,0 +1,23 @@
+-- Booking quotes are kept on the backend
+-- A quote used to be priced, shown and thrown away; checkout priced the booking again
+-- and nothing tied what the member was charged to what they were shown. Quotes are
+-- now stored with an expiry and checkout charges the stored quote (by id), so the
+-- confirmed booking and the Paystack charge can both be checked against it.
+
+CREATE TABLE IF NOT EXISTS booking_quotes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  table_id UUID NOT NULL REFERENCES table_areas(id) ON DELETE CASCADE,
+  quote JSONB NOT NULL, -- the pricing engine's result, as shown to the member
+  total DECIMAL(15, 2) NOT NULL CHECK (total >= 0),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_quotes_user ON booking_quotes(user_id, created_at DESC);
+
+-- Backend only: no policies
+ALTER TABLE booking_quotes ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE booking_checkouts
+ADD COLUMN IF NOT EXISTS quote_id UUID REFERENCES booking_quotes(id);
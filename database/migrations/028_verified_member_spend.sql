@@ -0,0 +1,70 @@
+-- Membership spend counts verified payments only
+-- member_rolling_spend summed bookings.amount_payable for bookings marked paid, and
+-- members could write both. Booking spend is now what the backend recorded being
+-- paid: the completed wallet debit at the booking's wallet_reference plus the card
+-- part of its confirmed checkout (booking_checkouts, written once Paystack reported
+-- the charge). Bookings paid before checkouts were recorded only count their wallet
+-- part. Grants are unchanged.
+
+CREATE INDEX IF NOT EXISTS idx_booking_checkouts_booking
+  ON booking_checkouts(booking_id)
+  WHERE booking_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION member_rolling_spend(p_user_id UUID, p_as_of TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS TABLE (
+  bookings DECIMAL,
+  bill_payments DECIMAL,
+  merch DECIMAL,
+  total DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_since TIMESTAMP WITH TIME ZONE := p_as_of - INTERVAL '12 months';
+  v_bookings DECIMAL;
+  v_bills DECIMAL;
+  v_merch DECIMAL;
+BEGIN
+  -- What each booking's wallet debit and confirmed card checkout took, less refunds
+  SELECT COALESCE(SUM(
+    GREATEST(
+      COALESCE(w.amount, 0) + COALESCE(c.paystack_amount, 0)
+        - CASE WHEN b.payment_status = 'refunded'
+            THEN COALESCE((b.metadata->'refund'->>'amount')::DECIMAL, COALESCE(w.amount, 0) + COALESCE(c.paystack_amount, 0))
+            ELSE 0 END,
+      0
+    )
+  ), 0)
+  INTO v_bookings
+  FROM bookings b
+  LEFT JOIN wallet_transactions w
+    ON w.reference = b.metadata->>'wallet_reference'
+    AND w.type = 'debit'
+    AND w.status = 'completed'
+    AND w.user_id = b.user_id
+  LEFT JOIN booking_checkouts c
+    ON c.booking_id = b.id
+    AND c.status = 'confirmed'
+    AND c.user_id = b.user_id
+  WHERE b.user_id = p_user_id
+    AND b.status IN ('confirmed', 'completed', 'cancelled')
+    AND b.created_at > v_since
+    AND b.created_at <= p_as_of;
+
+  SELECT
+    COALESCE(SUM(t.amount) FILTER (WHERE t.reference LIKE 'QLXBILL-%'), 0),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.metadata->>'purpose' = 'merch'), 0)
+  INTO v_bills, v_merch
+  FROM wallet_transactions t
+  WHERE t.user_id = p_user_id
+    AND t.type = 'debit'
+    AND t.status = 'completed'
+    AND t.created_at > v_since
+    AND t.created_at <= p_as_of;
+
+  RETURN QUERY SELECT v_bookings, v_bills, v_merch, v_bookings + v_bills + v_merch;
+END;
+$$;
@@ -0,0 +1,87 @@
+-- Check-in time comes from the server
+-- check_in_booking took the scanner's scanned_at as the check-in time, so whatever a
+-- client sent became the booking's checked_in_at. The check-in is now timed when the
+-- backend records it. The time the scanner reports is kept on the scan log as
+-- reported_scanned_at, and only when it falls within the night that is on now (noon
+-- to noon, Lagos time) and not in the future.
+
+ALTER TABLE booking_checkins
+ADD COLUMN IF NOT EXISTS reported_scanned_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN booking_checkins.scanned_at IS 'When the backend recorded the scan';
+COMMENT ON COLUMN booking_checkins.reported_scanned_at IS 'When the scanner says it scanned the pass (queued offline scans), if plausible';
+
+-- The parameter is renamed, which CREATE OR REPLACE cannot do
+DROP FUNCTION IF EXISTS check_in_booking(UUID, UUID, TIMESTAMP WITH TIME ZONE);
+
+-- Records a scan. The first scan the backend records checks the booking in.
+CREATE OR REPLACE FUNCTION check_in_booking(
+  p_booking_id UUID,
+  p_staff_id UUID,
+  p_reported_scanned_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  booking_id UUID,
+  result TEXT, -- checked_in or duplicate
+  checked_in_at TIMESTAMP WITH TIME ZONE,
+  checked_in_by UUID,
+  guest_name TEXT,
+  guest_count INTEGER,
+  table_name TEXT,
+  table_number TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_booking bookings%ROWTYPE;
+  -- Noon (Lagos) that started the night that is on now
+  v_night_start TIMESTAMP WITH TIME ZONE :=
+    (date_trunc('day', (NOW() AT TIME ZONE 'Africa/Lagos') - INTERVAL '12 hours') + INTERVAL '12 hours')
+      AT TIME ZONE 'Africa/Lagos';
+  v_reported TIMESTAMP WITH TIME ZONE;
+  v_result TEXT := 'checked_in';
+BEGIN
+  SELECT * INTO v_booking FROM bookings b WHERE b.id = p_booking_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking % not found', p_booking_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_booking.status <> 'confirmed' THEN
+    RAISE EXCEPTION 'Booking is %', v_booking.status USING ERRCODE = '55000';
+  END IF;
+
+  IF p_reported_scanned_at >= v_night_start AND p_reported_scanned_at <= NOW() THEN
+    v_reported := p_reported_scanned_at;
+  END IF;
+
+  IF v_booking.checked_in_at IS NOT NULL THEN
+    v_result := 'duplicate';
+  ELSE
+    UPDATE bookings b
+    SET checked_in_at = NOW(), checked_in_by = p_staff_id
+    WHERE b.id = p_booking_id;
+  END IF;
+
+  INSERT INTO booking_checkins (booking_id, scanned_by, scanned_at, reported_scanned_at, result)
+  VALUES (p_booking_id, p_staff_id, NOW(), v_reported, v_result);
+
+  RETURN QUERY
+  SELECT
+    b.id,
+    v_result,
+    b.checked_in_at,
+    b.checked_in_by,
+    b.guest_name::TEXT,
+    b.guest_count::INTEGER,
+    t.name::TEXT,
+    t.table_number::TEXT
+  FROM bookings b
+  JOIN table_areas t ON t.id = b.table_id
+  WHERE b.id = p_booking_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION check_in_booking(UUID, UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_in_booking(UUID, UUID, TIMESTAMP WITH TIME ZONE) TO service_role;
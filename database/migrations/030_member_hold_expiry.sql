@@ -0,0 +1,87 @@
+-- Member holds always run out
+-- guard_booking_payment_columns let members insert a pending booking with no hold
+-- expiry (or one far in the future) and move hold_expires_at later, so a row could
+-- block its table and session for good. Members can now only write a hold that ends
+-- within the longest hold there is (30 minutes: hold_table's limit and a waitlist
+-- offer), and can release their own unpaid pending rows that have no hold at all.
+
+CREATE OR REPLACE FUNCTION guard_booking_payment_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_max_hold TIMESTAMP WITH TIME ZONE := NOW() + INTERVAL '30 minutes';
+BEGIN
+  -- The service role, and sessions without a JWT (migrations, scheduled SQL)
+  IF auth.role() IS DISTINCT FROM 'anon' AND auth.role() IS DISTINCT FROM 'authenticated' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending'
+      OR COALESCE(NEW.payment_status, 'pending') <> 'pending'
+      OR NEW.payment_reference IS NOT NULL
+      OR NEW.checked_in_at IS NOT NULL THEN
+      RAISE EXCEPTION 'Bookings are confirmed by the backend' USING ERRCODE = '42501';
+    END IF;
+
+    IF NEW.hold_expires_at IS NULL
+      OR NEW.hold_expires_at <= NOW()
+      OR NEW.hold_expires_at > v_max_hold THEN
+      RAISE EXCEPTION 'Holds end within 30 minutes' USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.payment_reference IS DISTINCT FROM OLD.payment_reference
+    OR NEW.booking_fee IS DISTINCT FROM OLD.booking_fee
+    OR NEW.amount_payable IS DISTINCT FROM OLD.amount_payable
+    OR NEW.discount_total IS DISTINCT FROM OLD.discount_total
+    OR NEW.applied_discounts IS DISTINCT FROM OLD.applied_discounts
+    OR NEW.metadata IS DISTINCT FROM OLD.metadata
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.table_id IS DISTINCT FROM OLD.table_id
+    OR NEW.booking_date IS DISTINCT FROM OLD.booking_date
+    OR NEW.session_id IS DISTINCT FROM OLD.session_id
+    OR NEW.checked_in_at IS DISTINCT FROM OLD.checked_in_at
+    OR NEW.checked_in_by IS DISTINCT FROM OLD.checked_in_by THEN
+    RAISE EXCEPTION 'Bookings are changed by the backend' USING ERRCODE = '42501';
+  END IF;
+
+  -- Renewing a hold (hold_table) keeps it a hold and within the limit
+  IF NEW.hold_expires_at IS DISTINCT FROM OLD.hold_expires_at
+    AND (OLD.hold_expires_at IS NULL OR NEW.hold_expires_at IS NULL OR NEW.hold_expires_at > v_max_hold) THEN
+    RAISE EXCEPTION 'Holds end within 30 minutes' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Members release their own holds, and unpaid pending rows left without one
+CREATE OR REPLACE FUNCTION release_booking_hold(p_booking_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM bookings b
+  WHERE b.id = p_booking_id
+    AND b.status = 'pending'
+    AND b.user_id = auth.uid()
+    AND (
+      b.hold_expires_at IS NOT NULL
+      OR (COALESCE(b.payment_status, 'pending') = 'pending' AND b.payment_reference IS NULL)
+    );
+END;
+$$;
+
+-- Holds already set to end later than any hold can now run out with the rest
+UPDATE bookings
+SET hold_expires_at = NOW() + INTERVAL '30 minutes'
+WHERE status = 'pending'
+  AND hold_expires_at > NOW() + INTERVAL '30 minutes';
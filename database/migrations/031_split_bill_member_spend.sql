@@ -0,0 +1,85 @@
+-- Split-bill shares count towards membership spend
+-- member_rolling_spend only counted wallet debits with a QLXBILL- reference (a venue
+-- bill paid in full), so a member's shares of a split bill (bill_session_payments,
+-- from the wallet or by card) never counted. Bill spend is now venue bills paid from
+-- the wallet plus every share the member paid towards a split bill. Shares are
+-- recorded with their wallet debit, or by the backend once Paystack confirmed the
+-- card charge. Booking and merch spend are unchanged. Grants are unchanged.
+
+CREATE INDEX IF NOT EXISTS idx_bill_session_payments_user
+  ON bill_session_payments(user_id, created_at);
+
+CREATE OR REPLACE FUNCTION member_rolling_spend(p_user_id UUID, p_as_of TIMESTAMP WITH TIME ZONE DEFAULT NOW())
+RETURNS TABLE (
+  bookings DECIMAL,
+  bill_payments DECIMAL,
+  merch DECIMAL,
+  total DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_since TIMESTAMP WITH TIME ZONE := p_as_of - INTERVAL '12 months';
+  v_bookings DECIMAL;
+  v_bills DECIMAL;
+  v_shares DECIMAL;
+  v_merch DECIMAL;
+BEGIN
+  -- What each booking's wallet debit and confirmed card checkout took, less refunds
+  SELECT COALESCE(SUM(
+    GREATEST(
+      COALESCE(w.amount, 0) + COALESCE(c.paystack_amount, 0)
+        - CASE WHEN b.payment_status = 'refunded'
+            THEN COALESCE((b.metadata->'refund'->>'amount')::DECIMAL, COALESCE(w.amount, 0) + COALESCE(c.paystack_amount, 0))
+            ELSE 0 END,
+      0
+    )
+  ), 0)
+  INTO v_bookings
+  FROM bookings b
+  LEFT JOIN wallet_transactions w
+    ON w.reference = b.metadata->>'wallet_reference'
+    AND w.type = 'debit'
+    AND w.status = 'completed'
+    AND w.user_id = b.user_id
+  LEFT JOIN booking_checkouts c
+    ON c.booking_id = b.id
+    AND c.status = 'confirmed'
+    AND c.user_id = b.user_id
+  WHERE b.user_id = p_user_id
+    AND b.status IN ('confirmed', 'completed', 'cancelled')
+    AND b.created_at > v_since
+    AND b.created_at <= p_as_of;
+
+  -- Venue bills paid in full from the wallet. A split-bill share paid from the wallet
+  -- is counted with the other shares below, whatever its reference.
+  SELECT
+    COALESCE(SUM(t.amount) FILTER (
+      WHERE t.reference LIKE 'QLXBILL-%'
+        AND NOT EXISTS (SELECT 1 FROM bill_session_payments p WHERE p.wallet_transaction_id = t.id)
+    ), 0),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.metadata->>'purpose' = 'merch'), 0)
+  INTO v_bills, v_merch
+  FROM wallet_transactions t
+  WHERE t.user_id = p_user_id
+    AND t.type = 'debit'
+    AND t.status = 'completed'
+    AND t.created_at > v_since
+    AND t.created_at <= p_as_of;
+
+  -- The member's shares of split bills, from the wallet or by card
+  SELECT COALESCE(SUM(p.amount), 0)
+  INTO v_shares
+  FROM bill_session_payments p
+  WHERE p.user_id = p_user_id
+    AND p.created_at > v_since
+    AND p.created_at <= p_as_of;
+
+  v_bills := v_bills + v_shares;
+
+  RETURN QUERY SELECT v_bookings, v_bills, v_merch, v_bookings + v_bills + v_merch;
+END;
+$$;
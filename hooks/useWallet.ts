@@ -3,6 +3,7 @@
  * React hook for wallet operations in components
  */
 
+import { membershipManager, type MembershipStatus } from '@/lib/membership';
 import { supabase } from '@/lib/supabase';
 import { walletManager, type PriveQualification, type UserWallet } from '@/lib/wallet-manager';
 import { useCallback, useEffect, useState } from 'react';
@@ -11,6 +12,7 @@ export function useWallet() {
   const [wallet, setWallet] = useState<UserWallet | null>(null);
   const [qualification, setQualification] = useState<PriveQualification | null>(null);
   const [priveOnboarded, setPriveOnboarded] = useState<boolean>(false);
+  const [membership, setMembership] = useState<MembershipStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -55,23 +57,17 @@ export function useWallet() {
         const walletData = await walletManager.getOrCreateWallet(user.id);
         setWallet(walletData);
 
-        // Fetch real-time balance if wallet exists
+        // The database balance is the source of truth: card top-ups and transfers
+        // into the virtual account are credited by the backend payment webhook
         if (walletData) {
-          // Skip balance fetch for mock accounts and Flutterwave sandbox
-          // Flutterwave doesn't have a balance endpoint for virtual accounts
-          // Balance is tracked via webhooks when deposits are received
-          if (walletData.account_number.startsWith('MOCK') || walletData.bank_name === 'Mock Bank') {
-            console.debug('Using database balance for sandbox/mock account');
-            setWallet(walletData);
-          } else {
-            // For production accounts, balance would be fetched via transactions API
-            console.debug('Using database balance (Flutterwave tracks via webhooks)');
-            setWallet(walletData);
-          }
+          console.debug('Using database balance');
+          setWallet(walletData);
+          setMembership(await membershipManager.getMembershipStatus(user.id));
         }
       } else {
         console.info('❌ User does not qualify for Privé yet');
         setWallet(null);
+        setMembership(null);
       }
     } catch (err: any) {
       console.error('Failed to load wallet:', err);
@@ -122,6 +118,7 @@ export function useWallet() {
   return {
     wallet,
     qualification,
+    membership,
     priveOnboarded,
     loading,
     refreshing,
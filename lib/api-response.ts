@@ -65,6 +65,13 @@ export enum AppErrorCode {
   BOOKING_GUEST_COUNT_EXCEEDED = 'BIZ_3003',
   PRODUCT_OUT_OF_STOCK = 'BIZ_3004',
   PRODUCT_NOT_AVAILABLE = 'BIZ_3005',
+  WALLET_INSUFFICIENT_FUNDS = 'BIZ_3006',
+  WALLET_INACTIVE = 'BIZ_3007',
+  BOOKING_NOT_CANCELLABLE = 'BIZ_3008',
+  WALLET_TRANSFER_LIMIT_EXCEEDED = 'BIZ_3009',
+  WALLET_RECIPIENT_NOT_FOUND = 'BIZ_3010',
+  BILL_NOT_PAYABLE = 'BIZ_3011',
+  BOOKING_NOT_CHECKABLE = 'BIZ_3012',
   
   // Database Errors (4xxx)
   DB_CONNECTION_FAILED = 'DB_4001',
@@ -346,6 +353,13 @@ export const ERROR_CODE_TO_HTTP_STATUS: Record<AppErrorCode, HttpStatusCode> = {
   [AppErrorCode.BOOKING_GUEST_COUNT_EXCEEDED]: HttpStatusCode.BAD_REQUEST,
   [AppErrorCode.PRODUCT_OUT_OF_STOCK]: HttpStatusCode.CONFLICT,
   [AppErrorCode.PRODUCT_NOT_AVAILABLE]: HttpStatusCode.NOT_FOUND,
+  [AppErrorCode.WALLET_INSUFFICIENT_FUNDS]: HttpStatusCode.CONFLICT,
+  [AppErrorCode.WALLET_INACTIVE]: HttpStatusCode.FORBIDDEN,
+  [AppErrorCode.BOOKING_NOT_CANCELLABLE]: HttpStatusCode.CONFLICT,
+  [AppErrorCode.WALLET_TRANSFER_LIMIT_EXCEEDED]: HttpStatusCode.UNPROCESSABLE_ENTITY,
+  [AppErrorCode.WALLET_RECIPIENT_NOT_FOUND]: HttpStatusCode.NOT_FOUND,
+  [AppErrorCode.BILL_NOT_PAYABLE]: HttpStatusCode.CONFLICT,
+  [AppErrorCode.BOOKING_NOT_CHECKABLE]: HttpStatusCode.CONFLICT,
   
   // Database errors -> 500
   [AppErrorCode.DB_CONNECTION_FAILED]: HttpStatusCode.SERVICE_UNAVAILABLE,
@@ -390,6 +404,13 @@ export const ERROR_MESSAGES: Record<AppErrorCode, string> = {
   [AppErrorCode.BOOKING_GUEST_COUNT_EXCEEDED]: 'Guest count exceeds table capacity.',
   [AppErrorCode.PRODUCT_OUT_OF_STOCK]: 'This product is currently out of stock.',
   [AppErrorCode.PRODUCT_NOT_AVAILABLE]: 'This product is no longer available.',
+  [AppErrorCode.WALLET_INSUFFICIENT_FUNDS]: 'Your wallet balance is too low for this payment. Please top up first.',
+  [AppErrorCode.WALLET_INACTIVE]: 'Your wallet is not active. Please contact support.',
+  [AppErrorCode.BOOKING_NOT_CANCELLABLE]: 'This booking can no longer be cancelled.',
+  [AppErrorCode.WALLET_TRANSFER_LIMIT_EXCEEDED]: 'This transfer would take you over your daily transfer limit.',
+  [AppErrorCode.WALLET_RECIPIENT_NOT_FOUND]: 'No Privé member found with that phone number or handle.',
+  [AppErrorCode.BILL_NOT_PAYABLE]: 'This bill can no longer be paid. Please ask staff for a new code.',
+  [AppErrorCode.BOOKING_NOT_CHECKABLE]: 'Only confirmed bookings can be checked in.',
   
   // Database
   [AppErrorCode.DB_CONNECTION_FAILED]: 'Unable to connect to database. Please try again later.',
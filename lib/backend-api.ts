@@ -0,0 +1,84 @@
+/**
+ * Backend API Client
+ * Calls the Quilox backend (backend/server.js), which holds provider secret keys.
+ * Requests carry the user's Supabase access token so the backend can identify the caller.
+ */
+
+import { config } from '@/config/environment';
+import { supabase } from './supabase';
+
+class BackendApiClient {
+  private baseUrl: string;
+  private timeout: number;
+
+  constructor() {
+    this.baseUrl = config.api.baseUrl.replace(/\/$/, '');
+    this.timeout = config.api.timeout;
+  }
+
+  /**
+   * Generate headers, including the current session's access token when signed in
+   */
+  private async getHeaders(): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (session?.access_token) {
+      headers.Authorization = `Bearer ${session.access_token}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Make a backend request. Resolves with the parsed body; throws on non-2xx or `success: false`.
+   */
+  async request<T = any>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const url = `${this.baseUrl}${endpoint}`;
+
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+      const response = await fetch(url, {
+        ...options,
+        headers: {
+          ...(await this.getHeaders()),
+          ...(options.headers as Record<string, string> | undefined),
+        },
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      const data = await response.json();
+
+      if (!response.ok || data.success === false) {
+        const message = typeof data.error === 'string' ? data.error : data.error?.message;
+        throw new Error(message || data.message || 'Backend request failed');
+      }
+
+      return data;
+    } catch (error: any) {
+      if (error.name === 'AbortError') {
+        throw new Error('Request timeout - please try again');
+      }
+      throw error;
+    }
+  }
+
+  get<T = any>(endpoint: string): Promise<T> {
+    return this.request<T>(endpoint, { method: 'GET' });
+  }
+
+  post<T = any>(endpoint: string, body?: unknown): Promise<T> {
+    return this.request<T>(endpoint, {
+      method: 'POST',
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+}
+
+export const backendApi = new BackendApiClient();
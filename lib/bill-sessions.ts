@@ -0,0 +1,248 @@
+/**
+ * Split-the-bill Sessions
+ * The host of a booking opens a bill for the table, adds Privé members from their
+ * party, and everyone pays towards the total from their wallet or by card. The
+ * session closes when the total is covered; the host can pay whatever is left.
+ */
+
+import { backendApi } from './backend-api';
+import { supabase } from './supabase';
+
+// ==================== TYPES & INTERFACES ====================
+
+export type BillSessionStatus = 'open' | 'closed' | 'cancelled';
+
+export interface BillSessionMember {
+  id: string;
+  user_id: string;
+  display_name: string;
+  share: number;
+  amount_paid: number;
+  is_host: boolean;
+}
+
+export interface BillSessionPayment {
+  id: string;
+  user_id: string;
+  amount: number;
+  method: 'wallet' | 'card';
+  created_at: string;
+}
+
+export interface BillSession {
+  id: string;
+  booking_id: string;
+  host_id: string;
+  description: string | null;
+  total: number;
+  amount_paid: number;
+  status: BillSessionStatus;
+  closed_at: string | null;
+  created_at: string;
+  // Only visible to the host (bookings are private to whoever made them)
+  booking?: {
+    booking_date: string;
+    guest_count: number;
+    table: { name: string; table_number: string } | null;
+  } | null;
+  members: BillSessionMember[];
+  payments: BillSessionPayment[];
+}
+
+export interface BillPaymentResult {
+  success: boolean;
+  status?: BillSessionStatus;
+  outstanding?: number;
+  error?: string;
+}
+
+const SESSION_SELECT = `
+  id, booking_id, host_id, description, total, amount_paid, status, closed_at, created_at,
+  booking:bookings(booking_date, guest_count, table:table_areas(name, table_number)),
+  members:bill_session_members(id, user_id, display_name, share, amount_paid, is_host),
+  payments:bill_session_payments(id, user_id, amount, method, created_at)
+`;
+
+const toSession = (row: any): BillSession => ({
+  ...row,
+  total: Number(row.total),
+  amount_paid: Number(row.amount_paid),
+  members: (row.members || [])
+    .map((m: any) => ({ ...m, share: Number(m.share), amount_paid: Number(m.amount_paid) }))
+    .sort((a: BillSessionMember, b: BillSessionMember) => Number(b.is_host) - Number(a.is_host)),
+  payments: (row.payments || []).map((p: any) => ({ ...p, amount: Number(p.amount) })),
+});
+
+export const amountOutstanding = (session: Pick<BillSession, 'total' | 'amount_paid'>): number =>
+  Math.max(Math.round((session.total - session.amount_paid) * 100) / 100, 0);
+
+// What a member still owes towards their own share, capped at what the bill still needs
+export const shareOutstanding = (session: BillSession, member: BillSessionMember): number =>
+  Math.min(Math.max(Math.round((member.share - member.amount_paid) * 100) / 100, 0), amountOutstanding(session));
+
+// ==================== BILL SESSION MANAGER ====================
+
+class BillSessionManager {
+  /**
+   * A session with its members and payments
+   */
+  async getSession(sessionId: string): Promise<BillSession | null> {
+    const { data, error } = await supabase
+      .from('bill_sessions')
+      .select(SESSION_SELECT)
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to fetch bill session:', error);
+      return null;
+    }
+
+    return data ? toSession(data) : null;
+  }
+
+  /**
+   * The open bill for a booking, if the host has started one
+   */
+  async getOpenSessionForBooking(bookingId: string): Promise<BillSession | null> {
+    const { data, error } = await supabase
+      .from('bill_sessions')
+      .select(SESSION_SELECT)
+      .eq('booking_id', bookingId)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to fetch bill session:', error);
+      return null;
+    }
+
+    return data ? toSession(data) : null;
+  }
+
+  /**
+   * Open bills the member is part of, newest first
+   */
+  async getOpenSessions(): Promise<BillSession[]> {
+    const { data, error } = await supabase
+      .from('bill_sessions')
+      .select(SESSION_SELECT)
+      .eq('status', 'open')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to fetch bill sessions:', error);
+      return [];
+    }
+
+    return (data || []).map(toSession);
+  }
+
+  async openSession(request: {
+    bookingId: string;
+    total: number;
+    description?: string;
+  }): Promise<{ success: boolean; sessionId?: string; error?: string }> {
+    const { data, error } = await supabase.rpc('open_bill_session', {
+      p_booking_id: request.bookingId,
+      p_total: request.total,
+      p_description: request.description?.trim() || null,
+    });
+
+    if (error) {
+      console.error('open_bill_session failed:', error);
+      return { success: false, error: error.code === '23505' ? 'This booking already has an open bill' : error.message };
+    }
+
+    const session = Array.isArray(data) ? data[0] : data;
+    console.info('Bill session opened:', session?.id);
+    return { success: true, sessionId: session?.id };
+  }
+
+  /**
+   * Add a member found with walletManager.findTransferRecipient. They are notified.
+   */
+  async inviteMember(sessionId: string, walletId: string, share?: number): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('invite_bill_session_member', {
+      p_session_id: sessionId,
+      p_wallet_id: walletId,
+      p_share: share ?? null,
+    });
+
+    if (error) {
+      console.error('invite_bill_session_member failed:', error);
+      return { success: false, error: error.code === '23505' ? 'Already part of this bill' : error.message };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Pay towards the bill from the Privé wallet. The debit and the payment are
+   * recorded together, and never for more than the bill still needs.
+   */
+  async payFromWallet(sessionId: string, amount: number): Promise<BillPaymentResult> {
+    const reference = `QLXSPLIT-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
+
+    try {
+      console.info('Paying bill share from wallet:', { sessionId, reference, amount });
+
+      const { data, error } = await supabase.rpc('pay_bill_session_from_wallet', {
+        p_session_id: sessionId,
+        p_amount: amount,
+        p_reference: reference,
+      });
+
+      if (error) {
+        console.error('pay_bill_session_from_wallet failed:', error);
+        return { success: false, error: this.paymentErrorMessage(error.code, error.message) };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return { success: true, status: row?.session_status, outstanding: Number(row?.amount_outstanding ?? 0) };
+    } catch (error: any) {
+      console.error('Bill payment error:', error);
+      return { success: false, error: error.message || 'Payment failed' };
+    }
+  }
+
+  /**
+   * Record a card payment after Paystack reports it successful.
+   * The backend verifies the charge before recording it.
+   */
+  async confirmCardPayment(sessionId: string, reference: string): Promise<BillPaymentResult> {
+    try {
+      const response = await backendApi.post<{ data: { status: BillSessionStatus; amount_outstanding: number } }>(
+        `/api/bill-sessions/${sessionId}/card-payments`,
+        { reference }
+      );
+      return { success: true, status: response.data.status, outstanding: Number(response.data.amount_outstanding) };
+    } catch (error: any) {
+      console.error('Failed to record card payment:', error);
+      return { success: false, error: error.message || 'Could not confirm your card payment' };
+    }
+  }
+
+  async cancelSession(sessionId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('cancel_bill_session', { p_session_id: sessionId });
+
+    if (error) {
+      console.error('cancel_bill_session failed:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  }
+
+  private paymentErrorMessage(code: string | undefined, fallback: string): string {
+    switch (code) {
+      case '23514': return 'Your wallet balance is too low. Top up or pay by card.';
+      case '55000': return fallback.includes('Bill session') ? 'This bill is no longer open' : 'Your Privé wallet is not active';
+      case 'P0002': return 'This bill could not be found';
+      default: return fallback;
+    }
+  }
+}
+
+// Export singleton instance
+export const billSessionManager = new BillSessionManager();
@@ -0,0 +1,100 @@
+/**
+ * Booking Sessions
+ * A night is split into sessions (e.g. Dinner 9pm-12am, Late Night 12am-4am) that
+ * are booked separately. Times are Lagos time and a night runs from noon to noon,
+ * so a session time before 12:00 is on the morning after the booking date.
+ */
+
+import { supabase } from './supabase';
+
+// ==================== TYPES & INTERFACES ====================
+
+export interface BookingSession {
+  id: string;
+  name: string;
+  starts_at: string; // HH:MM:SS
+  ends_at: string;
+  days_of_week: number[]; // 0 = Sunday
+  sort_order: number;
+}
+
+// Lagos does not observe daylight saving
+const LAGOS_OFFSET = '+01:00';
+
+const ARRIVAL_STEP_MINUTES = 30;
+
+// Minutes after noon, so times after midnight sort after the evening
+const nightMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours * 60 + minutes + 720) % 1440;
+};
+
+const toTime = (nightMinute: number): string => {
+  const minutes = (nightMinute + 720) % 1440;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// ==================== FORMATTING ====================
+
+/**
+ * '21:00:00' -> '9pm', '00:30:00' -> '12:30am'
+ */
+export const formatSessionTime = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours < 12 ? 'am' : 'pm';
+  const hour = hours % 12 || 12;
+  return minutes ? `${hour}:${String(minutes).padStart(2, '0')}${suffix}` : `${hour}${suffix}`;
+};
+
+export const formatSessionWindow = (session: Pick<BookingSession, 'starts_at' | 'ends_at'>): string =>
+  `${formatSessionTime(session.starts_at)} – ${formatSessionTime(session.ends_at)}`;
+
+// ==================== SESSIONS ====================
+
+/**
+ * Sessions that run on the night of `date`, in order
+ */
+export const fetchBookingSessions = async (date?: Date | null): Promise<BookingSession[]> => {
+  const { data, error } = await supabase
+    .from('booking_sessions')
+    .select('id, name, starts_at, ends_at, days_of_week, sort_order')
+    .order('sort_order', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching booking sessions:', error);
+    return [];
+  }
+
+  const sessions = (data || []) as BookingSession[];
+  return date ? sessions.filter((s) => s.days_of_week.includes(date.getDay())) : sessions;
+};
+
+/**
+ * Arrival times offered for a session, every half hour until it ends
+ */
+export const getArrivalTimes = (session: BookingSession): string[] => {
+  const start = nightMinutes(session.starts_at);
+  const end = nightMinutes(session.ends_at) || 1440;
+  const times: string[] = [];
+  for (let minute = start; minute < end; minute += ARRIVAL_STEP_MINUTES) {
+    times.push(toTime(minute));
+  }
+  return times;
+};
+
+/**
+ * The window a booking for `bookingDate` (YYYY-MM-DD) occupies, as ISO timestamps.
+ * Without a session the booking takes the whole night.
+ */
+export const getSessionWindow = (
+  bookingDate: string,
+  session?: Pick<BookingSession, 'starts_at' | 'ends_at'> | null
+): { startsAt: string; endsAt: string } => {
+  const noon = new Date(`${bookingDate}T12:00:00${LAGOS_OFFSET}`).getTime();
+  const start = session ? nightMinutes(session.starts_at) : 0;
+  const end = session ? nightMinutes(session.ends_at) || 1440 : 1440;
+  return {
+    startsAt: new Date(noon + start * 60 * 1000).toISOString(),
+    endsAt: new Date(noon + end * 60 * 1000).toISOString(),
+  };
+};
@@ -0,0 +1,353 @@
+/**
+ * Booking Check-in Passes
+ * Every confirmed booking has a QR pass for the door. The app builds a new code
+ * every few seconds from a key the backend signs for the booking, so a screenshot
+ * is useless minutes later. Door staff verify codes with the night's key, so both
+ * the pass and the scanner keep working without a connection. Check-ins made
+ * offline are queued and sent once the scanner is back online.
+ * See backend/checkin-passes.js for the token format.
+ */
+
+import { config } from '@/config/environment';
+import { hmac } from '@noble/hashes/hmac';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { backendApi } from './backend-api';
+import { secureStorage } from './supabase';
+
+// ==================== TYPES & INTERFACES ====================
+
+export type WalletPlatform = 'apple' | 'google';
+
+export interface CheckInPass {
+  booking_id: string;
+  table_id: string;
+  table_name: string | null;
+  table_number: string | null;
+  section: string | null;
+  guest_count: number;
+  guest_name: string;
+  booking_date: string; // YYYY-MM-DD
+  session_name: string | null;
+  arrival_time: string | null;
+  checked_in_at: string | null;
+  key: string; // the booking's signing key, only ever sent to its owner
+  rotation_seconds: number;
+  wallet: Record<WalletPlatform, boolean>; // which wallet exports are set up
+}
+
+export interface NightGuest {
+  booking_id: string;
+  table_id: string;
+  table_name: string | null;
+  table_number: string | null;
+  guest_count: number;
+  guest_name: string;
+  session_name: string | null;
+  arrival_time: string | null;
+  starts_at: string; // window the booking occupies; wallet pass codes only work inside it
+  ends_at: string;
+  status: 'confirmed' | 'cancelled';
+  checked_in_at: string | null;
+}
+
+export interface CheckInNight {
+  booking_date: string;
+  key: string;
+  rotation_seconds: number;
+  bookings: NightGuest[]; // empty when restored offline
+}
+
+export interface PassClaims {
+  bookingId: string;
+  tableId: string;
+  guestCount: number;
+  bookingDate: string;
+  fromWallet: boolean; // the fixed code on a wallet pass rather than a rotating one
+}
+
+// invalid: altered or not a pass; wrong_night: for another night; expired: an old
+// code, e.g. a screenshot
+export type ScanOutcome = 'checked_in' | 'duplicate' | 'cancelled' | 'invalid' | 'wrong_night' | 'expired';
+
+export interface ScanResult {
+  outcome: ScanOutcome;
+  message: string;
+  claims?: PassClaims;
+  guest?: NightGuest;
+  scannedAt: string;
+  firstCheckedInAt?: string | null; // for duplicates
+}
+
+export interface CheckInSyncResult {
+  booking_id: string | null; // null when the entry sent had none
+  result: 'checked_in' | 'duplicate' | 'not_found' | 'not_confirmed' | 'invalid';
+  checked_in_at?: string;
+  guest_name?: string;
+  table_name?: string;
+  table_number?: string;
+  error?: string;
+}
+
+interface PendingCheckIn {
+  booking_id: string;
+  scanned_at: string; // this scanner's clock; the backend checks guests in at its own time
+}
+
+// Pass codes start with this prefix; anything else scanned is not a Quilox pass
+export const PASS_TOKEN_PREFIX = 'QLXPASS.';
+
+const WALLET_STEP = 'W';
+
+// Accept codes up to this many steps either side of now, for phones whose clocks are a little off
+const CLOCK_DRIFT_STEPS = 2;
+
+const PASS_CACHE_KEY = (bookingId: string) => `checkin_pass_${bookingId}`;
+const NIGHT_CACHE_KEY = 'checkin_night';
+const PENDING_CACHE_KEY = 'checkin_pending';
+
+const sign = (key: string, payload: string): string =>
+  bytesToHex(hmac(sha256, utf8ToBytes(key), utf8ToBytes(payload)));
+
+/**
+ * The night that is on now in Lagos (UTC+1), as YYYY-MM-DD. A night runs from noon to noon.
+ */
+export const currentNight = (now = Date.now()): string =>
+  new Date(now + (1 - 12) * 60 * 60 * 1000).toISOString().split('T')[0];
+
+// ==================== PASS CODES ====================
+
+const passStep = (rotationSeconds: number, now: number) => Math.floor(now / 1000 / rotationSeconds);
+
+/**
+ * The code to show at the door right now
+ */
+export const buildPassToken = (pass: CheckInPass, now = Date.now()): string => {
+  const payload = [
+    'QLXPASS',
+    pass.booking_id,
+    pass.table_id,
+    pass.guest_count,
+    pass.booking_date,
+    passStep(pass.rotation_seconds, now),
+  ].join('.');
+  return `${payload}.${sign(pass.key, payload)}`;
+};
+
+/**
+ * Seconds until the code changes
+ */
+export const secondsUntilRotation = (pass: CheckInPass, now = Date.now()): number =>
+  pass.rotation_seconds - (Math.floor(now / 1000) % pass.rotation_seconds);
+
+/**
+ * Check a scanned code against the night's key, without a connection
+ */
+export const verifyPassToken = (
+  token: string,
+  night: Pick<CheckInNight, 'booking_date' | 'key' | 'rotation_seconds' | 'bookings'>,
+  now = Date.now()
+): { claims?: PassClaims; outcome?: ScanOutcome; error?: string } => {
+  const parts = token.trim().split('.');
+  if (!token.startsWith(PASS_TOKEN_PREFIX) || parts.length !== 7) {
+    return { outcome: 'invalid', error: 'This QR code is not a Quilox pass' };
+  }
+
+  const [, bookingId, tableId, guestCount, bookingDate, step, given] = parts;
+  const expected = sign(sign(night.key, bookingId), parts.slice(0, 6).join('.'));
+
+  // A pass for another night is signed with another key, so say why before checking
+  if (bookingDate !== night.booking_date) {
+    return { outcome: 'wrong_night', error: `This pass is for ${bookingDate}, not tonight` };
+  }
+  if (given !== expected) {
+    return { outcome: 'invalid', error: 'This pass has been altered or is not from Quilox' };
+  }
+
+  const fromWallet = step === WALLET_STEP;
+  if (!fromWallet && Math.abs(Number(step) - passStep(night.rotation_seconds, now)) > CLOCK_DRIFT_STEPS) {
+    return { outcome: 'expired', error: 'This code is out of date. Ask the guest to open the live pass in the app.' };
+  }
+
+  // A wallet code never changes, so it only works during the booking's own window.
+  // Without the guest list (offline) the window is unknown.
+  if (fromWallet) {
+    const guest = night.bookings.find((b) => b.booking_id === bookingId);
+    if (!guest || now < Date.parse(guest.starts_at) || now >= Date.parse(guest.ends_at)) {
+      return {
+        outcome: 'expired',
+        error: 'This wallet pass only works during the booking\'s session. Ask the guest to open the live pass in the app.',
+      };
+    }
+  }
+
+  return { claims: { bookingId, tableId, guestCount: Number(guestCount), bookingDate, fromWallet } };
+};
+
+// ==================== CHECK-IN PASS MANAGER ====================
+
+class CheckInPassManager {
+  private night: CheckInNight | null = null;
+  private scans = new Map<string, string>(); // booking id -> first check-in time on this scanner
+  private pending: PendingCheckIn[] = [];
+
+  /**
+   * A booking's pass. The last one loaded is kept on the phone, so it still shows
+   * with no signal at the door.
+   */
+  async getPass(bookingId: string): Promise<{ success: boolean; pass?: CheckInPass; offline?: boolean; error?: string }> {
+    try {
+      const response = await backendApi.get<{ data: CheckInPass }>(`/api/bookings/${bookingId}/pass`);
+      await secureStorage.setItem(PASS_CACHE_KEY(bookingId), JSON.stringify(response.data));
+      return { success: true, pass: response.data };
+    } catch (error: any) {
+      console.error('Failed to load check-in pass:', error);
+
+      const cached = await secureStorage.getItem(PASS_CACHE_KEY(bookingId));
+      if (cached) {
+        return { success: true, pass: JSON.parse(cached) as CheckInPass, offline: true };
+      }
+      return { success: false, error: error.message || 'Could not load your pass' };
+    }
+  }
+
+  /**
+   * Link that adds the pass to Apple Wallet (a .pkpass download) or Google Wallet
+   */
+  async getWalletPassUrl(bookingId: string, platform: WalletPlatform): Promise<{ success: boolean; url?: string; error?: string }> {
+    try {
+      const response = await backendApi.post<{ data: { path?: string; url?: string } }>(
+        `/api/bookings/${bookingId}/wallet-pass`,
+        { platform }
+      );
+      const url = response.data.url ?? `${config.api.baseUrl.replace(/\/$/, '')}${response.data.path}`;
+      return { success: true, url };
+    } catch (error: any) {
+      console.error('Failed to create wallet pass:', error);
+      return { success: false, error: error.message || 'Could not create the wallet pass' };
+    }
+  }
+
+  // ==================== STAFF ====================
+
+  /**
+   * Load tonight's key and guest list. Offline, falls back to the key saved the last
+   * time it was loaded for the same night, which is enough to verify passes.
+   */
+  async loadNight(date = currentNight()): Promise<{ success: boolean; night?: CheckInNight; offline?: boolean; error?: string }> {
+    await this.restorePending();
+
+    try {
+      const response = await backendApi.get<{ data: CheckInNight }>(`/api/admin/checkin/night?date=${date}`);
+      this.night = response.data;
+      this.scans = new Map(
+        this.night.bookings
+          .filter((guest) => guest.checked_in_at)
+          .map((guest) => [guest.booking_id, guest.checked_in_at!])
+      );
+
+      const { bookings, ...key } = this.night;
+      await secureStorage.setItem(NIGHT_CACHE_KEY, JSON.stringify(key));
+      return { success: true, night: this.night };
+    } catch (error: any) {
+      console.error('Failed to load check-in night:', error);
+
+      const cached = await secureStorage.getItem(NIGHT_CACHE_KEY);
+      const saved = cached ? (JSON.parse(cached) as Omit<CheckInNight, 'bookings'>) : null;
+      if (saved?.booking_date === date) {
+        this.night = this.night?.booking_date === date ? this.night : { ...saved, bookings: [] };
+        return { success: true, night: this.night, offline: true };
+      }
+      return { success: false, error: error.message || 'Could not load tonight\'s guest list' };
+    }
+  }
+
+  getNight(): CheckInNight | null {
+    return this.night;
+  }
+
+  pendingCount(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Verify a scanned pass and check the guests in on this scanner. Works offline;
+   * call sync() to send the check-in.
+   */
+  async scan(token: string): Promise<ScanResult> {
+    const scannedAt = new Date().toISOString();
+    if (!this.night) {
+      return { outcome: 'invalid', message: 'Load tonight\'s guest list before scanning', scannedAt };
+    }
+
+    const verified = verifyPassToken(token, this.night);
+    if (!verified.claims) {
+      return { outcome: verified.outcome!, message: verified.error!, scannedAt };
+    }
+
+    const claims = verified.claims;
+    const guest = this.night.bookings.find((b) => b.booking_id === claims.bookingId);
+
+    if (guest?.status === 'cancelled') {
+      return { outcome: 'cancelled', message: 'This booking has been cancelled', claims, guest, scannedAt };
+    }
+
+    const firstCheckedInAt = this.scans.get(claims.bookingId);
+    if (firstCheckedInAt) {
+      return {
+        outcome: 'duplicate',
+        message: 'This booking has already been checked in',
+        claims,
+        guest,
+        scannedAt,
+        firstCheckedInAt,
+      };
+    }
+
+    this.scans.set(claims.bookingId, scannedAt);
+    if (guest) guest.checked_in_at = scannedAt;
+    this.pending.push({ booking_id: claims.bookingId, scanned_at: scannedAt });
+    await this.savePending();
+
+    return { outcome: 'checked_in', message: `${claims.guestCount} guests checked in`, claims, guest, scannedAt };
+  }
+
+  /**
+   * Send queued check-ins. Returns what the backend made of each one, so the scanner
+   * can flag guests another door had already checked in.
+   */
+  async sync(): Promise<{ success: boolean; results?: CheckInSyncResult[]; error?: string }> {
+    if (this.pending.length === 0) return { success: true, results: [] };
+
+    const batch = this.pending.slice(0, 100);
+    try {
+      const response = await backendApi.post<{ data: CheckInSyncResult[] }>('/api/admin/checkins', { checkins: batch });
+
+      for (const result of response.data) {
+        const guest = this.night?.bookings.find((b) => b.booking_id === result.booking_id);
+        if (guest && result.checked_in_at) guest.checked_in_at = result.checked_in_at;
+        if (result.booking_id && result.checked_in_at) this.scans.set(result.booking_id, result.checked_in_at);
+      }
+
+      this.pending = this.pending.slice(batch.length);
+      await this.savePending();
+      return { success: true, results: response.data };
+    } catch (error: any) {
+      console.error('Failed to send check-ins:', error);
+      return { success: false, error: error.message || 'Could not send check-ins' };
+    }
+  }
+
+  private async savePending(): Promise<void> {
+    await secureStorage.setItem(PENDING_CACHE_KEY, JSON.stringify(this.pending));
+  }
+
+  private async restorePending(): Promise<void> {
+    if (this.pending.length > 0) return;
+    const saved = await secureStorage.getItem(PENDING_CACHE_KEY);
+    this.pending = saved ? (JSON.parse(saved) as PendingCheckIn[]) : [];
+  }
+}
+
+// Export singleton instance
+export const checkInPassManager = new CheckInPassManager();
@@ -1,20 +1,31 @@
 /**
  * Flutterwave API Client
- * Handles Privé wallet operations including virtual accounts, balance management, and transactions
+ * Handles Privé wallet operations including virtual accounts and card payments.
+ * Secret-key operations run on the backend (/api/flutterwave/*).
  * 
  * API Documentation: https://developer.flutterwave.com/docs
- * Base URL: https://api.flutterwave.com/v3
  */
 
 import { config } from '@/config/environment';
+import { backendApi } from './backend-api';
+import type {
+  Bank,
+  BankTransferRequest,
+  BankTransferResult,
+  ChargeRequest,
+  ChargeSession,
+  ChargeStatus,
+  ChargeVerification,
+  PaymentProvider,
+  ProviderResult,
+  ResolvedAccount,
+  VirtualAccountDetails,
+  VirtualAccountRequest,
+} from './payment-provider';
 
 // ==================== TYPES & INTERFACES ====================
 
 export interface FlutterwaveConfig {
-  publicKey: string;
-  secretKey: string;
-  encryptionKey: string;
-  baseUrl: string;
   environment: 'sandbox' | 'production';
 }
 
@@ -53,144 +64,15 @@ export interface CreateAccountResponse {
   error?: string;
 }
 
-export interface BalanceResponse {
-  success: boolean;
-  data?: {
-    accountNumber: string;
-    availableBalance: number;
-    ledgerBalance: number;
-    currency: string;
-  };
-  error?: string;
-}
-
-export interface Transaction {
-  id: string;
-  reference: string;
-  amount: number;
-  type: 'credit' | 'debit';
-  description: string;
-  status: 'pending' | 'successful' | 'failed';
-  balanceBefore: number;
-  balanceAfter: number;
-  createdAt: string;
-}
-
-export interface TransactionHistoryResponse {
-  success: boolean;
-  data?: {
-    transactions: Transaction[];
-    pagination: {
-      page: number;
-      limit: number;
-      total: number;
-    };
-  };
-  error?: string;
-}
-
-export interface TransferRequest {
-  sourceAccount: string;
-  destinationAccount: string;
-  destinationBankCode: string;
-  amount: number;
-  narration: string;
-  reference?: string;
-}
-
-export interface TransferResponse {
-  success: boolean;
-  data?: {
-    reference: string;
-    status: string;
-    message: string;
-  };
-  error?: string;
-}
-
 // ==================== API CLIENT CLASS ====================
 
 class FlutterwaveClient {
   private config: FlutterwaveConfig;
-  private timeout = 30000; // 30 seconds
 
   constructor() {
-    // Load from environment variables
-    const publicKey = process.env.EXPO_PUBLIC_FLUTTERWAVE_PUBLIC_KEY || '';
-    const secretKey = process.env.EXPO_PUBLIC_FLUTTERWAVE_SECRET_KEY || '';
-    const encryptionKey = process.env.EXPO_PUBLIC_FLUTTERWAVE_ENCRYPTION_KEY || '';
-    
-    // Debug logging
-    console.debug('🔑 Flutterwave Config Loading:');
-    console.debug('  Public Key:', publicKey ? `${publicKey.substring(0, 20)}...` : 'MISSING');
-    console.debug('  Secret Key:', secretKey ? `${secretKey.substring(0, 20)}...` : 'MISSING');
-    console.debug('  Encryption Key:', encryptionKey ? `${encryptionKey.substring(0, 20)}...` : 'MISSING');
-    
     this.config = {
-      publicKey,
-      secretKey,
-      encryptionKey,
-      baseUrl: 'https://api.flutterwave.com/v3',
       environment: config.isProduction ? 'production' : 'sandbox',
     };
-
-    if (!secretKey) {
-      console.warn('Flutterwave credentials not configured. Wallet features may be unavailable.');
-    }
-  }
-
-  /**
-   * Generate authentication headers for API requests
-   */
-  private getHeaders(): HeadersInit {
-    return {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${this.config.secretKey}`,
-    };
-  }
-
-  /**
-   * Make authenticated API request
-   */
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit = {}
-  ): Promise<T> {
-    const url = `${this.config.baseUrl}${endpoint}`;
-
-    try {
-      console.debug(`Flutterwave API Request: ${options.method || 'GET'} ${url}`);
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          ...this.getHeaders(),
-          ...options.headers,
-        },
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      const data = await response.json();
-
-      if (!response.ok || data.status === 'failed') {
-        console.error('Flutterwave API Error:', data);
-        throw new Error(data.message || data.error?.message || 'API request failed');
-      }
-
-      console.debug('Flutterwave API Response:', data);
-      return data;
-    } catch (error: any) {
-      if (error.name === 'AbortError') {
-        throw new Error('Request timeout - please try again');
-      }
-      console.error('Flutterwave API Request Failed:', error);
-      throw error;
-    }
   }
 
   /**
@@ -202,24 +84,16 @@ class FlutterwaveClient {
     try {
       console.info('Creating virtual account for user:', request.userId);
 
-      const response = await this.request<any>('/virtual-account-numbers', {
-        method: 'POST',
-        body: JSON.stringify({
-          email: request.email,
-          is_permanent: true,
-          bvn: request.bvn || '',
-          tx_ref: `quilox-${request.userId}-${Date.now()}`,
-          firstname: request.firstName,
-          lastname: request.lastName,
-          phonenumber: request.phone || '',
-          narration: `Quilox Privé - ${request.firstName} ${request.lastName}`,
-        }),
+      // The backend creates the account for the signed-in user
+      const response = await backendApi.post<any>('/api/flutterwave/virtual-account', {
+        email: request.email,
+        bvn: request.bvn,
+        firstname: request.firstName,
+        lastname: request.lastName,
+        phonenumber: request.phone,
       });
 
-      // Flutterwave uses 'status' not 'success'
-      const isSuccess = response.status === 'success';
-      
-      if (isSuccess && response.data) {
+      if (response.data) {
         console.info('Virtual account created successfully:', response.data.account_number);
         
         return {
@@ -264,6 +138,7 @@ class FlutterwaveClient {
       logo?: string;
     };
     payment_options?: string;
+    meta?: Record<string, any>;
   }): Promise<{
     success: boolean;
     paymentLink?: string;
@@ -272,14 +147,9 @@ class FlutterwaveClient {
     try {
       console.info('Initiating Flutterwave payment:', payload.tx_ref);
 
-      const response = await this.request<any>('/payments', {
-        method: 'POST',
-        body: JSON.stringify(payload),
-      });
+      const response = await backendApi.post<any>('/api/flutterwave/payments', payload);
 
-      const isSuccess = response.status === 'success';
-      
-      if (isSuccess && response.data?.link) {
+      if (response.data?.link) {
         console.info('Payment link generated:', response.data.link);
         return {
           success: true,
@@ -298,87 +168,25 @@ class FlutterwaveClient {
   }
 
   /**
-   * Get account balance
+   * Verify a payment by our transaction reference (tx_ref)
    */
-  async getBalance(accountNumber: string): Promise<BalanceResponse> {
+  async verifyTransaction(txRef: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      console.debug('Fetching balance for account:', accountNumber);
+      console.debug('Verifying Flutterwave transaction:', txRef);
 
-      const response = await this.request<BalanceResponse>(
-        `/accounts/${accountNumber}/balance`,
-        { method: 'GET' }
+      const response = await backendApi.get<any>(
+        `/api/flutterwave/transactions/verify/${encodeURIComponent(txRef)}`
       );
 
-      return response;
-    } catch (error: any) {
-      console.error('Failed to fetch balance:', error);
       return {
-        success: false,
-        error: error.message || 'Failed to fetch balance',
+        success: true,
+        data: response.data,
       };
-    }
-  }
-
-  /**
-   * Get transaction history
-   */
-  async getTransactionHistory(
-    accountNumber: string,
-    page: number = 1,
-    limit: number = 50
-  ): Promise<TransactionHistoryResponse> {
-    try {
-      console.debug('Fetching transaction history:', { accountNumber, page, limit });
-
-      const response = await this.request<TransactionHistoryResponse>(
-        `/accounts/${accountNumber}/transactions?page=${page}&limit=${limit}`,
-        { method: 'GET' }
-      );
-
-      return response;
     } catch (error: any) {
-      console.error('Failed to fetch transaction history:', error);
+      console.error('Failed to verify transaction:', error);
       return {
         success: false,
-        error: error.message || 'Failed to fetch transactions',
-      };
-    }
-  }
-
-  /**
-   * Transfer funds to another account
-   */
-  async transferFunds(request: TransferRequest): Promise<TransferResponse> {
-    try {
-      console.info('Initiating transfer:', {
-        amount: request.amount,
-        from: request.sourceAccount,
-        to: request.destinationAccount,
-      });
-
-      const response = await this.request<TransferResponse>('/transfers/initiate', {
-        method: 'POST',
-        body: JSON.stringify({
-          sourceAccount: request.sourceAccount,
-          destinationAccount: request.destinationAccount,
-          destinationBankCode: request.destinationBankCode,
-          amount: request.amount,
-          currency: 'NGN',
-          narration: request.narration,
-          reference: request.reference || `QX${Date.now()}`,
-        }),
-      });
-
-      if (response.success) {
-        console.info('Transfer initiated successfully:', response.data?.reference);
-      }
-
-      return response;
-    } catch (error: any) {
-      console.error('Failed to initiate transfer:', error);
-      return {
-        success: false,
-        error: error.message || 'Failed to initiate transfer',
+        error: error.message || 'Failed to verify transaction',
       };
     }
   }
@@ -393,17 +201,14 @@ class FlutterwaveClient {
     try {
       console.debug('Verifying account:', { accountNumber, bankCode });
 
-      const response = await this.request<any>('/accounts/verify', {
-        method: 'POST',
-        body: JSON.stringify({
-          accountNumber,
-          bankCode,
-        }),
+      const response = await backendApi.post<any>('/api/flutterwave/accounts/resolve', {
+        account_number: accountNumber,
+        account_bank: bankCode,
       });
 
       return {
-        success: response.success,
-        accountName: response.data?.accountName,
+        success: true,
+        accountName: response.data?.account_name,
       };
     } catch (error: any) {
       console.error('Failed to verify account:', error);
@@ -419,11 +224,11 @@ class FlutterwaveClient {
    */
   async getBankList(): Promise<{ success: boolean; banks?: Array<{ name: string; code: string }>; error?: string }> {
     try {
-      // Flutterwave requires country code in URL - using NG for Nigeria
-      const response = await this.request<any>('/banks/NG', { method: 'GET' });
+      // Nigerian banks
+      const response = await backendApi.get<any>('/api/flutterwave/banks');
 
       return {
-        success: response.status === 'success',
+        success: true,
         banks: response.data || [],
       };
     } catch (error: any) {
@@ -439,6 +244,99 @@ class FlutterwaveClient {
 // Export singleton instance
 export const flutterwaveClient = new FlutterwaveClient();
 
+/**
+ * PaymentProvider adapter for Flutterwave
+ */
+class FlutterwaveProvider implements PaymentProvider {
+  readonly name = 'flutterwave' as const;
+
+  async initializeCharge(request: ChargeRequest): Promise<ProviderResult<ChargeSession>> {
+    const result = await flutterwaveClient.initiatePayment({
+      tx_ref: request.reference,
+      amount: request.amount,
+      currency: 'NGN',
+      redirect_url: request.callbackUrl,
+      customer: {
+        email: request.email,
+        name: request.customerName || request.email,
+        phonenumber: request.phone,
+      },
+      customizations: {
+        title: 'Quilox',
+        description: request.description,
+      },
+      meta: request.metadata,
+    });
+
+    if (!result.success || !result.paymentLink) {
+      return { success: false, error: result.error || 'Failed to initiate payment' };
+    }
+
+    return { success: true, data: { reference: request.reference, paymentLink: result.paymentLink } };
+  }
+
+  async verifyCharge(reference: string): Promise<ProviderResult<ChargeVerification>> {
+    const result = await flutterwaveClient.verifyTransaction(reference);
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to verify transaction' };
+    }
+
+    const tx = result.data;
+    const statusMap: Record<string, ChargeStatus> = {
+      successful: 'success',
+      failed: 'failed',
+      cancelled: 'abandoned',
+    };
+
+    return {
+      success: true,
+      data: {
+        reference: tx.tx_ref || reference,
+        status: statusMap[tx.status] || 'pending',
+        amount: Number(tx.charged_amount ?? tx.amount ?? 0),
+        currency: tx.currency || 'NGN',
+        paidAt: tx.created_at || undefined,
+        channel: tx.payment_type,
+        gatewayResponse: tx.processor_response,
+        metadata: tx.meta || undefined,
+      },
+    };
+  }
+
+  async createVirtualAccount(request: VirtualAccountRequest): Promise<ProviderResult<VirtualAccountDetails>> {
+    const result = await flutterwaveClient.createVirtualAccount(request);
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, error: result.error };
+  }
+
+  // Payouts only go to saved beneficiaries, whose names the backend has resolved,
+  // through walletManager.withdraw
+  async transfer(_request: BankTransferRequest): Promise<ProviderResult<BankTransferResult>> {
+    return { success: false, error: 'Withdraw to a saved beneficiary instead' };
+  }
+
+  async resolveAccount(accountNumber: string, bankCode: string): Promise<ProviderResult<ResolvedAccount>> {
+    const result = await flutterwaveClient.verifyAccount(accountNumber, bankCode);
+
+    if (!result.success || !result.accountName) {
+      return { success: false, error: result.error || 'Failed to resolve account' };
+    }
+
+    return { success: true, data: { accountNumber, accountName: result.accountName, bankCode } };
+  }
+
+  async listBanks(): Promise<ProviderResult<Bank[]>> {
+    const result = await flutterwaveClient.getBankList();
+    return result.success
+      ? { success: true, data: (result.banks || []).map((bank) => ({ name: bank.name, code: bank.code })) }
+      : { success: false, error: result.error };
+  }
+}
+
+export const flutterwaveProvider = new FlutterwaveProvider();
+
 // Export utility functions
 export const FlutterwaveUtils = {
   /**
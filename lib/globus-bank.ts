@@ -0,0 +1,120 @@
+/**
+ * Globus Bank Provider
+ * PaymentProvider adapter for the Globus proxy routes in backend/server.js (/api/wallet/*, /api/banks).
+ * Globus holds member accounts but has no hosted checkout, so card charges are not supported.
+ */
+
+import { backendApi } from './backend-api';
+import type {
+  Bank,
+  BankTransferRequest,
+  BankTransferResult,
+  ChargeSession,
+  ChargeVerification,
+  PaymentProvider,
+  ProviderResult,
+  ResolvedAccount,
+  VirtualAccountDetails,
+  VirtualAccountRequest,
+} from './payment-provider';
+
+class GlobusProvider implements PaymentProvider {
+  readonly name = 'globus' as const;
+
+  async initializeCharge(): Promise<ProviderResult<ChargeSession>> {
+    return { success: false, error: 'Card payments are not supported by Globus' };
+  }
+
+  async verifyCharge(): Promise<ProviderResult<ChargeVerification>> {
+    return { success: false, error: 'Card payments are not supported by Globus' };
+  }
+
+  async createVirtualAccount(request: VirtualAccountRequest): Promise<ProviderResult<VirtualAccountDetails>> {
+    try {
+      console.info('Creating Globus account for user:', request.userId);
+
+      const response = await backendApi.post<any>('/api/wallet/create', {
+        firstName: request.firstName,
+        lastName: request.lastName,
+        email: request.email,
+        phone: request.phone,
+        bvn: request.bvn,
+      });
+
+      const account = response.data;
+      if (!account?.accountNumber) {
+        throw new Error(response.message || 'Invalid response from Globus');
+      }
+
+      return {
+        success: true,
+        data: {
+          accountNumber: account.accountNumber,
+          accountName: account.accountName || `${request.firstName} ${request.lastName}`,
+          bankName: account.bankName || 'Globus Bank',
+          bankCode: account.bankCode || '',
+          reference: account.reference || `globus-${request.userId}`,
+        },
+      };
+    } catch (error: any) {
+      console.error('Failed to create Globus account:', error);
+      return { success: false, error: error.message || 'Failed to create virtual account' };
+    }
+  }
+
+  async transfer(request: BankTransferRequest): Promise<ProviderResult<BankTransferResult>> {
+    if (!request.sourceAccount) {
+      return { success: false, error: 'Globus transfers need the source account number' };
+    }
+
+    try {
+      const response = await backendApi.post<any>('/api/wallet/transfer', {
+        sourceAccount: request.sourceAccount,
+        destinationAccount: request.accountNumber,
+        destinationBankCode: request.bankCode,
+        amount: request.amount,
+        narration: request.narration,
+        reference: request.reference,
+      });
+
+      const status = String(response.data?.status || '').toLowerCase();
+      return {
+        success: true,
+        data: {
+          reference: response.data?.reference || request.reference,
+          status: status === 'successful' || status === 'success' ? 'success' : status === 'failed' ? 'failed' : 'pending',
+        },
+      };
+    } catch (error: any) {
+      console.error('Failed to initiate Globus transfer:', error);
+      return { success: false, error: error.message || 'Failed to initiate transfer' };
+    }
+  }
+
+  async resolveAccount(accountNumber: string, bankCode: string): Promise<ProviderResult<ResolvedAccount>> {
+    try {
+      const response = await backendApi.post<any>('/api/wallet/verify', { accountNumber, bankCode });
+      const accountName = response.data?.accountName;
+
+      if (!accountName) {
+        throw new Error('Account name not returned');
+      }
+
+      return { success: true, data: { accountNumber, accountName, bankCode } };
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Failed to resolve account' };
+    }
+  }
+
+  async listBanks(): Promise<ProviderResult<Bank[]>> {
+    try {
+      const response = await backendApi.get<any>('/api/banks');
+      const banks: Bank[] = (response.data || []).map((bank: any) => ({ name: bank.name, code: bank.code }));
+      return { success: true, data: banks };
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Failed to fetch banks' };
+    }
+  }
+}
+
+export const globusProvider = new GlobusProvider();
@@ -0,0 +1,198 @@
+/**
+ * Loyalty Points & Rewards
+ * Points live in a ledger (loyalty_point_entries): earned on top-ups at 1 point per
+ * ₦100 times the tier multiplier, spent on rewards, and expired 12 months after they
+ * were earned. user_wallets.loyalty_points is the cached balance the ledger keeps.
+ */
+
+import { supabase } from './supabase';
+
+// ==================== TYPES & INTERFACES ====================
+
+export type PointsEntryType = 'earn' | 'redeem' | 'expire' | 'adjust';
+
+export interface PointsEntry {
+  id: string;
+  type: PointsEntryType;
+  points: number; // negative for redemptions and expiry
+  balance_after: number;
+  remaining: number;
+  expires_at: string | null;
+  reference: string;
+  description: string | null;
+  created_at: string;
+}
+
+export type RewardCategory = 'bottle' | 'table_upgrade' | 'merch_voucher';
+
+export interface Reward {
+  id: string;
+  name: string;
+  description: string | null;
+  category: RewardCategory;
+  points_cost: number;
+  stock: number | null; // null is unlimited
+  code_valid_days: number;
+  image_url: string | null;
+}
+
+export type RedemptionStatus = 'issued' | 'fulfilled' | 'expired' | 'cancelled';
+
+export interface RewardRedemption {
+  id: string;
+  reward_id: string;
+  points: number;
+  code: string;
+  status: RedemptionStatus;
+  expires_at: string;
+  fulfilled_at: string | null;
+  created_at: string;
+  reward?: Pick<Reward, 'name' | 'category'>;
+}
+
+export interface PointsExpiry {
+  points: number;
+  expires_at: string;
+}
+
+// ==================== LOYALTY MANAGER ====================
+
+class LoyaltyManager {
+  /**
+   * Points history, newest first
+   */
+  async getPointsHistory(userId: string, limit = 30): Promise<PointsEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('loyalty_point_entries')
+        .select('id, type, points, balance_after, remaining, expires_at, reference, description, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching points history:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error: any) {
+      console.error('Failed to fetch points history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * The next batch of points due to expire, if any
+   */
+  async getNextExpiry(userId: string): Promise<PointsExpiry | null> {
+    try {
+      const { data, error } = await supabase
+        .from('loyalty_point_entries')
+        .select('remaining, expires_at')
+        .eq('user_id', userId)
+        .gt('remaining', 0)
+        .gt('expires_at', new Date().toISOString())
+        .order('expires_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching points expiry:', error);
+        return null;
+      }
+
+      return data ? { points: data.remaining, expires_at: data.expires_at } : null;
+    } catch (error: any) {
+      console.error('Failed to fetch points expiry:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Rewards catalog, in display order
+   */
+  async getRewards(): Promise<Reward[]> {
+    try {
+      const { data, error } = await supabase
+        .from('rewards')
+        .select('id, name, description, category, points_cost, stock, code_valid_days, image_url')
+        .order('display_order', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching rewards:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error: any) {
+      console.error('Failed to fetch rewards:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Rewards the member has redeemed, newest first
+   */
+  async getRedemptions(userId: string, limit = 20): Promise<RewardRedemption[]> {
+    try {
+      const { data, error } = await supabase
+        .from('reward_redemptions')
+        .select('id, reward_id, points, code, status, expires_at, fulfilled_at, created_at, reward:rewards(name, category)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching redemptions:', error);
+        return [];
+      }
+
+      return (data || []) as unknown as RewardRedemption[];
+    } catch (error: any) {
+      console.error('Failed to fetch redemptions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Spend points on a reward. Returns the code to show staff.
+   * The reference makes a retried request return the same code instead of charging twice.
+   */
+  async redeemReward(
+    rewardId: string,
+    reference = `QLXRWD-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`
+  ): Promise<{ success: boolean; redemption?: RewardRedemption; error?: string }> {
+    try {
+      console.info('Redeeming reward:', { rewardId, reference });
+
+      const { data, error } = await supabase.rpc('redeem_reward', {
+        p_reward_id: rewardId,
+        p_reference: reference,
+      });
+
+      if (error) {
+        console.error('redeem_reward failed:', error);
+        return { success: false, error: this.redemptionErrorMessage(error.code, error.message) };
+      }
+
+      const redemption = Array.isArray(data) ? data[0] : data;
+      return { success: true, redemption };
+    } catch (error: any) {
+      console.error('Redeem reward error:', error);
+      return { success: false, error: error.message || 'Could not redeem reward' };
+    }
+  }
+
+  private redemptionErrorMessage(code: string | undefined, fallback: string): string {
+    switch (code) {
+      case '23514': return 'You do not have enough points for this reward';
+      case '55000': return fallback.includes('out of stock') ? 'This reward is out of stock' : 'Your Privé wallet is not active';
+      case 'P0002': return 'This reward is no longer available';
+      default: return fallback;
+    }
+  }
+}
+
+// Export singleton instance
+export const loyaltyManager = new LoyaltyManager();
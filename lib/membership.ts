@@ -0,0 +1,138 @@
+/**
+ * Membership Tiers
+ * Privé tiers come from rolling 12-month spend (paid bookings, bill payments and
+ * merch). Thresholds and benefits are configured in the membership_tiers table;
+ * the database recomputes a member's tier as they spend.
+ */
+
+import { supabase } from './supabase';
+
+// ==================== TYPES & INTERFACES ====================
+
+export interface TierBenefit {
+  title: string;
+  description: string;
+  icon: string;
+}
+
+export interface MembershipTier {
+  id: string;
+  name: string;
+  rank: number;
+  min_spend: number;
+  booking_discount_percent: number;
+  points_multiplier: number;
+  benefits: TierBenefit[];
+  color: string | null;
+}
+
+export interface MembershipStatus {
+  tier: MembershipTier;
+  nextTier: MembershipTier | null;
+  rollingSpend: number;
+  spendToNextTier: number; // 0 at the top tier
+  progress: number; // 0-1 towards the next tier
+}
+
+export interface TierChange {
+  id: string;
+  from_tier_id: string | null;
+  to_tier_id: string;
+  rolling_spend: number;
+  reason: 'initial' | 'upgrade' | 'downgrade';
+  created_at: string;
+}
+
+// ==================== MEMBERSHIP MANAGER ====================
+
+class MembershipManager {
+  /**
+   * Active tiers, lowest first
+   */
+  async getTiers(): Promise<MembershipTier[]> {
+    try {
+      const { data, error } = await supabase
+        .from('membership_tiers')
+        .select('id, name, rank, min_spend, booking_discount_percent, points_multiplier, benefits, color')
+        .order('rank', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching membership tiers:', error);
+        return [];
+      }
+
+      return (data || []).map((tier) => ({
+        ...tier,
+        min_spend: Number(tier.min_spend),
+        booking_discount_percent: Number(tier.booking_discount_percent),
+        points_multiplier: Number(tier.points_multiplier),
+      }));
+    } catch (error: any) {
+      console.error('Failed to fetch membership tiers:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Current tier and progress to the next one.
+   * Refreshes the tier first so spend that has aged out of the 12-month window is
+   * reflected even if the member hasn't spent since.
+   */
+  async getMembershipStatus(userId: string): Promise<MembershipStatus | null> {
+    try {
+      const tiers = await this.getTiers();
+      if (tiers.length === 0) return null;
+
+      const { data, error } = await supabase.rpc('refresh_member_tier', { p_user_id: userId });
+
+      if (error) {
+        console.error('Error refreshing membership tier:', error);
+        return null;
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      const rollingSpend = Number(row?.rolling_spend ?? 0);
+      const tier = tiers.find((t) => t.id === row?.tier_id) ?? tiers[0];
+      const nextTier = tiers.find((t) => t.rank > tier.rank) ?? null;
+      const span = nextTier ? nextTier.min_spend - tier.min_spend : 0;
+
+      return {
+        tier,
+        nextTier,
+        rollingSpend,
+        spendToNextTier: nextTier ? Math.max(nextTier.min_spend - rollingSpend, 0) : 0,
+        progress: nextTier && span > 0 ? Math.min(Math.max((rollingSpend - tier.min_spend) / span, 0), 1) : 1,
+      };
+    } catch (error: any) {
+      console.error('Failed to get membership status:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Tier changes, newest first
+   */
+  async getTierHistory(userId: string, limit = 20): Promise<TierChange[]> {
+    try {
+      const { data, error } = await supabase
+        .from('membership_tier_history')
+        .select('id, from_tier_id, to_tier_id, rolling_spend, reason, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching tier history:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error: any) {
+      console.error('Failed to fetch tier history:', error);
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+export const membershipManager = new MembershipManager();
@@ -0,0 +1,75 @@
+/**
+ * In-app Notifications
+ * Written by the database alongside the events they describe (wallet transfers for
+ * now); members can read them and mark them read.
+ */
+
+import { supabase } from './supabase';
+
+// ==================== TYPES & INTERFACES ====================
+
+export interface AppNotification {
+  id: string;
+  type: string;
+  title: string;
+  body: string;
+  data: Record<string, any>;
+  read_at: string | null;
+  created_at: string;
+}
+
+// ==================== NOTIFICATION MANAGER ====================
+
+class NotificationManager {
+  /**
+   * Notifications, newest first
+   */
+  async getNotifications(userId: string, limit = 30): Promise<AppNotification[]> {
+    try {
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('id, type, title, body, data, read_at, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('Error fetching notifications:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error: any) {
+      console.error('Failed to fetch notifications:', error);
+      return [];
+    }
+  }
+
+  async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error counting notifications:', error);
+      return 0;
+    }
+
+    return count ?? 0;
+  }
+
+  async markAllRead(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (error) console.error('Error marking notifications read:', error);
+  }
+}
+
+// Export singleton instance
+export const notificationManager = new NotificationManager();
@@ -0,0 +1,184 @@
+/**
+ * Payment Provider
+ * One interface over Paystack, Flutterwave and Globus so screens and the wallet
+ * manager don't depend on a specific provider. The provider (and the ones to
+ * fail over to) is chosen in config/environment.ts.
+ */
+
+import { config, type PaymentProviderName } from '@/config/environment';
+import { flutterwaveProvider } from './flutterwave-bank';
+import { globusProvider } from './globus-bank';
+import { paystackProvider } from './paystack';
+
+// ==================== TYPES & INTERFACES ====================
+
+export interface ProviderResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  provider?: PaymentProviderName;
+}
+
+export interface ChargeRequest {
+  reference: string;
+  amount: number; // NGN
+  email: string;
+  callbackUrl: string;
+  customerName?: string;
+  phone?: string;
+  description?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ChargeSession {
+  reference: string;
+  paymentLink: string;
+}
+
+export type ChargeStatus = 'success' | 'pending' | 'failed' | 'abandoned';
+
+export interface ChargeVerification {
+  reference: string;
+  status: ChargeStatus;
+  amount: number; // NGN
+  currency: string;
+  paidAt?: string;
+  channel?: string;
+  gatewayResponse?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface VirtualAccountRequest {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  bvn?: string;
+}
+
+export interface VirtualAccountDetails {
+  accountNumber: string;
+  accountName: string;
+  bankName: string;
+  bankCode: string;
+  reference: string;
+  customerCode?: string; // provider customer the account belongs to, used to match deposits
+}
+
+export interface BankTransferRequest {
+  reference: string;
+  amount: number; // NGN
+  accountNumber: string;
+  bankCode: string;
+  accountName?: string;
+  narration: string;
+  sourceAccount?: string; // Globus pays out from the member's own account
+}
+
+export interface BankTransferResult {
+  reference: string;
+  status: 'pending' | 'success' | 'failed';
+  providerReference?: string;
+}
+
+export interface ResolvedAccount {
+  accountNumber: string;
+  accountName: string;
+  bankCode: string;
+}
+
+export interface Bank {
+  name: string;
+  code: string;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  initializeCharge(request: ChargeRequest): Promise<ProviderResult<ChargeSession>>;
+  verifyCharge(reference: string): Promise<ProviderResult<ChargeVerification>>;
+  createVirtualAccount(request: VirtualAccountRequest): Promise<ProviderResult<VirtualAccountDetails>>;
+  transfer(request: BankTransferRequest): Promise<ProviderResult<BankTransferResult>>;
+  resolveAccount(accountNumber: string, bankCode: string): Promise<ProviderResult<ResolvedAccount>>;
+  listBanks(): Promise<ProviderResult<Bank[]>>;
+}
+
+// ==================== PROVIDER SELECTION ====================
+
+const providers: Record<PaymentProviderName, PaymentProvider> = {
+  paystack: paystackProvider,
+  flutterwave: flutterwaveProvider,
+  globus: globusProvider,
+};
+
+/**
+ * Get a specific provider, e.g. to verify a charge with the provider that created it
+ */
+export function getPaymentProvider(name: PaymentProviderName): PaymentProvider {
+  return providers[name];
+}
+
+/**
+ * Routes calls to the configured provider.
+ * Operations that are safe to retry elsewhere fail over to the fallback providers.
+ * Verification and transfers stay on the primary provider: a charge can only be
+ * verified where it was made, and a failed transfer may still be in flight.
+ */
+class PaymentProviderRouter implements PaymentProvider {
+  get name(): PaymentProviderName {
+    return config.payments.provider;
+  }
+
+  private get chain(): PaymentProvider[] {
+    const names = [config.payments.provider, ...config.payments.fallbackProviders];
+    return Array.from(new Set(names)).map((name) => providers[name]);
+  }
+
+  private async withFailover<T>(
+    operation: string,
+    call: (provider: PaymentProvider) => Promise<ProviderResult<T>>
+  ): Promise<ProviderResult<T>> {
+    let lastResult: ProviderResult<T> = { success: false, error: 'No payment provider configured' };
+
+    for (const provider of this.chain) {
+      const result = await call(provider);
+      if (result.success) {
+        return { ...result, provider: provider.name };
+      }
+
+      console.warn(`${operation} failed with ${provider.name}:`, result.error);
+      lastResult = { ...result, provider: provider.name };
+    }
+
+    return lastResult;
+  }
+
+  initializeCharge(request: ChargeRequest) {
+    return this.withFailover('initializeCharge', (provider) => provider.initializeCharge(request));
+  }
+
+  async verifyCharge(reference: string) {
+    const result = await providers[this.name].verifyCharge(reference);
+    return { ...result, provider: this.name };
+  }
+
+  createVirtualAccount(request: VirtualAccountRequest) {
+    return this.withFailover('createVirtualAccount', (provider) => provider.createVirtualAccount(request));
+  }
+
+  async transfer(request: BankTransferRequest) {
+    const result = await providers[this.name].transfer(request);
+    return { ...result, provider: this.name };
+  }
+
+  resolveAccount(accountNumber: string, bankCode: string) {
+    return this.withFailover('resolveAccount', (provider) => provider.resolveAccount(accountNumber, bankCode));
+  }
+
+  listBanks() {
+    return this.withFailover('listBanks', (provider) => provider.listBanks());
+  }
+}
+
+// Export singleton instance
+export const paymentProvider = new PaymentProviderRouter();
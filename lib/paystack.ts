@@ -1,67 +1,36 @@
 import { config } from '@/config/environment';
+import { backendApi } from './backend-api';
+import type {
+  Bank,
+  BankTransferRequest,
+  BankTransferResult,
+  ChargeRequest,
+  ChargeSession,
+  ChargeStatus,
+  ChargeVerification,
+  PaymentProvider,
+  ProviderResult,
+  ResolvedAccount,
+  VirtualAccountDetails,
+  VirtualAccountRequest,
+} from './payment-provider';
 
 export interface PaystackConfig {
-  secretKey: string;
-  baseUrl: string;
   environment: 'sandbox' | 'production';
 }
 
+/**
+ * Thin Paystack client.
+ * Secret-key operations run on the backend (/api/paystack/*); this class keeps
+ * the method signatures the screens already use.
+ */
 class PaystackClient {
   private config: PaystackConfig;
-  private timeout = 30000;
 
   constructor() {
-    const secretKey = process.env.EXPO_PUBLIC_PAYSTACK_SECRET_KEY || '';
-
     this.config = {
-      secretKey,
-      baseUrl: 'https://api.paystack.co',
       environment: config.isProduction ? 'production' : 'sandbox',
     };
-
-    if (!secretKey) {
-      console.warn('Paystack credentials not configured. Payment features may be unavailable.');
-    }
-  }
-
-  private getHeaders(): HeadersInit {
-    return {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${this.config.secretKey}`,
-    };
-  }
-
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-    const url = `${this.config.baseUrl}${endpoint}`;
-
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          ...this.getHeaders(),
-          ...options.headers,
-        },
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      const data = await response.json();
-
-      if (!response.ok || data.status !== true) {
-        throw new Error(data.message || 'API request failed');
-      }
-
-      return data;
-    } catch (error: any) {
-      if (error.name === 'AbortError') {
-        throw new Error('Request timeout - please try again');
-      }
-      throw error;
-    }
   }
 
   async initializeTransaction(payload: {
@@ -74,17 +43,14 @@ class PaystackClient {
     metadata?: any;
   }): Promise<{ success: boolean; paymentLink?: string; reference?: string; error?: string }> {
     try {
-      const response = await this.request<any>('/transaction/initialize', {
-        method: 'POST',
-        body: JSON.stringify({
-          reference: payload.reference,
-          amount: Math.round(payload.amount * 100),
-          currency: payload.currency || 'NGN',
-          email: payload.email,
-          callback_url: payload.callback_url,
-          channels: payload.channels,
-          metadata: payload.metadata,
-        }),
+      const response = await backendApi.post<any>('/api/paystack/transaction/initialize', {
+        reference: payload.reference,
+        amount: payload.amount,
+        currency: payload.currency || 'NGN',
+        email: payload.email,
+        callback_url: payload.callback_url,
+        channels: payload.channels,
+        metadata: payload.metadata,
       });
 
       return {
@@ -102,9 +68,9 @@ class PaystackClient {
 
   async verifyTransaction(reference: string): Promise<{ success: boolean; data?: any; error?: string }> {
     try {
-      const response = await this.request<any>(`/transaction/verify/${encodeURIComponent(reference)}`, {
-        method: 'GET',
-      });
+      const response = await backendApi.get<any>(
+        `/api/paystack/transaction/verify/${encodeURIComponent(reference)}`
+      );
 
       return {
         success: true,
@@ -125,10 +91,7 @@ class PaystackClient {
     phone?: string;
   }): Promise<{ success: boolean; customerCode?: string; error?: string }> {
     try {
-      const response = await this.request<any>('/customer', {
-        method: 'POST',
-        body: JSON.stringify(payload),
-      });
+      const response = await backendApi.post<any>('/api/paystack/customer', payload);
 
       return {
         success: true,
@@ -156,6 +119,7 @@ class PaystackClient {
       bankName: string;
       bankCode: string;
       reference: string;
+      customerCode: string;
     };
     error?: string;
   }> {
@@ -171,12 +135,9 @@ class PaystackClient {
         throw new Error(customer.error || 'Customer creation failed');
       }
 
-      const response = await this.request<any>('/dedicated_account', {
-        method: 'POST',
-        body: JSON.stringify({
-          customer: customer.customerCode,
-          preferred_bank: 'wema-bank',
-        }),
+      const response = await backendApi.post<any>('/api/paystack/dedicated-account', {
+        customer: customer.customerCode,
+        preferred_bank: 'wema-bank',
       });
 
       const acct = response.data;
@@ -188,6 +149,7 @@ class PaystackClient {
           bankName: acct.bank?.name || '',
           bankCode: acct.bank?.id ? String(acct.bank.id) : '',
           reference: acct.dedicated_account_id ? String(acct.dedicated_account_id) : `paystack-${payload.userId}`,
+          customerCode: customer.customerCode,
         },
       };
     } catch (error: any) {
@@ -200,3 +162,124 @@ class PaystackClient {
 }
 
 export const paystackClient = new PaystackClient();
+
+/**
+ * PaymentProvider adapter for Paystack
+ */
+class PaystackProvider implements PaymentProvider {
+  readonly name = 'paystack' as const;
+
+  async initializeCharge(request: ChargeRequest): Promise<ProviderResult<ChargeSession>> {
+    const result = await paystackClient.initializeTransaction({
+      reference: request.reference,
+      amount: request.amount,
+      email: request.email,
+      callback_url: request.callbackUrl,
+      metadata: request.metadata,
+    });
+
+    if (!result.success || !result.paymentLink) {
+      return { success: false, error: result.error || 'Failed to initialize transaction' };
+    }
+
+    return {
+      success: true,
+      data: { reference: result.reference || request.reference, paymentLink: result.paymentLink },
+    };
+  }
+
+  async verifyCharge(reference: string): Promise<ProviderResult<ChargeVerification>> {
+    const result = await paystackClient.verifyTransaction(reference);
+
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || 'Failed to verify transaction' };
+    }
+
+    const tx = result.data;
+    const statusMap: Record<string, ChargeStatus> = {
+      success: 'success',
+      failed: 'failed',
+      reversed: 'failed',
+      abandoned: 'abandoned',
+    };
+
+    return {
+      success: true,
+      data: {
+        reference: tx.reference,
+        status: statusMap[tx.status] || 'pending',
+        amount: Number(tx.amount || 0) / 100, // kobo -> NGN
+        currency: tx.currency || 'NGN',
+        paidAt: tx.paid_at || undefined,
+        channel: tx.channel,
+        gatewayResponse: tx.gateway_response,
+        metadata: tx.metadata || undefined,
+      },
+    };
+  }
+
+  async createVirtualAccount(request: VirtualAccountRequest): Promise<ProviderResult<VirtualAccountDetails>> {
+    const result = await paystackClient.createDedicatedAccount(request);
+    return result.success
+      ? { success: true, data: result.data }
+      : { success: false, error: result.error };
+  }
+
+  // Paystack payouts only go to saved beneficiaries, whose names the backend has
+  // resolved, through walletManager.withdraw
+  async transfer(_request: BankTransferRequest): Promise<ProviderResult<BankTransferResult>> {
+    return { success: false, error: 'Withdraw to a saved beneficiary instead' };
+  }
+
+  async resolveAccount(accountNumber: string, bankCode: string): Promise<ProviderResult<ResolvedAccount>> {
+    try {
+      const query = `account_number=${encodeURIComponent(accountNumber)}&bank_code=${encodeURIComponent(bankCode)}`;
+      const response = await backendApi.get<any>(`/api/paystack/bank/resolve?${query}`);
+
+      return {
+        success: true,
+        data: {
+          accountNumber: response.data?.account_number || accountNumber,
+          accountName: response.data?.account_name,
+          bankCode,
+        },
+      };
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Failed to resolve account' };
+    }
+  }
+
+  async listBanks(): Promise<ProviderResult<Bank[]>> {
+    try {
+      const response = await backendApi.get<any>('/api/paystack/banks');
+      const banks: Bank[] = (response.data || []).map((bank: any) => ({ name: bank.name, code: bank.code }));
+      return { success: true, data: banks };
+    } catch (error: any) {
+      return { success: false, error: error.message || 'Failed to fetch banks' };
+    }
+  }
+}
+
+export const paystackProvider = new PaystackProvider();
+
+/**
+ * Verifies a Paystack transaction and only succeeds when the charge itself succeeded
+ */
+export const verifyPaystackTransaction = async (
+  reference: string
+): Promise<{ success: boolean; data?: any; error?: string }> => {
+  console.info('Verifying Paystack transaction:', reference);
+
+  const result = await paystackClient.verifyTransaction(reference);
+
+  if (result.success && result.data?.status === 'success') {
+    console.info('Payment verification successful:', result.data.reference);
+    return result;
+  }
+
+  console.warn('Payment verification failed:', result);
+  return {
+    success: false,
+    error: result.error || result.data?.gateway_response || 'Payment verification failed',
+  };
+};
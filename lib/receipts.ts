@@ -0,0 +1,55 @@
+/**
+ * Transaction Receipts
+ * Labels for wallet transactions and the plain-text receipt members share
+ */
+
+import type { UserWallet, WalletTransaction } from './wallet-manager';
+
+const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  card: 'Card',
+  bank: 'Bank transfer',
+  bank_transfer: 'Bank transfer',
+  ussd: 'USSD',
+  wallet: 'Privé wallet',
+  refund: 'Refund',
+  wallet_transfer: 'Privé transfer',
+};
+
+export const formatPaymentMethod = (method: string | null): string =>
+  method ? PAYMENT_METHOD_LABELS[method] ?? method.replace(/_/g, ' ') : '—';
+
+export const formatNaira = (amount: number): string =>
+  `₦${amount.toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const formatTransactionDate = (date: string): string =>
+  new Date(date).toLocaleString('en-NG', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const transactionTitle = (tx: WalletTransaction): string =>
+  tx.description || (tx.type === 'credit' ? 'Wallet credit' : 'Wallet debit');
+
+/**
+ * Receipt as plain text, for the share sheet
+ */
+export const buildReceiptText = (tx: WalletTransaction, wallet?: Pick<UserWallet, 'account_name' | 'account_number'> | null): string => {
+  const lines = [
+    'QUILOX PRIVÉ — TRANSACTION RECEIPT',
+    '',
+    `${tx.type === 'credit' ? 'Credit' : 'Debit'}: ${formatNaira(tx.amount)}`,
+    `Status: ${tx.status.toUpperCase()}`,
+    `Description: ${transactionTitle(tx)}`,
+    `Method: ${formatPaymentMethod(tx.payment_method)}`,
+    `Date: ${formatTransactionDate(tx.created_at)}`,
+    `Reference: ${tx.reference}`,
+  ];
+
+  if (tx.balance_after !== null) lines.push(`Balance after: ${formatNaira(tx.balance_after)}`);
+  if (wallet) lines.push(`Account: ${wallet.account_name} • ${wallet.account_number}`);
+
+  return lines.join('\n');
+};
@@ -2,7 +2,9 @@ import { createClient } from '@supabase/supabase-js';
 import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 import 'react-native-url-polyfill/auto';
-import { ApiResponse, ApiResponseBuilder } from './api-response';
+import { ApiResponse, ApiResponseBuilder, AppErrorCode, ERROR_MESSAGES } from './api-response';
+import { getSessionWindow, type BookingSession } from './booking-sessions';
+import { backendApi } from './backend-api';
 
 // Types for our data models
 export interface CarouselItem {
@@ -133,11 +135,23 @@ export interface TableArea {
   updated_at: string;
 }
 
+// A table's state for one night and session, from get_table_availability
+export type TableStatus = 'available' | 'held' | 'booked' | 'closed';
+
+export interface TableAvailability extends TableArea {
+  status: TableStatus;
+  hold_expires_at: string | null; // when a checkout hold on the table runs out
+}
+
 export interface Booking {
   id: string;
   user_id: string | null;
   table_id: string;
   booking_date: string;
+  session_id?: string | null; // null books the whole night
+  arrival_time?: string | null; // HH:MM:SS, Lagos time
+  starts_at?: string; // window the booking occupies, set by the database
+  ends_at?: string;
   guest_count: number;
   guest_name: string;
   guest_email: string;
@@ -145,15 +159,97 @@ export interface Booking {
   special_requests: string | null;
   status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
   booking_fee: number;
+  amount_payable?: number | null; // booking_fee less discounts; null on older bookings
+  discount_total?: number;
+  applied_discounts?: AppliedDiscount[];
   payment_reference?: string;
   payment_status?: 'pending' | 'paid' | 'failed' | 'refunded';
+  hold_expires_at?: string | null; // set while the booking is only a hold during checkout
+  checked_in_at?: string | null; // set by door staff when the guests arrive
   metadata?: any;
   created_at: string;
   updated_at: string;
 }
 
+export interface CancellationQuote {
+  refundable: boolean;
+  percent: number;
+  amount: number;
+  paid: number; // what the booking's payment records show was taken
+  hoursBefore: number;
+  rule: string;
+}
+
+// One line of a booking's price breakdown
+export interface AppliedDiscount {
+  code: string;
+  label: string;
+  type: 'membership' | 'promotion';
+  percent?: number;
+  amount: number;
+  promotion_id?: string;
+}
+
+// Price of a table booking for the signed-in member, from the backend pricing engine.
+// Stored on the backend: checkout charges it by id until it expires.
+export interface BookingQuote {
+  id: string;
+  expires_at: string;
+  table_id: string;
+  currency: string;
+  base_fee: number;
+  discounts: AppliedDiscount[];
+  discount_total: number;
+  total: number;
+  membership: { is_prive: boolean; tier_id: string | null };
+  promo_code: string | null;
+  promo_error?: string;
+  quoted_at: string;
+}
+
+// What the member chooses about a booking; the backend prices it and records the payment
+export type BookingDetails = Pick<
+  Booking,
+  'table_id' | 'booking_date' | 'session_id' | 'arrival_time' | 'guest_count'
+  | 'guest_name' | 'guest_email' | 'guest_phone' | 'special_requests'
+>;
+
+/**
+ * A booking checkout on the backend. Paid in full from the wallet it is confirmed
+ * straight away; otherwise the member pays the rest through `authorization_url`
+ * and the booking is confirmed once Paystack reports the charge.
+ */
+export interface BookingCheckout {
+  status: 'confirmed' | 'pending';
+  booking?: Booking;
+  reference?: string;
+  authorization_url?: string;
+  quote?: BookingQuote;
+}
+
+// Where a card checkout has got to
+export interface BookingCheckoutStatus {
+  status: 'pending' | 'processing' | 'confirmed' | 'failed' | 'cancelled';
+  booking_id: string | null;
+  error: string | null;
+}
+
+// Stored in bookings.metadata.refund when a paid booking is cancelled
+export interface BookingRefund {
+  reference: string;
+  amount: number;
+  percent: number;
+  policy: string;
+  method: 'wallet' | 'paystack';
+  status: 'pending' | 'completed' | 'failed';
+  requested_at: string;
+  settled_at?: string;
+  error?: string;
+}
+
 export interface BookingWithTable extends Booking {
   table: TableArea;
+  session?: Pick<BookingSession, 'name' | 'starts_at' | 'ends_at'> | null;
 }
 
 // User profile and wallet types
@@ -199,7 +295,7 @@ if (__DEV__) {
  * - Android: KeyStore System (AES-256)
  * - Web: localStorage (fallback, not encrypted)
  */
-const secureStorage = {
+export const secureStorage = {
   getItem: async (key: string): Promise<string | null> => {
     if (Platform.OS === 'web') {
       // Web fallback to localStorage (only in browser, not SSR)
@@ -471,19 +567,42 @@ export const fetchTableAreas = async (): Promise<TableArea[]> => {
   }
 };
 
+// How long a table is held for a member while they pay
+export const BOOKING_HOLD_MINUTES = 10;
+
+// The database keeps a table's active bookings from overlapping (23505, or 23P01
+// from a direct insert, when the session is taken)
+const bookingError = (error: { code?: string; message: string }) => {
+  const errorCode = error.code === '23505' || error.code === '23P01' ? AppErrorCode.BOOKING_TABLE_UNAVAILABLE
+    : error.code === '23514' ? AppErrorCode.WALLET_INSUFFICIENT_FUNDS
+    : error.code === '55000' ? AppErrorCode.WALLET_INACTIVE
+    : undefined;
+  return {
+    success: false as const,
+    error: errorCode ? ERROR_MESSAGES[errorCode] : error.message,
+    errorCode,
+  };
+};
+
 /**
- * Checks table availability for a specific date
+ * Checks table availability for a session on a specific date (the whole night
+ * without a session). Only a hint for the table list: the booking itself is what
+ * reserves the table.
  */
 export const checkTableAvailability = async (
   tableId: string,
-  bookingDate: string
+  bookingDate: string,
+  session?: BookingSession | null
 ): Promise<boolean> => {
+  const { startsAt, endsAt } = getSessionWindow(bookingDate, session);
   const { data, error } = await supabase
     .from('bookings')
     .select('id')
     .eq('table_id', tableId)
-    .eq('booking_date', bookingDate)
-    .in('status', ['pending', 'confirmed']);
+    .lt('starts_at', endsAt)
+    .gt('ends_at', startsAt)
+    .in('status', ['pending', 'confirmed'])
+    .or(`hold_expires_at.is.null,hold_expires_at.gt.${new Date().toISOString()}`);
 
   if (error) {
     console.error('Error checking availability:', error);
@@ -494,26 +613,56 @@ export const checkTableAvailability = async (
   return (data || []).length === 0;
 };
 
+/**
+ * Every table with its price and status for a night and session, in one query.
+ * Fails rather than guessing, so the screen can tell "unavailable" from "unknown".
+ */
+export const fetchTableAvailability = async (
+  bookingDate: string,
+  session?: BookingSession | null
+): Promise<{ success: boolean; tables?: TableAvailability[]; error?: string }> => {
+  const { data, error } = await supabase.rpc('get_table_availability', {
+    p_booking_date: bookingDate,
+    p_session_id: session?.id ?? null,
+  });
+
+  if (error) {
+    console.error('Error fetching table availability:', error);
+    return { success: false, error: error.message };
+  }
+
+  return {
+    success: true,
+    tables: (data || []).map((row: any) => ({ ...row, booking_fee: Number(row.booking_fee) })),
+  };
+};
+
+/**
+ * Subscribes to booking changes for a night (broadcast by the database, so other
+ * guests' bookings are included without exposing them)
+ * @returns Unsubscribe function
+ */
+export const subscribeToTableAvailability = (bookingDate: string, callback: (tableId: string) => void) => {
+  const channel = supabase
+    .channel(`table-availability:${bookingDate}`)
+    .on('broadcast', { event: 'availability_changed' }, ({ payload }) => {
+      console.debug('Table availability changed:', payload);
+      callback(payload?.table_id);
+    })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
 /**
  * Creates a new booking
  */
 export const createBooking = async (
   bookingData: Omit<Booking, 'id' | 'created_at' | 'updated_at'>
-): Promise<{ success: boolean; booking?: Booking; error?: string }> => {
+): Promise<{ success: boolean; booking?: Booking; error?: string; errorCode?: AppErrorCode }> => {
   console.info('Creating booking:', bookingData);
-  
-  // First check if table is available
-  const isAvailable = await checkTableAvailability(
-    bookingData.table_id,
-    bookingData.booking_date
-  );
-
-  if (!isAvailable) {
-    return {
-      success: false,
-      error: 'Table is not available for the selected date',
-    };
-  }
 
   const { data, error } = await supabase
     .from('bookings')
@@ -523,10 +672,7 @@ export const createBooking = async (
 
   if (error) {
     console.error('Error creating booking:', error);
-    return {
-      success: false,
-      error: error.message,
-    };
+    return bookingError(error);
   }
 
   console.info('Booking created successfully:', data);
@@ -536,6 +682,34 @@ export const createBooking = async (
   };
 };
 
+/**
+ * Holds a table while the member pays, so nobody else can book it in the meantime.
+ * Pass the hold's id to startBookingCheckout to turn it into the booking; release
+ * it if checkout is abandoned. Calling again for the same table renews the hold.
+ */
+export const holdTable = async (
+  bookingData: Omit<Booking, 'id' | 'user_id' | 'status' | 'created_at' | 'updated_at'>
+): Promise<{ success: boolean; hold?: Booking; error?: string; errorCode?: AppErrorCode }> => {
+  const { data, error } = await supabase
+    .rpc('hold_table', { p_booking: bookingData, p_minutes: BOOKING_HOLD_MINUTES })
+    .single<Booking>();
+
+  if (error) {
+    console.error('Error holding table:', error);
+    return bookingError(error);
+  }
+
+  console.info('Table held until', data.hold_expires_at);
+  return { success: true, hold: data };
+};
+
+export const releaseBookingHold = async (holdId: string): Promise<void> => {
+  const { error } = await supabase.rpc('release_booking_hold', { p_booking_id: holdId });
+  if (error) {
+    console.error('Error releasing table hold:', error);
+  }
+};
+
 /**
  * Fetches user bookings
  */
@@ -546,9 +720,12 @@ export const fetchUserBookings = async (
     .from('bookings')
     .select(`
       *,
-      table:table_areas(*)
+      table:table_areas(*),
+      session:booking_sessions(name, starts_at, ends_at)
     `)
-    .order('booking_date', { ascending: false });
+    .order('booking_date', { ascending: false })
+    // Checkout holds are not bookings yet
+    .or('status.neq.pending,hold_expires_at.is.null');
 
   if (userId) {
     query = query.eq('user_id', userId);
@@ -565,264 +742,175 @@ export const fetchUserBookings = async (
 };
 
 /**
- * Verifies a Paystack transaction
+ * Confirms a wallet top-up after checkout.
+ * Read-only: the Paystack webhook on the backend is the only path that credits
+ * the wallet, so this polls the transaction until the webhook has settled it.
+ * If the webhook is slow, returns `pending: true` - the credit still lands.
  */
-export const verifyPaystackTransaction = async (
-  reference: string
-): Promise<{ success: boolean; data?: any; error?: string }> => {
+export const confirmWalletTopUp = async (
+  reference: string,
+  walletId: string,
+  options: { attempts?: number; intervalMs?: number } = {}
+): Promise<{ success: boolean; pending?: boolean; newBalance?: number; error?: string }> => {
+  const { attempts = 10, intervalMs = 2000 } = options;
+
   try {
-    const secretKey = process.env.EXPO_PUBLIC_PAYSTACK_SECRET_KEY;
-    if (!secretKey) {
-      throw new Error('Paystack secret key not configured');
-    }
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      const { data: tx, error: txError } = await supabase
+        .from('wallet_transactions')
+        .select('status')
+        .eq('reference', reference)
+        .eq('type', 'credit')
+        .single();
 
-    console.info('Verifying Paystack transaction:', reference);
+      if (txError || !tx) {
+        console.error('Top-up transaction not found:', reference, txError);
+        return { success: false, error: 'Transaction not found' };
+      }
 
-    const response = await fetch(
-      `https://api.paystack.co/transaction/verify/${encodeURIComponent(reference)}`,
-      {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${secretKey}`,
-          'Content-Type': 'application/json',
-        },
+      if (tx.status === 'completed') {
+        const { data: wallet } = await supabase
+          .from('user_wallets')
+          .select('balance')
+          .eq('id', walletId)
+          .single();
+
+        console.info('Top-up confirmed:', reference);
+        return { success: true, newBalance: wallet?.balance || 0 };
       }
-    );
 
-    const result = await response.json();
+      if (tx.status === 'failed') {
+        return { success: false, error: 'Payment was not successful' };
+      }
 
-    if (result.status === true && result.data?.status === 'success') {
-      console.info('Payment verification successful:', result.data.reference);
-      return {
-        success: true,
-        data: result.data,
-      };
+      if (attempt < attempts) {
+        await new Promise((resolve) => setTimeout(resolve, intervalMs));
+      }
     }
 
-    console.warn('Payment verification failed:', result);
-    return {
-      success: false,
-      error: result.message || 'Payment verification failed',
-    };
+    console.info('Top-up still pending after polling:', reference);
+    return { success: false, pending: true, error: 'Payment is still being confirmed' };
   } catch (error: any) {
-    console.error('Error verifying transaction:', error);
-    return {
-      success: false,
-      error: error.message || 'Failed to verify payment',
-    };
+    console.error('Top-up confirmation error:', error);
+    return { success: false, error: error.message };
   }
 };
 
 /**
- * Verifies a wallet top-up payment and updates the balance
- * Uses atomic update to prevent double-counting from webhook + client-side
+ * Books a table at a quote from getBookingQuote. The backend takes `walletAmount` from the
+ * member's wallet; if that covers it the booking comes back confirmed, otherwise
+ * the checkout has a Paystack link for the rest. Converts the hold from holdTable
+ * when given.
  */
-// Module-level lock to prevent concurrent processing
-const PROCESSING_REFS = new Set<string>();
-
-export const verifyAndUpdateWalletTopUp = async (
-  reference: string,
-  walletId: string
-): Promise<{ success: boolean; newBalance?: number; error?: string }> => {
-  // FIRST LINE OF DEFENSE: Module-level lock (synchronous check)
-  if (PROCESSING_REFS.has(reference)) {
-    console.info('=== BLOCKED: Reference already being processed ===', reference);
-    const { data: wallet } = await supabase
-      .from('user_wallets')
-      .select('balance')
-      .eq('id', walletId)
-      .single();
-    return { success: true, newBalance: wallet?.balance || 0 };
-  }
-  
-  // Acquire lock immediately
-  PROCESSING_REFS.add(reference);
-  
+export const startBookingCheckout = async (request: {
+  booking: BookingDetails;
+  quoteId: string;
+  holdId?: string | null;
+  walletAmount?: number;
+  callbackUrl?: string;
+}): Promise<{ success: boolean; checkout?: BookingCheckout; error?: string }> => {
   try {
-    console.info('=== TOP-UP: Processing ===', reference);
-
-    // Check if transaction exists and get its current status
-    const { data: tx, error: txError } = await supabase
-      .from('wallet_transactions')
-      .select('id, amount, status')
-      .eq('reference', reference)
-      .single();
-
-    if (txError || !tx) {
-      console.error('=== TOP-UP: Transaction not found ===', txError);
-      return { success: false, error: 'Transaction not found' };
-    }
-
-    // If already completed, just return current balance
-    if (tx.status === 'completed') {
-      console.info('=== SKIP: Transaction already completed ===');
-      const { data: wallet } = await supabase
-        .from('user_wallets')
-        .select('balance')
-        .eq('id', walletId)
-        .single();
-      return { success: true, newBalance: wallet?.balance || 0 };
-    }
-
-    const amount = tx.amount || 0;
-    if (amount <= 0) {
-      return { success: false, error: 'Invalid transaction amount' };
-    }
-
-    // Verify payment with Paystack
-    const verificationResult = await verifyPaystackTransaction(reference);
-    if (!verificationResult.success) {
-      console.error('=== TOP-UP: Paystack verification failed ===');
-      return { success: false, error: 'Payment verification failed' };
-    }
-
-    // Get current wallet balance and loyalty points
-    const { data: wallet, error: walletError } = await supabase
-      .from('user_wallets')
-      .select('balance, loyalty_points')
-      .eq('id', walletId)
-      .single();
-
-    if (walletError) {
-      console.error('=== TOP-UP: Failed to fetch wallet ===', walletError);
-      return { success: false, error: 'Wallet not found' };
-    }
-
-    const oldBalance = wallet?.balance || 0;
-    const newBalance = oldBalance + amount;
-    
-    // Calculate loyalty points: 1 point per ₦100 topped up
-    const earnedPoints = Math.floor(amount / 100);
-    const currentPoints = wallet?.loyalty_points || 0;
-    const newPoints = currentPoints + earnedPoints;
-    
-    console.info('=== TOP-UP:', oldBalance, '+', amount, '=', newBalance);
-    console.info('=== POINTS:', currentPoints, '+', earnedPoints, '=', newPoints);
-
-    // ATOMIC: Update both transaction status AND wallet balance
-    // First mark transaction as completed
-    const { error: txUpdateError } = await supabase
-      .from('wallet_transactions')
-      .update({ 
-        status: 'completed',
-        updated_at: new Date().toISOString() 
-      })
-      .eq('reference', reference)
-      .eq('status', 'pending'); // Only if still pending
-
-    if (txUpdateError) {
-      console.error('=== TOP-UP: Failed to mark completed ===', txUpdateError);
-    }
-
-    // Update wallet balance and loyalty points
-    const { error: updateError } = await supabase
-      .from('user_wallets')
-      .update({ 
-        balance: newBalance,
-        loyalty_points: newPoints,
-        updated_at: new Date().toISOString() 
-      })
-      .eq('id', walletId);
-
-    if (updateError) {
-      console.error('=== TOP-UP: Failed to update balance ===', updateError);
-      return { success: false, error: 'Failed to update wallet balance' };
-    }
-
-    console.info('=== TOP-UP SUCCESS: Balance =', newBalance, ', Points =', newPoints, '===');
-    return { success: true, newBalance };
+    const response = await backendApi.post<{ data: BookingCheckout }>('/api/bookings/checkout', {
+      ...request,
+      holdId: request.holdId ?? undefined,
+    });
+    return { success: true, checkout: response.data };
   } catch (error: any) {
-    console.error('Top-up error:', error);
+    console.error('Error starting booking checkout:', error);
     return { success: false, error: error.message };
-  } finally {
-    // Keep the reference in the set permanently to prevent any future attempts
-    // Don't remove: PROCESSING_REFS.delete(reference);
   }
 };
 
 /**
- * Creates a booking with payment reference after successful payment
+ * Confirms a card checkout after the member is back from Paystack. The webhook
+ * confirms it too, so a `pending` status can still turn into a booking.
  */
-export const createBookingWithPayment = async (
-  bookingData: Omit<Booking, 'id' | 'created_at' | 'updated_at'>,
-  paymentReference: string,
-  paystackReference: string
-): Promise<{ success: boolean; booking?: Booking; error?: string }> => {
+export const confirmBookingCheckout = async (
+  reference: string
+): Promise<{ success: boolean; checkout?: BookingCheckoutStatus; error?: string }> => {
   try {
-    console.info('Creating booking with payment:', { paymentReference, table: bookingData.table_id });
-
-    // Check if table is available
-    const isAvailable = await checkTableAvailability(
-      bookingData.table_id,
-      bookingData.booking_date
+    const response = await backendApi.post<{ data: BookingCheckoutStatus }>(
+      `/api/bookings/checkout/${encodeURIComponent(reference)}/confirm`
     );
+    return { success: true, checkout: response.data };
+  } catch (error: any) {
+    console.error('Error confirming booking checkout:', error);
+    return { success: false, error: error.message };
+  }
+};
 
-    if (!isAvailable) {
-      return {
-        success: false,
-        error: 'Table is not available for the selected date',
-      };
-    }
-
-    // Create booking with confirmed status (since payment is successful)
-    const { data, error } = await supabase
-      .from('bookings')
-      .insert([{
-        ...bookingData,
-        status: 'confirmed',
-        payment_reference: paymentReference,
-        payment_status: 'paid',
-        metadata: {
-          paystack_reference: paystackReference,
-          payment_method: 'paystack',
-          paid_at: new Date().toISOString(),
-        },
-      }])
-      .select()
-      .single();
+/**
+ * Abandons a card checkout and lets the table go. A payment that still goes
+ * through is refunded.
+ */
+export const cancelBookingCheckout = async (
+  reference: string
+): Promise<{ success: boolean; checkout?: BookingCheckoutStatus; error?: string }> => {
+  try {
+    const response = await backendApi.post<{ data: BookingCheckoutStatus }>(
+      `/api/bookings/checkout/${encodeURIComponent(reference)}/cancel`
+    );
+    return { success: true, checkout: response.data };
+  } catch (error: any) {
+    console.error('Error cancelling booking checkout:', error);
+    return { success: false, error: error.message };
+  }
+};
 
-    if (error) {
-      console.error('Error creating booking with payment:', error);
-      return {
-        success: false,
-        error: error.message,
-      };
-    }
+/**
+ * Prices a table booking for the signed-in member: Privé discount and promotions
+ */
+export const getBookingQuote = async (
+  tableId: string,
+  promoCode?: string
+): Promise<{ success: boolean; quote?: BookingQuote; error?: string }> => {
+  try {
+    const response = await backendApi.post<{ data: BookingQuote }>('/api/bookings/quote', {
+      tableId,
+      promoCode: promoCode || undefined,
+    });
+    return { success: true, quote: response.data };
+  } catch (error: any) {
+    console.error('Error pricing booking:', error);
+    return { success: false, error: error.message };
+  }
+};
 
-    console.info('Booking created successfully with payment:', data.id);
-    return {
-      success: true,
-      booking: data,
-    };
+/**
+ * Previews the refund the cancellation policy allows for a booking
+ */
+export const getCancellationQuote = async (
+  bookingId: string
+): Promise<{ success: boolean; quote?: CancellationQuote; error?: string }> => {
+  try {
+    const response = await backendApi.get<{ data: CancellationQuote }>(`/api/bookings/${bookingId}/cancellation`);
+    return { success: true, quote: response.data };
   } catch (error: any) {
-    console.error('Error creating booking with payment:', error);
-    return {
-      success: false,
-      error: error.message || 'Failed to create booking',
-    };
+    console.error('Error fetching cancellation quote:', error);
+    return { success: false, error: error.message };
   }
 };
 
 /**
- * Cancels a booking
+ * Cancels a booking.
+ * The backend applies the cancellation policy and refunds the refundable part of a
+ * paid booking fee - to the wallet for Privé members, otherwise back through Paystack.
  */
 export const cancelBooking = async (
   bookingId: string
-): Promise<{ success: boolean; error?: string }> => {
-  const { error } = await supabase
-    .from('bookings')
-    .update({ status: 'cancelled' })
-    .eq('id', bookingId);
-
-  if (error) {
+): Promise<{ success: boolean; refund?: BookingRefund | null; error?: string }> => {
+  try {
+    const response = await backendApi.post<{ data: { refund: BookingRefund | null } }>(
+      `/api/bookings/${bookingId}/cancel`
+    );
+    return { success: true, refund: response.data.refund };
+  } catch (error: any) {
     console.error('Error cancelling booking:', error);
     return {
       success: false,
       error: error.message,
     };
   }
-
-  return { success: true };
 };
 
 // Version-related functions removed - implement in api-version.ts if needed
@@ -0,0 +1,131 @@
+/**
+ * Venue Bills (scan to pay)
+ * Staff raise a bill for a table and show it as a signed QR code. Members scan the
+ * code, check the table, description and amount, and pay it from their wallet. The
+ * backend checks the signature and charges the amount stored with the bill.
+ */
+
+import { backendApi } from './backend-api';
+
+// ==================== TYPES & INTERFACES ====================
+
+export type VenueBillStatus = 'open' | 'paid' | 'void';
+
+export interface VenueBill {
+  id: string;
+  table_id: string | null;
+  table_label: string;
+  amount: number;
+  description: string;
+  status: VenueBillStatus;
+  expires_at: string;
+  paid_at: string | null;
+  created_at: string;
+  // Staff view only: the signed code to show while the bill is payable
+  token?: string | null;
+}
+
+export interface VenueBillPaymentResult {
+  success: boolean;
+  transactionId?: string;
+  newBalance?: number;
+  error?: string;
+}
+
+// Bill codes start with this prefix; anything else scanned is not a Quilox bill
+export const BILL_TOKEN_PREFIX = 'QLXBILL.';
+
+const toBill = (row: any): VenueBill => ({ ...row, amount: Number(row.amount) });
+
+// ==================== VENUE BILL MANAGER ====================
+
+class VenueBillManager {
+  /**
+   * Look up a scanned code. Fails if the code is altered, expired, paid or cancelled.
+   */
+  async scan(token: string): Promise<{ success: boolean; bill?: VenueBill; error?: string }> {
+    if (!token.startsWith(BILL_TOKEN_PREFIX)) {
+      return { success: false, error: 'This QR code is not a Quilox bill' };
+    }
+
+    try {
+      const response = await backendApi.post<{ data: VenueBill }>('/api/bills/scan', { token });
+      return { success: true, bill: toBill(response.data) };
+    } catch (error: any) {
+      console.error('Failed to read bill code:', error);
+      return { success: false, error: error.message || 'Could not read this bill' };
+    }
+  }
+
+  /**
+   * Pay a scanned bill from the Privé wallet
+   */
+  async pay(token: string): Promise<VenueBillPaymentResult> {
+    const reference = `QLXBILL-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
+
+    try {
+      console.info('Paying venue bill from wallet:', { reference });
+
+      const response = await backendApi.post<{ data: { transaction_id: string; new_balance: number } }>(
+        '/api/bills/pay',
+        { token, reference }
+      );
+      return {
+        success: true,
+        transactionId: response.data.transaction_id,
+        newBalance: Number(response.data.new_balance),
+      };
+    } catch (error: any) {
+      console.error('Venue bill payment error:', error);
+      return { success: false, error: error.message || 'Payment failed' };
+    }
+  }
+
+  // ==================== STAFF ====================
+
+  async createBill(request: {
+    tableId: string | null;
+    amount: number;
+    description: string;
+    expiresInMinutes?: number;
+  }): Promise<{ success: boolean; bill?: VenueBill; error?: string }> {
+    try {
+      const response = await backendApi.post<{ data: VenueBill }>('/api/admin/bills', {
+        table_id: request.tableId,
+        amount: request.amount,
+        description: request.description.trim(),
+        expires_in_minutes: request.expiresInMinutes,
+      });
+      return { success: true, bill: toBill(response.data) };
+    } catch (error: any) {
+      console.error('Failed to create bill:', error);
+      return { success: false, error: error.message || 'Could not create the bill' };
+    }
+  }
+
+  /**
+   * Bills raised in the last day, newest first
+   */
+  async getRecentBills(): Promise<VenueBill[]> {
+    try {
+      const response = await backendApi.get<{ data: VenueBill[] }>('/api/admin/bills');
+      return (response.data || []).map(toBill);
+    } catch (error) {
+      console.error('Failed to fetch bills:', error);
+      return [];
+    }
+  }
+
+  async voidBill(billId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await backendApi.post(`/api/admin/bills/${billId}/void`);
+      return { success: true };
+    } catch (error: any) {
+      console.error('Failed to void bill:', error);
+      return { success: false, error: error.message || 'Could not cancel the bill' };
+    }
+  }
+}
+
+// Export singleton instance
+export const venueBillManager = new VenueBillManager();
@@ -0,0 +1,114 @@
+/**
+ * Table Waitlist
+ * Guests wait for a table, a section or any table on a night. When a booking is
+ * cancelled the table is held for the first guest in line it suits, who then has
+ * WAITLIST_OFFER_MINUTES to pay the booking fee and claim it.
+ */
+
+import { supabase, type TableArea } from './supabase';
+
+// ==================== TYPES & INTERFACES ====================
+
+export type WaitlistScope = 'table' | 'section' | 'any';
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled';
+
+export interface WaitlistEntry {
+  id: string;
+  booking_date: string;
+  session_id: string | null;
+  session_name: string | null;
+  scope: WaitlistScope;
+  table_id: string | null;
+  table_name: string | null;
+  section: TableArea['section'] | null;
+  guest_count: number;
+  status: WaitlistStatus;
+  queue_position: number | null; // 1 is next in line; only while waiting
+  offered_table: TableArea | null;
+  offered_session_id: string | null;
+  offer_hold_id: string | null;
+  offer_expires_at: string | null;
+  created_at: string;
+}
+
+export interface JoinWaitlistRequest {
+  bookingDate: string; // YYYY-MM-DD
+  sessionId?: string | null; // omit to wait for any session that night
+  scope: WaitlistScope;
+  tableId?: string;
+  section?: TableArea['section'];
+  guestCount: number;
+}
+
+// How long an offered table is held for the guest
+export const WAITLIST_OFFER_MINUTES = 30;
+
+/**
+ * "VIP table 4", "Any VIP table", "Any table"
+ */
+export const describeWaitlistTarget = (entry: Pick<WaitlistEntry, 'scope' | 'table_name' | 'section'>): string => {
+  switch (entry.scope) {
+    case 'table': return entry.table_name || 'A specific table';
+    case 'section': return `Any ${entry.section} table`;
+    default: return 'Any table';
+  }
+};
+
+// ==================== WAITLIST MANAGER ====================
+
+class WaitlistManager {
+  async join(request: JoinWaitlistRequest): Promise<{ success: boolean; entryId?: string; error?: string }> {
+    const { data, error } = await supabase.rpc('join_waitlist', {
+      p_booking_date: request.bookingDate,
+      p_session_id: request.sessionId ?? null,
+      p_scope: request.scope,
+      p_table_id: request.tableId ?? null,
+      p_section: request.section ?? null,
+      p_guest_count: request.guestCount,
+    });
+
+    if (error) {
+      console.error('join_waitlist failed:', error);
+      return {
+        success: false,
+        error: error.code === '23505' ? 'You are already on the waitlist for this night' : error.message,
+      };
+    }
+
+    const entry = Array.isArray(data) ? data[0] : data;
+    console.info('Joined waitlist:', entry?.id);
+    return { success: true, entryId: entry?.id };
+  }
+
+  /**
+   * Leave the waitlist, or decline an offer so the table goes to the next guest
+   */
+  async leave(entryId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase.rpc('leave_waitlist', { p_entry_id: entryId });
+
+    if (error) {
+      console.error('leave_waitlist failed:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * The member's waiting entries and open offers, with their place in line
+   */
+  async getMyEntries(): Promise<WaitlistEntry[]> {
+    const { data, error } = await supabase.rpc('get_my_waitlist');
+
+    if (error) {
+      console.error('Failed to fetch waitlist:', error);
+      return [];
+    }
+
+    return (data || []) as WaitlistEntry[];
+  }
+}
+
+// Export singleton instance
+export const waitlistManager = new WaitlistManager();
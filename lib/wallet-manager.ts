@@ -4,7 +4,9 @@
  */
 
 import { config } from '@/config/environment';
-import { paystackClient } from './paystack';
+import { AppErrorCode, ERROR_MESSAGES } from './api-response';
+import { backendApi } from './backend-api';
+import { paymentProvider, type VirtualAccountDetails } from './payment-provider';
 import { supabase } from './supabase';
 
 // ==================== DATABASE TYPES ====================
@@ -22,6 +24,11 @@ export interface UserWallet {
   status: 'active' | 'inactive' | 'suspended';
   is_prive_qualified: boolean;
   prive_qualified_at: string | null;
+  provider: string | null;
+  provider_customer_code: string | null;
+  tier_id: string | null; // see lib/membership.ts
+  rolling_spend: number;
+  tier_updated_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -33,6 +40,98 @@ export interface PriveQualification {
   nextMilestone?: number;
 }
 
+export interface LedgerEntryRequest {
+  walletId: string;
+  amount: number;
+  reference: string;
+  description: string;
+  paymentMethod?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface LedgerResult {
+  success: boolean;
+  transactionId?: string;
+  newBalance?: number;
+  alreadyApplied?: boolean;
+  errorCode?: AppErrorCode;
+  error?: string;
+}
+
+export interface WalletBeneficiary {
+  id: string;
+  user_id: string;
+  bank_code: string;
+  bank_name: string;
+  account_number: string;
+  account_name: string;
+  created_at: string;
+}
+
+export interface WalletWithdrawal {
+  id: string;
+  reference: string;
+  amount: number;
+  status: 'pending' | 'completed' | 'failed';
+  description: string;
+  metadata: Record<string, any>;
+  created_at: string;
+}
+
+export interface TransferRecipient {
+  wallet_id: string;
+  display_name: string;
+  handle: string | null;
+}
+
+export interface TransferResult {
+  success: boolean;
+  reference?: string;
+  transactionId?: string;
+  newBalance?: number;
+  errorCode?: AppErrorCode;
+  error?: string;
+}
+
+export type TransactionType = 'credit' | 'debit';
+export type TransactionStatus = 'pending' | 'completed' | 'failed';
+
+export interface WalletTransaction {
+  id: string;
+  wallet_id: string;
+  type: TransactionType;
+  amount: number;
+  status: TransactionStatus;
+  reference: string;
+  description: string | null;
+  payment_method: string | null;
+  balance_after: number | null;
+  metadata: Record<string, any>;
+  created_at: string;
+}
+
+export interface TransactionFilters {
+  type?: TransactionType;
+  status?: TransactionStatus;
+  paymentMethods?: string[];
+  from?: Date;
+  to?: Date;
+  search?: string;
+}
+
+export interface TransactionPage {
+  transactions: WalletTransaction[];
+  hasMore: boolean;
+}
+
+export const TRANSACTION_PAGE_SIZE = 20;
+
+export type StatementFormat = 'csv' | 'pdf';
+
+export const MIN_WITHDRAWAL_AMOUNT = 1000; // NGN, enforced by the backend
+export const MIN_TRANSFER_AMOUNT = 100; // NGN, enforced by wallet_transfer
+export const DAILY_TRANSFER_LIMIT = 500000; // NGN per Lagos day, enforced by wallet_transfer
+
 // ==================== WALLET MANAGER CLASS ====================
 
 class WalletManager {
@@ -151,22 +250,24 @@ class WalletManager {
         lastName: profile.last_name,
         email: user.email || '',
         phone: profile.phone,
+        bvn: profile.bvn,
       };
 
-      console.info('Creating virtual account:', accountRequest);
+      console.info('Creating virtual account:', { ...accountRequest, bvn: undefined });
 
-      const accountResponse = await paystackClient.createDedicatedAccount(accountRequest);
+      // Uses the configured provider, failing over to the fallbacks
+      const accountResponse = await paymentProvider.createVirtualAccount(accountRequest);
 
-      // Handle Paystack account creation result
-      let accountData;
+      // Handle account creation result
+      let accountData: VirtualAccountDetails;
       if (!accountResponse.success || !accountResponse.data) {
         // Only allow mock accounts in development
         if (config.isProduction) {
-          console.error('Paystack account creation failed in production:', accountResponse.error);
+          console.error('Virtual account creation failed in production:', accountResponse.error);
           throw new Error('Failed to create virtual account. Please try again later.');
         }
         
-        console.warn('Paystack account creation failed, using mock account for testing:', accountResponse.error);
+        console.warn('Virtual account creation failed, using mock account for testing:', accountResponse.error);
         accountData = {
           accountNumber: `MOCK${Date.now()}`,
           accountName: `${accountRequest.firstName} ${accountRequest.lastName}`,
@@ -175,6 +276,7 @@ class WalletManager {
           reference: `mock-${userId}`,
         };
       } else {
+        console.info('Virtual account created with provider:', accountResponse.provider);
         accountData = accountResponse.data;
       }
 
@@ -187,6 +289,9 @@ class WalletManager {
           account_name: accountData.accountName,
           bank_name: accountData.bankName,
           bank_code: accountData.bankCode,
+          // Lets the payment webhook match transfers into this account
+          provider: accountResponse.success ? accountResponse.provider : null,
+          provider_customer_code: accountData.customerCode ?? null,
           balance: 0,
           currency: 'NGN',
           status: 'active',
@@ -260,6 +365,363 @@ class WalletManager {
     }
   }
 
+  /**
+   * Credit a wallet through the wallet_credit ledger function.
+   * The database only accepts credits from the service role, so in the app this
+   * is for flows the backend has already authorised; top-ups are credited by the
+   * payment webhook.
+   */
+  async credit(request: LedgerEntryRequest): Promise<LedgerResult> {
+    return this.applyLedgerEntry('wallet_credit', request);
+  }
+
+  /**
+   * Debit a wallet through the wallet_debit ledger function.
+   * The balance check, debit and transaction insert happen in one database
+   * transaction, so concurrent payments can never overdraw the wallet.
+   */
+  async debit(request: LedgerEntryRequest): Promise<LedgerResult> {
+    return this.applyLedgerEntry('wallet_debit', request);
+  }
+
+  private async applyLedgerEntry(
+    fn: 'wallet_credit' | 'wallet_debit',
+    request: LedgerEntryRequest
+  ): Promise<LedgerResult> {
+    try {
+      console.info(`Applying ${fn}:`, { walletId: request.walletId, amount: request.amount, reference: request.reference });
+
+      const { data, error } = await supabase.rpc(fn, {
+        p_wallet_id: request.walletId,
+        p_amount: request.amount,
+        p_reference: request.reference,
+        p_description: request.description,
+        p_payment_method: request.paymentMethod ?? (fn === 'wallet_debit' ? 'wallet' : null),
+        p_metadata: request.metadata ?? {},
+      });
+
+      if (error) {
+        console.error(`${fn} failed:`, error);
+        const errorCode = this.mapLedgerError(error.code);
+        return {
+          success: false,
+          errorCode,
+          error: errorCode === AppErrorCode.UNKNOWN_ERROR ? error.message : ERROR_MESSAGES[errorCode],
+        };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return {
+        success: true,
+        transactionId: row?.transaction_id,
+        newBalance: Number(row?.new_balance ?? 0),
+        alreadyApplied: row?.already_applied === true,
+      };
+    } catch (error: any) {
+      console.error(`${fn} error:`, error);
+      return {
+        success: false,
+        errorCode: AppErrorCode.UNKNOWN_ERROR,
+        error: error.message || 'Wallet operation failed',
+      };
+    }
+  }
+
+  private mapLedgerError(code?: string): AppErrorCode {
+    switch (code) {
+      case '23514': return AppErrorCode.WALLET_INSUFFICIENT_FUNDS;
+      case '55000': return AppErrorCode.WALLET_INACTIVE;
+      case '23505': return AppErrorCode.VALIDATION_DUPLICATE_ENTRY;
+      case '42501': return AppErrorCode.AUTH_INSUFFICIENT_PERMISSIONS;
+      case 'P0002': return AppErrorCode.DB_RECORD_NOT_FOUND;
+      case '22023': return AppErrorCode.VALIDATION_OUT_OF_RANGE;
+      default: return AppErrorCode.UNKNOWN_ERROR;
+    }
+  }
+
+  /**
+   * Saved bank accounts the user can withdraw to
+   */
+  async getBeneficiaries(userId: string): Promise<WalletBeneficiary[]> {
+    const { data, error } = await supabase
+      .from('wallet_beneficiaries')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Failed to fetch beneficiaries:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Save a bank account. The backend resolves the account name with the bank.
+   */
+  async addBeneficiary(request: {
+    bankCode: string;
+    bankName: string;
+    accountNumber: string;
+  }): Promise<{ success: boolean; beneficiary?: WalletBeneficiary; error?: string }> {
+    try {
+      const response = await backendApi.post<{ data: WalletBeneficiary }>('/api/wallet/beneficiaries', {
+        bank_code: request.bankCode,
+        bank_name: request.bankName,
+        account_number: request.accountNumber,
+      });
+
+      console.info('Beneficiary saved:', response.data.id);
+      return { success: true, beneficiary: response.data };
+    } catch (error: any) {
+      console.error('Failed to save beneficiary:', error);
+      return { success: false, error: error.message || 'Could not verify this account' };
+    }
+  }
+
+  async removeBeneficiary(beneficiaryId: string): Promise<{ success: boolean; error?: string }> {
+    const { error } = await supabase
+      .from('wallet_beneficiaries')
+      .delete()
+      .eq('id', beneficiaryId);
+
+    if (error) {
+      console.error('Failed to remove beneficiary:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Withdraw to a saved beneficiary.
+   * The amount leaves the available balance immediately and is held as a pending
+   * debit; it is finalized when the bank confirms the transfer, or returned if it fails.
+   */
+  async withdraw(request: {
+    beneficiaryId: string;
+    amount: number;
+  }): Promise<{ success: boolean; reference?: string; newBalance?: number; error?: string }> {
+    try {
+      console.info('Requesting withdrawal:', { amount: request.amount });
+
+      // The backend assigns the reference
+      const response = await backendApi.post<{ data: { reference: string; new_balance: number } }>(
+        '/api/wallet/withdrawals',
+        { beneficiary_id: request.beneficiaryId, amount: request.amount }
+      );
+
+      return {
+        success: true,
+        reference: response.data.reference,
+        newBalance: Number(response.data.new_balance),
+      };
+    } catch (error: any) {
+      console.error('Withdrawal failed:', error);
+      return { success: false, error: error.message || 'Withdrawal failed' };
+    }
+  }
+
+  /**
+   * Recent withdrawals, newest first
+   */
+  async getWithdrawals(walletId: string, limit = 10): Promise<WalletWithdrawal[]> {
+    const { data, error } = await supabase
+      .from('wallet_transactions')
+      .select('id, reference, amount, status, description, metadata, created_at')
+      .eq('wallet_id', walletId)
+      .eq('type', 'debit')
+      .eq('payment_method', 'bank_transfer')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Failed to fetch withdrawals:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Look up the member a transfer would go to by phone number or Quilox handle.
+   * The name comes back so the sender can confirm it before sending.
+   */
+  async findTransferRecipient(query: string): Promise<{ success: boolean; recipient?: TransferRecipient; error?: string }> {
+    const { data, error } = await supabase.rpc('find_transfer_recipient', { p_query: query.trim() });
+
+    if (error) {
+      console.error('Recipient lookup failed:', error);
+      if (error.code === '21000') {
+        return { success: false, error: 'More than one member uses this number. Try their Quilox handle instead.' };
+      }
+      return { success: false, error: error.code === '55000' ? ERROR_MESSAGES[AppErrorCode.WALLET_INACTIVE] : error.message };
+    }
+
+    const recipient = Array.isArray(data) ? data[0] : data;
+    if (!recipient) {
+      return { success: false, error: ERROR_MESSAGES[AppErrorCode.WALLET_RECIPIENT_NOT_FOUND] };
+    }
+
+    return { success: true, recipient };
+  }
+
+  /**
+   * Send wallet funds to another Privé member.
+   * wallet_transfer debits the sender and credits the recipient in one database
+   * transaction; both entries share the reference and both members are notified.
+   */
+  async transfer(request: {
+    recipientWalletId: string;
+    amount: number;
+    note?: string;
+  }): Promise<TransferResult> {
+    const reference = `QLXP2P-${Date.now()}-${Math.floor(Math.random() * 10000)}`;
+
+    try {
+      console.info('Sending transfer:', { reference, amount: request.amount });
+
+      const { data, error } = await supabase.rpc('wallet_transfer', {
+        p_recipient_wallet_id: request.recipientWalletId,
+        p_amount: request.amount,
+        p_reference: reference,
+        p_note: request.note?.trim() || null,
+      });
+
+      if (error) {
+        console.error('Transfer failed:', error);
+        const errorCode = error.code === '54000'
+          ? AppErrorCode.WALLET_TRANSFER_LIMIT_EXCEEDED
+          : this.mapLedgerError(error.code);
+        return {
+          success: false,
+          errorCode,
+          error: [AppErrorCode.UNKNOWN_ERROR, AppErrorCode.VALIDATION_OUT_OF_RANGE].includes(errorCode)
+            ? error.message
+            : ERROR_MESSAGES[errorCode],
+        };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return {
+        success: true,
+        reference,
+        transactionId: row?.debit_transaction_id,
+        newBalance: Number(row?.new_balance ?? 0),
+      };
+    } catch (error: any) {
+      console.error('Transfer error:', error);
+      return { success: false, errorCode: AppErrorCode.UNKNOWN_ERROR, error: error.message || 'Transfer failed' };
+    }
+  }
+
+  /**
+   * Amount sent by transfer today (Lagos time), for showing the remaining daily limit
+   */
+  async getTransferredToday(walletId: string): Promise<number> {
+    const lagosToday = new Date(Date.now() + 60 * 60 * 1000).toISOString().slice(0, 10);
+    const { data, error } = await supabase
+      .from('wallet_transactions')
+      .select('amount')
+      .eq('wallet_id', walletId)
+      .eq('type', 'debit')
+      .eq('payment_method', 'wallet_transfer')
+      .gte('created_at', new Date(`${lagosToday}T00:00:00+01:00`).toISOString());
+
+    if (error) {
+      console.error('Failed to fetch transfers:', error);
+      return 0;
+    }
+
+    return (data || []).reduce((total, tx) => total + Number(tx.amount), 0);
+  }
+
+  /**
+   * One page of wallet history, newest first
+   */
+  async getTransactions(
+    walletId: string,
+    filters: TransactionFilters = {},
+    page = 0,
+    pageSize = TRANSACTION_PAGE_SIZE
+  ): Promise<TransactionPage> {
+    let query = supabase
+      .from('wallet_transactions')
+      .select('id, wallet_id, type, amount, status, reference, description, payment_method, balance_after, metadata, created_at')
+      .eq('wallet_id', walletId);
+
+    if (filters.type) query = query.eq('type', filters.type);
+    if (filters.status) query = query.eq('status', filters.status);
+    if (filters.paymentMethods?.length) query = query.in('payment_method', filters.paymentMethods);
+    if (filters.from) query = query.gte('created_at', filters.from.toISOString());
+    if (filters.to) query = query.lt('created_at', filters.to.toISOString());
+
+    const search = filters.search?.trim().replace(/[%_,()]/g, ' ');
+    if (search) query = query.ilike('description', `%${search}%`);
+
+    // Fetch one extra row to know whether another page exists
+    const start = page * pageSize;
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .range(start, start + pageSize);
+
+    if (error) {
+      console.error('Failed to fetch transactions:', error);
+      return { transactions: [], hasMore: false };
+    }
+
+    const rows = (data || []).map((tx) => ({
+      ...tx,
+      amount: Number(tx.amount),
+      balance_after: tx.balance_after === null ? null : Number(tx.balance_after),
+    }));
+
+    return { transactions: rows.slice(0, pageSize), hasMore: rows.length > pageSize };
+  }
+
+  /**
+   * A single transaction, for its receipt
+   */
+  async getTransaction(transactionId: string): Promise<WalletTransaction | null> {
+    const { data, error } = await supabase
+      .from('wallet_transactions')
+      .select('id, wallet_id, type, amount, status, reference, description, payment_method, balance_after, metadata, created_at')
+      .eq('id', transactionId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Failed to fetch transaction:', error);
+      return null;
+    }
+
+    return data
+      ? { ...data, amount: Number(data.amount), balance_after: data.balance_after === null ? null : Number(data.balance_after) }
+      : null;
+  }
+
+  /**
+   * Download link for a statement (from/to are inclusive YYYY-MM-DD days).
+   * The link is signed by the backend and expires after a few minutes.
+   */
+  async getStatementUrl(request: {
+    from: string;
+    to: string;
+    format: StatementFormat;
+  }): Promise<{ success: boolean; url?: string; error?: string }> {
+    try {
+      const response = await backendApi.post<{ data: { path: string; expires_at: string } }>(
+        '/api/wallet/statement/link',
+        request
+      );
+      return { success: true, url: `${config.api.baseUrl.replace(/\/$/, '')}${response.data.path}` };
+    } catch (error: any) {
+      console.error('Failed to create statement link:', error);
+      return { success: false, error: error.message || 'Could not create statement' };
+    }
+  }
+
   /**
    * Refresh wallet data
    */